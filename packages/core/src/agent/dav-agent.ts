@@ -3,15 +3,44 @@ import { ChatOpenAI } from '@langchain/openai';
 import { ChatAnthropic } from '@langchain/anthropic';
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import { DavAgentState, PendingAction } from '../types/state.js';
+import { AgentCheckpoint, CredentialSource, DavAgentState, ExplorationLimits, ExplorationScope, ExplorationStrategy, GraphWrite, PendingAction, SafetyPolicy, TestDataOptions, ValidationProbe } from '../types/state.js';
 import { BrowserTools } from '../utils/browser-tools.js';
-import { Neo4jTools } from '../utils/neo4j-tools.js';
+import { GraphStore } from '../utils/graph-store.js';
 import { logger } from '../utils/logger.js';
+import { SecretRedactor } from '../utils/secret-redactor.js';
+import { TestDataGenerator } from '../utils/test-data-generator.js';
+import { UrlNormalizer } from '../utils/url-normalizer.js';
 import { StageContext } from './stages/stage-context.js';
 import { createObserveStage } from './stages/observe-stage.js';
 import { createDecideStage } from './stages/decide-stage.js';
 import { createExecuteStage } from './stages/execute-stage.js';
 import { createPersistStage } from './stages/persist-stage.js';
+import { createBacktrackStage } from './stages/backtrack-stage.js';
+import { createCheckpointStage } from './stages/checkpoint-stage.js';
+import { createSafetyStage } from './stages/safety-stage.js';
+import { ExplorationFrontier } from './helpers/exploration-frontier.js';
+import { ExplorationBudget } from './helpers/exploration-budget.js';
+import { restoreCheckpoint } from './helpers/checkpoint-helpers.js';
+import { returnToState } from './helpers/replay-helpers.js';
+
+/**
+ * Optional settings controlling how the agent explores
+ */
+export interface DavAgentOptions {
+  explorationStrategy?: ExplorationStrategy; // Order in which frontier states are revisited (default: 'dfs')
+  limits?: ExplorationLimits; // Budgets that end the run with BUDGET_EXHAUSTED (default: unlimited)
+  scope?: ExplorationScope; // URL include/exclude patterns (default: the host of the starting URL)
+  safetyPolicy?: SafetyPolicy; // Handling of destructive and logout actions (default: record destructive, defer logout)
+  secretPatterns?: string[]; // Regular expressions for typed values to redact like credentials
+  routePatterns?: string[]; // Route templates such as /users/:id, ahead of the inferred ones (default: none)
+  persona?: string; // Persona the states and transitions are tagged with (campaign sessions)
+  credentialSource?: CredentialSource; // Where the credentials came from (default: 'request' with credentials, 'none' without)
+  testData?: TestDataOptions; // Seed and mode of the values typed into form fields (default: seed 1, valid values)
+}
+
+// Each graph invocation covers a bounded number of steps; the run loop continues from the latest state
+// when it is reached, so exploration length is governed by the exploration limits instead
+const RECURSION_LIMIT = 100;
 
 /**
  * DAV Agent - Main LangGraph StateGraph implementation
@@ -19,30 +48,44 @@ import { createPersistStage } from './stages/persist-stage.js';
 export class DavAgent {
   private graph: StateGraph<DavAgentState>;
   private browserTools: BrowserTools;
-  private neo4jTools: Neo4jTools;
+  private graphStore: GraphStore;
   private llm: BaseChatModel;
   private sessionId: string;
   private credentials?: { username?: string; password?: string };
+  private secrets: SecretRedactor; // Keeps credentials out of history, the graph and logs
+  private urlNormalizer: UrlNormalizer; // Groups URLs by route template, e.g. /users/1 and /users/2
   private loginAttempted: Set<string> = new Set(); // Track URLs where login was attempted
   private loginSuccessful: boolean = false; // Track if login was successful
   private executedTransitions: Set<string> = new Set(); // Track executed transitions to avoid duplicates
   private interactedModalSelectors: Set<string> = new Set(); // Track which modal elements have been interacted with
+  private guardedTransitions: Set<string> = new Set(); // Track actions held back by the safety policy
+  private frontier: ExplorationFrontier = new ExplorationFrontier(); // Track states with untried actions for backtracking
+  private pauseRequested: boolean = false; // Set by requestPause(), honoured after the next checkpoint
+  private budget: ExplorationBudget; // Track usage against the exploration limits
+  private budgetExhaustedReason: string | null = null; // Set when a limit ends the run
   private onTokenUsageCallback?: (inputTokens: number, outputTokens: number) => void; // Callback for tracking token usage
   private stageContext: StageContext;
 
   constructor(
     browserTools: BrowserTools,
-    neo4jTools: Neo4jTools,
+    graphStore: GraphStore,
     llmApiKey: string,
     llmProvider: 'openai' | 'anthropic' | 'gemini' = 'openai',
     llmModel: string = 'gpt-4o',
     sessionId: string = `session-${Date.now()}`,
-    credentials?: { username?: string; password?: string }
+    credentials?: { username?: string; password?: string },
+    options: DavAgentOptions = {}
   ) {
     this.browserTools = browserTools;
-    this.neo4jTools = neo4jTools;
+    this.graphStore = graphStore;
     this.sessionId = sessionId;
     this.credentials = credentials;
+    this.budget = new ExplorationBudget(options.limits);
+    // Secrets survive a successful login (unlike credentials) so replays can still type them
+    this.secrets = new SecretRedactor(credentials, options.secretPatterns);
+    this.browserTools.setSecretResolver((text) => this.secrets.resolve(text));
+    this.urlNormalizer = new UrlNormalizer(options.routePatterns);
+    this.browserTools.setUrlNormalizer(this.urlNormalizer);
     
     // Initialize LLM based on provider
     if (llmProvider === 'anthropic') {
@@ -69,15 +112,32 @@ export class DavAgent {
     // Use object wrappers for mutable state (loginSuccessful, credentials) so changes reflect back
     this.stageContext = {
       browserTools: this.browserTools,
-      neo4jTools: this.neo4jTools,
+      graphStore: this.graphStore,
       llm: this.llm,
       credentials: { value: this.credentials },
+      credentialSource: options.credentialSource ?? (credentials?.username || credentials?.password ? 'request' : 'none'),
+      secrets: this.secrets,
+      urlNormalizer: this.urlNormalizer,
       loginAttempted: this.loginAttempted,
       loginSuccessful: { value: this.loginSuccessful },
+      loginRecipe: {},
+      loginStateKey: {},
+      relogins: { value: 0 },
       executedTransitions: this.executedTransitions,
       interactedModalSelectors: this.interactedModalSelectors,
       sessionId: this.sessionId,
-      onTokenUsageCallback: this.onTokenUsageCallback,
+      entryUrl: '',
+      frontier: this.frontier,
+      explorationStrategy: options.explorationStrategy ?? 'dfs',
+      budget: this.budget,
+      scope: options.scope ?? {},
+      safetyPolicy: options.safetyPolicy ?? {},
+      guardedTransitions: this.guardedTransitions,
+      testData: options.testData ?? {},
+      testDataGenerator: new TestDataGenerator(options.testData?.seed),
+      formStates: new Map(),
+      persona: options.persona,
+      onTokenUsageCallback: (inputTokens: number, outputTokens: number) => this.handleTokenUsage(inputTokens, outputTokens),
     } as StageContext;
 
     // Initialize the StateGraph with state schema
@@ -88,6 +148,10 @@ export class DavAgent {
           reducer: (x: string | undefined, y: string | undefined) => y ?? x ?? '',
           default: () => '',
         },
+        currentStateKey: {
+          reducer: (x: string | undefined, y: string | undefined) => y ?? x ?? '',
+          default: () => '',
+        },
         domState: {
           reducer: (x: string | undefined, y: string | undefined) => y ?? x ?? '',
           default: () => '',
@@ -100,35 +164,37 @@ export class DavAgent {
           },
           default: () => [],
         },
-        neo4jQueries: {
-          reducer: (x: string[] | undefined, y: string[] | undefined) => {
-            const xArr = x ?? [];
-            const yArr = y ?? [];
-            return [...xArr, ...yArr];
+        graphWrites: {
+          // An empty update clears the writes once persist_data has applied them
+          reducer: (x: GraphWrite[] | undefined, y: GraphWrite[] | undefined) => {
+            if (y === undefined) {
+              return x ?? [];
+            }
+            return y.length === 0 ? [] : [...(x ?? []), ...y];
           },
           default: () => [],
         },
         explorationStatus: {
           reducer: (x: string | undefined, y: string | undefined) => {
-            return (y ?? x ?? 'CONTINUE') as 'CONTINUE' | 'FLOW_END' | 'FAILURE';
+            return (y ?? x ?? 'CONTINUE') as DavAgentState['explorationStatus'];
           },
           default: () => 'CONTINUE' as const,
         },
         pendingAction: {
-          reducer: (x: PendingAction | null | undefined, y: PendingAction | null | undefined) => y ?? x ?? null,
+          reducer: (x: PendingAction | null | undefined, y: PendingAction | null | undefined) => y !== undefined ? y : x ?? null,
           default: () => null,
         },
         pendingActions: {
           reducer: (x: PendingAction[] | undefined, y: PendingAction[] | undefined) => {
-            // If new actions are provided, use them; otherwise keep existing
-            if (y && y.length > 0) {
+            // If new actions are provided, use them (an empty array clears them); otherwise keep existing
+            if (y !== undefined) {
               return y;
             }
             return x ?? [];
           },
           default: () => [],
         },
-        visitedFingerprints: {
+        visitedStateKeys: {
           reducer: (x: string[] | undefined, y: string[] | undefined) => {
             const xArr = x ?? [];
             const yArr = y ?? [];
@@ -138,24 +204,46 @@ export class DavAgent {
           },
           default: () => [],
         },
+        pendingProbe: {
+          reducer: (x: ValidationProbe | null | undefined, y: ValidationProbe | null | undefined) => y !== undefined ? y : x ?? null,
+          default: () => null,
+        },
+        heldBack: {
+          reducer: (x: boolean | undefined, y: boolean | undefined) => y ?? x ?? false,
+          default: () => false,
+        },
       },
     });
 
     // Add nodes using extracted stage handlers
     this.graph.addNode('observe_state', createObserveStage(this.stageContext));
     this.graph.addNode('decide_action', createDecideStage(this.stageContext));
+    this.graph.addNode('safety_check', createSafetyStage(this.stageContext));
     this.graph.addNode('execute_tool', createExecuteStage(this.stageContext));
     this.graph.addNode('persist_data', createPersistStage(this.stageContext));
+    this.graph.addNode('checkpoint_state', createCheckpointStage(this.stageContext));
+    this.graph.addNode('backtrack_frontier', createBacktrackStage(this.stageContext));
 
     // Define edges - LangGraph API
     // Using type assertions to work around TypeScript strict typing
     const graph = this.graph as any;
     graph.setEntryPoint('observe_state');
     graph.addEdge('observe_state', 'decide_action');
-    graph.addEdge('decide_action', 'execute_tool');
+    graph.addEdge('decide_action', 'safety_check');
+    graph.addConditionalEdges('safety_check', this.routeAfterSafetyCheck.bind(this), {
+      EXECUTE: 'execute_tool',
+      SKIP: 'persist_data',
+    });
     graph.addEdge('execute_tool', 'persist_data');
-    graph.addConditionalEdges('persist_data', this.shouldContinue.bind(this), {
+    graph.addEdge('persist_data', 'checkpoint_state');
+    graph.addConditionalEdges('checkpoint_state', this.shouldContinue.bind(this), {
+      CONTINUE: 'observe_state',
+      BACKTRACK: 'backtrack_frontier',
+      END: END,
+    });
+    graph.addConditionalEdges('backtrack_frontier', this.shouldContinue.bind(this), {
       CONTINUE: 'observe_state',
+      BACKTRACK: 'backtrack_frontier',
       END: END,
     });
   }
@@ -163,12 +251,36 @@ export class DavAgent {
 
   /**
    * Conditional edge function for routing
+   * A finished branch backtracks while the frontier still has states with untried actions
+   * A pause request ends the graph right after the checkpoint so the run can be resumed from it
+   * Exceeding an exploration limit ends the graph before any further step
    */
   private shouldContinue(state: DavAgentState): string {
+    let route = 'END';
     if (state.explorationStatus === 'CONTINUE') {
-      return 'CONTINUE';
+      route = 'CONTINUE';
+    } else if (state.explorationStatus === 'FLOW_END' && this.frontier.hasPendingStates()) {
+      route = 'BACKTRACK';
+    }
+
+    if (route !== 'END') {
+      this.budgetExhaustedReason = this.budget.getExhaustedReason(this.frontier.getStateCount());
+      if (this.budgetExhaustedReason) {
+        return 'END';
+      }
     }
-    return 'END';
+    if (this.pauseRequested) {
+      return 'END';
+    }
+    return route;
+  }
+
+  /**
+   * Conditional edge after safety_check
+   * Batches held back by the safety policy skip execute_tool; everything else continues as before
+   */
+  private routeAfterSafetyCheck(state: DavAgentState): string {
+    return state.heldBack ? 'SKIP' : 'EXECUTE';
   }
 
   /**
@@ -183,8 +295,30 @@ export class DavAgent {
    */
   setTokenUsageCallback(callback: (inputTokens: number, outputTokens: number) => void): void {
     this.onTokenUsageCallback = callback;
-    // Update stage context with new callback
-    this.stageContext.onTokenUsageCallback = callback;
+  }
+
+  /**
+   * Record token usage against the budget and forward it to the registered callback
+   */
+  private handleTokenUsage(inputTokens: number, outputTokens: number): void {
+    this.budget.recordTokens(inputTokens, outputTokens);
+    this.onTokenUsageCallback?.(inputTokens, outputTokens);
+  }
+
+  /**
+   * Get the limit that ended the last run (null if it did not end on a budget)
+   */
+  getBudgetExhaustedReason(): string | null {
+    return this.budgetExhaustedReason;
+  }
+
+  /**
+   * Ask the agent to stop after the current step has been checkpointed
+   * run() then resolves with the PAUSED status
+   */
+  requestPause(): void {
+    this.pauseRequested = true;
+    logger.info('AGENT', 'Pause requested - stopping after the next checkpoint', undefined, this.sessionId);
   }
 
   /**
@@ -195,28 +329,68 @@ export class DavAgent {
     this.credentials = this.stageContext.credentials.value;
   }
 
+  /**
+   * Resume an exploration from a checkpoint
+   * Restores the stage context, returns the browser to the checkpointed state and continues the run
+   */
+  async resume(checkpoint: AgentCheckpoint): Promise<DavAgentState> {
+    logger.info('AGENT', `[resume] Resuming from checkpoint saved at ${checkpoint.savedAt}`, {
+      currentUrl: checkpoint.state.currentUrl,
+      actionCount: checkpoint.state.actionHistory.length,
+    }, this.sessionId);
+
+    restoreCheckpoint(this.stageContext, checkpoint);
+    this.syncStateFromContext();
+
+    // Replay the known path so modals and in-page state are restored, fall back to the plain URL
+    await returnToState(
+      this.browserTools,
+      checkpoint.entryUrl,
+      this.frontier.getCurrentState(),
+      checkpoint.state.currentUrl,
+      this.sessionId
+    );
+
+    // A branch that had ended is re-observed and backtracks from there
+    return this.run(checkpoint.entryUrl, {
+      ...checkpoint.state,
+      graphWrites: [], // Checkpoints are saved after persist_data
+      explorationStatus: 'CONTINUE',
+    });
+  }
+
   /**
    * Run the agent starting from a given URL
+   * When resuming, resumeState replaces the fresh initial state
    */
-  async run(startingUrl: string): Promise<DavAgentState> {
+  async run(startingUrl: string, resumeState?: DavAgentState): Promise<DavAgentState> {
       logger.info('AGENT', `[run] Starting run method`, {
       startingUrl,
+      resuming: !!resumeState,
     }, this.sessionId);
     
+    this.pauseRequested = false;
+    this.budgetExhaustedReason = null;
+    this.budget.start();
+
     try {
       logger.info('AGENT', '[run] Compiling graph...', undefined, this.sessionId);
       const compiledGraph = this.compile();
+      this.stageContext.entryUrl = startingUrl;
       logger.info('AGENT', '[run] Graph compiled successfully', undefined, this.sessionId);
 
-      const initialState: DavAgentState = {
+      const initialState: DavAgentState = resumeState ?? {
         currentUrl: startingUrl,
+        currentStateKey: '',
         domState: '',
         actionHistory: [],
-        neo4jQueries: [],
+        graphWrites: [],
         explorationStatus: 'CONTINUE',
         pendingAction: null,
         pendingActions: [],
-        visitedFingerprints: [],
+        visitedStateKeys: [],
+        pendingProbe: null,
+        heldBack: false,
       };
 
       let currentState = initialState;
@@ -225,30 +399,49 @@ export class DavAgent {
 
       while (currentState.explorationStatus === 'CONTINUE') {
         try {
-          // Set recursion limit - each cycle through the graph (observe -> decide -> execute -> persist) is multiple steps
-          const result = await compiledGraph.invoke(currentState, {
-            recursionLimit: 100,
+          // Stream full state values so the latest state survives hitting the recursion limit
+          const stream = await compiledGraph.stream(currentState, {
+            recursionLimit: RECURSION_LIMIT,
+            streamMode: 'values',
           } as any);
-          currentState = result as DavAgentState;
+          for await (const value of stream) {
+            currentState = value as DavAgentState;
+          }
+
+          if (this.budgetExhaustedReason) {
+            currentState = {
+              ...currentState,
+              explorationStatus: 'BUDGET_EXHAUSTED',
+              actionHistory: [...currentState.actionHistory, `[BUDGET] ${this.budgetExhaustedReason}. Exploration stopped.`],
+            };
+            logger.info('AGENT', `[run] Exploration budget exhausted: ${this.budgetExhaustedReason}`, undefined, this.sessionId);
+            break;
+          }
+
+          if (this.pauseRequested) {
+            currentState = { ...currentState, explorationStatus: 'PAUSED' };
+            logger.info('AGENT', '[run] Exploration paused', undefined, this.sessionId);
+            break;
+          }
 
           logger.info('AGENT', `[run] Status: ${currentState.explorationStatus}`, undefined, this.sessionId);
         } catch (error) {
-          // Check if it's a recursion limit error - if FLOW_END was already set, treat as success
+          // The recursion limit only bounds a single graph invocation - continue from the latest state
           if (error instanceof Error && error.message.includes('Recursion limit')) {
-            // If we already have FLOW_END status, the exploration completed successfully
-            // The recursion limit was hit but the graph had already decided to end
-            if (currentState.explorationStatus === 'FLOW_END') {
+            // If we already have FLOW_END status and nothing left to backtrack to, the exploration completed successfully
+            if (currentState.explorationStatus === 'FLOW_END' && !this.frontier.hasPendingStates()) {
               logger.info('AGENT', `[run] Recursion limit reached but exploration completed successfully`, {
                 status: currentState.explorationStatus,
               }, this.sessionId);
               break;
             }
-            // Otherwise, it's a failure
-            logger.error('AGENT', `[run] Recursion limit reached before completion`, { 
-              error: error instanceof Error ? error.message : String(error),
-            }, this.sessionId);
-            currentState.explorationStatus = 'FAILURE';
-            break;
+            if (currentState.explorationStatus === 'FAILURE') {
+              break;
+            }
+            // A branch that had ended is re-observed and backtracks from there
+            logger.info('AGENT', `[run] Recursion limit reached - continuing from the latest state`, undefined, this.sessionId);
+            currentState = { ...currentState, explorationStatus: 'CONTINUE' };
+            continue;
           }
           
           logger.error('AGENT', `[run] Error in exploration`, { 
@@ -0,0 +1,42 @@
+/**
+ * Accessibility Helpers - Utilities for turning the axe-core violations of a state into graph writes
+ */
+
+import { AccessibilityViolation, UpsertAccessibilityViolation } from '../../types/state.js';
+import { StageContext } from '../stages/stage-context.js';
+import { buildHashKey } from './key-helpers.js';
+
+const MAX_HTML_LENGTH = 500;
+
+/**
+ * Identify a violation by its rule and component - the same header or menu on several states is one violation
+ * Whitespace and numbers are ignored, so counters and generated ids don't split a component
+ */
+export function buildViolationKey(violation: AccessibilityViolation): string {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').replace(/\d+/g, '#').trim();
+  return buildHashKey([violation.ruleId, normalize(violation.selector), normalize(violation.html)]);
+}
+
+/**
+ * Build one write per violated rule and component of a state; secrets are redacted from the markup
+ */
+export function buildAccessibilityWrites(
+  violations: AccessibilityViolation[],
+  context: StageContext,
+  stateKey: string
+): UpsertAccessibilityViolation[] {
+  const writes = new Map<string, UpsertAccessibilityViolation>();
+  violations.forEach((violation) => {
+    const html = context.secrets.redact(violation.html).substring(0, MAX_HTML_LENGTH);
+    const violationKey = buildViolationKey({ ...violation, html });
+    writes.set(violationKey, {
+      kind: 'upsertAccessibilityViolation',
+      ...violation,
+      html,
+      violationKey,
+      stateKey,
+      sessionId: context.sessionId,
+    });
+  });
+  return Array.from(writes.values());
+}
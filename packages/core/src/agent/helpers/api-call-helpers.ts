@@ -0,0 +1,51 @@
+/**
+ * API Call Helpers - Utilities for turning the network traffic of an action batch into graph writes
+ */
+
+import { ApiCall, UpsertApiEndpoint } from '../../types/state.js';
+import { SecretRedactor } from '../../utils/secret-redactor.js';
+
+/**
+ * Redact secrets from the URLs of API calls before they are logged or stored
+ * Pages may pass tokens or credentials in paths and query strings, which the HAR export would otherwise expose
+ */
+export function redactApiCalls(calls: ApiCall[], secrets: SecretRedactor): ApiCall[] {
+  return calls.map((call) => ({ ...call, url: secrets.redactUrl(call.url), urlTemplate: secrets.redactUrl(call.urlTemplate) }));
+}
+
+/**
+ * Build one ApiEndpoint write per endpoint (method and URL template) the calls reached
+ * The latest call of an endpoint provides its status and duration
+ */
+export function buildApiEndpointWrites(
+  calls: ApiCall[],
+  fromStateKey: string,
+  action: string,
+  sessionId: string,
+  selector?: string
+): UpsertApiEndpoint[] {
+  const endpoints = new Map<string, UpsertApiEndpoint>();
+  calls.forEach((call) => {
+    endpoints.set(`${call.method} ${call.urlTemplate}`, {
+      kind: 'upsertApiEndpoint',
+      method: call.method,
+      urlTemplate: call.urlTemplate,
+      fromStateKey,
+      action,
+      sessionId,
+      selector,
+      status: call.status,
+      durationMs: call.durationMs,
+    });
+  });
+  return Array.from(endpoints.values());
+}
+
+/**
+ * Describe API calls for the logs, e.g. "GET /api/users/:id 200"
+ */
+export function describeApiCalls(calls: ApiCall[]): string {
+  return calls
+    .map((call) => `${call.method} ${call.urlTemplate.replace(/^[a-z]+:\/\/[^/]+/i, '')} ${call.status || call.failure || 'failed'}`)
+    .join(', ');
+}
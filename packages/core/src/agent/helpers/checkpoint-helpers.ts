@@ -0,0 +1,99 @@
+/**
+ * Checkpoint Helpers - Utilities for capturing and restoring the agent state between runs
+ */
+
+import { AgentCheckpoint, DavAgentState } from '../../types/state.js';
+import { StageContext } from '../stages/stage-context.js';
+import { TestDataGenerator } from '../../utils/test-data-generator.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Capture the graph state, the stage context sets and the browser storage state
+ */
+export async function buildCheckpoint(context: StageContext, state: DavAgentState): Promise<AgentCheckpoint> {
+  let storageState: AgentCheckpoint['storageState'];
+  try {
+    storageState = await context.browserTools.getStorageState();
+  } catch (error) {
+    // The checkpoint is still useful without cookies - the agent will log in again if needed
+    logger.warn('CHECKPOINT', 'Could not capture browser storage state', {
+      error: error instanceof Error ? error.message : String(error),
+    }, context.sessionId);
+  }
+
+  return {
+    state: {
+      ...state,
+      graphWrites: [], // Already persisted by persist_data
+    },
+    entryUrl: context.entryUrl,
+    explorationStrategy: context.explorationStrategy,
+    executedTransitions: Array.from(context.executedTransitions),
+    loginAttempted: Array.from(context.loginAttempted),
+    loginSuccessful: context.loginSuccessful.value,
+    loginRecipe: context.loginRecipe.value,
+    loginStateKey: context.loginStateKey.value,
+    relogins: context.relogins.value,
+    credentialSource: context.credentialSource,
+    secrets: context.secrets.toSnapshot(),
+    interactedModalSelectors: Array.from(context.interactedModalSelectors),
+    frontier: context.frontier.toSnapshot(),
+    limits: context.budget.getLimits(),
+    budgetUsage: context.budget.getUsage(),
+    scope: context.scope,
+    safetyPolicy: context.safetyPolicy,
+    routePatterns: context.urlNormalizer.getPatterns(),
+    guardedTransitions: Array.from(context.guardedTransitions),
+    storageState,
+    persona: context.persona,
+    testData: context.testData,
+    testDataState: context.testDataGenerator.toSnapshot(),
+    formStates: Object.fromEntries(context.formStates),
+    savedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Restore the stage context from a checkpoint
+ * Sets are refilled in place because the agent holds references to the same instances
+ * Secret values are not part of checkpoints - placeholders typed before the checkpoint resolve only if their
+ * values (credentials) were passed to the resumed agent again
+ */
+export function restoreCheckpoint(context: StageContext, checkpoint: AgentCheckpoint): void {
+  context.entryUrl = checkpoint.entryUrl;
+  context.explorationStrategy = checkpoint.explorationStrategy;
+  context.scope = checkpoint.scope ?? {};
+  context.safetyPolicy = checkpoint.safetyPolicy ?? {};
+  context.urlNormalizer.setPatterns(checkpoint.routePatterns ?? []);
+  context.persona = checkpoint.persona;
+  context.testData = checkpoint.testData ?? {};
+  context.testDataGenerator = new TestDataGenerator(context.testData.seed);
+  if (checkpoint.testDataState) {
+    context.testDataGenerator.restore(checkpoint.testDataState);
+  }
+
+  context.executedTransitions.clear();
+  checkpoint.executedTransitions.forEach((key) => context.executedTransitions.add(key));
+  context.loginAttempted.clear();
+  checkpoint.loginAttempted.forEach((url) => context.loginAttempted.add(url));
+  context.interactedModalSelectors.clear();
+  checkpoint.interactedModalSelectors.forEach((selector) => context.interactedModalSelectors.add(selector));
+  context.guardedTransitions.clear();
+  (checkpoint.guardedTransitions ?? []).forEach((key) => context.guardedTransitions.add(key));
+  context.formStates.clear();
+  Object.entries(checkpoint.formStates ?? {}).forEach(([stateKey, formStateKey]) => context.formStates.set(stateKey, formStateKey));
+
+  context.loginSuccessful.value = checkpoint.loginSuccessful;
+  if (checkpoint.loginSuccessful) {
+    // Credentials are cleared after a successful login to prevent reuse
+    context.credentials.value = undefined;
+  }
+  context.loginRecipe.value = checkpoint.loginRecipe;
+  context.loginStateKey.value = checkpoint.loginStateKey;
+  context.relogins.value = checkpoint.relogins;
+  // The credential source is not restored: the agent was rebuilt with the credentials of the resumed run
+  context.secrets.restore(checkpoint.secrets);
+
+  context.frontier.restore(checkpoint.frontier);
+  context.budget.restore(checkpoint.limits, checkpoint.budgetUsage);
+}
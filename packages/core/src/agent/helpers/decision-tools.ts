@@ -0,0 +1,145 @@
+/**
+ * Decision Tools - Structured tools the decide stage binds to the LLM
+ * Each tool call is validated against its zod schema and converted to a PendingAction
+ * Elements are referenced by their index in the observation's element registry, not by selector
+ */
+
+import { z } from 'zod';
+import { ToolCall } from '@langchain/core/messages/tool';
+import { PendingAction, SimplifiedElement } from '../../types/state.js';
+
+const elementIndexSchema = z.number().int().min(0);
+
+const clickElementSchema = z.object({
+  elementIndex: elementIndexSchema.describe('Index of the element to click (the number in brackets in the page state)'),
+});
+
+const typeTextSchema = z.object({
+  elementIndex: elementIndexSchema.describe('Index of the input field (the number in brackets in the page state)'),
+  text: z.string().min(1).describe('Text to type into the field'),
+});
+
+const selectOptionSchema = z.object({
+  elementIndex: elementIndexSchema.describe('Index of the dropdown (the number in brackets in the page state)'),
+  value: z.string().min(1).describe('Value of the option to select'),
+});
+
+const finishFlowSchema = z.object({
+  reason: z.string().describe('Why this page has nothing left worth exploring'),
+});
+
+/**
+ * Tools bound to the LLM in the decide stage
+ * Several action tool calls in one response are executed as a batch, in order
+ */
+export const DECISION_TOOLS = [
+  {
+    name: 'clickElement',
+    description: 'Click a button, link or other interactive element (including close buttons on modals)',
+    schema: clickElementSchema,
+  },
+  {
+    name: 'typeText',
+    description: 'Type text into an input field',
+    schema: typeTextSchema,
+  },
+  {
+    name: 'selectOption',
+    description: 'Select an option from a dropdown',
+    schema: selectOptionSchema,
+  },
+  {
+    name: 'finishFlow',
+    description: 'End the current flow when the page is a natural endpoint. Must not be combined with other tools',
+    schema: finishFlowSchema,
+  },
+];
+
+/**
+ * Result of validating the tool calls of an LLM response
+ */
+export type ParsedDecision =
+  | { kind: 'actions'; actions: PendingAction[] }
+  | { kind: 'finish'; reason?: string }
+  | { kind: 'invalid'; errors: string[] };
+
+/**
+ * Validate the tool calls of an LLM response and convert them to pending actions
+ * resolveElement looks up an element index in the registry of the observation the LLM was shown
+ */
+export function parseDecisionToolCalls(
+  toolCalls: ToolCall[] | undefined,
+  resolveElement: (index: number) => SimplifiedElement | undefined
+): ParsedDecision {
+  if (!toolCalls || toolCalls.length === 0) {
+    return { kind: 'invalid', errors: ['No tool was called. Call one of the tools to act on the page or finishFlow to end the flow.'] };
+  }
+
+  const finishCall = toolCalls.find((toolCall) => toolCall.name === 'finishFlow');
+  if (finishCall) {
+    if (toolCalls.length > 1) {
+      return { kind: 'invalid', errors: ['finishFlow must be the only tool call in a response.'] };
+    }
+    const parsed = finishFlowSchema.safeParse(finishCall.args ?? {});
+    return { kind: 'finish', reason: parsed.success ? parsed.data.reason : undefined };
+  }
+
+  const actions: PendingAction[] = [];
+  const errors: string[] = [];
+  toolCalls.forEach((toolCall, callIndex) => {
+    const prefix = `Tool call ${callIndex + 1} (${toolCall.name})`;
+
+    // Look up the referenced element, recording an error if it is not on the page
+    const resolve = (elementIndex: number): Pick<PendingAction, 'selector' | 'elementIndex' | 'locator'> | null => {
+      const element = resolveElement(elementIndex);
+      if (!element) {
+        errors.push(`${prefix}: element [${elementIndex}] does not exist on this page`);
+        return null;
+      }
+      return { selector: element.selector, elementIndex: element.index, locator: element.locator };
+    };
+
+    if (toolCall.name === 'clickElement') {
+      const parsed = clickElementSchema.safeParse(toolCall.args);
+      if (!parsed.success) {
+        errors.push(`${prefix}: ${formatIssues(parsed.error)}`);
+        return;
+      }
+      const target = resolve(parsed.data.elementIndex);
+      if (target) {
+        actions.push({ tool: 'clickElement', ...target });
+      }
+    } else if (toolCall.name === 'typeText') {
+      const parsed = typeTextSchema.safeParse(toolCall.args);
+      if (!parsed.success) {
+        errors.push(`${prefix}: ${formatIssues(parsed.error)}`);
+        return;
+      }
+      const target = resolve(parsed.data.elementIndex);
+      if (target) {
+        actions.push({ tool: 'typeText', ...target, text: parsed.data.text });
+      }
+    } else if (toolCall.name === 'selectOption') {
+      const parsed = selectOptionSchema.safeParse(toolCall.args);
+      if (!parsed.success) {
+        errors.push(`${prefix}: ${formatIssues(parsed.error)}`);
+        return;
+      }
+      const target = resolve(parsed.data.elementIndex);
+      if (target) {
+        actions.push({ tool: 'selectOption', ...target, value: parsed.data.value });
+      }
+    } else {
+      errors.push(`${prefix}: unknown tool. Available tools: ${DECISION_TOOLS.map((tool) => tool.name).join(', ')}`);
+    }
+  });
+
+  return errors.length > 0 ? { kind: 'invalid', errors } : { kind: 'actions', actions };
+}
+
+/**
+ * Format zod issues as a single readable line
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || 'arguments'} ${issue.message.toLowerCase()}`).join('; ');
+}
@@ -0,0 +1,94 @@
+/**
+ * Exploration Budget - Tracks actions, LLM tokens, states and wall-clock time against the exploration limits
+ */
+
+import { BudgetUsage, ExplorationLimits } from '../../types/state.js';
+
+export class ExplorationBudget {
+  private limits: ExplorationLimits;
+  private actions = 0;
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private elapsedBeforeStart = 0; // Time spent in earlier runs of the same session (before a pause)
+  private startedAt = Date.now();
+
+  constructor(limits: ExplorationLimits = {}) {
+    this.limits = limits;
+  }
+
+  /**
+   * Start (or restart after a resume) the wall-clock timer
+   */
+  start(): void {
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Record an executed action batch
+   */
+  recordAction(): void {
+    this.actions++;
+  }
+
+  /**
+   * Record LLM token usage
+   */
+  recordTokens(inputTokens: number, outputTokens: number): void {
+    this.inputTokens += inputTokens;
+    this.outputTokens += outputTokens;
+  }
+
+  getLimits(): ExplorationLimits {
+    return this.limits;
+  }
+
+  /**
+   * Get the budget used so far (for checkpoints)
+   */
+  getUsage(): BudgetUsage {
+    return {
+      actions: this.actions,
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      elapsedMs: this.elapsedBeforeStart + (Date.now() - this.startedAt),
+    };
+  }
+
+  /**
+   * Restore the limits and the budget used by a previous run of the session
+   */
+  restore(limits: ExplorationLimits, usage: BudgetUsage): void {
+    this.limits = limits;
+    this.actions = usage.actions;
+    this.inputTokens = usage.inputTokens;
+    this.outputTokens = usage.outputTokens;
+    this.elapsedBeforeStart = usage.elapsedMs;
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Check the limits and describe the first one that was reached
+   * Returns null while the exploration is within budget
+   */
+  getExhaustedReason(stateCount: number): string | null {
+    const usage = this.getUsage();
+    const { maxActions, maxInputTokens, maxOutputTokens, maxStates, maxDurationMs } = this.limits;
+
+    if (maxActions !== undefined && usage.actions >= maxActions) {
+      return `Max actions reached (${usage.actions}/${maxActions})`;
+    }
+    if (maxInputTokens !== undefined && usage.inputTokens >= maxInputTokens) {
+      return `Max LLM input tokens reached (${usage.inputTokens}/${maxInputTokens})`;
+    }
+    if (maxOutputTokens !== undefined && usage.outputTokens >= maxOutputTokens) {
+      return `Max LLM output tokens reached (${usage.outputTokens}/${maxOutputTokens})`;
+    }
+    if (maxStates !== undefined && stateCount >= maxStates) {
+      return `Max distinct states reached (${stateCount}/${maxStates})`;
+    }
+    if (maxDurationMs !== undefined && usage.elapsedMs >= maxDurationMs) {
+      return `Max duration reached (${Math.round(usage.elapsedMs / 1000)}s/${Math.round(maxDurationMs / 1000)}s)`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Exploration Frontier - Tracks observed states and the actionable elements not yet tried on them
+ * Lets the agent return to earlier states with unexplored branches instead of ending on the first cycle
+ */
+
+import {
+  DeferredBatch,
+  ExplorationStrategy,
+  FrontierSnapshot,
+  FrontierState,
+  PathStep,
+  PendingAction,
+  SimplifiedElement,
+} from '../../types/state.js';
+import { isLogoutElement } from './safety-helpers.js';
+
+/**
+ * Check if an element opens a new branch when clicked (links, buttons, etc.)
+ * Form fields are filled as part of a batch and are not branch candidates on their own
+ */
+export function isBranchElement(element: SimplifiedElement): boolean {
+  if (element.isDisabled) {
+    return false;
+  }
+  const tag = element.tag.toUpperCase();
+  const type = (element.type || '').toLowerCase();
+  const role = (element.role || '').toLowerCase();
+  return tag === 'A' ||
+    tag === 'BUTTON' ||
+    role === 'button' ||
+    role === 'link' ||
+    role === 'tab' ||
+    (tag === 'INPUT' && (type === 'submit' || type === 'button'));
+}
+
+export class ExplorationFrontier {
+  private states = new Map<string, FrontierState>();
+  private currentStateKey: string | null = null;
+  private currentPath: PathStep[] = [];
+  private discoveryCounter = 0;
+
+  /**
+   * Record an observed state and make it the current one
+   * New states inherit the path that led to them; known states reset the path to their canonical one
+   */
+  recordState(stateKey: string, url: string, elements: SimplifiedElement[]): { isNew: boolean; state: FrontierState } {
+    const existing = this.states.get(stateKey);
+    if (existing) {
+      this.currentStateKey = stateKey;
+      this.currentPath = [...existing.path];
+      return { isNew: false, state: existing };
+    }
+
+    // Deduplicate branch candidates by selector and text, logout controls last so they end the session only
+    // once everything else on the state was tried
+    const seen = new Set<string>();
+    const untried = elements.filter((element) => {
+      if (!isBranchElement(element)) {
+        return false;
+      }
+      const key = `${element.selector}|||${element.text}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    }).sort((a, b) => Number(isLogoutElement(a)) - Number(isLogoutElement(b)));
+
+    const state: FrontierState = {
+      stateKey,
+      url,
+      depth: this.currentPath.length,
+      discoveryOrder: this.discoveryCounter++,
+      path: [...this.currentPath],
+      untried,
+      exhausted: false,
+      stalls: 0,
+      backtracks: 0,
+      deferred: [],
+    };
+    this.states.set(stateKey, state);
+    this.currentStateKey = stateKey;
+    return { isNew: true, state };
+  }
+
+  /**
+   * Get the current state (the last one recorded or moved to)
+   */
+  getCurrentState(): FrontierState | undefined {
+    return this.currentStateKey ? this.states.get(this.currentStateKey) : undefined;
+  }
+
+  /**
+   * Get the untried branch candidates of a state (defaults to the current state)
+   */
+  getUntriedElements(stateKey?: string): SimplifiedElement[] {
+    const state = this.states.get(stateKey ?? this.currentStateKey ?? '');
+    if (!state || state.exhausted) {
+      return [];
+    }
+    return state.untried;
+  }
+
+  /**
+   * Check if a state still has untried branch candidates
+   */
+  hasUntried(stateKey: string): boolean {
+    return this.getUntriedElements(stateKey).length > 0;
+  }
+
+  /**
+   * Mark the elements targeted by the given actions as tried on the current state
+   * Actions chosen by element index only mark that element; others mark every element with their selector
+   */
+  markTried(actions: PendingAction[]): void {
+    const state = this.getCurrentState();
+    if (!state) {
+      return;
+    }
+    const indices = new Set(actions.map((action) => action.elementIndex).filter((index): index is number => index !== undefined));
+    const selectors = new Set(actions
+      .filter((action) => action.elementIndex === undefined)
+      .map((action) => action.selector)
+      .filter((selector): selector is string => !!selector));
+    state.untried = state.untried.filter((element) => !indices.has(element.index) && !selectors.has(element.selector));
+  }
+
+  /**
+   * Record an executed batch from the current state
+   * Marks its elements as tried - unless the batch is to be offered again, like a form with validation probes left -
+   * and extends the current path so the next state knows how it was reached
+   */
+  recordTransition(actions: PendingAction[], keepUntried: boolean = false): void {
+    const state = this.getCurrentState();
+    if (!state) {
+      return;
+    }
+    if (!keepUntried) {
+      this.markTried(actions);
+    }
+    this.currentPath = [...this.currentPath, { fromStateKey: state.stateKey, actions }];
+  }
+
+  /**
+   * Record that the agent picked an already executed transition on the current state
+   * Returns the number of stalls on that state so far
+   */
+  recordStall(): number {
+    const state = this.getCurrentState();
+    if (!state) {
+      return 0;
+    }
+    state.stalls++;
+    return state.stalls;
+  }
+
+  /**
+   * Hold back a guarded batch on the current state until its branch has been explored
+   * Returns false if the same batch is already deferred there
+   */
+  deferBatch(batch: DeferredBatch): boolean {
+    const state = this.getCurrentState();
+    if (!state) {
+      return false;
+    }
+    const key = JSON.stringify(batch.actions);
+    if (state.deferred.some((deferred) => JSON.stringify(deferred.actions) === key)) {
+      return false;
+    }
+    state.deferred.push(batch);
+    return true;
+  }
+
+  /**
+   * Remove and return the next deferred batch of the state the browser is on
+   * Nothing is returned unless that state is the current one, so a batch never runs on another state than its own
+   */
+  takeDeferred(stateKey: string): DeferredBatch | undefined {
+    if (stateKey !== this.currentStateKey) {
+      return undefined;
+    }
+    return this.getCurrentState()?.deferred.shift();
+  }
+
+  /**
+   * End the branch of the current state: its untried elements are dropped, its deferred batches are kept
+   * so they run before the state is left for good
+   */
+  finishBranch(): void {
+    const state = this.getCurrentState();
+    if (!state) {
+      return;
+    }
+    state.untried = [];
+    if (state.deferred.length === 0) {
+      state.exhausted = true;
+    }
+  }
+
+  /**
+   * Mark a state (defaults to the current state) as fully explored or unreachable
+   * Its deferred batches can't run anymore - they are removed and returned, to be recorded as not executed
+   */
+  markExhausted(stateKey?: string): DeferredBatch[] {
+    const state = this.states.get(stateKey ?? this.currentStateKey ?? '');
+    if (!state) {
+      return [];
+    }
+    state.exhausted = true;
+    const dropped = state.deferred;
+    state.deferred = [];
+    return dropped;
+  }
+
+  /**
+   * Record a backtrack to a state
+   * Returns the number of backtracks to that state so far
+   */
+  recordBacktrack(stateKey: string): number {
+    const state = this.states.get(stateKey);
+    if (!state) {
+      return 0;
+    }
+    state.backtracks++;
+    return state.backtracks;
+  }
+
+  /**
+   * Get the number of distinct states observed
+   */
+  getStateCount(): number {
+    return this.states.size;
+  }
+
+  /**
+   * Get all states that still have untried branch candidates or deferred batches
+   */
+  getCandidates(): FrontierState[] {
+    return Array.from(this.states.values()).filter((state) =>
+      !state.exhausted && (state.untried.length > 0 || state.deferred.length > 0)
+    );
+  }
+
+  /**
+   * Check if any state still has untried branch candidates or deferred batches
+   */
+  hasPendingStates(): boolean {
+    return this.getCandidates().length > 0;
+  }
+
+  /**
+   * Select the next state to return to using a deterministic strategy
+   * The 'llm' strategy is resolved by the backtrack stage; here it falls back to DFS
+   */
+  selectNext(strategy: ExplorationStrategy): FrontierState | null {
+    const candidates = this.getCandidates();
+    if (candidates.length === 0) {
+      return null;
+    }
+    if (strategy === 'bfs') {
+      return candidates.reduce((best, state) =>
+        state.depth < best.depth || (state.depth === best.depth && state.discoveryOrder < best.discoveryOrder) ? state : best
+      );
+    }
+    return candidates.reduce((best, state) => (state.discoveryOrder > best.discoveryOrder ? state : best));
+  }
+
+  /**
+   * Make a state the current one after the browser has been returned to it
+   */
+  moveTo(state: FrontierState): void {
+    this.currentStateKey = state.stateKey;
+    this.currentPath = [...state.path];
+  }
+
+  /**
+   * Serialize the frontier for a checkpoint
+   */
+  toSnapshot(): FrontierSnapshot {
+    return {
+      states: Array.from(this.states.values()),
+      currentStateKey: this.currentStateKey,
+      currentPath: this.currentPath,
+      discoveryCounter: this.discoveryCounter,
+    };
+  }
+
+  /**
+   * Replace the frontier contents with a checkpoint snapshot
+   */
+  restore(snapshot: FrontierSnapshot): void {
+    this.states = new Map(snapshot.states.map((state) => [state.stateKey, { ...state }]));
+    this.currentStateKey = snapshot.currentStateKey;
+    this.currentPath = snapshot.currentPath;
+    this.discoveryCounter = snapshot.discoveryCounter;
+  }
+}
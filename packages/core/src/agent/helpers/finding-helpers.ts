@@ -0,0 +1,72 @@
+/**
+ * Finding Helpers - Utilities for turning page problems into findings linked to the action that caused them
+ */
+
+import { PageProblem, PendingAction, UpsertFinding } from '../../types/state.js';
+import { StageContext } from '../stages/stage-context.js';
+import { buildHashKey } from './key-helpers.js';
+import { describeActions } from './replay-helpers.js';
+
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_STACK_LENGTH = 4000;
+
+/**
+ * Get the batches leading from the entry URL to the current state, followed by the given action
+ */
+export function buildActionPath(context: StageContext, action?: string): string[] {
+  const path = (context.frontier.getCurrentState()?.path ?? []).map((step) => describeActions(step.actions));
+  return action ? [...path, action] : path;
+}
+
+/**
+ * Build the problem reported for a batch of clicks that changed nothing (dead button or link)
+ */
+export function buildDeadActionProblem(actions: PendingAction[], url: string): PageProblem {
+  const targets = actions.map((action) => action.selector ?? action.tool).join(' → ');
+  return {
+    type: 'dead_action',
+    severity: 'warning',
+    message: `Clicking ${targets} changed nothing (no DOM change, navigation or request)`,
+    url,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Build the finding writes for problems seen on a state
+ * Problems with the same type, message, state and action are one finding; secrets are redacted from the texts
+ */
+export function buildFindingWrites(
+  problems: PageProblem[],
+  context: StageContext,
+  stateKey: string,
+  action?: string
+): UpsertFinding[] {
+  if (problems.length === 0) {
+    return [];
+  }
+  const actionPath = buildActionPath(context, action);
+  const findings = new Map<string, UpsertFinding>();
+
+  problems.forEach((problem) => {
+    const message = context.secrets.redact(problem.message).substring(0, MAX_MESSAGE_LENGTH);
+    const findingKey = buildHashKey([problem.type, message, stateKey, action ?? '']);
+    if (findings.has(findingKey)) {
+      return;
+    }
+    findings.set(findingKey, {
+      kind: 'upsertFinding',
+      findingKey,
+      type: problem.type,
+      severity: problem.severity,
+      message,
+      stack: problem.stack ? context.secrets.redact(problem.stack).substring(0, MAX_STACK_LENGTH) : undefined,
+      stateKey,
+      action,
+      actionPath,
+      url: problem.url,
+      sessionId: context.sessionId,
+    });
+  });
+  return Array.from(findings.values());
+}
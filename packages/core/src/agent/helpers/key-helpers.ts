@@ -0,0 +1,12 @@
+/**
+ * Key Helpers - Utilities for building the short, stable keys graph nodes are merged on
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Hash the parts identifying a node into a 16 character key
+ */
+export function buildHashKey(parts: string[]): string {
+  return createHash('sha256').update(parts.join('|||')).digest('hex').substring(0, 16);
+}
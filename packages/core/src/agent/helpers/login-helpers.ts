@@ -2,6 +2,14 @@
  * Login Helpers - Utilities for detecting and interacting with login forms
  */
 
+import { LoginRecipe, PendingAction } from '../../types/state.js';
+import { BrowserTools } from '../../utils/browser-tools.js';
+import { logger } from '../../utils/logger.js';
+import { SecretRedactor } from '../../utils/secret-redactor.js';
+import { StageContext } from '../stages/stage-context.js';
+import { performAction } from './replay-helpers.js';
+import { matchesUrlPattern } from './scope-helpers.js';
+
 /**
  * Detect if the current page is a login screen
  */
@@ -104,3 +112,170 @@ export function findSubmitButton(domState: string): string | null {
   // Fallback: common selectors
   return 'button[type="submit"], .login-button, button:has-text("Login"), button:has-text("Sign in")';
 }
+
+/**
+ * Run a recorded login script: open the entry URL, then perform its steps in order
+ * For logins the heuristic cannot handle (SSO, MFA, unusual forms) - placeholders in typed text are
+ * resolved by the browser tools, so the script never contains the credentials themselves
+ */
+export async function runLoginScript(
+  browserTools: BrowserTools,
+  entryUrl: string,
+  steps: PendingAction[],
+  sessionId?: string
+): Promise<void> {
+  logger.info('LOGIN', `Running login script (${steps.length} steps) from ${entryUrl}`, undefined, sessionId);
+  await browserTools.navigate(entryUrl);
+
+  for (const [index, step] of steps.entries()) {
+    try {
+      await performAction(browserTools, step);
+    } catch (error) {
+      throw new Error(`Login script step ${index + 1} (${step.tool}) failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  try {
+    await browserTools.waitForNetworkIdle(30000);
+  } catch (error) {
+    logger.warn('LOGIN', 'Network idle timeout after login script - proceeding anyway', undefined, sessionId);
+  }
+  logger.info('LOGIN', `Login script finished on ${browserTools.getCurrentUrl()}`, undefined, sessionId);
+}
+
+/**
+ * Build the default login recipe from the login form of a page: fill username, fill password, click submit
+ * Returns null if a field or the submit button cannot be found
+ */
+export function buildHeuristicRecipe(domState: string, url: string): LoginRecipe | null {
+  const usernameSelector = findLoginField(domState, 'username');
+  const passwordSelector = findLoginField(domState, 'password');
+  const submitSelector = findSubmitButton(domState);
+  if (!usernameSelector || !passwordSelector || !submitSelector) {
+    return null;
+  }
+  return {
+    urlPattern: url,
+    steps: [
+      { action: 'fill', locator: usernameSelector, value: { source: 'credential', field: 'username' } },
+      { action: 'fill', locator: passwordSelector, value: { source: 'credential', field: 'password' } },
+      { action: 'click', locator: submitSelector },
+    ],
+  };
+}
+
+/**
+ * Find the stored recipe for a login page: recipes matching the page URL win over recipes matching the entry URL
+ * (an SSO login page is usually on another host than the application)
+ */
+export function findLoginRecipe(recipes: LoginRecipe[], url: string, entryUrl?: string): LoginRecipe | undefined {
+  return recipes.find((recipe) => matchesUrlPattern(url, recipe.urlPattern))
+    ?? (entryUrl ? recipes.find((recipe) => matchesUrlPattern(entryUrl, recipe.urlPattern)) : undefined);
+}
+
+/**
+ * Convert the steps of a login recipe to actions
+ * Credentials and TOTP codes are typed as placeholders - the browser resolves them when filling the fields
+ */
+export function buildRecipeActions(recipe: LoginRecipe, secrets: SecretRedactor): PendingAction[] {
+  return recipe.steps.map((step): PendingAction => {
+    if (step.action === 'click') {
+      return { tool: 'clickElement', selector: step.locator };
+    }
+    let value = '';
+    if (step.value?.source === 'credential') {
+      value = SecretRedactor.placeholder(`credentials.${step.value.field}`);
+    } else if (step.value?.source === 'totp') {
+      value = SecretRedactor.placeholder(secrets.registerTotp(step.value.secret));
+    } else if (step.value?.source === 'constant') {
+      value = step.value.value;
+    }
+    return step.action === 'select'
+      ? { tool: 'selectOption', selector: step.locator, value }
+      : { tool: 'typeText', selector: step.locator, text: value };
+  });
+}
+
+/**
+ * Check if a login succeeded: by the success condition of its recipe, otherwise by having left the login screen
+ */
+export async function isLoginSuccessful(
+  browserTools: BrowserTools,
+  recipe: LoginRecipe | undefined,
+  isLoginScreen: boolean
+): Promise<boolean> {
+  const success = recipe?.success;
+  if (!success) {
+    return !isLoginScreen;
+  }
+  if (success.urlPattern && !matchesUrlPattern(browserTools.getCurrentUrl(), success.urlPattern)) {
+    return false;
+  }
+  return success.selector ? browserTools.isVisible(success.selector) : true;
+}
+
+/**
+ * Check if the session ended after logging in (logout action, expired session, 401 redirect)
+ * The agent is back on the login page it logged in on, moved from outside the URL pattern of the login recipe
+ * into it, or the success selector of the recipe is gone. The success URL is not checked - it only describes
+ * the page a login lands on. Forms with username and password fields (e.g. creating a user) are not a logout.
+ */
+export async function isLoggedOut(context: StageContext, stateKey: string, fromUrl: string): Promise<boolean> {
+  if (!context.loginSuccessful.value) {
+    return false;
+  }
+  if (context.loginStateKey.value === stateKey) {
+    return true;
+  }
+
+  const recipe = context.loginRecipe.value;
+  if (!recipe) {
+    return false;
+  }
+  const url = context.browserTools.getCurrentUrl();
+  if (matchesUrlPattern(url, recipe.urlPattern) && !matchesUrlPattern(fromUrl, recipe.urlPattern)) {
+    return true;
+  }
+  return recipe.success?.selector ? !(await context.browserTools.isVisible(recipe.success.selector)) : false;
+}
+
+/**
+ * Log in again after the session ended mid-exploration (logout action, expired session, 401 redirect)
+ * Credentials are cleared from the context after the first login, but the secret redactor retains them:
+ * the recipe types their placeholders, so they never appear in actions or logs
+ * Returns true if the login succeeded
+ */
+export async function relogin(context: StageContext, domState: string): Promise<boolean> {
+  const url = context.browserTools.getCurrentUrl();
+  const recipe = findLoginRecipe(await context.graphStore.loadLoginRecipes(), url, context.entryUrl)
+    ?? buildHeuristicRecipe(domState, url);
+  if (!recipe) {
+    logger.warn('LOGIN', `No login recipe or login form found on ${url} - cannot log in again`, undefined, context.sessionId);
+    return false;
+  }
+
+  const actions = buildRecipeActions(recipe, context.secrets);
+  const unresolved = actions.flatMap((action) => context.secrets.findUnresolved(action.text ?? ''));
+  if (unresolved.length > 0) {
+    logger.warn('LOGIN', `Cannot log in again on ${url} - missing secrets: ${unresolved.join(', ')}`, undefined, context.sessionId);
+    return false;
+  }
+
+  logger.info('LOGIN', `Logging in again on ${url} (${recipe.steps.map((step) => step.action).join(', ')})`, undefined, context.sessionId);
+  context.loginRecipe.value = recipe;
+  try {
+    for (const action of actions) {
+      await performAction(context.browserTools, action);
+    }
+  } catch (error) {
+    logger.warn('LOGIN', 'Login failed', { error: error instanceof Error ? error.message : String(error) }, context.sessionId);
+    return false;
+  }
+  try {
+    await context.browserTools.waitForNetworkIdle(30000);
+  } catch (error) {
+    logger.warn('LOGIN', 'Network idle timeout after login - proceeding anyway', undefined, context.sessionId);
+  }
+
+  const observation = await context.browserTools.observe();
+  return isLoginSuccessful(context.browserTools, recipe, detectLoginScreen(observation.domState));
+}
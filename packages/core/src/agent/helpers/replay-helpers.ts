@@ -0,0 +1,132 @@
+/**
+ * Replay Helpers - Utilities for returning the browser to a known state by replaying its path
+ */
+
+import { FrontierState, PendingAction } from '../../types/state.js';
+import { BrowserTools } from '../../utils/browser-tools.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Execute a single pending action with the browser tools
+ */
+export async function performAction(browserTools: BrowserTools, action: PendingAction): Promise<void> {
+  switch (action.tool) {
+    case 'clickElement':
+      if (!action.selector) {
+        throw new Error('Selector required for clickElement');
+      }
+      await browserTools.clickElement(action.selector, action.locator);
+      break;
+    case 'typeText':
+      if (!action.selector || !action.text) {
+        throw new Error('Selector and text required for typeText');
+      }
+      await browserTools.typeText(action.selector, action.text, action.locator);
+      break;
+    case 'selectOption':
+      if (!action.selector || !action.value) {
+        throw new Error('Selector and value required for selectOption');
+      }
+      await browserTools.selectOption(action.selector, action.value, action.locator);
+      break;
+    case 'navigate':
+      if (!action.url) {
+        throw new Error('URL required for navigate');
+      }
+      await browserTools.navigate(action.url);
+      break;
+  }
+}
+
+/**
+ * Describe an action batch the way transitions are labelled in the graph
+ */
+export function describeActions(actions: PendingAction[]): string {
+  const actionDescriptions = actions.map(a => {
+    if (a.tool === 'clickElement') return `${a.tool} on ${a.selector}`;
+    if (a.tool === 'typeText') return `${a.tool} on ${a.selector} with text "${a.text}"`;
+    if (a.tool === 'selectOption') return `${a.tool} on ${a.selector} with value "${a.value}"`;
+    if (a.tool === 'navigate') return `${a.tool} to ${a.url}`;
+    return a.tool;
+  });
+  return actions.length > 1
+    ? `Batch: ${actionDescriptions.join(' → ')}`
+    : actionDescriptions[0];
+}
+
+/**
+ * Return the browser to a frontier state by navigating to the entry URL and replaying the known path
+ * Steps whose source state is skipped over (e.g. login when the session is still authenticated)
+ * are resolved by matching the current state key against the path
+ * Returns true if the target state was reached
+ */
+export async function replayPath(
+  browserTools: BrowserTools,
+  entryUrl: string,
+  target: FrontierState,
+  sessionId?: string
+): Promise<boolean> {
+  logger.info('BACKTRACK', `Replaying ${target.path.length} step(s) from ${entryUrl} to reach ${target.url}`, undefined, sessionId);
+  await browserTools.navigate(entryUrl);
+
+  let observation = await browserTools.observe();
+  // Each iteration executes at least one step, so the path length bounds the loop
+  for (let attempt = 0; attempt <= target.path.length; attempt++) {
+    if (observation.stateKey === target.stateKey) {
+      return true;
+    }
+
+    // Continue from the latest step that starts at the current state
+    let stepIndex = -1;
+    for (let i = target.path.length - 1; i >= 0; i--) {
+      if (target.path[i].fromStateKey === observation.stateKey) {
+        stepIndex = i;
+        break;
+      }
+    }
+    if (stepIndex === -1) {
+      logger.warn('BACKTRACK', `Current page (${observation.currentUrl}) is not on the known path to ${target.url}`, undefined, sessionId);
+      return false;
+    }
+
+    for (const action of target.path[stepIndex].actions) {
+      await performAction(browserTools, action);
+    }
+    try {
+      await browserTools.waitForNetworkIdle(30000);
+    } catch (error) {
+      logger.warn('BACKTRACK', 'Network idle timeout during replay - proceeding anyway', undefined, sessionId);
+    }
+    observation = await browserTools.observe();
+  }
+
+  return observation.stateKey === target.stateKey;
+}
+
+/**
+ * Return the browser to a known state, falling back to loading its URL directly
+ * Used when the current page cannot be used (out of scope, fresh browser after a resume)
+ * Returns the URL the browser ended up on
+ */
+export async function returnToState(
+  browserTools: BrowserTools,
+  entryUrl: string,
+  target: FrontierState | undefined,
+  fallbackUrl: string,
+  sessionId?: string
+): Promise<string> {
+  let reached = false;
+  if (target) {
+    try {
+      reached = await replayPath(browserTools, entryUrl, target, sessionId);
+    } catch (error) {
+      logger.warn('BACKTRACK', `Could not replay path to ${target.url}`, {
+        error: error instanceof Error ? error.message : String(error),
+      }, sessionId);
+    }
+  }
+  if (!reached) {
+    await browserTools.navigate(fallbackUrl);
+  }
+  return browserTools.getCurrentUrl();
+}
@@ -0,0 +1,109 @@
+/**
+ * Safety Helpers - Utilities for classifying pending actions as safe, destructive or logout
+ *
+ * Allow and deny list patterns are case-insensitive substrings or regular expressions written as
+ * /pattern/flags. They are matched against the text and the selector of the clicked element.
+ */
+
+import { ActionSafety, DeferredBatch, PendingAction, SafetyMode, SafetyPolicy, SimplifiedElement, UpsertNotExecuted } from '../../types/state.js';
+
+// Built-in rules for element text (whole words) and selectors (substrings, e.g. "#deleteUser")
+const LOGOUT_TEXT = /\b(log ?out|sign ?out|log ?off|sign ?off)\b/i;
+const LOGOUT_SELECTOR = /(log-?out|sign-?out|log-?off)/i;
+const DESTRUCTIVE_TEXT = /\b(delete|remove|destroy|reset|erase|purge|wipe|terminate|deactivate|revoke|unsubscribe|discard)\b/i;
+const DESTRUCTIVE_SELECTOR = /(delete|remove|destroy|reset|erase|purge|wipe|terminate|deactivate|revoke|unsubscribe|discard)/i;
+
+/**
+ * Check if a value matches a single allow/deny list pattern
+ */
+export function matchesSafetyPattern(value: string, pattern: string): boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]).test(value);
+    } catch (error) {
+      return false;
+    }
+  }
+  return value.toLowerCase().includes(pattern.toLowerCase());
+}
+
+/**
+ * Find the visible text of an element in the formatted DOM state by its index, or by its selector
+ */
+export function findElementText(domState: string, selector: string, index?: number): string {
+  const line = domState.split('\n').find((candidate) => index !== undefined
+    ? candidate.startsWith(`[${index}] `)
+    : candidate.endsWith(`Selector: ${selector}`));
+  const textMatch = line?.match(/Text: "(.*?)"/);
+  return textMatch ? textMatch[1] : '';
+}
+
+/**
+ * Check if an element looks like a logout control, by its text, accessible name or selector
+ */
+export function isLogoutElement(element: SimplifiedElement): boolean {
+  return LOGOUT_TEXT.test(`${element.text} ${element.locator?.name ?? ''}`) || LOGOUT_SELECTOR.test(element.selector);
+}
+
+/**
+ * Classify a single action
+ * Only clicks are guarded - typing into or selecting a field does not change data on its own
+ */
+export function classifyAction(action: PendingAction, domState: string, policy: SafetyPolicy): ActionSafety {
+  if (action.tool !== 'clickElement' || !action.selector) {
+    return 'safe';
+  }
+
+  // The registered accessible name complements the (truncated) text shown to the LLM
+  const text = [findElementText(domState, action.selector, action.elementIndex), action.locator?.name ?? ''].join(' ').trim();
+  const values = [text, action.selector].filter((value) => !!value);
+  const matchesList = (patterns?: string[]) =>
+    !!patterns?.some((pattern) => values.some((value) => matchesSafetyPattern(value, pattern)));
+
+  if (matchesList(policy.allowList)) {
+    return 'safe';
+  }
+  if (LOGOUT_TEXT.test(text) || LOGOUT_SELECTOR.test(action.selector)) {
+    return 'logout';
+  }
+  if (matchesList(policy.denyList) || DESTRUCTIVE_TEXT.test(text) || DESTRUCTIVE_SELECTOR.test(action.selector)) {
+    return 'destructive';
+  }
+  return 'safe';
+}
+
+/**
+ * Classify an action batch by its most dangerous action (destructive over logout over safe)
+ */
+export function classifyBatch(actions: PendingAction[], domState: string, policy: SafetyPolicy): ActionSafety {
+  const classifications = actions.map((action) => classifyAction(action, domState, policy));
+  if (classifications.includes('destructive')) {
+    return 'destructive';
+  }
+  if (classifications.includes('logout')) {
+    return 'logout';
+  }
+  return 'safe';
+}
+
+/**
+ * Get how the policy handles a guarded classification
+ */
+export function getSafetyMode(safety: Exclude<ActionSafety, 'safe'>, policy: SafetyPolicy): SafetyMode {
+  return safety === 'logout' ? policy.logoutMode ?? 'defer' : policy.destructiveMode ?? 'record';
+}
+
+/**
+ * Build the writes recording deferred batches that will never run (their state was dropped from the frontier)
+ */
+export function buildNotExecutedWrites(batches: DeferredBatch[], fromStateKey: string, sessionId: string): UpsertNotExecuted[] {
+  return batches.map((batch) => ({
+    kind: 'upsertNotExecuted',
+    fromStateKey,
+    action: batch.description,
+    safety: batch.safety,
+    sessionId,
+    selector: batch.actions[0]?.selector,
+  }));
+}
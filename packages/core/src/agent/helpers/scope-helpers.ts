@@ -0,0 +1,85 @@
+/**
+ * Scope Helpers - Utilities for keeping the agent inside the target application
+ *
+ * Patterns are either regular expressions written as /pattern/flags (matched against the full URL)
+ * or globs. A glob without a slash is matched against the host (e.g. "*.example.com"), a glob with a
+ * slash against host + path (e.g. "app.example.com/admin/**"). In globs "*" matches within a single
+ * host label or path segment, "**" matches anything and "?" matches a single character.
+ */
+
+import { ExplorationScope } from '../../types/state.js';
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+function globToRegExp(glob: string, separator: string): RegExp {
+  const escapedSeparator = separator === '.' ? '\\.' : separator;
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += `[^${escapedSeparator}]*`;
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Check if a URL matches a single scope pattern
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]).test(url);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return false;
+  }
+
+  // Strip an optional scheme from the pattern - schemes are not part of the scope
+  const glob = pattern.replace(/^[a-z]+:\/\//i, '');
+  if (!glob.includes('/')) {
+    return globToRegExp(glob, '.').test(parsed.host);
+  }
+  return globToRegExp(glob, '/').test(`${parsed.host}${parsed.pathname}`);
+}
+
+/**
+ * Check if a URL is inside the exploration scope
+ * Without include patterns the scope is the host of the entry URL; exclude patterns always win
+ */
+export function isUrlInScope(url: string, scope: ExplorationScope, entryUrl: string): boolean {
+  // Browser-internal pages (about:blank, data: URLs) never count as leaving the app
+  if (!/^https?:/i.test(url)) {
+    return true;
+  }
+
+  if (scope.exclude?.some((pattern) => matchesUrlPattern(url, pattern))) {
+    return false;
+  }
+
+  if (scope.include && scope.include.length > 0) {
+    return scope.include.some((pattern) => matchesUrlPattern(url, pattern));
+  }
+
+  try {
+    return new URL(url).host === new URL(entryUrl).host;
+  } catch (error) {
+    return true;
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * State Abstraction - Structural identity of a page state
+ *
+ * A state is identified by its URL template (see UrlNormalizer) and the visible headings, landmarks,
+ * open modal and selected tabs of the page instead of a hash of its full text. An open modal or another
+ * tab panel on the same URL becomes its own state, while volatile text (counters, timestamps, ids in
+ * headings) no longer creates new ones. On parameterized routes (/users/:id) the headings show record
+ * data, so they are left out and all records of the route share their states. A form showing validation
+ * errors is a state of its own, so rejected submissions show up in the graph.
+ */
+
+import { createHash } from 'crypto';
+import { UrlNormalizer } from '../../utils/url-normalizer.js';
+
+/**
+ * PageStructure - Structural elements of a page, collected in the browser by PAGE_STRUCTURE_SCRIPT
+ */
+export interface PageStructure {
+  title: string; // document.title
+  headings: string[]; // Visible h1-h3 headings outside of modals
+  landmarks: string[]; // Visible landmark regions as "role" or "role:name"
+  modal?: string; // Title of the open modal ('' if it has none), undefined without a modal
+  tabs: string[]; // Names of the selected tabs
+  validationErrors?: string[]; // Visible validation messages (error and alert elements in forms, invalid fields)
+}
+
+/**
+ * StateIdentity - Key and display name of a page state
+ */
+export interface StateIdentity {
+  stateKey: string; // Hash of the signature, used as the State node key
+  signature: string; // Readable structural signature the key is computed from
+  urlTemplate: string;
+  label: string; // Display name, e.g. "Users list + Create User modal"
+}
+
+// Maximum length of a normalized text in the signature
+const MAX_TEXT_LENGTH = 80;
+
+/**
+ * Browser-side script returning the PageStructure of the current page
+ * Modals are ARIA dialogs, or fixed-position containers whose class mentions a modal or dialog
+ */
+export const PAGE_STRUCTURE_SCRIPT = `
+  (function() {
+    function isVisible(element) {
+      const rect = element.getBoundingClientRect();
+      const style = window.getComputedStyle(element);
+      return rect.width > 0 && rect.height > 0 && style.display !== 'none' && style.visibility !== 'hidden';
+    }
+
+    function textOf(element) {
+      return (element.getAttribute('aria-label') || element.textContent || '').replace(/\\s+/g, ' ').trim();
+    }
+
+    const ariaModals = Array.from(document.querySelectorAll('[role="dialog"], [role="alertdialog"], dialog[open], [aria-modal="true"]'));
+    const classModals = Array.from(document.querySelectorAll('[class*="modal"], [class*="dialog"]'))
+      .filter(function(element) { return window.getComputedStyle(element).position === 'fixed'; });
+    const modals = ariaModals.concat(classModals).filter(isVisible);
+    function inModal(element) {
+      return modals.some(function(modal) { return modal.contains(element); });
+    }
+
+    // The outermost modal opened last is the one the user interacts with
+    const topModals = modals.filter(function(modal) {
+      return !modals.some(function(other) { return other !== modal && other.contains(modal); });
+    });
+    const modal = topModals[topModals.length - 1];
+    let modalTitle;
+    if (modal) {
+      const labelledBy = modal.getAttribute('aria-labelledby');
+      const labelElement = labelledBy ? document.getElementById(labelledBy.split(' ')[0]) : null;
+      const heading = modal.querySelector('h1, h2, h3, h4, [role="heading"], [class*="title"]');
+      modalTitle = modal.getAttribute('aria-label') || (labelElement && textOf(labelElement)) || (heading && textOf(heading)) || '';
+    }
+
+    const headings = Array.from(document.querySelectorAll('h1, h2, h3, [role="heading"][aria-level="1"], [role="heading"][aria-level="2"]'))
+      .filter(function(element) { return isVisible(element) && !inModal(element); })
+      .map(textOf)
+      .filter(function(text) { return text.length > 0; });
+
+    const implicitRoles = { HEADER: 'banner', NAV: 'navigation', MAIN: 'main', ASIDE: 'complementary', FOOTER: 'contentinfo', FORM: 'form', SECTION: 'region' };
+    const landmarks = Array.from(document.querySelectorAll(
+      'header, nav, main, aside, footer, form[aria-label], section[aria-label], [role="banner"], [role="navigation"], [role="main"], ' +
+      '[role="complementary"], [role="contentinfo"], [role="search"], [role="form"], [role="region"]'
+    ))
+      .filter(function(element) { return isVisible(element) && !inModal(element); })
+      .map(function(element) {
+        const role = element.getAttribute('role') || implicitRoles[element.tagName] || element.tagName.toLowerCase();
+        const name = element.getAttribute('aria-label') || '';
+        return name ? role + ':' + name : role;
+      });
+
+    const tabs = Array.from(document.querySelectorAll('[role="tab"][aria-selected="true"]'))
+      .filter(function(element) { return isVisible(element) && (!modal || !inModal(element) || modal.contains(element)); })
+      .map(textOf)
+      .filter(function(text) { return text.length > 0; });
+
+    // Error messages inside forms and invalid fields - alerts and error styles elsewhere on the page (toasts, banners,
+    // status badges) say nothing about the form. Invalid fields count once flagged by the application (aria-invalid),
+    // after user input (:user-invalid) or when they hold a value (:invalid also matches untouched required fields)
+    const validationErrors = Array.from(document.querySelectorAll(
+      'form [role="alert"], form .invalid-feedback, form .error-message, form .field-error, form [class*="error"], form [class*="invalid"]'
+    ))
+      .filter(function(element) {
+        return isVisible(element) && !element.querySelector('input, select, textarea') &&
+          ['INPUT', 'SELECT', 'TEXTAREA', 'FORM'].indexOf(element.tagName) === -1;
+      })
+      .map(textOf)
+      .filter(function(text) { return text.length > 0 && text.length <= 200; });
+    function fieldMessage(field) {
+      const ids = (field.getAttribute('aria-errormessage') || field.getAttribute('aria-describedby') || '').split(/\\s+/);
+      const referenced = ids
+        .map(function(id) { return id ? document.getElementById(id) : null; })
+        .filter(function(element) { return element && isVisible(element); })
+        .map(textOf)
+        .join(' ');
+      return field.validationMessage || referenced ||
+        'Invalid value: ' + (field.getAttribute('name') || field.id || field.tagName.toLowerCase());
+    }
+    const invalidFields = Array.from(document.querySelectorAll('[aria-invalid="true"], input:invalid, select:invalid, textarea:invalid'))
+      .filter(function(field) { return field.getAttribute('aria-invalid') === 'true' || !!field.value; });
+    try {
+      Array.from(document.querySelectorAll(':user-invalid')).forEach(function(field) {
+        invalidFields.push(field);
+      });
+    } catch (error) {
+      // :user-invalid is not supported by this browser
+    }
+    invalidFields
+      .filter(function(field) { return isVisible(field); })
+      .forEach(function(field) { validationErrors.push(fieldMessage(field)); });
+
+    return {
+      title: document.title || '',
+      headings: headings,
+      landmarks: landmarks,
+      modal: modal ? modalTitle : undefined,
+      tabs: tabs,
+      validationErrors: Array.from(new Set(validationErrors)).slice(0, 20)
+    };
+  })();
+`;
+
+/**
+ * Replace volatile parts of a text (numbers, dates, times) and collapse whitespace
+ */
+export function normalizeVolatileText(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/\d+([.,:/-]\d+)*/g, '#')
+    .trim()
+    .substring(0, MAX_TEXT_LENGTH);
+}
+
+/**
+ * Compute the identity of a page state from its URL template and structure
+ */
+export function computeStateIdentity(urlTemplate: string, structure: PageStructure): StateIdentity {
+  const normalizeSet = (values: string[]) =>
+    Array.from(new Set(values.map(normalizeVolatileText).filter((value) => value.length > 0))).sort();
+
+  const headings = UrlNormalizer.isParameterized(urlTemplate) ? [] : normalizeSet(structure.headings);
+  const landmarks = normalizeSet(structure.landmarks);
+  const tabs = normalizeSet(structure.tabs);
+  const modal = structure.modal !== undefined ? normalizeVolatileText(structure.modal) || 'untitled' : undefined;
+
+  const hasValidationErrors = (structure.validationErrors ?? []).length > 0;
+
+  // Only pages with validation errors get the extra line, so the keys of other states don't change
+  const signature = [
+    `url: ${urlTemplate}`,
+    `headings: ${headings.join(' | ')}`,
+    `landmarks: ${landmarks.join(' | ')}`,
+    `tabs: ${tabs.join(' | ')}`,
+    `modal: ${modal ?? ''}`,
+    ...(hasValidationErrors ? ['validation: errors'] : []),
+  ].join('\n');
+  const stateKey = createHash('sha256').update(signature).digest('hex').substring(0, 16);
+
+  // The first heading names the view best; fall back to the title and the URL path
+  const pathName = (() => {
+    try {
+      return new URL(urlTemplate).pathname;
+    } catch (error) {
+      return urlTemplate;
+    }
+  })();
+  let label = structure.headings[0]?.trim() || structure.title.trim() || pathName;
+  if (structure.tabs.length > 0) {
+    label += ` › ${structure.tabs.join(', ')}`;
+  }
+  if (structure.modal !== undefined) {
+    label += ` + ${structure.modal || 'Untitled'} modal`;
+  }
+  if (hasValidationErrors) {
+    label += ' (validation errors)';
+  }
+
+  return { stateKey, signature, urlTemplate, label };
+}
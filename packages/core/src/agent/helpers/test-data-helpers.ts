@@ -0,0 +1,84 @@
+/**
+ * Test Data Helpers - Utilities for filling form fields with generated test data instead of values chosen by the LLM
+ */
+
+import { PendingAction, SimplifiedElement, ValidationProbe } from '../../types/state.js';
+import { StageContext } from '../stages/stage-context.js';
+
+/**
+ * Get the state of the form shown on a state - a validation error state belongs to the form it was reached from
+ */
+export function getFormStateKey(context: StageContext, stateKey: string): string {
+  return context.formStates.get(stateKey) ?? stateKey;
+}
+
+/**
+ * Replace the values of the fields a batch fills with generated test data
+ * Typed placeholders (credentials, secrets) are kept, as are select options the LLM picked among the real ones.
+ * In probe mode, a batch that fills fields and clicks (submits) gets one deliberately invalid value - a required
+ * field is left empty by dropping its action - and the probe is returned for the execute stage to record
+ */
+export function applyTestData(
+  context: StageContext,
+  actions: PendingAction[],
+  stateKey: string
+): { actions: PendingAction[]; probe?: ValidationProbe } {
+  const fields = new Map<PendingAction, SimplifiedElement>();
+  actions.forEach((action) => {
+    const element = action.elementIndex !== undefined ? context.browserTools.getRegisteredElement(action.elementIndex) : undefined;
+    if (element?.field && (action.tool === 'typeText' || action.tool === 'selectOption')) {
+      fields.set(action, element);
+    }
+  });
+
+  let filled = actions.map((action): PendingAction => {
+    const element = fields.get(action);
+    if (!element) {
+      return action;
+    }
+    if (action.tool === 'typeText') {
+      if (action.text?.includes('{{')) {
+        return action;
+      }
+      const text = context.testDataGenerator.validValue(element);
+      return text !== undefined ? { ...action, text } : action;
+    }
+    const options = element.field?.options ?? [];
+    if (options.some((option) => option.value !== '' && (option.value === action.value || option.label === action.value))) {
+      return action;
+    }
+    const value = context.testDataGenerator.validValue(element);
+    return value !== undefined ? { ...action, value } : action;
+  });
+
+  const submits = actions.some((action) => action.tool === 'clickElement');
+  if (context.testData.mode !== 'probe' || !submits || fields.size === 0) {
+    return { actions: filled };
+  }
+
+  const formStateKey = getFormStateKey(context, stateKey);
+  const probe = context.testDataGenerator.nextProbe(formStateKey, Array.from(fields.values()));
+  if (!probe) {
+    return { actions: filled };
+  }
+  const probedIndex = actions.findIndex((action) => fields.get(action) === probe.element);
+  const probedAction = filled[probedIndex];
+  filled = probe.invalid.value === undefined
+    ? filled.filter((action) => action !== probedAction)
+    : filled.map((action) => action !== probedAction
+      ? action
+      : action.tool === 'typeText' ? { ...action, text: probe.invalid.value } : { ...action, value: probe.invalid.value });
+
+  const fieldName = probe.element.field?.label || probe.element.field?.name || probe.element.selector;
+  const value = probe.invalid.value === undefined ? 'left empty' : `"${probe.invalid.value}"`;
+  return {
+    actions: filled,
+    probe: {
+      formStateKey,
+      field: probe.element,
+      invalid: probe.invalid,
+      fields: Array.from(fields.values()),
+      description: `${fieldName} ${value} (${probe.invalid.rule})`,
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Validation Helpers - Utilities for turning the outcome of a validation probe into FormField and ValidationRule writes
+ */
+
+import { UpsertFormField, UpsertValidationRule, ValidationProbe } from '../../types/state.js';
+import { TestDataGenerator } from '../../utils/test-data-generator.js';
+import { StageContext } from '../stages/stage-context.js';
+import { buildHashKey } from './key-helpers.js';
+
+const MAX_MESSAGE_LENGTH = 200;
+
+/**
+ * Identify a form field by the state of its form and the field (name, test id or selector)
+ */
+export function buildFieldKey(formStateKey: string, fieldKey: string): string {
+  return buildHashKey([formStateKey, fieldKey]);
+}
+
+/**
+ * Build the writes for a probed form: one field per filled field and the rule of the probed one
+ * Secrets are redacted from the messages, which may echo the submitted values
+ */
+export function buildValidationWrites(
+  context: StageContext,
+  probe: ValidationProbe,
+  messages: string[],
+  rejected: boolean
+): Array<UpsertFormField | UpsertValidationRule> {
+  const fieldWrites = probe.fields.map((element): UpsertFormField => ({
+    kind: 'upsertFormField',
+    fieldKey: buildFieldKey(probe.formStateKey, TestDataGenerator.fieldKey(element)),
+    stateKey: probe.formStateKey,
+    selector: element.selector,
+    name: element.field?.name,
+    label: element.field?.label,
+    type: element.tag.toUpperCase() === 'INPUT' ? (element.type || 'text').toLowerCase() : element.tag.toLowerCase(),
+    required: element.isRequired,
+    sessionId: context.sessionId,
+  }));
+
+  const fieldKey = buildFieldKey(probe.formStateKey, TestDataGenerator.fieldKey(probe.field));
+  const ruleWrite: UpsertValidationRule = {
+    kind: 'upsertValidationRule',
+    ruleKey: buildHashKey([fieldKey, probe.invalid.rule]),
+    fieldKey,
+    rule: probe.invalid.rule,
+    value: probe.invalid.value,
+    declared: probe.invalid.declared,
+    rejected,
+    messages: messages.map((message) => context.secrets.redact(message).substring(0, MAX_MESSAGE_LENGTH)),
+    sessionId: context.sessionId,
+  };
+
+  return [...fieldWrites, ruleWrite];
+}
@@ -0,0 +1,25 @@
+/**
+ * System prompts for the backtrack stage (LLM-prioritized frontier selection)
+ */
+
+/**
+ * Builds the prompt asking the LLM which frontier state to explore next
+ */
+export function buildFrontierSelectionPrompt(
+  candidates: Array<{ url: string; depth: number; untried: string[] }>
+): string {
+  const candidateLines = candidates.map((candidate, idx) =>
+    `[${idx}] ${candidate.url} (depth ${candidate.depth})\n    Untried: ${candidate.untried.join(', ')}`
+  ).join('\n');
+
+  return `You are guiding an autonomous web exploration agent. The current branch has been fully explored.
+Below are previously visited states that still have untried interactive elements.
+
+Candidate States:
+${candidateLines}
+
+Instructions:
+1. Pick the state whose untried elements are most likely to reveal new, meaningful application functionality
+2. Prefer core workflows (create, edit, view details, settings) over repetitive or cosmetic elements
+3. Respond with ONLY the index number of the chosen state (e.g. "2")`;
+}
@@ -0,0 +1,133 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { DavAgentState, FrontierState } from '../../types/state.js';
+import { StageContext } from './stage-context.js';
+import { logger } from '../../utils/logger.js';
+import { extractTokenUsage } from '../../utils/token-usage.js';
+import { replayPath } from '../helpers/replay-helpers.js';
+import { buildNotExecutedWrites } from '../helpers/safety-helpers.js';
+import { buildFrontierSelectionPrompt } from './backtrack-stage.prompts.js';
+
+// Maximum number of times the agent returns to the same state before dropping it from the frontier
+const MAX_BACKTRACKS_PER_STATE = 3;
+
+/**
+ * Ask the LLM which frontier state to return to (used by the 'llm' strategy)
+ * Falls back to DFS ordering if the response cannot be parsed
+ */
+async function selectWithLLM(context: StageContext): Promise<FrontierState | null> {
+  const candidates = context.frontier.getCandidates();
+  if (candidates.length <= 1) {
+    return candidates[0] ?? null;
+  }
+
+  const prompt = buildFrontierSelectionPrompt(candidates.map((candidate) => ({
+    url: candidate.url,
+    depth: candidate.depth,
+    untried: candidate.untried.slice(0, 8).map((element) => `"${element.text}"`),
+  })));
+
+  try {
+    const response = await context.llm.invoke([
+      new SystemMessage(prompt),
+      new HumanMessage('Which state should be explored next?'),
+    ]);
+
+    const tokenUsage = extractTokenUsage(response);
+    if (tokenUsage && context.onTokenUsageCallback) {
+      context.onTokenUsageCallback(tokenUsage.inputTokens, tokenUsage.outputTokens);
+    }
+
+    const indexMatch = String(response.content).match(/\d+/);
+    const index = indexMatch ? parseInt(indexMatch[0], 10) : NaN;
+    if (!isNaN(index) && index >= 0 && index < candidates.length) {
+      return candidates[index];
+    }
+    logger.warn('BACKTRACK', `Could not parse frontier selection from LLM response: ${response.content}`, undefined, context.sessionId);
+  } catch (error) {
+    logger.warn('BACKTRACK', 'LLM frontier selection failed, falling back to DFS', {
+      error: error instanceof Error ? error.message : String(error),
+    }, context.sessionId);
+  }
+
+  return context.frontier.selectNext('dfs');
+}
+
+/**
+ * Drop a state from the frontier and record its deferred batches as not executed
+ * The writes are applied directly: the graph may end right after this stage, before persist_data runs
+ */
+async function dropState(context: StageContext, target: FrontierState): Promise<void> {
+  const dropped = context.frontier.markExhausted(target.stateKey);
+  if (dropped.length === 0) {
+    return;
+  }
+
+  try {
+    await context.graphStore.applyWrites(buildNotExecutedWrites(dropped, target.stateKey, context.sessionId));
+    logger.info('BACKTRACK', `Recorded ${dropped.length} deferred batch(es) of ${target.url} as not executed`, undefined, context.sessionId);
+  } catch (error) {
+    logger.error('BACKTRACK', 'Error recording deferred batches as not executed', {
+      error: error instanceof Error ? error.message : String(error),
+    }, context.sessionId);
+  }
+}
+
+/**
+ * Creates the backtrack node handler
+ * Node 5: backtrack - Return to a state with untried actions once the current branch has ended
+ */
+export function createBacktrackStage(context: StageContext) {
+  return async (state: DavAgentState): Promise<Partial<DavAgentState>> => {
+    const target = context.explorationStrategy === 'llm'
+      ? await selectWithLLM(context)
+      : context.frontier.selectNext(context.explorationStrategy);
+
+    if (!target) {
+      logger.info('BACKTRACK', 'Frontier exhausted - no states with untried actions remain', undefined, context.sessionId);
+      return {
+        explorationStatus: 'FLOW_END',
+        actionHistory: ['[BACKTRACK] Frontier exhausted. Exploration complete.'],
+      };
+    }
+
+    if (context.frontier.recordBacktrack(target.stateKey) > MAX_BACKTRACKS_PER_STATE) {
+      await dropState(context, target);
+      logger.warn('BACKTRACK', `Returned to ${target.url} ${MAX_BACKTRACKS_PER_STATE} times already, dropping it from the frontier`, undefined, context.sessionId);
+      return {
+        explorationStatus: 'FLOW_END',
+        actionHistory: [`[BACKTRACK] Gave up returning to ${target.url}. State dropped from frontier.`],
+      };
+    }
+
+    logger.info('BACKTRACK', `Returning to ${target.url} (${target.untried.length} untried element(s), strategy: ${context.explorationStrategy})`, undefined, context.sessionId);
+
+    try {
+      const reached = await replayPath(context.browserTools, context.entryUrl, target, context.sessionId);
+      if (!reached) {
+        // The state cannot be reproduced - drop it so the frontier keeps shrinking
+        await dropState(context, target);
+        logger.warn('BACKTRACK', `Could not reach ${target.url} by replaying its path, dropping it from the frontier`, undefined, context.sessionId);
+        return {
+          explorationStatus: 'FLOW_END',
+          actionHistory: [`[BACKTRACK] Could not return to ${target.url}. State dropped from frontier.`],
+        };
+      }
+
+      context.frontier.moveTo(target);
+      return {
+        currentUrl: context.browserTools.getCurrentUrl(),
+        explorationStatus: 'CONTINUE',
+        actionHistory: [`[BACKTRACK] Returned to ${target.url} to explore ${target.untried.length} untried element(s).`],
+      };
+    } catch (error) {
+      await dropState(context, target);
+      logger.error('BACKTRACK', 'Error replaying path to frontier state', {
+        error: error instanceof Error ? error.message : String(error),
+      }, context.sessionId);
+      return {
+        explorationStatus: 'FLOW_END',
+        actionHistory: [`[BACKTRACK] Error: ${error instanceof Error ? error.message : String(error)}`],
+      };
+    }
+  };
+}
@@ -0,0 +1,24 @@
+import { DavAgentState } from '../../types/state.js';
+import { StageContext } from './stage-context.js';
+import { logger } from '../../utils/logger.js';
+import { buildCheckpoint } from '../helpers/checkpoint-helpers.js';
+
+/**
+ * Creates the checkpoint node handler
+ * Node 6: checkpoint_state - Save the full agent state so the session can be paused and resumed
+ */
+export function createCheckpointStage(context: StageContext) {
+  return async (state: DavAgentState): Promise<Partial<DavAgentState>> => {
+    try {
+      const checkpoint = await buildCheckpoint(context, state);
+      await context.graphStore.saveCheckpoint(context.sessionId, checkpoint);
+      logger.info('CHECKPOINT', `Saved checkpoint at ${state.currentUrl} (${state.actionHistory.length} actions)`, undefined, context.sessionId);
+    } catch (error) {
+      // A missed checkpoint only means a resume starts from an older one - don't fail the flow
+      logger.error('CHECKPOINT', 'Error saving checkpoint', {
+        error: error instanceof Error ? error.message : String(error),
+      }, context.sessionId);
+    }
+    return {};
+  };
+}
@@ -4,6 +4,7 @@
 
 /**
  * Builds the credentials hint for login scenarios
+ * The username and password are passed as placeholders so the LLM never sees the real values
  */
 export function buildCredentialsHint(
   username?: string,
@@ -14,14 +15,29 @@ export function buildCredentialsHint(
   }
 
   return `\n\n🔐 CREDENTIALS AVAILABLE FOR LOGIN:
-If you see a login form (username and password input fields), you can return MULTIPLE actions in an array:
-[
-  {"tool": "typeText", "selector": "#username", "text": "${username}"},
-  {"tool": "typeText", "selector": "#password", "text": "${password}"},
-  {"tool": "clickElement", "selector": "button[type='submit']"}
-]
+If you see a login form (username and password input fields), call MULTIPLE tools in one response:
+1. typeText on the username field's index with text "${username}"
+2. typeText on the password field's index with text "${password}"
+3. clickElement on the submit button's index
+Type the credentials exactly as written above (including the curly braces) - they are filled in when typed.
 
-This allows executing all login steps in one batch, saving tokens and improving efficiency.`;
+This executes all login steps in one batch, saving tokens and improving efficiency.`;
+}
+
+/**
+ * Builds the hint listing untried elements on the current page (from the exploration frontier)
+ */
+export function buildFrontierHint(untried: Array<{ index: number; text: string }>): string {
+  if (untried.length === 0) {
+    return '';
+  }
+
+  const lines = untried.slice(0, 15).map((element) => `- [${element.index}] "${element.text}"`);
+  const more = untried.length > 15 ? `\n- ...and ${untried.length - 15} more` : '';
+
+  return `\n\n🧭 UNEXPLORED ELEMENTS ON THIS PAGE:
+These elements have not been tried yet. PREFER them over elements you already used, so the exploration covers new paths:
+${lines.join('\n')}${more}`;
 }
 
 /**
@@ -31,7 +47,8 @@ export function buildDecideStagePrompt(
   domState: string,
   actionHistory: string[],
   credentialsHint: string,
-  modalHint: string = ''
+  modalHint: string = '',
+  frontierHint: string = ''
 ): string {
   return `You are an autonomous web exploration agent. Your task is to analyze the current page state and decide actions.
 
@@ -39,6 +56,7 @@ Available Tools:
 - clickElement: Click on a button, link, or interactive element (including close 'X' buttons on modals)
 - typeText: Type text into an input field
 - selectOption: Select an option from a dropdown
+- finishFlow: End the current flow (must be the only tool call)
 
 ⚠️ IMPORTANT: You CANNOT navigate by changing URLs directly. You must interact with the webapp through clicking buttons, links, or other UI elements. Do NOT use navigation - only interact with elements on the current page.
 
@@ -49,24 +67,32 @@ Action History:
 ${actionHistory.slice(-5).join('\n')}
 ${credentialsHint}
 ${modalHint}
+${frontierHint}
 
 Instructions:
 1. Analyze the actionable elements on the page
-2. 🚫 CRITICAL - DISABLED ELEMENTS: NEVER select or click elements marked with "⚠️ DISABLED". Disabled elements have the 'disabled' attribute, 'aria-disabled="true"', or a class containing "disabled". They cannot be clicked and will cause errors. Always check the element description for "⚠️ DISABLED" marker before selecting any element. PREFER using specific selectors like [data-cy="..."], [data-testid="..."], or #id when available, as they are more precise and less likely to match disabled elements. If a selector matches multiple elements and some are disabled, you MUST use a more specific selector to target only the enabled element.
+2. 🚫 CRITICAL - DISABLED ELEMENTS: NEVER select or click elements marked with "⚠️ DISABLED". Disabled elements have the 'disabled' attribute, 'aria-disabled="true"', or a class containing "disabled". They cannot be clicked and will cause errors. Always check the element description for "⚠️ DISABLED" marker before selecting any element.
 3. 🎯 CRITICAL: If you see a "MODAL SECTION" or elements marked with [MODAL], you MUST prioritize interacting with those elements first. Modals, dialogs, and popups represent the current active interface that requires user attention. Always interact with modal elements before background page elements.
 4. 🎯 PRIORITY BUTTONS: In modals or wizards, PRIORITIZE clicking "Next", "Done", "Continue", or "Submit" buttons (marked with 🎯 PRIORITY BUTTON). These buttons advance the flow and should be clicked after filling required fields.
-5. ⚠️ REQUIRED FIELDS: Only fill fields marked with "⚠️ REQUIRED" (usually indicated by "*" in the label). Skip optional fields to save time and focus on completing the flow.
+5. ⚠️ REQUIRED FIELDS: Only fill fields marked with "⚠️ REQUIRED" (usually indicated by "*" in the label). Skip optional fields to save time and focus on completing the flow. Values you type into form fields are replaced with generated test data that fits each field, so fill every field the form needs in one batch together with its submit button.
 6. 🔄 DEEP FLOW: If you've previously interacted with modal elements, CONTINUE exploring those same modal elements deeply. Fill out required fields, then click Next/Done buttons to progress through wizards.
 7. ❌ CLOSE MODALS: Once you've finished interacting with all modal elements (required fields filled, Next/Done clicked, etc.), close the modal using the close button (X, Close, Cancel, etc.) before interacting with background page elements.
-8. You can return a SINGLE action OR MULTIPLE actions in an array for batch execution
-9. For login forms or multi-step interactions, return multiple actions to execute them efficiently
-10. If you've reached a natural endpoint, respond with "FLOW_END"
-11. Format your response as JSON:
-   - Single action: {"tool": "clickElement|typeText|selectOption", "selector": "...", "text": "...", "value": "..."}
-   - Multiple actions: {"actions": [{"tool": "...", "selector": "..."}, {"tool": "...", "selector": "..."}]}
-   - End flow: {"status": "FLOW_END"}
+8. You can call a SINGLE tool OR MULTIPLE tools in one response - multiple tool calls are executed as a batch, in order
+9. For login forms or multi-step interactions, call multiple tools to execute them efficiently
+10. If you've reached a natural endpoint, call finishFlow (the agent will then return to earlier pages with unexplored elements)
+11. Always respond with tool calls. Refer to elements by their index - the number in brackets (e.g. [12]) in the page state
    
 ⚠️ REMINDER: Navigation by URL is DISABLED. Only use clickElement, typeText, or selectOption to interact with the page.
 
 Be concise and focus on exploring new paths. Batch related actions together when possible.`;
 }
+
+/**
+ * Builds the repair message sent when the LLM returned invalid tool calls
+ */
+export function buildToolRepairPrompt(errors: string[]): string {
+  return `Your previous response could not be executed:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Respond again with valid tool calls only: clickElement, typeText or selectOption (one or more, executed in order), or finishFlow on its own.`;
+}
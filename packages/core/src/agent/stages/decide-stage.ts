@@ -1,11 +1,17 @@
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { BaseMessage, HumanMessage, SystemMessage, ToolMessage } from '@langchain/core/messages';
 import { DavAgentState, PendingAction } from '../../types/state.js';
 import { StageContext } from './stage-context.js';
 import { logger } from '../../utils/logger.js';
 import { extractTokenUsage } from '../../utils/token-usage.js';
-import { detectLoginScreen, findLoginField, findSubmitButton } from '../helpers/login-helpers.js';
+import { SecretRedactor } from '../../utils/secret-redactor.js';
+import { buildHeuristicRecipe, buildRecipeActions, detectLoginScreen, findLoginRecipe } from '../helpers/login-helpers.js';
 import { extractModalElements, findModalCloseButtons } from '../helpers/modal-helpers.js';
-import { buildDecideStagePrompt, buildCredentialsHint } from './decide-stage.prompts.js';
+import { applyTestData } from '../helpers/test-data-helpers.js';
+import { DECISION_TOOLS, ParsedDecision, parseDecisionToolCalls } from '../helpers/decision-tools.js';
+import { buildDecideStagePrompt, buildCredentialsHint, buildFrontierHint, buildToolRepairPrompt } from './decide-stage.prompts.js';
+
+// Number of times the LLM is asked to fix tool calls that fail validation
+const MAX_REPAIR_ATTEMPTS = 1;
 
 /**
  * Creates the decide_action node handler
@@ -22,55 +28,42 @@ export function createDecideStage(context: StageContext) {
     try {
       // Check if this is a login screen and we haven't attempted login yet
       const isLoginScreen = detectLoginScreen(state.domState);
-      const shouldAutoLogin = isLoginScreen && 
-                              context.credentials.value?.username && 
-                              context.credentials.value?.password && 
+      const canAttemptLogin = isLoginScreen &&
                               !context.loginAttempted.has(state.currentUrl) &&
                               !context.loginSuccessful.value; // Don't attempt login if already successfully logged in
-
-      if (shouldAutoLogin) {
-        logger.info('DECIDE', 'Login screen detected with credentials available - will guide LLM to login');
-        // Mark this URL as login attempted to avoid infinite loops
-        context.loginAttempted.add(state.currentUrl);
-      }
+      // A stored recipe handles logins the form heuristic cannot (tenant selectors, multi-page forms, TOTP)
+      const storedRecipe = canAttemptLogin
+        ? findLoginRecipe(await context.graphStore.loadLoginRecipes(), state.currentUrl, context.entryUrl)
+        : undefined;
+      const hasCredentials = !!(context.credentials.value?.username && context.credentials.value?.password);
+      const shouldAutoLogin = canAttemptLogin && (!!storedRecipe || hasCredentials);
 
       // For login forms, return batch actions directly without LLM call
       if (shouldAutoLogin) {
         logger.info('DECIDE', 'Auto-login detected - Preparing login sequence', undefined, context.sessionId);
-        const usernameSelector = findLoginField(state.domState, 'username');
-        const passwordSelector = findLoginField(state.domState, 'password');
-        const submitSelector = findSubmitButton(state.domState);
-
-        if (usernameSelector && passwordSelector && submitSelector) {
-          logger.info('DECIDE', 'Auto-generating batch login actions', {
-            usernameSelector,
-            passwordSelector,
-            submitSelector,
-          }, context.sessionId);
-
-          const batchActions: PendingAction[] = [
-            {
-              tool: 'typeText',
-              selector: usernameSelector,
-              text: context.credentials.value!.username!,
-            },
-            {
-              tool: 'typeText',
-              selector: passwordSelector,
-              text: context.credentials.value!.password!,
-            },
-            {
-              tool: 'clickElement',
-              selector: submitSelector,
-            },
-          ];
-
-          logger.info('DECIDE', 'Auto-login batch actions prepared', undefined, context.sessionId);
-          return {
-            pendingActions: batchActions,
-            explorationStatus: 'CONTINUE',
-            actionHistory: [`[DECIDE] Auto-login: Batch actions prepared (fill username, fill password, click login)`],
-          };
+        // Mark this URL as login attempted to avoid infinite loops
+        context.loginAttempted.add(state.currentUrl);
+        const recipe = storedRecipe ?? buildHeuristicRecipe(state.domState, state.currentUrl);
+
+        if (recipe) {
+          // Credentials and TOTP codes are typed as placeholders - the browser resolves them when filling the fields
+          const batchActions = buildRecipeActions(recipe, context.secrets);
+          const unresolved = batchActions.flatMap((action) => context.secrets.findUnresolved(action.text ?? ''));
+
+          if (unresolved.length === 0) {
+            context.loginRecipe.value = recipe;
+            context.loginStateKey.value = state.currentStateKey;
+            logger.info('DECIDE', `Auto-login batch actions prepared from ${storedRecipe ? `the login recipe for ${recipe.urlPattern}` : 'the login form'}`, {
+              steps: recipe.steps.map((step) => `${step.action} ${step.locator}`),
+            }, context.sessionId);
+            return {
+              pendingActions: batchActions,
+              pendingProbe: null,
+              explorationStatus: 'CONTINUE',
+              actionHistory: [`[DECIDE] Auto-login: Batch actions prepared (${recipe.steps.map((step) => step.action).join(', ')})`],
+            };
+          }
+          logger.warn('DECIDE', `Auto-login: No value for ${unresolved.join(', ')}, falling back to LLM`, undefined, context.sessionId);
         } else {
           logger.warn('DECIDE', 'Auto-login: Could not find all required login fields, falling back to LLM', undefined, context.sessionId);
         }
@@ -79,7 +72,7 @@ export function createDecideStage(context: StageContext) {
       }
 
       const credentialsHint = context.credentials.value?.username && context.credentials.value?.password && !context.loginSuccessful.value
-        ? buildCredentialsHint(context.credentials.value.username, context.credentials.value.password)
+        ? buildCredentialsHint(SecretRedactor.placeholder('credentials.username'), SecretRedactor.placeholder('credentials.password'))
         : '';
 
       // Track modal interactions and provide context
@@ -105,120 +98,132 @@ export function createDecideStage(context: StageContext) {
         }
       }
 
+      // Point the LLM at elements the frontier has not tried yet on this state
+      const frontierHint = buildFrontierHint(context.frontier.getUntriedElements());
+
       const systemPrompt = buildDecideStagePrompt(
         state.domState,
         state.actionHistory,
         credentialsHint,
-        modalHint
+        modalHint,
+        frontierHint
       );
 
-      const messages = [
+      if (!context.llm.bindTools) {
+        throw new Error('The configured LLM does not support tool calling');
+      }
+      const llmWithTools = context.llm.bindTools(DECISION_TOOLS, { tool_choice: 'any' });
+
+      const messages: BaseMessage[] = [
         new SystemMessage(systemPrompt),
         new HumanMessage('What is the next action I should take?'),
       ];
 
-      const response = await context.llm.invoke(messages);
-      const content = response.content as string;
-
-      // Track token usage
-      const tokenUsage = extractTokenUsage(response);
-      if (tokenUsage && context.onTokenUsageCallback) {
-        context.onTokenUsageCallback(tokenUsage.inputTokens, tokenUsage.outputTokens);
-      } else if (context.onTokenUsageCallback) {
-        // Log warning if we couldn't extract usage (for debugging)
-        logger.warn('DECIDE', 'Could not extract token usage from LLM response', {
-          responseKeys: Object.keys(response as any),
-          responseMetadata: (response as any).response_metadata,
-        });
-      }
+      // Invoke the LLM, giving it one repair round if its tool calls don't validate
+      let parsedDecision: ParsedDecision = { kind: 'invalid', errors: [] };
+      for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const response = await llmWithTools.invoke(messages);
+
+        // Track token usage
+        const tokenUsage = extractTokenUsage(response);
+        if (tokenUsage && context.onTokenUsageCallback) {
+          context.onTokenUsageCallback(tokenUsage.inputTokens, tokenUsage.outputTokens);
+        } else if (context.onTokenUsageCallback) {
+          // Log warning if we couldn't extract usage (for debugging)
+          logger.warn('DECIDE', 'Could not extract token usage from LLM response', {
+            responseKeys: Object.keys(response as any),
+            responseMetadata: (response as any).response_metadata,
+          });
+        }
 
-      logger.info('DECIDE', `LLM Response: ${content}`, undefined, context.sessionId);
+        const toolCallsSummary = JSON.stringify((response.tool_calls ?? []).map((toolCall) => ({ name: toolCall.name, args: toolCall.args })));
+        logger.info('DECIDE', `LLM tool calls: ${context.secrets.redact(toolCallsSummary)}`, undefined, context.sessionId);
+
+        parsedDecision = parseDecisionToolCalls(response.tool_calls, (index) => context.browserTools.getRegisteredElement(index));
+        if (parsedDecision.kind !== 'invalid' || attempt === MAX_REPAIR_ATTEMPTS) {
+          break;
+        }
+
+        logger.warn('DECIDE', `Invalid tool calls - asking the LLM to repair them`, { errors: parsedDecision.errors }, context.sessionId);
+        // Every tool call needs a matching tool result before the conversation can continue
+        const errorSummary = parsedDecision.errors.join(' ');
+        messages.push(
+          response,
+          ...(response.tool_calls ?? []).map((toolCall, index) => new ToolMessage({
+            tool_call_id: toolCall.id ?? `call_${index}`,
+            content: `Not executed: ${errorSummary}`,
+          })),
+          new HumanMessage(buildToolRepairPrompt(parsedDecision.errors))
+        );
+      }
 
-      // Parse LLM response
       let decision: Partial<DavAgentState>;
 
-      if (content.includes('FLOW_END') || content.includes('"status": "FLOW_END"')) {
-        logger.info('DECIDE', 'Flow ended', undefined, context.sessionId);
+      if (parsedDecision.kind === 'finish') {
+        logger.info('DECIDE', `Flow ended${parsedDecision.reason ? `: ${parsedDecision.reason}` : ''}`, undefined, context.sessionId);
+        // The LLM considers this state done - only its deferred batches bring the agent back to it
+        context.frontier.finishBranch();
+        decision = {
+          explorationStatus: 'FLOW_END',
+          pendingAction: null,
+          pendingProbe: null,
+          pendingActions: [],
+          actionHistory: [`[DECIDE] Agent decided to end flow.${parsedDecision.reason ? ` ${parsedDecision.reason}` : ''}`],
+        };
+      } else if (parsedDecision.kind === 'invalid') {
+        logger.warn('DECIDE', 'LLM returned invalid tool calls after repair - ending branch', { errors: parsedDecision.errors }, context.sessionId);
+        // Don't return to a state the LLM cannot produce valid actions for, except to run its deferred batches
+        context.frontier.finishBranch();
         decision = {
           explorationStatus: 'FLOW_END',
           pendingAction: null,
+          pendingProbe: null,
           pendingActions: [],
-          actionHistory: ['[DECIDE] Agent decided to end flow.'],
+          actionHistory: [`[DECIDE] Invalid tool calls after repair: ${parsedDecision.errors.join(' ')}`],
         };
       } else {
-        // Try to extract JSON from response
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          try {
-            const parsed = JSON.parse(jsonMatch[0]);
-            
-            // Check if it's a batch of actions
-            if (parsed.actions && Array.isArray(parsed.actions)) {
-              const batchActions: PendingAction[] = parsed.actions.map((action: any) => ({
-                tool: action.tool || 'clickElement',
-                selector: action.selector,
-                text: action.text,
-                value: action.value,
-                url: action.url,
-              }));
-
-              // Track modal interactions
-              batchActions.forEach(action => {
-                if (action.selector) {
-                  const selector = action.selector;
-                  if (modalElements.some(el => el.includes(selector))) {
-                    context.interactedModalSelectors.add(selector);
-                  }
-                }
-              });
-
-              logger.info('DECIDE', `Selected ${batchActions.length} batch actions: ${batchActions.map(a => a.tool).join(', ')}`, undefined, context.sessionId);
-
-              decision = {
-                pendingActions: batchActions,
-                explorationStatus: 'CONTINUE',
-                actionHistory: [`[DECIDE] Selected ${batchActions.length} batch actions: ${batchActions.map(a => a.tool).join(', ')}`],
-              };
-            } else {
-              // Single action (backward compatible)
-              const pendingAction: PendingAction = {
-                tool: parsed.tool || 'clickElement',
-                selector: parsed.selector,
-                text: parsed.text,
-                value: parsed.value,
-                url: parsed.url,
-              };
-
-              // Track modal interactions
-              if (pendingAction.selector && modalElements.some(el => el.includes(pendingAction.selector!))) {
-                context.interactedModalSelectors.add(pendingAction.selector);
-              }
-
-              // Don't emit decisions for single actions - they're too verbose
-              // Only batch actions and special events (login, cycle, flow end) are emitted
-
-              decision = {
-                pendingAction,
-                pendingActions: [pendingAction], // Convert single to array for batch execution
-                explorationStatus: 'CONTINUE',
-                actionHistory: [`[DECIDE] Selected action: ${pendingAction.tool} on ${pendingAction.selector || pendingAction.url}`],
-              };
+        // Form fields get generated test data instead of the LLM's values (login forms keep the credentials)
+        const isLoginForm = !context.loginSuccessful.value && detectLoginScreen(state.domState);
+        const testData = isLoginForm
+          ? { actions: parsedDecision.actions, probe: undefined }
+          : applyTestData(context, parsedDecision.actions, state.currentStateKey);
+        const probeNote = testData.probe ? ` [VALIDATION PROBE: ${testData.probe.description}]` : '';
+        if (testData.probe) {
+          logger.info('DECIDE', `Validation probe: ${testData.probe.description}`, undefined, context.sessionId);
+        }
+
+        // Store secrets the LLM typed (e.g. into password fields) as placeholders
+        const batchActions = testData.actions.map((action) => context.secrets.protectAction(
+          action,
+          action.elementIndex !== undefined ? context.browserTools.getRegisteredElement(action.elementIndex) : undefined
+        ));
+
+        // Track modal interactions
+        batchActions.forEach(action => {
+          if (action.selector) {
+            const selector = action.selector;
+            if (modalElements.some(el => el.includes(selector))) {
+              context.interactedModalSelectors.add(selector);
             }
-          } catch (e) {
-            // Fallback: try to infer action from text
-            decision = {
-              explorationStatus: 'FLOW_END',
-              pendingAction: null,
-              pendingActions: [],
-              actionHistory: [`[DECIDE] Could not parse LLM response: ${content}`],
-            };
           }
+        });
+
+        if (batchActions.length > 1) {
+          logger.info('DECIDE', `Selected ${batchActions.length} batch actions: ${batchActions.map(a => a.tool).join(', ')}`, undefined, context.sessionId);
+          decision = {
+            pendingActions: batchActions,
+            pendingProbe: testData.probe ?? null, // The execute stage records how the application answered the probe
+            explorationStatus: 'CONTINUE',
+            actionHistory: [`[DECIDE] Selected ${batchActions.length} batch actions: ${batchActions.map(a => a.tool).join(', ')}${probeNote}`],
+          };
         } else {
+          const pendingAction = batchActions[0];
           decision = {
-            explorationStatus: 'FLOW_END',
-            pendingAction: null,
-            pendingActions: [],
-            actionHistory: [`[DECIDE] No valid action found in response: ${content}`],
+            pendingAction,
+            pendingActions: [pendingAction],
+            pendingProbe: testData.probe ?? null,
+            explorationStatus: 'CONTINUE',
+            actionHistory: [`[DECIDE] Selected action: ${pendingAction.tool} on [${pendingAction.elementIndex}] ${pendingAction.selector}${probeNote}`],
           };
         }
       }
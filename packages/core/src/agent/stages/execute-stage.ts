@@ -1,11 +1,23 @@
-import { DavAgentState, PendingAction } from '../../types/state.js';
+import { DavAgentState, GraphWrite, PendingAction } from '../../types/state.js';
 import { StageContext } from './stage-context.js';
 import { logger } from '../../utils/logger.js';
-import { Neo4jTools } from '../../utils/neo4j-tools.js';
+import { isUrlInScope } from '../helpers/scope-helpers.js';
+import { describeActions, returnToState } from '../helpers/replay-helpers.js';
+import { buildApiEndpointWrites, describeApiCalls, redactApiCalls } from '../helpers/api-call-helpers.js';
+import { buildDeadActionProblem, buildFindingWrites } from '../helpers/finding-helpers.js';
+import { isLoggedOut, relogin } from '../helpers/login-helpers.js';
+import { classifyAction } from '../helpers/safety-helpers.js';
+import { buildValidationWrites } from '../helpers/validation-helpers.js';
+
+// Number of duplicate transitions tolerated on a state before its branch is ended
+const MAX_STALLS_PER_STATE = 3;
+
+// Number of times the agent logs in again after the session ended, before the exploration fails
+const MAX_RELOGINS = 10;
 
 /**
  * Creates the execute_tool node handler
- * Node 3: execute_tool - Execute pending actions in batch and generate Cypher queries
+ * Node 3: execute_tool - Execute pending actions in batch and prepare graph writes
  */
 export function createExecuteStage(context: StageContext) {
   return async (state: DavAgentState): Promise<Partial<DavAgentState>> => {
@@ -29,21 +41,18 @@ export function createExecuteStage(context: StageContext) {
 
     try {
       const fromUrl = state.currentUrl;
+      const fromStateKey = state.currentStateKey;
 
       // Build action description for checking duplicates
-      const actionDescriptions = actionsToExecute.map(a => {
-        if (a.tool === 'clickElement') return `${a.tool} on ${a.selector}`;
-        if (a.tool === 'typeText') return `${a.tool} on ${a.selector} with text "${a.text}"`;
-        if (a.tool === 'selectOption') return `${a.tool} on ${a.selector} with value "${a.value}"`;
-        if (a.tool === 'navigate') return `${a.tool} to ${a.url}`;
-        return a.tool;
-      });
-      const batchDescription = actionsToExecute.length > 1
-        ? `Batch: ${actionDescriptions.join(' → ')}`
-        : actionDescriptions[0];
+      const batchDescription = describeActions(actionsToExecute);
+
+      // Validation probe the decide stage attached to this batch, if any (cleared once the batch is handled)
+      const probe = state.pendingProbe;
 
-      // Create a unique key for this transition attempt (fromUrl + action description + selector)
-      const transitionKey = `${fromUrl}|||${batchDescription}|||${actionsToExecute[0]?.selector || ''}`;
+      // Create a unique key for this transition attempt (from state + action description + selector + element positions)
+      // The XPaths tell apart elements that share an ambiguous selector (e.g. one button per table row)
+      const elementPaths = actionsToExecute.map(a => a.locator?.xpath ?? '').join(',');
+      const transitionKey = `${fromStateKey}|||${batchDescription}|||${actionsToExecute[0]?.selector || ''}|||${elementPaths}`;
       
       // Check if we've already executed this exact transition in this session
       if (context.executedTransitions.has(transitionKey)) {
@@ -51,20 +60,43 @@ export function createExecuteStage(context: StageContext) {
         
         // Still need to observe the current state to continue exploration
         const currentObservation = await context.browserTools.observe();
+
+        // If the agent keeps picking executed transitions here, end the branch so it can backtrack
+        const stalls = context.frontier.recordStall();
+        if (stalls >= MAX_STALLS_PER_STATE) {
+          context.frontier.finishBranch();
+          logger.info('EXECUTE', `Agent repeated executed transitions ${stalls} times on this state - ending branch`, undefined, context.sessionId);
+        }
+
         return {
           currentUrl: currentObservation.currentUrl,
           actionHistory: [`[EXECUTE] Skipped duplicate transition: ${batchDescription} from ${fromUrl}`],
-          explorationStatus: 'CONTINUE',
+          explorationStatus: stalls >= MAX_STALLS_PER_STATE ? 'FLOW_END' : 'CONTINUE',
           pendingActions: [],
           pendingAction: null,
+          pendingProbe: null,
         };
       }
 
       logger.info('EXECUTE', `Executing ${actionsToExecute.length} action(s) in batch...`, undefined, context.sessionId);
+      context.budget.recordAction();
+
+      const stepIndex = state.actionHistory?.length ?? 0;
+      const screenshotsBefore = await context.browserTools.captureScreenshots(context.sessionId, stepIndex, 'before');
 
       const executedActions: string[] = [];
       let finalUrl = fromUrl;
 
+      // Problems reported before the batch (e.g. while the state loaded or was replayed) belong to the state itself
+      const findingWrites = buildFindingWrites(context.browserTools.takePageProblems(), context, fromStateKey);
+
+      // Record the API calls the batch triggers until the network is idle again
+      context.browserTools.startNetworkCapture();
+
+      // Click-only batches are checked for dead buttons - typed and selected values don't show in the DOM
+      const clickOnly = actionsToExecute.every((action) => action.tool === 'clickElement');
+      const domHashBefore = clickOnly ? await context.browserTools.getDomHash().catch(() => undefined) : undefined;
+
       // Execute all actions in sequence
       for (let i = 0; i < actionsToExecute.length; i++) {
         const action = actionsToExecute[i];
@@ -78,7 +110,7 @@ export function createExecuteStage(context: StageContext) {
                 throw new Error('Selector required for clickElement');
               }
               logger.info('EXECUTE', `[${i + 1}/${actionsToExecute.length}] Clicking: ${action.selector}`, undefined, context.sessionId);
-              await context.browserTools.clickElement(action.selector);
+              await context.browserTools.clickElement(action.selector, action.locator);
               executedActions.push(`${action.tool} on ${action.selector}`);
               logger.info('EXECUTE', `[${i + 1}/${actionsToExecute.length}] Clicked successfully`, undefined, context.sessionId);
               break;
@@ -89,7 +121,7 @@ export function createExecuteStage(context: StageContext) {
               }
               const textPreview = action.text.length > 30 ? action.text.substring(0, 30) + '...' : action.text;
               logger.info('EXECUTE', `[${i + 1}/${actionsToExecute.length}] Typing into ${action.selector}: "${textPreview}"`, undefined, context.sessionId);
-              await context.browserTools.typeText(action.selector, action.text);
+              await context.browserTools.typeText(action.selector, action.text, action.locator);
               executedActions.push(`${action.tool} on ${action.selector} with text "${action.text.substring(0, 20)}${action.text.length > 20 ? '...' : ''}"`);
               logger.info('EXECUTE', `[${i + 1}/${actionsToExecute.length}] Text entered successfully`, undefined, context.sessionId);
               break;
@@ -99,7 +131,7 @@ export function createExecuteStage(context: StageContext) {
                 throw new Error('Selector and value required for selectOption');
               }
               logger.info('EXECUTE', `[${i + 1}/${actionsToExecute.length}] Selecting "${action.value}" from ${action.selector}`, undefined, context.sessionId);
-              await context.browserTools.selectOption(action.selector, action.value);
+              await context.browserTools.selectOption(action.selector, action.value, action.locator);
               executedActions.push(`${action.tool} on ${action.selector} with value "${action.value}"`);
               logger.info('EXECUTE', `[${i + 1}/${actionsToExecute.length}] Option selected successfully`, undefined, context.sessionId);
               break;
@@ -133,74 +165,248 @@ export function createExecuteStage(context: StageContext) {
         logger.warn('EXECUTE', 'Network idle timeout - proceeding anyway', { error: error instanceof Error ? error.message : String(error) }, context.sessionId);
       }
 
+      const apiCalls = redactApiCalls(await context.browserTools.stopNetworkCapture(), context.secrets);
+      if (apiCalls.length > 0) {
+        logger.info('EXECUTE', `Batch made ${apiCalls.length} API call(s): ${describeApiCalls(apiCalls)}`, undefined, context.sessionId);
+      }
+      const apiEndpointWrites = buildApiEndpointWrites(apiCalls, fromStateKey, batchDescription, context.sessionId, actionsToExecute[0]?.selector);
+
+      const batchProblems = context.browserTools.takePageProblems();
+      if (domHashBefore && apiCalls.length === 0 && context.browserTools.getCurrentUrl() === fromUrl) {
+        const domHashAfter = await context.browserTools.getDomHash().catch(() => undefined);
+        if (domHashAfter === domHashBefore) {
+          batchProblems.push(buildDeadActionProblem(actionsToExecute, fromUrl));
+        }
+      }
+      findingWrites.push(...buildFindingWrites(batchProblems, context, fromStateKey, batchDescription));
+      if (findingWrites.length > 0) {
+        logger.warn('EXECUTE', `Found ${findingWrites.length} page problem(s): ${findingWrites.map((finding) => finding.message).join(' | ')}`, undefined, context.sessionId);
+      }
+
       // Get the final URL after all actions
       finalUrl = context.browserTools.getCurrentUrl();
       logger.info('EXECUTE', `Final URL after actions: ${finalUrl}`, undefined, context.sessionId);
 
-      // Generate Cypher queries for State -> Actions -> State transition
-      const queries: string[] = [];
+      // Keep the agent inside the target application - record where the action leads and go back
+      if (!isUrlInScope(finalUrl, context.scope, context.entryUrl)) {
+        logger.info('EXECUTE', `Action left the exploration scope (${finalUrl}) - recording external link and returning to ${fromUrl}`, undefined, context.sessionId);
+
+        context.executedTransitions.add(transitionKey);
+        context.frontier.markTried(actionsToExecute);
+
+        const externalWrites: GraphWrite[] = [
+          { kind: 'upsertExternal', url: finalUrl, sessionId: context.sessionId },
+          {
+            kind: 'upsertExternalTransition',
+            fromStateKey,
+            externalUrl: finalUrl,
+            action: batchDescription,
+            sessionId: context.sessionId,
+            selector: actionsToExecute[0]?.selector,
+          },
+          ...apiEndpointWrites,
+          ...findingWrites,
+        ];
+
+        const returnedUrl = await returnToState(
+          context.browserTools,
+          context.entryUrl,
+          context.frontier.getCurrentState(),
+          fromUrl,
+          context.sessionId
+        );
+
+        return {
+          currentUrl: returnedUrl,
+          graphWrites: externalWrites,
+          actionHistory: [`[EXECUTE] Batch executed: ${executedActions.join(' → ')}. Left scope to ${finalUrl} (recorded as external link). Returned to ${returnedUrl}.`],
+          explorationStatus: 'CONTINUE',
+          pendingActions: [],
+          pendingAction: null,
+          pendingProbe: null,
+        };
+      }
+
+      // Prepare graph writes for State -> Actions -> State transition
+      const writes: GraphWrite[] = [];
 
       // Observe the current page state after batch execution
       logger.info('EXECUTE', 'Observing page state after actions...', undefined, context.sessionId);
       const newObservation = await context.browserTools.observe();
-      logger.info('EXECUTE', `Page state captured (fingerprint: ${newObservation.fingerprint.substring(0, 8)}...)`, undefined, context.sessionId);
+      const screenshotsAfter = await context.browserTools.captureScreenshots(context.sessionId, stepIndex, 'after');
+      logger.info('EXECUTE', `Page state captured: "${newObservation.stateLabel}" (fingerprint: ${newObservation.fingerprint.substring(0, 8)}...)`, undefined, context.sessionId);
 
       // Mark this transition as executed
       context.executedTransitions.add(transitionKey);
+
+      // Bounced back to the login page after logging in (logout action, expired session, 401 redirect):
+      // record the logout instead of a transition, log in again and replay the known path to the previous state
+      if (await isLoggedOut(context, newObservation.stateKey, fromUrl)) {
+        context.frontier.markTried(actionsToExecute);
+        const reason = actionsToExecute.some((action) => classifyAction(action, state.domState, context.safetyPolicy) === 'logout')
+          ? 'logout_action'
+          : 'session_expired';
+        logger.warn('EXECUTE', `Logged out after "${batchDescription}" (${reason}) - now on ${finalUrl}`, undefined, context.sessionId);
+
+        const logoutWrites: GraphWrite[] = [
+          {
+            kind: 'upsertState',
+            stateKey: newObservation.stateKey,
+            url: finalUrl,
+            urlTemplate: newObservation.urlTemplate,
+            label: newObservation.stateLabel,
+            fingerprint: newObservation.fingerprint,
+            sessionId: context.sessionId,
+            persona: context.persona,
+          },
+          {
+            kind: 'upsertLogout',
+            fromStateKey,
+            toStateKey: newObservation.stateKey,
+            action: batchDescription,
+            reason,
+            sessionId: context.sessionId,
+            selector: actionsToExecute[0]?.selector,
+          },
+          ...apiEndpointWrites,
+          ...findingWrites,
+        ];
+
+        const loggedIn = context.relogins.value < MAX_RELOGINS && await relogin(context, newObservation.domState);
+        if (!loggedIn) {
+          context.loginSuccessful.value = false;
+          return {
+            currentUrl: finalUrl,
+            graphWrites: logoutWrites,
+            actionHistory: [`[EXECUTE] Batch executed: ${executedActions.join(' → ')}. Logged out (${reason}) and could not log in again.`],
+            explorationStatus: 'FAILURE',
+            pendingActions: [],
+            pendingAction: null,
+            pendingProbe: null,
+          };
+        }
+        context.relogins.value++;
+
+        const returnedUrl = await returnToState(
+          context.browserTools,
+          context.entryUrl,
+          context.frontier.getCurrentState(),
+          fromUrl,
+          context.sessionId
+        );
+
+        return {
+          currentUrl: returnedUrl,
+          graphWrites: logoutWrites,
+          actionHistory: [`[EXECUTE] Batch executed: ${executedActions.join(' → ')}. Logged out (${reason}) - logged in again and returned to ${returnedUrl}.`],
+          explorationStatus: 'CONTINUE',
+          pendingActions: [],
+          pendingAction: null,
+          pendingProbe: null,
+        };
+      }
+
+      // Record how the application answered a validation probe. Only one value of the form was invalid, so the
+      // messages on the form's page belong to the probed field when none is tied to it; a form that stays put refused
+      // the value too
+      let probeWrites: GraphWrite[] = [];
+      let probeNote = '';
+      let probesLeft = false;
+      if (probe) {
+        const fieldMessages = await context.browserTools.getFieldValidationMessages(probe.field.selector, probe.field.locator);
+        const onFormPage = context.urlNormalizer.normalize(finalUrl) === context.urlNormalizer.normalize(fromUrl);
+        const messages = fieldMessages.length > 0 ? fieldMessages : (onFormPage ? newObservation.validationErrors : []);
+        const rejected = messages.length > 0 || newObservation.stateKey === fromStateKey;
+        if (rejected && newObservation.stateKey !== probe.formStateKey && !context.formStates.has(newObservation.stateKey)) {
+          context.formStates.set(newObservation.stateKey, probe.formStateKey);
+        }
+        probeWrites = buildValidationWrites(context, probe, messages, rejected);
+        probesLeft = context.testDataGenerator.hasProbesLeft(probe.formStateKey, probe.fields);
+
+        const outcome = rejected ? `rejected${messages.length > 0 ? `: ${messages.join(' | ')}` : ''}` : 'accepted';
+        logger.info('EXECUTE', `Validation probe ${probe.description} ${outcome}`, undefined, context.sessionId);
+        probeNote = ` Validation probe ${probe.description} ${outcome}.${rejected && probesLeft ? ' The form has more probes left - fill and submit it again.' : ''}`;
+      }
+
+      // Mark the elements as tried in the frontier (a form with probes left is offered again) and extend the known path
+      context.frontier.recordTransition(actionsToExecute, probesLeft);
       
-      // Also create a key with the final URL for future reference
-      const finalTransitionKey = `${fromUrl}|||${batchDescription}|||${actionsToExecute[0]?.selector || ''}|||${finalUrl}`;
+      // Also create a key with the resulting state for future reference
+      const finalTransitionKey = `${fromStateKey}|||${batchDescription}|||${actionsToExecute[0]?.selector || ''}|||${newObservation.stateKey}`;
       context.executedTransitions.add(finalTransitionKey);
 
       // Check if this transition already exists in the database before persisting
-      const transitionAlreadyExists = await context.neo4jTools.transitionExists(
-        fromUrl,
-        finalUrl,
+      const transitionAlreadyExists = await context.graphStore.transitionExists(
+        fromStateKey,
+        newObservation.stateKey,
         batchDescription,
         context.sessionId,
         actionsToExecute[0]?.selector
       );
 
       if (transitionAlreadyExists) {
-        logger.info('EXECUTE', `Transition already exists in database: ${fromUrl} -> ${finalUrl} with action "${batchDescription}". MERGE will handle duplicate.`, undefined, context.sessionId);
+        logger.info('EXECUTE', `Transition already exists in database: ${fromUrl} -> ${finalUrl} with action "${batchDescription}". The graph store will merge the duplicate.`, undefined, context.sessionId);
       }
 
-      // Merge the "from" state
-      queries.push(Neo4jTools.generateMergeStateQuery(fromUrl, 'temp', context.sessionId));
-
-      // Merge the "to" state
-      queries.push(Neo4jTools.generateMergeStateQuery(finalUrl, newObservation.fingerprint, context.sessionId));
+      // Merge the "to" state (the "from" state was merged when it was observed)
+      writes.push({
+        kind: 'upsertState',
+        stateKey: newObservation.stateKey,
+        url: finalUrl,
+        urlTemplate: newObservation.urlTemplate,
+        label: newObservation.stateLabel,
+        fingerprint: newObservation.fingerprint,
+        sessionId: context.sessionId,
+        persona: context.persona,
+      });
 
       // Create a single transition relationship representing the batch of actions
-      // MERGE will handle duplicates gracefully
-      queries.push(
-        Neo4jTools.generateTransitionQuery(fromUrl, finalUrl, batchDescription, context.sessionId, actionsToExecute[0]?.selector)
-      );
+      // The graph store merges duplicates gracefully
+      writes.push({
+        kind: 'upsertTransition',
+        fromStateKey,
+        toStateKey: newObservation.stateKey,
+        action: batchDescription,
+        sessionId: context.sessionId,
+        selector: actionsToExecute[0]?.selector,
+        locators: actionsToExecute.map(a => a.locator ?? null),
+        screenshotsBefore,
+        screenshotsAfter,
+        apiCalls,
+        persona: context.persona,
+      });
+      writes.push(...apiEndpointWrites, ...findingWrites, ...probeWrites);
 
       if (!transitionAlreadyExists) {
-        logger.info('EXECUTE', `Prepared ${queries.length} Neo4j queries for state transition`, undefined, context.sessionId);
+        logger.info('EXECUTE', `Prepared ${writes.length} graph writes for state transition`, undefined, context.sessionId);
       } else {
-        logger.info('EXECUTE', `Prepared ${queries.length} Neo4j queries (MERGE will skip duplicate)`, undefined, context.sessionId);
+        logger.info('EXECUTE', `Prepared ${writes.length} graph writes (duplicate will be merged)`, undefined, context.sessionId);
       }
       const historyEntry = transitionAlreadyExists
-        ? `[EXECUTE] Batch executed: ${executedActions.join(' → ')}. Transitioned from ${fromUrl} to ${finalUrl}. [DUPLICATE TRANSITION - SKIPPED]`
-        : `[EXECUTE] Batch executed: ${executedActions.join(' → ')}. Transitioned from ${fromUrl} to ${finalUrl}.`;
+        ? `[EXECUTE] Batch executed: ${executedActions.join(' → ')}. Transitioned from ${fromUrl} to ${finalUrl}.${probeNote} [DUPLICATE TRANSITION - SKIPPED]`
+        : `[EXECUTE] Batch executed: ${executedActions.join(' → ')}. Transitioned from ${fromUrl} to ${finalUrl}.${probeNote}`;
 
       return {
         currentUrl: finalUrl,
-        neo4jQueries: queries,
+        graphWrites: writes,
         actionHistory: [historyEntry],
         explorationStatus: 'CONTINUE',
         pendingActions: [], // Clear executed actions
         pendingAction: null, // Clear for backward compatibility
+        pendingProbe: null,
       };
     } catch (error) {
       logger.error('EXECUTE', 'Error in batch execution', { error: error instanceof Error ? error.message : String(error) }, context.sessionId);
+      await context.browserTools.stopNetworkCapture();
+      // Don't offer the failing elements again, and end the branch: the page may be left half-filled, so the
+      // exploration continues by backtracking to a frontier state instead of acting on this page
+      context.frontier.markTried(actionsToExecute);
       return {
-        explorationStatus: 'FAILURE',
+        explorationStatus: 'FLOW_END',
         actionHistory: [`[EXECUTE] Error: ${error instanceof Error ? error.message : String(error)}`],
         pendingActions: [], // Clear on error
         pendingAction: null,
+        pendingProbe: null,
       };
     }
   };
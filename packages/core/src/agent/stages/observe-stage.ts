@@ -1,8 +1,9 @@
-import { DavAgentState } from '../../types/state.js';
+import { DavAgentState, GraphWrite } from '../../types/state.js';
 import { StageContext } from './stage-context.js';
 import { logger } from '../../utils/logger.js';
-import { detectLoginScreen } from '../helpers/login-helpers.js';
+import { detectLoginScreen, isLoginSuccessful } from '../helpers/login-helpers.js';
 import { detectModal } from '../helpers/modal-helpers.js';
+import { buildAccessibilityWrites } from '../helpers/accessibility-helpers.js';
 
 /**
  * Creates the observe_state node handler
@@ -27,31 +28,67 @@ export function createObserveStage(context: StageContext) {
 
       // Count actionable elements (subtract 1 for the header line)
       const elementCount = observation.domState.split('\n').length - 1;
-      let historyEntry = `[OBSERVE] Visited ${observation.currentUrl}. Found ${elementCount} actionable elements.`;
+      let historyEntry = `[OBSERVE] Visited ${observation.currentUrl} (${observation.stateLabel}). Found ${elementCount} actionable elements.`;
       
-      // Check for cycle: if we've seen this fingerprint before, we've completed a cycle
-      const visitedFingerprints = state.visitedFingerprints || [];
-      const isCycle = visitedFingerprints.includes(observation.fingerprint);
+      // Register the state in the exploration frontier (records its untried branch candidates)
+      context.frontier.recordState(observation.stateKey, observation.currentUrl, observation.elements);
+
+      // Persist the state node with its current label and fingerprint; transitions from it reference its key
+      const stateWrite: GraphWrite = {
+        kind: 'upsertState',
+        stateKey: observation.stateKey,
+        url: observation.currentUrl,
+        urlTemplate: observation.urlTemplate,
+        label: observation.stateLabel,
+        fingerprint: observation.fingerprint,
+        sessionId: context.sessionId,
+        screenshots: observation.screenshots,
+        accessibilityViolations: observation.accessibilityViolations?.length,
+        persona: context.persona,
+      };
+
+      // Violations of the accessibility audit are written after their state, which they link to
+      const accessibilityWrites = observation.accessibilityViolations
+        ? buildAccessibilityWrites(observation.accessibilityViolations, context, observation.stateKey)
+        : [];
+      if (observation.accessibilityViolations) {
+        logger.info('OBSERVE', `Accessibility audit: ${observation.accessibilityViolations.length} violation(s), ${accessibilityWrites.length} distinct`, undefined, context.sessionId);
+      }
+
+      // Check for cycle: if we've seen this state before and it has nothing left to try, the branch is complete
+      const visitedStateKeys = state.visitedStateKeys || [];
+      const isCycle = visitedStateKeys.includes(observation.stateKey);
       
-      if (isCycle) {
-        logger.info('OBSERVE', `Cycle detected! Fingerprint ${observation.fingerprint} was visited before. Ending exploration gracefully.`, undefined, context.sessionId);
-        historyEntry += ' [CYCLE DETECTED - Exploration complete]';
+      if (isCycle && !context.frontier.hasUntried(observation.stateKey)) {
+        logger.info('OBSERVE', `Cycle detected! State "${observation.stateLabel}" (${observation.stateKey}) was visited before and has no untried actions. Ending branch.`, undefined, context.sessionId);
+        historyEntry += ' [CYCLE DETECTED - Branch complete]';
       return {
         currentUrl: observation.currentUrl,
+        currentStateKey: observation.stateKey,
         domState: observation.domState,
         actionHistory: [historyEntry],
-        visitedFingerprints: [...visitedFingerprints, observation.fingerprint],
-        explorationStatus: 'FLOW_END', // Gracefully end when cycle detected
+        graphWrites: [stateWrite, ...accessibilityWrites],
+        visitedStateKeys: [...visitedStateKeys, observation.stateKey],
+        explorationStatus: 'FLOW_END', // End the branch; the agent backtracks if the frontier has untried actions
       };
       }
+
+      if (isCycle) {
+        const untriedCount = context.frontier.getUntriedElements().length;
+        historyEntry += ` [REVISITED - ${untriedCount} untried element(s)]`;
+        logger.info('OBSERVE', `Revisited state with ${untriedCount} untried element(s) - continuing exploration`, undefined, context.sessionId);
+      }
       
       // Check if this is a login screen and we have credentials
       const isLoginScreen = detectLoginScreen(observation.domState);
       
-      // If we previously attempted login and we're no longer on a login screen, login was successful
-      if (context.loginAttempted.size > 0 && !isLoginScreen && !context.loginSuccessful.value) {
+      // If we previously attempted login and the recipe's success condition holds (default: we're no longer on a
+      // login screen), login was successful
+      if (context.loginAttempted.size > 0 && !context.loginSuccessful.value &&
+          await isLoginSuccessful(context.browserTools, context.loginRecipe.value, isLoginScreen)) {
         context.loginSuccessful.value = true;
-        // Clear credentials to prevent further login attempts
+        // Clear credentials to prevent further login attempts - the secret redactor keeps them, as placeholders,
+        // for logging in again if the session ends
         context.credentials.value = undefined;
         logger.info('OBSERVE', 'Login successful - credentials disabled to prevent reuse', undefined, context.sessionId);
       }
@@ -80,13 +117,15 @@ export function createObserveStage(context: StageContext) {
       
       // Log the DOM state for debugging
       logger.info('OBSERVE', `DOM State (first 500 chars): ${observation.domState.substring(0, 500)}`, undefined, context.sessionId);
-      logger.info('OBSERVE', `Current URL: ${observation.currentUrl}, Fingerprint: ${observation.fingerprint}`, undefined, context.sessionId);
+      logger.info('OBSERVE', `Current URL: ${observation.currentUrl}, State: "${observation.stateLabel}" (${observation.stateKey}), Fingerprint: ${observation.fingerprint}`, undefined, context.sessionId);
 
       return {
         currentUrl: observation.currentUrl,
+        currentStateKey: observation.stateKey,
         domState: observation.domState,
         actionHistory: [historyEntry],
-        visitedFingerprints: [...visitedFingerprints, observation.fingerprint],
+        graphWrites: [stateWrite, ...accessibilityWrites],
+        visitedStateKeys: [...visitedStateKeys, observation.stateKey],
       };
     } catch (error) {
       logger.error('OBSERVE', 'Error analyzing page', { error: error instanceof Error ? error.message : String(error), stack: error instanceof Error ? error.stack : undefined }, context.sessionId);
@@ -4,32 +4,31 @@ import { logger } from '../../utils/logger.js';
 
 /**
  * Creates the persist_data node handler
- * Node 4: persist_data - Execute accumulated Neo4j queries
+ * Node 4: persist_data - Apply accumulated graph writes to the graph store
  */
 export function createPersistStage(context: StageContext) {
   return async (state: DavAgentState): Promise<Partial<DavAgentState>> => {
-    // Early exit if exploration has already ended (but still persist any pending queries)
-    if ((state.explorationStatus === 'FLOW_END' || state.explorationStatus === 'FAILURE') && state.neo4jQueries.length === 0) {
-      logger.info('PERSIST', `Exploration already ended with status: ${state.explorationStatus}, no queries to persist`, undefined, context.sessionId);
+    // Early exit if exploration has already ended (but still persist any pending writes)
+    if ((state.explorationStatus === 'FLOW_END' || state.explorationStatus === 'FAILURE') && state.graphWrites.length === 0) {
+      logger.info('PERSIST', `Exploration already ended with status: ${state.explorationStatus}, no writes to persist`, undefined, context.sessionId);
       return {}; // Return empty update to preserve state
     }
 
-    if (state.neo4jQueries.length === 0) {
+    if (state.graphWrites.length === 0) {
       return {};
     }
 
     try {
-      logger.info('PERSIST', `Executing ${state.neo4jQueries.length} Neo4j queries...`, undefined, context.sessionId);
-      logger.info('PERSIST', `Persisting ${state.neo4jQueries.length} state transition(s) to graph database...`, undefined, context.sessionId);
-      await context.neo4jTools.executeQueries(state.neo4jQueries);
-      logger.info('PERSIST', `Successfully persisted to graph database`, undefined, context.sessionId);
+      logger.info('PERSIST', `Persisting ${state.graphWrites.length} graph write(s) to the graph store...`, undefined, context.sessionId);
+      await context.graphStore.applyWrites(state.graphWrites);
+      logger.info('PERSIST', `Successfully persisted to the graph store`, undefined, context.sessionId);
 
       return {
-        neo4jQueries: [], // Clear queries after persistence
-        actionHistory: [`[PERSIST] Successfully persisted ${state.neo4jQueries.length} queries to Neo4j.`],
+        graphWrites: [], // Clear writes after persistence
+        actionHistory: [`[PERSIST] Successfully persisted ${state.graphWrites.length} graph writes.`],
       };
     } catch (error) {
-      logger.error('PERSIST', 'Error persisting to graph database', { error: error instanceof Error ? error.message : String(error) }, context.sessionId);
+      logger.error('PERSIST', 'Error persisting to the graph store', { error: error instanceof Error ? error.message : String(error) }, context.sessionId);
       return {
         actionHistory: [`[PERSIST] Error: ${error instanceof Error ? error.message : String(error)}`],
         // Don't fail the flow on persistence errors, just log them
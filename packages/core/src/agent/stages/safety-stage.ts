@@ -0,0 +1,111 @@
+import { DavAgentState, DeferredBatch, GraphWrite, PendingAction } from '../../types/state.js';
+import { StageContext } from './stage-context.js';
+import { logger } from '../../utils/logger.js';
+import { classifyBatch, getSafetyMode } from '../helpers/safety-helpers.js';
+import { describeActions } from '../helpers/replay-helpers.js';
+
+// Number of repeated guarded decisions tolerated on a state before its branch is ended
+const MAX_GUARDED_REPEATS_PER_STATE = 3;
+
+/**
+ * Hand a deferred batch to execute_tool now that its branch has been explored
+ */
+function executeDeferred(context: StageContext, batch: DeferredBatch): Partial<DavAgentState> {
+  logger.info('SAFETY', `Branch explored - executing deferred ${batch.safety} action: ${batch.description}`, undefined, context.sessionId);
+  return {
+    pendingActions: batch.actions,
+    pendingAction: null,
+    pendingProbe: null,
+    explorationStatus: 'CONTINUE',
+    heldBack: false,
+    actionHistory: [`[SAFETY] Branch explored - executing deferred ${batch.safety} action: ${batch.description}`],
+  };
+}
+
+/**
+ * Creates the safety_check node handler
+ * Node 7: safety_check - Hold back destructive and logout actions according to the safety policy
+ */
+export function createSafetyStage(context: StageContext) {
+  return async (state: DavAgentState): Promise<Partial<DavAgentState>> => {
+    // A finished branch first executes the batches deferred on its state
+    if (state.explorationStatus === 'FLOW_END') {
+      const deferred = context.frontier.takeDeferred(state.currentStateKey);
+      return deferred ? executeDeferred(context, deferred) : { heldBack: false };
+    }
+    if (state.explorationStatus !== 'CONTINUE') {
+      return { heldBack: false };
+    }
+
+    const actions: PendingAction[] = state.pendingActions.length > 0
+      ? state.pendingActions
+      : (state.pendingAction ? [state.pendingAction] : []);
+    if (actions.length === 0) {
+      return { heldBack: false };
+    }
+
+    const safety = classifyBatch(actions, state.domState, context.safetyPolicy);
+    if (safety === 'safe') {
+      return { heldBack: false };
+    }
+
+    const mode = getSafetyMode(safety, context.safetyPolicy);
+    const description = describeActions(actions);
+    const guardedKey = `${state.currentStateKey}|||${description}`;
+    const repeated = context.guardedTransitions.has(guardedKey);
+    context.guardedTransitions.add(guardedKey);
+
+    // Don't offer the guarded elements again on this state
+    context.frontier.markTried(actions);
+
+    const writes: GraphWrite[] = [];
+    let historyEntry: string;
+    if (mode === 'defer') {
+      const deferred = context.frontier.deferBatch({ actions, safety, description });
+      historyEntry = deferred
+        ? `[SAFETY] Deferred ${safety} action until the branch is explored: ${description}`
+        : `[SAFETY] ${safety} action is already deferred: ${description}`;
+    } else if (mode === 'record') {
+      writes.push({
+        kind: 'upsertNotExecuted',
+        fromStateKey: state.currentStateKey,
+        action: description,
+        safety,
+        sessionId: context.sessionId,
+        selector: actions[0]?.selector,
+      });
+      historyEntry = `[SAFETY] Recorded ${safety} action without executing it: ${description}. Choose a different action.`;
+    } else {
+      historyEntry = `[SAFETY] Skipped ${safety} action: ${description}. Choose a different action.`;
+    }
+    logger.info('SAFETY', `Guarded ${safety} action (${mode}): ${description}`, undefined, context.sessionId);
+
+    // If the agent keeps picking guarded actions here, end the branch so it can backtrack
+    if (repeated && context.frontier.recordStall() >= MAX_GUARDED_REPEATS_PER_STATE) {
+      context.frontier.finishBranch();
+      logger.info('SAFETY', 'Agent repeated guarded actions on this state - ending branch', undefined, context.sessionId);
+      const deferred = context.frontier.takeDeferred(state.currentStateKey);
+      if (deferred) {
+        return { ...executeDeferred(context, deferred), graphWrites: writes };
+      }
+      return {
+        graphWrites: writes,
+        actionHistory: [historyEntry],
+        explorationStatus: 'FLOW_END',
+        pendingActions: [],
+        pendingAction: null,
+        pendingProbe: null,
+        heldBack: true,
+      };
+    }
+
+    return {
+      graphWrites: writes,
+      actionHistory: [historyEntry],
+      pendingActions: [],
+      pendingAction: null,
+      pendingProbe: null,
+      heldBack: true,
+    };
+  };
+}
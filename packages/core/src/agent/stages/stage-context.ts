@@ -1,6 +1,12 @@
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { BrowserTools } from '../../utils/browser-tools.js';
-import { Neo4jTools } from '../../utils/neo4j-tools.js';
+import { GraphStore } from '../../utils/graph-store.js';
+import { CredentialSource, ExplorationScope, ExplorationStrategy, LoginRecipe, SafetyPolicy, TestDataOptions } from '../../types/state.js';
+import { ExplorationFrontier } from '../helpers/exploration-frontier.js';
+import { ExplorationBudget } from '../helpers/exploration-budget.js';
+import { SecretRedactor } from '../../utils/secret-redactor.js';
+import { TestDataGenerator } from '../../utils/test-data-generator.js';
+import { UrlNormalizer } from '../../utils/url-normalizer.js';
 
 /**
  * StageContext - Shared context passed to all stage handlers
@@ -8,14 +14,31 @@ import { Neo4jTools } from '../../utils/neo4j-tools.js';
  */
 export interface StageContext {
   browserTools: BrowserTools;
-  neo4jTools: Neo4jTools;
+  graphStore: GraphStore; // Neo4j or the embedded store, as configured
   llm: BaseChatModel;
   credentials: { value?: { username?: string; password?: string } };
+  credentialSource: CredentialSource; // Where the credentials came from, so a resumed run can get them again
+  secrets: SecretRedactor; // Stores typed credentials and other secrets as {{placeholders}}
+  urlNormalizer: UrlNormalizer; // Route patterns the state identity groups URLs by
   loginAttempted: Set<string>;
   loginSuccessful: { value: boolean };
+  loginRecipe: { value?: LoginRecipe }; // Recipe of the latest login attempt, whose success condition is checked
+  loginStateKey: { value?: string }; // State of the login page the latest login attempt was made on
+  relogins: { value: number }; // Logins after the session ended mid-exploration
   executedTransitions: Set<string>;
   interactedModalSelectors: Set<string>; // Track which modal elements have been interacted with
   sessionId: string;
+  entryUrl: string; // URL the exploration started from, used to replay paths when backtracking
+  frontier: ExplorationFrontier; // States with untried actions
+  explorationStrategy: ExplorationStrategy;
+  budget: ExplorationBudget; // Limits on actions, tokens, states and duration
+  scope: ExplorationScope; // URL patterns the agent must stay within
+  safetyPolicy: SafetyPolicy; // Handling of destructive and logout actions
+  guardedTransitions: Set<string>; // Track actions held back by the safety policy
+  testData: TestDataOptions; // Seed and mode of the values typed into form fields
+  testDataGenerator: TestDataGenerator;
+  formStates: Map<string, string>; // Validation error state -> state of the form it was reached from
+  persona?: string; // Persona the states and transitions are tagged with (campaign sessions)
   onTokenUsageCallback?: (inputTokens: number, outputTokens: number) => void;
 }
 
@@ -1,7 +1,7 @@
 import { BrowserTools } from './utils/browser-tools.js';
-import { Neo4jTools } from './utils/neo4j-tools.js';
+import { GraphStore } from './utils/graph-store.js';
 import { DavAgent } from './agent/dav-agent.js';
-import { AgentService } from './services/agent-service.js';
+import { AgentService, ExplorationOptions } from './services/agent-service.js';
 import { ConfigService } from './services/config-service.js';
 import { logger } from './utils/logger.js';
 import * as dotenv from 'dotenv';
@@ -39,16 +39,18 @@ if (!envLoaded) {
  * @param autoCleanup - Whether to automatically cleanup resources after completion (default: true for CLI, false for API)
  * @param sessionId - Optional sessionId for graph isolation. If not provided, generates one.
  * @param credentials - Optional app credentials {username, password} for automatic login
- * @returns Promise with exploration result containing browserTools, neo4jTools, agent, and runPromise
+ * @param options - Optional exploration settings (explorationStrategy, limits, scope, safetyPolicy, testData, recording, storageState, loginScript, persona). Unset values fall back to config
+ * @returns Promise with exploration result containing browserTools, graphStore, agent, and runPromise
  */
 async function main(
   url?: string,
   autoCleanup: boolean = true,
   sessionId?: string,
-  credentials?: { username?: string; password?: string }
+  credentials?: { username?: string; password?: string },
+  options: ExplorationOptions = {}
 ): Promise<{
   browserTools: BrowserTools;
-  neo4jTools: Neo4jTools;
+  graphStore: GraphStore;
   agent: any;
   runPromise: Promise<any>;
 }> {
@@ -91,12 +93,17 @@ async function main(
 
   logger.info('Agent', '🚀 DAV.ai Agent Starting...');
   logger.info('Agent', `Starting URL: ${explorationUrl}`);
-  logger.info('Agent', `Neo4j URI: ${config.neo4jUri}`);
+  logger.info('Agent', `Graph Store: ${config.graphStore === 'neo4j' ? `neo4j (${config.neo4jUri})` : config.graphStore}`);
   logger.info('Agent', `LLM Provider: ${config.llmProvider}`);
   logger.info('Agent', `LLM Model: ${config.llmModel}`);
+  logger.info('Agent', `Exploration Strategy: ${options.explorationStrategy ?? config.explorationStrategy}`);
+  logger.info('Agent', 'Exploration Limits', { ...config.explorationLimits, ...options.limits });
+  logger.info('Agent', 'Exploration Scope', options.scope ?? config.explorationScope);
+  logger.info('Agent', 'Safety Policy', { ...config.safetyPolicy, ...options.safetyPolicy });
+  logger.info('Agent', 'Test Data', { ...config.testData, ...options.testData });
 
   let browserTools: BrowserTools | null = null;
-  let neo4jTools: Neo4jTools | null = null;
+  let graphStore: GraphStore | null = null;
 
   try {
     // Use AgentService to initialize and run exploration
@@ -106,9 +113,9 @@ async function main(
       hasCredentials: !!(finalCredentials?.username || finalCredentials?.password),
       credentialsSource: credentials ? 'provided' : (ConfigService.getCredentials() ? 'config' : 'none')
     });
-    const serviceResult = await AgentService.runExploration(explorationUrl, finalSessionId, finalCredentials);
+    const serviceResult = await AgentService.runExploration(explorationUrl, finalSessionId, finalCredentials, options);
     browserTools = serviceResult.browserTools;
-    neo4jTools = serviceResult.neo4jTools;
+    graphStore = serviceResult.graphStore;
     logger.info('Agent', '✓ Agent service initialized');
 
     // If autoCleanup is false, return the result for the caller to manage
@@ -130,7 +137,7 @@ async function main(
     });
 
     // TODO: Post-flow summarization for User Story generation
-    // This would query Neo4j for the path and use LLM to generate User Stories
+    // This would query the graph store for the path and use LLM to generate User Stories
 
     return serviceResult;
 
@@ -147,8 +154,8 @@ async function main(
       if (browserTools) {
         await browserTools.close();
       }
-      if (neo4jTools) {
-        await neo4jTools.close();
+      if (graphStore) {
+        await graphStore.close();
       }
       logger.info('Agent', '✓ Cleanup complete');
     }
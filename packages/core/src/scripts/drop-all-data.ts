@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
 /**
- * Script to drop all data from Neo4j database
+ * Script to drop all data from the configured graph store
  * Usage: tsx src/scripts/drop-all-data.ts
  */
 
@@ -9,7 +9,7 @@ import * as dotenv from 'dotenv';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { ConfigService } from '../services/config-service.js';
-import { Neo4jTools } from '../utils/neo4j-tools.js';
+import { createGraphStore } from '../utils/graph-store.js';
 import { logger } from '../utils/logger.js';
 
 // Load environment variables from root .env file
@@ -44,34 +44,33 @@ async function main() {
     // Initialize logger with info level to see all messages and optional log file
     await logger.initialize('info', config.logFile);
 
-    logger.info('Script', 'Connecting to Neo4j...', {
-      uri: config.neo4jUri,
-      user: config.neo4jUser,
-    });
+    logger.info('Script', `Connecting to the ${config.graphStore} graph store...`, config.graphStore === 'neo4j'
+      ? { uri: config.neo4jUri, user: config.neo4jUser }
+      : { file: config.graphStoreFile });
 
-    // Create Neo4j tools instance
-    const neo4jTools = new Neo4jTools(config.neo4jUri, config.neo4jUser, config.neo4jPassword);
+    // Create the graph store instance
+    const graphStore = createGraphStore(config);
 
     // Verify connectivity
-    const connected = await neo4jTools.verifyConnectivity();
+    const connected = await graphStore.verifyConnectivity();
     if (!connected) {
-      logger.error('Script', 'Failed to connect to Neo4j database');
+      logger.error('Script', 'Failed to connect to the graph store');
       process.exit(1);
     }
 
-    logger.info('Script', 'Connected to Neo4j successfully');
+    logger.info('Script', 'Connected to the graph store successfully');
 
     // Drop all data
-    logger.warn('Script', 'WARNING: About to delete ALL data from Neo4j database');
-    await neo4jTools.dropAllData();
+    logger.warn('Script', 'WARNING: About to delete ALL data from the graph store');
+    await graphStore.dropAllData();
 
-    logger.info('Script', 'Successfully dropped all data from Neo4j database');
+    logger.info('Script', 'Successfully dropped all data from the graph store');
 
     // Close connection
-    await neo4jTools.close();
+    await graphStore.close();
     process.exit(0);
   } catch (error) {
-    logger.error('Script', 'Error dropping Neo4j data', {
+    logger.error('Script', 'Error dropping graph store data', {
       error: error instanceof Error ? error.message : String(error),
     });
     process.exit(1);
@@ -2,11 +2,20 @@ import express from 'express';
 import cors from 'cors';
 import { main } from './index.js';
 import { SessionService } from './services/session-service.js';
+import type { Session } from './services/session-service.js';
 import { GraphService } from './services/graph-service.js';
+import { FindingService } from './services/finding-service.js';
+import { AccessibilityService } from './services/accessibility-service.js';
+import { ValidationService } from './services/validation-service.js';
 import { ConfigService } from './services/config-service.js';
 import { UserStoryService } from './services/user-story-service.js';
 import { RetryService } from './services/retry-service.js';
+import { ArtifactService } from './services/artifact-service.js';
+import { CampaignService } from './services/campaign-service.js';
+import { LoginRecipeService } from './services/login-recipe-service.js';
+import type { ExplorationOptions } from './services/agent-service.js';
 import type { DavAgentState } from './types/state.js';
+import type { BrowserStorageState } from './utils/browser-tools.js';
 import { logger } from './utils/logger.js';
 import type { LogEntry } from './utils/logger.js';
 import * as dotenv from 'dotenv';
@@ -45,7 +54,7 @@ const config = ConfigService.getConfig();
   await logger.initialize(config.logLevel, config.logFile);
 })();
 
-// Initialize session persistence and load sessions from Neo4j
+// Initialize session persistence and load sessions from the graph store
 SessionService.initializePersistence();
 SessionService.loadSessionsFromPersistence().catch((error) => {
   logger.error('Server', 'Failed to load sessions from persistence', {
@@ -83,8 +92,16 @@ app.get('/config', (req, res) => {
     const safeConfig = {
       llmProvider: config.llmProvider,
       llmModel: config.llmModel,
+      graphStore: config.graphStore,
       neo4jUri: config.neo4jUri,
       startingUrl: config.startingUrl,
+      explorationStrategy: config.explorationStrategy,
+      explorationLimits: config.explorationLimits,
+      explorationScope: config.explorationScope,
+      safetyPolicy: config.safetyPolicy,
+      testData: config.testData,
+      routePatterns: config.routePatterns,
+      recording: config.recording,
       headless: config.headless,
       logLevel: config.logLevel,
     };
@@ -111,6 +128,179 @@ app.get('/credentials', (req, res) => {
   }
 });
 
+/**
+ * Set up completion/error handlers for an exploration run
+ * Generates user stories once the exploration completes (not when it is paused)
+ */
+function attachExplorationHandlers(session: Session): void {
+  session.runPromise
+    .then(async (finalState: DavAgentState) => {
+      if (finalState.explorationStatus === 'PAUSED') {
+        logger.info('Server', 'Exploration paused', {
+          sessionId: session.sessionId,
+          finalUrl: finalState.currentUrl,
+          actionCount: finalState.actionHistory.length,
+        }, session.sessionId);
+        return;
+      }
+
+      logger.info('Server', 'Exploration completed', {
+        sessionId: session.sessionId,
+        status: finalState.explorationStatus,
+        finalUrl: finalState.currentUrl,
+        actionCount: finalState.actionHistory.length,
+      }, session.sessionId);
+
+      // Generate user stories from the exploration graph
+      try {
+        logger.info('Server', 'Generating user stories from exploration graph...', { sessionId: session.sessionId }, session.sessionId);
+        
+        const userStoryService = new UserStoryService();
+        
+        // Set up token tracking for user story generation
+        userStoryService.setTokenUsageCallback((inputTokens: number, outputTokens: number) => {
+          if (session.tokenUsage) {
+            session.tokenUsage.userStories.inputTokens += inputTokens;
+            session.tokenUsage.userStories.outputTokens += outputTokens;
+            session.tokenUsage.total.inputTokens += inputTokens;
+            session.tokenUsage.total.outputTokens += outputTokens;
+            // Update session metadata in the graph store
+            SessionService.updateSessionMetadata(session.sessionId, {
+              tokenUsage: session.tokenUsage,
+            }).catch((error) => {
+              logger.error('Server', 'Failed to update token usage', {
+                sessionId: session.sessionId,
+                error: error instanceof Error ? error.message : String(error),
+              }, session.sessionId);
+            });
+          }
+        });
+        
+        const userStories = await userStoryService.generateUserStories(session.sessionId);
+        
+        // Save updated token usage after user story generation
+        if (session.tokenUsage) {
+          await SessionService.updateSessionMetadata(session.sessionId, {
+            tokenUsage: session.tokenUsage,
+          });
+        }
+        
+        // Store user stories in session for retrieval
+        (session as any).userStories = userStories;
+        
+        // Persist user stories to the graph store
+        try {
+          await session.graphStore.saveUserStories(session.sessionId, userStories);
+          logger.info('Server', 'User stories persisted to the graph store', {
+            sessionId: session.sessionId,
+          }, session.sessionId);
+        } catch (error) {
+          logger.error('Server', 'Failed to persist user stories to the graph store', {
+            sessionId: session.sessionId,
+            error: error instanceof Error ? error.message : String(error),
+          }, session.sessionId);
+          // Don't fail if persistence fails, user stories are still in memory
+        }
+        
+        logger.info('Server', 'User stories generated successfully', {
+          sessionId: session.sessionId,
+          storyCount: userStories.stories.length,
+        }, session.sessionId);
+      } catch (error) {
+        logger.error('Server', 'Failed to generate user stories', {
+          sessionId: session.sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        }, session.sessionId);
+        // Don't fail the session if user story generation fails
+      }
+
+      // Session status will be updated by SessionService
+    })
+    .catch((error: Error) => {
+      logger.error('Server', 'Exploration failed', {
+        sessionId: session.sessionId,
+        error: error.message,
+        stack: error.stack,
+      }, session.sessionId);
+      // Store error in session for debugging
+      (session as any).error = {
+        message: error.message,
+        stack: error.stack,
+      };
+      // Session status will be updated by SessionService
+    });
+}
+
+/**
+ * Validate the exploration settings of a request body (shared by /explore and /campaigns)
+ * Throws an error describing the first invalid setting
+ */
+function parseExplorationOptions(body: any): ExplorationOptions {
+  const { strategy, limits, scope, safetyPolicy, testData, routePatterns, recording, storageState, loginScript } = body;
+  if (strategy !== undefined && !['bfs', 'dfs', 'llm'].includes(strategy)) {
+    throw new Error('strategy must be one of: bfs, dfs, llm');
+  }
+  return {
+    explorationStrategy: strategy,
+    limits: ConfigService.validateExplorationLimits(limits),
+    scope: ConfigService.validateExplorationScope(scope),
+    safetyPolicy: ConfigService.validateSafetyPolicy(safetyPolicy),
+    testData: ConfigService.validateTestData(testData),
+    routePatterns: ConfigService.validateRoutePatterns(routePatterns),
+    recording: ConfigService.validateRecordingOptions(recording),
+    storageState: ConfigService.validateStorageState(storageState),
+    loginScript: ConfigService.validateLoginScript(loginScript),
+  };
+}
+
+/**
+ * Get the storage state a replay starts with: the one of the request body, or the one exported from the
+ * replayed session when reuseStorageState is true
+ * Throws an error for an invalid storage state or a session without one
+ */
+async function parseRetryStorageState(sessionId: string, body: any): Promise<BrowserStorageState | undefined> {
+  const { storageState, reuseStorageState } = body;
+  if (reuseStorageState === true) {
+    const exported = await SessionService.getStorageState(sessionId);
+    if (!exported) {
+      throw new Error(`Session ${sessionId} has no storage state to reuse`);
+    }
+    return exported;
+  }
+  return ConfigService.validateStorageState(storageState);
+}
+
+/**
+ * Start an exploration, register its session and follow it until it ends
+ * Campaign sessions pass their campaign id and persona
+ */
+async function startExplorationSession(
+  url: string,
+  sessionId: string,
+  credentials: { username?: string; password?: string } | undefined,
+  options: ExplorationOptions,
+  campaign?: { campaignId: string; persona: string }
+): Promise<Session> {
+  // Call main() with autoCleanup=false so we can manage the session
+  const explorationResult = await main(url, false, sessionId, credentials, options);
+
+  // Register session from the exploration result
+  const session = SessionService.registerSession({
+    sessionId,
+    browserTools: explorationResult.browserTools,
+    graphStore: explorationResult.graphStore,
+    agent: explorationResult.agent,
+    runPromise: explorationResult.runPromise,
+    url,
+    campaignId: campaign?.campaignId,
+    persona: campaign?.persona,
+  });
+
+  // Set up completion/error handlers
+  attachExplorationHandlers(session);
+  return session;
+}
+
 // Start exploration
 app.post('/explore', async (req, res) => {
   const { url, credentials } = req.body;
@@ -119,6 +309,13 @@ app.post('/explore', async (req, res) => {
     return res.status(400).json({ error: 'URL is required' });
   }
 
+  let explorationOptions;
+  try {
+    explorationOptions = parseExplorationOptions(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
   try {
     // Use provided credentials or fall back to config credentials
     const finalCredentials = credentials ?? ConfigService.getCredentials();
@@ -131,118 +328,162 @@ app.post('/explore', async (req, res) => {
     
     // Generate sessionId before starting exploration
     const sessionId = `session-${Date.now()}`;
-    
-    // Call main() with autoCleanup=false so we can manage the session
-    const explorationResult = await main(url, false, sessionId, finalCredentials);
-    
-    // Register session from the exploration result
-    const session = SessionService.registerSession({
-      sessionId,
-      browserTools: explorationResult.browserTools,
-      neo4jTools: explorationResult.neo4jTools,
-      agent: explorationResult.agent,
-      runPromise: explorationResult.runPromise,
+    const session = await startExplorationSession(url, sessionId, finalCredentials, explorationOptions);
+
+    res.json({
+      sessionId: session.sessionId,
+      status: 'started',
       url,
+      message: 'Exploration started',
     });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to start exploration',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
 
-    // Set up completion/error handlers
-    session.runPromise
-      .then(async (finalState: DavAgentState) => {
-        logger.info('Server', 'Exploration completed', {
-          sessionId: session.sessionId,
-          status: finalState.explorationStatus,
-          finalUrl: finalState.currentUrl,
-          actionCount: finalState.actionHistory.length,
-        }, session.sessionId);
+// Start an exploration campaign: one session per persona, run one after the other or in parallel
+app.post('/campaigns', async (req, res) => {
+  const { url, personas, mode } = req.body;
 
-        // Generate user stories from the exploration graph
-        try {
-          logger.info('Server', 'Generating user stories from exploration graph...', { sessionId: session.sessionId }, session.sessionId);
-          
-          const userStoryService = new UserStoryService();
-          
-          // Set up token tracking for user story generation
-          userStoryService.setTokenUsageCallback((inputTokens: number, outputTokens: number) => {
-            if (session.tokenUsage) {
-              session.tokenUsage.userStories.inputTokens += inputTokens;
-              session.tokenUsage.userStories.outputTokens += outputTokens;
-              session.tokenUsage.total.inputTokens += inputTokens;
-              session.tokenUsage.total.outputTokens += outputTokens;
-              // Update session metadata in Neo4j
-              SessionService.updateSessionMetadata(session.sessionId, {
-                tokenUsage: session.tokenUsage,
-              }).catch((error) => {
-                logger.error('Server', 'Failed to update token usage', {
-                  sessionId: session.sessionId,
-                  error: error instanceof Error ? error.message : String(error),
-                }, session.sessionId);
-              });
-            }
-          });
-          
-          const userStories = await userStoryService.generateUserStories(session.sessionId);
-          
-          // Save updated token usage after user story generation
-          if (session.tokenUsage) {
-            await SessionService.updateSessionMetadata(session.sessionId, {
-              tokenUsage: session.tokenUsage,
-            });
-          }
-          
-          // Store user stories in session for retrieval
-          (session as any).userStories = userStories;
-          
-          // Persist user stories to Neo4j
-          try {
-            await session.neo4jTools.saveUserStories(session.sessionId, userStories);
-            logger.info('Server', 'User stories persisted to Neo4j', {
-              sessionId: session.sessionId,
-            }, session.sessionId);
-          } catch (error) {
-            logger.error('Server', 'Failed to persist user stories to Neo4j', {
-              sessionId: session.sessionId,
-              error: error instanceof Error ? error.message : String(error),
-            }, session.sessionId);
-            // Don't fail if persistence fails, user stories are still in memory
-          }
-          
-          logger.info('Server', 'User stories generated successfully', {
-            sessionId: session.sessionId,
-            storyCount: userStories.stories.length,
-          }, session.sessionId);
-        } catch (error) {
-          logger.error('Server', 'Failed to generate user stories', {
-            sessionId: session.sessionId,
-            error: error instanceof Error ? error.message : String(error),
-          }, session.sessionId);
-          // Don't fail the session if user story generation fails
-        }
+  if (!url) {
+    return res.status(400).json({ error: 'URL is required' });
+  }
 
-        // Session status will be updated by SessionService
-      })
-      .catch((error: Error) => {
-        logger.error('Server', 'Exploration failed', {
-          sessionId: session.sessionId,
-          error: error.message,
-          stack: error.stack,
-        }, session.sessionId);
-        // Store error in session for debugging
-        (session as any).error = {
-          message: error.message,
-          stack: error.stack,
-        };
-        // Session status will be updated by SessionService
-      });
+  let campaignPersonas;
+  let campaignMode;
+  let explorationOptions: ExplorationOptions;
+  try {
+    campaignPersonas = ConfigService.validatePersonas(personas);
+    campaignMode = ConfigService.validateCampaignMode(mode);
+    explorationOptions = parseExplorationOptions(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  try {
+    // Personas never fall back to the configured credentials - a persona without credentials explores logged out
+    const campaign = await CampaignService.startCampaign(url, campaignPersonas, campaignMode, (persona, sessionId, campaignId) =>
+      startExplorationSession(url, sessionId, persona.credentials ?? {}, {
+        ...explorationOptions,
+        storageState: persona.storageState,
+        loginScript: persona.loginScript,
+        persona: persona.name,
+      }, { campaignId, persona: persona.name })
+    );
 
     res.json({
-      sessionId: session.sessionId,
+      ...campaign,
       status: 'started',
-      url,
-      message: 'Exploration started',
+      message: `Campaign started with ${campaign.sessions.length} personas (${campaign.mode})`,
     });
   } catch (error) {
     res.status(500).json({
-      error: 'Failed to start exploration',
+      error: 'Failed to start campaign',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Get a campaign with the status of each persona's session
+app.get('/campaigns/:campaignId', async (req, res) => {
+  const { campaignId } = req.params;
+
+  try {
+    const campaign = await CampaignService.getCampaign(campaignId);
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+    res.json(campaign);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get campaign',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Compare the personas of a campaign: the states and actions reachable only by some of them
+app.get('/campaigns/:campaignId/comparison', async (req, res) => {
+  const { campaignId } = req.params;
+
+  try {
+    const matrix = await CampaignService.comparePersonas(campaignId);
+    if (!matrix) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+    res.json(matrix);
+  } catch (error) {
+    logger.error('Server', 'Error comparing campaign personas', {
+      campaignId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to compare campaign personas',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// List the stored login recipes (TOTP secrets are masked)
+app.get('/login-recipes', async (req, res) => {
+  try {
+    const recipes = await LoginRecipeService.listRecipes();
+    res.json({ recipes });
+  } catch (error) {
+    logger.error('Server', 'Error listing login recipes', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to list login recipes',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Save a login recipe, replacing the recipe of the same URL pattern
+app.post('/login-recipes', async (req, res) => {
+  let recipe;
+  try {
+    recipe = ConfigService.validateLoginRecipe(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  try {
+    const saved = await LoginRecipeService.saveRecipe(recipe);
+    res.json(saved);
+  } catch (error) {
+    logger.error('Server', 'Error saving login recipe', {
+      urlPattern: recipe.urlPattern,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to save login recipe',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Delete the login recipe of a URL pattern
+app.delete('/login-recipes/:urlPattern', async (req, res) => {
+  const { urlPattern } = req.params;
+
+  try {
+    const deleted = await LoginRecipeService.deleteRecipe(urlPattern);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Login recipe not found' });
+    }
+    res.json({ urlPattern, status: 'deleted' });
+  } catch (error) {
+    logger.error('Server', 'Error deleting login recipe', {
+      urlPattern,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to delete login recipe',
       message: error instanceof Error ? error.message : String(error),
     });
   }
@@ -257,7 +498,7 @@ app.get('/session/:sessionId', async (req, res) => {
     let session = SessionService.getSession(sessionId);
 
     if (!session) {
-      // Session not in memory, try to load from Neo4j
+      // Session not in memory, try to load from the graph store
       try {
         const tools = SessionService.getPersistenceTools();
         const metadata = await tools.loadSessionMetadata(sessionId);
@@ -266,7 +507,7 @@ app.get('/session/:sessionId', async (req, res) => {
           return res.status(404).json({ error: 'Session not found' });
         }
 
-        // Return session metadata from Neo4j
+        // Return session metadata from the graph store
         // Note: For persisted sessions, we don't have currentState or logs
         // These are only available for in-memory sessions
         const response: any = {
@@ -280,8 +521,12 @@ app.get('/session/:sessionId', async (req, res) => {
         if (metadata.error) {
           response.error = metadata.error;
         }
+
+        if (metadata.budgetReason) {
+          response.budgetReason = metadata.budgetReason;
+        }
         
-        // Load user stories from Neo4j if they exist
+        // Load user stories from the graph store if they exist
         try {
           const userStories = await tools.loadUserStories(sessionId);
           if (userStories) {
@@ -289,7 +534,7 @@ app.get('/session/:sessionId', async (req, res) => {
           }
         } catch (error) {
           // If loading fails, just continue without user stories
-          logger.warn('Server', 'Failed to load user stories from Neo4j', {
+          logger.warn('Server', 'Failed to load user stories from the graph store', {
             sessionId,
             error: error instanceof Error ? error.message : String(error),
           });
@@ -297,7 +542,7 @@ app.get('/session/:sessionId', async (req, res) => {
         
         return res.json(response);
       } catch (error) {
-        logger.error('Server', 'Error loading session from Neo4j', {
+        logger.error('Server', 'Error loading session from the graph store', {
           sessionId,
           error: error instanceof Error ? error.message : String(error),
         });
@@ -321,6 +566,11 @@ app.get('/session/:sessionId', async (req, res) => {
     if ((session as any).error) {
       response.error = (session as any).error;
     }
+
+    // Include the limit that ended the exploration if available
+    if (session.budgetReason) {
+      response.budgetReason = session.budgetReason;
+    }
     
     // Include user stories if available
     if ((session as any).userStories) {
@@ -355,6 +605,66 @@ app.post('/session/:sessionId/stop', async (req, res) => {
   }
 });
 
+// Pause exploration (continues later from the latest checkpoint)
+app.post('/session/:sessionId/pause', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const session = await SessionService.pauseSession(sessionId);
+    res.json({
+      sessionId,
+      status: session.status,
+      message: session.status === 'paused' ? 'Session paused' : 'Session finished before it could be paused',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (error instanceof Error && error.message.includes('not running')) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({
+      error: 'Failed to pause session',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Resume a paused exploration from its latest checkpoint
+app.post('/session/:sessionId/resume', async (req, res) => {
+  const { sessionId } = req.params;
+  const { credentials } = req.body ?? {};
+
+  try {
+    const session = await SessionService.resumeSession(sessionId, credentials);
+
+    // Set up completion/error handlers
+    attachExplorationHandlers(session);
+
+    res.json({
+      sessionId,
+      status: session.status,
+      message: 'Exploration resumed',
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (error instanceof Error && (error.message.includes('not paused') || error.message.includes('already running') || error.message.includes('no checkpoint'))) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.includes('pass them again')) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(500).json({
+      error: 'Failed to resume session',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 // List all sessions
 app.get('/sessions', async (req, res) => {
   try {
@@ -368,7 +678,7 @@ app.get('/sessions', async (req, res) => {
   }
 });
 
-// Query Neo4j graph
+// Query the exploration graph
 app.get('/graph', async (req, res) => {
   try {
     // Ensure limit is an integer - handle string, number, or undefined
@@ -379,7 +689,7 @@ app.get('/graph', async (req, res) => {
       limit = Math.floor(num) || 100;
     }
     const sessionId = req.query.sessionId as string | undefined;
-    const graphData = await GraphService.queryGraph(limit, sessionId);
+    const graphData = await GraphService.queryGraph(limit, sessionId, true, true, true);
     res.json(graphData);
   } catch (error) {
     res.status(500).json({
@@ -389,14 +699,167 @@ app.get('/graph', async (req, res) => {
   }
 });
 
+// Get the problems found during a session (console errors, uncaught exceptions)
+app.get('/session/:sessionId/findings', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const findings = await FindingService.getFindings(sessionId);
+    res.json({ findings });
+  } catch (error) {
+    logger.error('Server', 'Error getting findings', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to get findings',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Replay the shortest path to a finding, like a user story retry
+app.post('/session/:sessionId/findings/:findingKey/retry', async (req, res) => {
+  const { sessionId, findingKey } = req.params;
+  const { credentials, recording } = req.body;
+
+  let retryRecording;
+  let retryStorageState;
+  try {
+    retryRecording = ConfigService.validateRecordingOptions(recording);
+    retryStorageState = await parseRetryStorageState(sessionId, req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  let story;
+  try {
+    story = await FindingService.buildReproStory(sessionId, findingKey);
+  } catch (error) {
+    return res.status(404).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  try {
+    // Use provided credentials or fall back to config credentials
+    const finalCredentials = credentials ?? ConfigService.getCredentials();
+    const retryId = await RetryService.startRetry(sessionId, story, -1, finalCredentials, retryRecording, findingKey, retryStorageState);
+
+    res.json({
+      retryId,
+      status: 'started',
+      message: 'Finding replay started',
+    });
+  } catch (error) {
+    logger.error('Server', 'Error replaying finding', {
+      sessionId,
+      findingKey,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to replay finding',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Get the accessibility violations found during a session, aggregated over its states
+app.get('/session/:sessionId/accessibility', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const report = await AccessibilityService.getReport(sessionId);
+    res.json(report);
+  } catch (error) {
+    logger.error('Server', 'Error getting accessibility report', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to get accessibility report',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Get the form fields of a session with the validation rules probing found for them
+app.get('/session/:sessionId/validation-rules', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const report = await ValidationService.getReport(sessionId);
+    res.json(report);
+  } catch (error) {
+    logger.error('Server', 'Error getting validation rules', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to get validation rules',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Export the API calls recorded during a session as an HTTP Archive (HAR)
+app.get('/session/:sessionId/har', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const har = await GraphService.exportHar(sessionId);
+    res.setHeader('Content-Disposition', `attachment; filename="${sessionId.replace(/[^\w.-]/g, '_')}.har"`);
+    res.json(har);
+  } catch (error) {
+    logger.error('Server', 'Error exporting HAR', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to export HAR',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Export the cookies and local storage of a session, to start later explorations or replays logged in
+app.get('/session/:sessionId/storage-state', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const storageState = await SessionService.getStorageState(sessionId);
+    if (!storageState) {
+      return res.status(404).json({ error: 'No storage state found for this session' });
+    }
+    res.setHeader('Content-Disposition', `attachment; filename="${sessionId.replace(/[^\w.-]/g, '_')}.storage-state.json"`);
+    res.json(storageState);
+  } catch (error) {
+    logger.error('Server', 'Error exporting storage state', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to export storage state',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 // Start retry for a user story
 app.post('/retry', async (req, res) => {
-  const { sessionId, storyIndex, credentials } = req.body;
+  const { sessionId, storyIndex, credentials, recording } = req.body;
 
   if (!sessionId || storyIndex === undefined) {
     return res.status(400).json({ error: 'sessionId and storyIndex are required' });
   }
 
+  let retryRecording;
+  let retryStorageState;
+  try {
+    retryRecording = ConfigService.validateRecordingOptions(recording);
+    retryStorageState = await parseRetryStorageState(sessionId, req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
   try {
     // Get session to retrieve user stories
     const session = SessionService.getSession(sessionId);
@@ -422,7 +885,7 @@ app.post('/retry', async (req, res) => {
       // Use provided credentials or fall back to config credentials
       const finalCredentials = credentials ?? ConfigService.getCredentials();
       
-      const retryId = await RetryService.startRetry(sessionId, story, storyIndex, finalCredentials);
+      const retryId = await RetryService.startRetry(sessionId, story, storyIndex, finalCredentials, retryRecording, undefined, retryStorageState);
       
       res.json({
         retryId,
@@ -442,7 +905,7 @@ app.post('/retry', async (req, res) => {
       // Use provided credentials or fall back to config credentials
       const finalCredentials = credentials ?? ConfigService.getCredentials();
       
-      const retryId = await RetryService.startRetry(sessionId, story, storyIndex, finalCredentials);
+      const retryId = await RetryService.startRetry(sessionId, story, storyIndex, finalCredentials, retryRecording, undefined, retryStorageState);
       
       res.json({
         retryId,
@@ -506,6 +969,49 @@ app.get('/session/:sessionId/retries', async (req, res) => {
   }
 });
 
+// List the artifacts (screenshots, traces, videos) recorded during a session
+app.get('/session/:sessionId/artifacts', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const artifacts = await ArtifactService.listArtifacts(sessionId);
+    res.json({ artifacts });
+  } catch (error) {
+    logger.error('Server', 'Error listing artifacts', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to list artifacts',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Get an artifact (screenshot, trace, video) recorded during a session
+app.get('/session/:sessionId/artifacts/:artifactId', async (req, res) => {
+  const { sessionId, artifactId } = req.params;
+
+  try {
+    const artifact = await ArtifactService.getArtifact(sessionId, artifactId);
+    if (!artifact) {
+      return res.status(404).json({ error: 'Artifact not found' });
+    }
+    res.type(artifact.contentType);
+    res.sendFile(artifact.path);
+  } catch (error) {
+    logger.error('Server', 'Error getting artifact', {
+      sessionId,
+      artifactId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to get artifact',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 export function startServer(port: number = 3000) {
   app.listen(port, () => {
     const config = ConfigService.getConfig();
@@ -521,6 +1027,7 @@ export function startServer(port: number = 3000) {
       llmProvider: config.llmProvider,
       llmModel: config.llmModel,
       llmApiKey: maskedApiKey,
+      graphStore: config.graphStore,
       neo4jUri: config.neo4jUri,
       neo4jUser: config.neo4jUser,
       startingUrl: config.startingUrl,
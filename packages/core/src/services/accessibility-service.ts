@@ -0,0 +1,49 @@
+import { createGraphStore } from '../utils/graph-store.js';
+import type { AccessibilityImpact, AccessibilityIssue } from '../types/state.js';
+import { ConfigService } from './config-service.js';
+
+export type { AccessibilityIssue } from '../types/state.js';
+
+// Most severe first
+const IMPACT_ORDER: AccessibilityImpact[] = ['critical', 'serious', 'moderate', 'minor'];
+
+/**
+ * AccessibilityReport - The accessibility violations of a session, aggregated over its states
+ */
+export interface AccessibilityReport {
+  violations: AccessibilityIssue[];
+  summary: {
+    total: number; // Distinct violations (rule and component)
+    byImpact: Record<AccessibilityImpact, number>;
+    affectedStates: number;
+  };
+}
+
+/**
+ * AccessibilityService - Serves the violations found by the axe-core audit of the observed states
+ */
+export class AccessibilityService {
+  /**
+   * Get the accessibility report of a session, most severe and most widespread violations first
+   */
+  static async getReport(sessionId: string): Promise<AccessibilityReport> {
+    const graphStore = createGraphStore(ConfigService.getConfig());
+
+    try {
+      const violations = (await graphStore.queryAccessibilityViolations(sessionId)).sort((a, b) =>
+        IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) || b.states.length - a.states.length
+      );
+      const byImpact = Object.fromEntries(
+        IMPACT_ORDER.map((impact) => [impact, violations.filter((violation) => violation.impact === impact).length])
+      ) as Record<AccessibilityImpact, number>;
+      const affectedStates = new Set(violations.flatMap((violation) => violation.states.map((state) => state.stateKey)));
+
+      return {
+        violations,
+        summary: { total: violations.length, byImpact, affectedStates: affectedStates.size },
+      };
+    } finally {
+      await graphStore.close();
+    }
+  }
+}
@@ -1,10 +1,21 @@
-import { BrowserTools } from '../utils/browser-tools.js';
-import { Neo4jTools } from '../utils/neo4j-tools.js';
-import { DavAgent } from '../agent/dav-agent.js';
-import type { DavAgentState } from '../types/state.js';
+import { BrowserTools, BrowserStorageState, BrowserRecording } from '../utils/browser-tools.js';
+import { createGraphStore, GraphStore } from '../utils/graph-store.js';
+import { ArtifactStore } from '../utils/artifact-store.js';
+import { DavAgent, DavAgentOptions } from '../agent/dav-agent.js';
+import { runLoginScript } from '../agent/helpers/login-helpers.js';
+import type { AgentCheckpoint, CredentialSource, DavAgentState, PendingAction, RecordingOptions } from '../types/state.js';
 import { ConfigService } from './config-service.js';
 import { logger } from '../utils/logger.js';
 
+/**
+ * Settings of an exploration: the agent options plus how its browser is recorded and started
+ */
+export interface ExplorationOptions extends DavAgentOptions {
+  recording?: RecordingOptions; // Trace and video of the run (default: RECORD_TRACE/RECORD_VIDEO)
+  storageState?: BrowserStorageState; // Cookies and local storage the browser starts with (e.g. a persona's login)
+  loginScript?: PendingAction[]; // Recorded login steps run before exploring, for logins the heuristic auto-login cannot handle
+}
+
 /**
  * AgentService - Service for managing agent lifecycle
  * Extracted from main() to be reusable by API endpoints
@@ -16,14 +27,18 @@ export class AgentService {
   static async runExploration(
     url: string,
     sessionId?: string,
-    credentials?: { username?: string; password?: string }
-  ): Promise<{ browserTools: BrowserTools; neo4jTools: Neo4jTools; agent: DavAgent; runPromise: Promise<DavAgentState> }> {
+    credentials?: { username?: string; password?: string },
+    options: ExplorationOptions = {}
+  ): Promise<{ browserTools: BrowserTools; graphStore: GraphStore; agent: DavAgent; runPromise: Promise<DavAgentState> }> {
     // Get configuration from ConfigService (single source of truth)
     const config = ConfigService.getConfig();
     const apiKey = ConfigService.getLLMApiKey();
     
     // Use provided credentials or fall back to config credentials
     const finalCredentials = credentials ?? ConfigService.getCredentials();
+    const credentialSource: CredentialSource = !(finalCredentials?.username || finalCredentials?.password)
+      ? 'none'
+      : (credentials ? 'request' : 'config');
     
     logger.info('AgentService', 'Credentials configuration', {
       provided: !!credentials,
@@ -35,29 +50,18 @@ export class AgentService {
       throw new Error(`API key for ${config.llmProvider} is required`);
     }
 
-    // Initialize tools
-    const browserTools = new BrowserTools(config.headless);
-    const neo4jTools = new Neo4jTools(config.neo4jUri, config.neo4jUser, config.neo4jPassword);
-
-    // Initialize browser
-    await browserTools.initialize();
-
-    // Verify Neo4j connection
-    const neo4jConnected = await neo4jTools.verifyConnectivity();
-    if (!neo4jConnected) {
-      await browserTools.close();
-      await neo4jTools.close();
-      throw new Error('Failed to connect to Neo4j database.');
-    }
-
-    // Ensure indexes exist for better performance
-    await neo4jTools.ensureIndexes();
-
     // Create a fresh, empty graph for this session by deleting any existing data
     // This ensures each session starts with a clean slate
     const finalSessionId = sessionId || `session-${Date.now()}`;
+    await new ArtifactStore(config.artifactsDir).deleteSession(finalSessionId);
+
+    const { browserTools, graphStore } = await this.initializeTools(
+      options.storageState,
+      this.buildRecording(finalSessionId, 'exploration', options.recording)
+    );
+
     try {
-      await neo4jTools.deleteSessionData(finalSessionId);
+      await graphStore.deleteSessionData(finalSessionId);
       logger.info('AgentService', `Cleared any existing graph data for session: ${finalSessionId}`);
     } catch (error) {
       // If deletion fails (e.g., session doesn't exist yet), that's fine
@@ -67,17 +71,32 @@ export class AgentService {
     // Create agent with sessionId and credentials
     const agent = new DavAgent(
       browserTools, 
-      neo4jTools, 
+      graphStore, 
       apiKey, 
       config.llmProvider, 
       config.llmModel, 
       finalSessionId,
-      finalCredentials
+      finalCredentials,
+      {
+        explorationStrategy: options.explorationStrategy ?? config.explorationStrategy,
+        limits: { ...config.explorationLimits, ...options.limits },
+        scope: options.scope ?? config.explorationScope,
+        safetyPolicy: { ...config.safetyPolicy, ...options.safetyPolicy },
+        secretPatterns: config.secretPatterns,
+        routePatterns: options.routePatterns ?? config.routePatterns,
+        persona: options.persona,
+        credentialSource,
+        testData: { ...config.testData, ...options.testData },
+      }
     );
 
     // Start exploration - wrap in a promise that handles errors and logs
     const runPromise = (async () => {
       try {
+        if (options.loginScript) {
+          // Runs before the first observation, so the exploration starts logged in
+          await runLoginScript(browserTools, url, options.loginScript, finalSessionId);
+        }
         logger.info('AgentService', `Starting agent.run() for URL: ${url}`);
         const result = await agent.run(url);
         logger.info('AgentService', `Agent run completed with status: ${result.explorationStatus}`);
@@ -88,15 +107,142 @@ export class AgentService {
           stack: error instanceof Error ? error.stack : undefined,
         });
         throw error;
+      } finally {
+        // Save the trace and video as soon as the run ends, failed runs included
+        await browserTools.saveRecording();
+      }
+    })();
+
+    return {
+      browserTools,
+      graphStore,
+      agent,
+      runPromise,
+    };
+  }
+
+  /**
+   * Rebuild an agent from a checkpoint and continue its exploration
+   * Keeps the existing graph data of the session
+   * Credentials passed to resume replace the session's; otherwise they are read again from where they came from
+   */
+  static async resumeExploration(
+    sessionId: string,
+    checkpoint: AgentCheckpoint,
+    credentials?: { username?: string; password?: string }
+  ): Promise<{ browserTools: BrowserTools; graphStore: GraphStore; agent: DavAgent; runPromise: Promise<DavAgentState> }> {
+    const config = ConfigService.getConfig();
+    const apiKey = ConfigService.getLLMApiKey();
+    const finalCredentials = credentials ?? this.getCheckpointCredentials(sessionId, checkpoint.credentialSource);
+
+    if (!apiKey) {
+      throw new Error(`API key for ${config.llmProvider} is required`);
+    }
+
+    // Restore cookies and local storage so authenticated sessions continue where they left off
+    const { browserTools, graphStore } = await this.initializeTools(
+      checkpoint.storageState,
+      this.buildRecording(sessionId, `resume-${Date.now()}`)
+    );
+
+    const agent = new DavAgent(
+      browserTools,
+      graphStore,
+      apiKey,
+      config.llmProvider,
+      config.llmModel,
+      sessionId,
+      finalCredentials,
+      {
+        explorationStrategy: checkpoint.explorationStrategy,
+        secretPatterns: config.secretPatterns,
+        credentialSource: credentials ? 'request' : checkpoint.credentialSource,
+      }
+    );
+
+    const runPromise = (async () => {
+      try {
+        logger.info('AgentService', `Starting agent.resume() for session: ${sessionId}`);
+        const result = await agent.resume(checkpoint);
+        logger.info('AgentService', `Agent run completed with status: ${result.explorationStatus}`);
+        return result;
+      } catch (error) {
+        logger.error('AgentService', 'Error in agent.resume()', {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      } finally {
+        await browserTools.saveRecording();
       }
     })();
 
     return {
       browserTools,
-      neo4jTools,
+      graphStore,
       agent,
       runPromise,
     };
   }
+
+  /**
+   * Build the recording settings of a browser run (undefined if nothing is recorded)
+   * Unset options fall back to the configured ones; recordings are saved as <name>-trace.zip and <name>-video.webm
+   */
+  static buildRecording(sessionId: string, name: string, options?: RecordingOptions): BrowserRecording | undefined {
+    const config = ConfigService.getConfig();
+    const recording = { ...config.recording, ...options };
+    if (!recording.trace && !recording.video) {
+      return undefined;
+    }
+    return { ...recording, store: new ArtifactStore(config.artifactsDir), sessionId, name };
+  }
+
+  /**
+   * Get the credentials a checkpointed session was started with
+   * Throws an error for credentials passed when the session was started (e.g. a campaign persona's) - they are not
+   * stored, and continuing with the configured ones would explore as another user
+   */
+  private static getCheckpointCredentials(
+    sessionId: string,
+    source: CredentialSource
+  ): { username?: string; password?: string } | undefined {
+    if (source === 'request') {
+      throw new Error(`Session ${sessionId} was started with credentials that are not stored - pass them again to resume it`);
+    }
+    return source === 'config' ? ConfigService.getCredentials() : undefined;
+  }
+
+  /**
+   * Launch the browser and connect to the configured graph store
+   */
+  private static async initializeTools(
+    storageState?: BrowserStorageState,
+    recording?: BrowserRecording
+  ): Promise<{ browserTools: BrowserTools; graphStore: GraphStore }> {
+    const config = ConfigService.getConfig();
+
+    // Initialize tools
+    const browserTools = new BrowserTools(config.headless);
+    const graphStore = createGraphStore(config);
+
+    // Initialize browser
+    await browserTools.initialize(storageState, recording);
+    browserTools.setArtifactStore(config.screenshots ? new ArtifactStore(config.artifactsDir) : null);
+    browserTools.setAccessibilityAudit(config.accessibilityAudit);
+
+    // Verify the graph store connection
+    const graphStoreConnected = await graphStore.verifyConnectivity();
+    if (!graphStoreConnected) {
+      await browserTools.close();
+      await graphStore.close();
+      throw new Error(`Failed to connect to the ${config.graphStore} graph store.`);
+    }
+
+    // Ensure indexes exist for better performance
+    await graphStore.ensureIndexes();
+
+    return { browserTools, graphStore };
+  }
 }
 
@@ -0,0 +1,24 @@
+import { ArtifactStore } from '../utils/artifact-store.js';
+import { ConfigService } from './config-service.js';
+
+/**
+ * ArtifactService - Serves the files recorded during explorations and replays (screenshots, traces, videos)
+ */
+export class ArtifactService {
+  /**
+   * List the artifacts of a session with their content types
+   */
+  static async listArtifacts(sessionId: string): Promise<Array<{ id: string; contentType: string }>> {
+    const store = new ArtifactStore(ConfigService.getConfig().artifactsDir);
+    return (await store.list(sessionId)).map((id) => ({ id, contentType: ArtifactStore.contentType(id) }));
+  }
+
+  /**
+   * Get the file path and content type of an artifact (null if it does not exist)
+   */
+  static async getArtifact(sessionId: string, artifactId: string): Promise<{ path: string; contentType: string } | null> {
+    const store = new ArtifactStore(ConfigService.getConfig().artifactsDir);
+    const path = await store.resolvePath(sessionId, artifactId);
+    return path ? { path, contentType: ArtifactStore.contentType(artifactId) } : null;
+  }
+}
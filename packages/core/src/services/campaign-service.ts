@@ -0,0 +1,248 @@
+import { createGraphStore, SESSION_GRAPH_LIMIT } from '../utils/graph-store.js';
+import type { SessionStatus } from '../utils/graph-store.js';
+import type { CampaignMode, Persona } from '../types/state.js';
+import { ConfigService } from './config-service.js';
+import { Session, SessionService } from './session-service.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * CampaignSession - The session of one persona in a campaign
+ */
+export interface CampaignSession {
+  persona: string;
+  sessionId: string;
+  status: SessionStatus | 'pending' | 'not_started'; // Pending until a sequential campaign reaches the persona
+  error?: string; // Why the session failed or could not be started
+}
+
+/**
+ * Campaign - Sessions exploring the same application as different personas
+ */
+export interface Campaign {
+  campaignId: string;
+  url: string;
+  mode: CampaignMode;
+  createdAt: Date;
+  sessions: CampaignSession[];
+}
+
+/**
+ * PermissionMatrix - Which personas reached each state and executed each action of a campaign
+ * Entries not reached by every persona are restricted - they reveal the permissions of the roles
+ */
+export interface PermissionMatrix {
+  campaignId: string;
+  personas: string[];
+  states: Array<{ stateKey: string; label: string; urlTemplate?: string; personas: string[]; restricted: boolean }>;
+  actions: Array<{ fromStateKey: string; fromLabel: string; action: string; personas: string[]; restricted: boolean }>;
+}
+
+/**
+ * Start the exploration session of a persona (provided by the server, which registers and follows the session)
+ */
+export type CampaignSessionStarter = (persona: Persona, sessionId: string, campaignId: string) => Promise<Session>;
+
+/**
+ * CampaignService - Runs exploration campaigns (one session per persona) and compares what each persona reached
+ */
+export class CampaignService {
+  // Campaigns started by this server; campaigns of earlier runs are rebuilt from the session metadata
+  private static campaigns = new Map<string, Campaign>();
+
+  /**
+   * Start a campaign: in parallel mode every persona's session starts now, in sequential mode the next
+   * session starts when the previous one has ended (completed, paused, failed)
+   * Throws if no session could be started
+   */
+  static async startCampaign(
+    url: string,
+    personas: Persona[],
+    mode: CampaignMode,
+    startSession: CampaignSessionStarter
+  ): Promise<Campaign> {
+    const timestamp = Date.now();
+    const campaign: Campaign = {
+      campaignId: `campaign-${timestamp}`,
+      url,
+      mode,
+      createdAt: new Date(timestamp),
+      sessions: personas.map((persona, index) => ({
+        persona: persona.name,
+        sessionId: `session-${timestamp}-${index + 1}`,
+        status: 'pending',
+      })),
+    };
+    this.campaigns.set(campaign.campaignId, campaign);
+
+    if (mode === 'parallel') {
+      const results = await Promise.allSettled(
+        personas.map((persona, index) => this.startPersona(campaign, persona, index, startSession))
+      );
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure && results.every((result) => result.status === 'rejected')) {
+        this.campaigns.delete(campaign.campaignId);
+        throw failure.reason;
+      }
+      return campaign;
+    }
+
+    try {
+      const first = await this.startPersona(campaign, personas[0], 0, startSession);
+      this.continueSequence(campaign, personas, 1, first, startSession);
+    } catch (error) {
+      this.campaigns.delete(campaign.campaignId);
+      throw error;
+    }
+    return campaign;
+  }
+
+  /**
+   * Get a campaign with the current status of its sessions (null if unknown)
+   */
+  static async getCampaign(campaignId: string): Promise<Campaign | null> {
+    const tools = SessionService.getPersistenceTools();
+    const campaign = this.campaigns.get(campaignId);
+    if (campaign) {
+      // Sessions released from memory (stopped) report their persisted status
+      const sessions = await Promise.all(campaign.sessions.map(async (session) => {
+        if (session.status === 'pending' || session.status === 'not_started') {
+          return session;
+        }
+        const running = SessionService.getSession(session.sessionId);
+        const status = running?.status ?? (await tools.loadSessionMetadata(session.sessionId))?.status;
+        return status ? { ...session, status } : session;
+      }));
+      return { ...campaign, sessions };
+    }
+
+    // Only the started sessions of a campaign are persisted - personas a sequential campaign never reached are lost
+    const metadataList = (await tools.loadAllSessionMetadata())
+      .filter((metadata) => metadata.campaignId === campaignId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    if (metadataList.length === 0) {
+      return null;
+    }
+    return {
+      campaignId,
+      url: metadataList[0].url,
+      mode: 'sequential',
+      createdAt: metadataList[0].createdAt,
+      sessions: metadataList.map((metadata) => ({
+        persona: metadata.persona ?? metadata.sessionId,
+        sessionId: metadata.sessionId,
+        status: metadata.status,
+        error: metadata.error,
+      })),
+    };
+  }
+
+  /**
+   * Compare the graphs of a campaign's sessions: the states each persona reached and the actions it executed
+   * States are matched by state key, which depends on the page structure and not on the session
+   */
+  static async comparePersonas(campaignId: string): Promise<PermissionMatrix | null> {
+    const campaign = await this.getCampaign(campaignId);
+    if (!campaign) {
+      return null;
+    }
+    // Personas whose session never started have no graph - counting them would mark every entry restricted
+    const sessions = campaign.sessions.filter((session) => session.status !== 'pending' && session.status !== 'not_started');
+    const graphStore = createGraphStore(ConfigService.getConfig());
+
+    try {
+      const states = new Map<string, PermissionMatrix['states'][number]>();
+      const actions = new Map<string, PermissionMatrix['actions'][number]>();
+
+      for (const session of sessions) {
+        const graphData = await graphStore.queryGraph(SESSION_GRAPH_LIMIT, session.sessionId, false, false);
+        const labels = new Map(graphData.nodes.map((node) => [node.id, node.label]));
+
+        graphData.nodes.forEach((node) => {
+          const entry = states.get(node.id) ?? { stateKey: node.id, label: node.label, urlTemplate: node.urlTemplate, personas: [], restricted: false };
+          if (!entry.personas.includes(session.persona)) {
+            entry.personas.push(session.persona);
+          }
+          states.set(node.id, entry);
+        });
+        graphData.edges.forEach((edge) => {
+          const key = `${edge.source}|||${edge.label}`;
+          const entry = actions.get(key) ?? { fromStateKey: edge.source, fromLabel: labels.get(edge.source) ?? edge.sourceUrl, action: edge.label, personas: [], restricted: false };
+          if (!entry.personas.includes(session.persona)) {
+            entry.personas.push(session.persona);
+          }
+          actions.set(key, entry);
+        });
+      }
+
+      const personas = sessions.map((session) => session.persona);
+      const markRestricted = <T extends { personas: string[]; restricted: boolean }>(entries: T[]): T[] =>
+        entries
+          .map((entry) => ({ ...entry, restricted: entry.personas.length < personas.length }))
+          .sort((a, b) => a.personas.length - b.personas.length);
+
+      return {
+        campaignId,
+        personas,
+        states: markRestricted(Array.from(states.values())),
+        actions: markRestricted(Array.from(actions.values())),
+      };
+    } finally {
+      await graphStore.close();
+    }
+  }
+
+  /**
+   * Start the session of a persona and record its status in the campaign
+   */
+  private static async startPersona(
+    campaign: Campaign,
+    persona: Persona,
+    index: number,
+    startSession: CampaignSessionStarter
+  ): Promise<Session> {
+    const entry = campaign.sessions[index];
+    try {
+      const session = await startSession(persona, entry.sessionId, campaign.campaignId);
+      entry.status = 'running';
+      logger.info('CampaignService', `Started persona "${persona.name}" of ${campaign.campaignId}`, { sessionId: entry.sessionId });
+      return session;
+    } catch (error) {
+      entry.status = 'not_started';
+      entry.error = error instanceof Error ? error.message : String(error);
+      logger.error('CampaignService', `Failed to start persona "${persona.name}" of ${campaign.campaignId}`, {
+        sessionId: entry.sessionId,
+        error: entry.error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Start the remaining personas of a sequential campaign, each once the previous session has ended
+   * A persona that fails to start is skipped
+   */
+  private static continueSequence(
+    campaign: Campaign,
+    personas: Persona[],
+    index: number,
+    previous: Session,
+    startSession: CampaignSessionStarter
+  ): void {
+    if (index >= personas.length) {
+      return;
+    }
+    previous.runPromise
+      .catch(() => undefined) // A failed session ends its turn like a completed one
+      .then(async () => {
+        for (let next = index; next < personas.length; next++) {
+          try {
+            const session = await this.startPersona(campaign, personas[next], next, startSession);
+            this.continueSequence(campaign, personas, next + 1, session, startSession);
+            return;
+          } catch (error) {
+            // Already recorded on the campaign - continue with the next persona
+          }
+        }
+      });
+  }
+}
@@ -1,3 +1,10 @@
+import type { CampaignMode, ExplorationLimits, ExplorationScope, ExplorationStrategy, LoginRecipe, LoginRecipeStep, PendingAction, Persona, RecordingOptions, SafetyMode, SafetyPolicy, TestDataMode, TestDataOptions } from '../types/state.js';
+import type { BrowserStorageState } from '../utils/browser-tools.js';
+import type { GraphStoreType } from '../utils/graph-store.js';
+import { SecretRedactor } from '../utils/secret-redactor.js';
+import { TotpGenerator } from '../utils/totp-generator.js';
+import { UrlNormalizer } from '../utils/url-normalizer.js';
+
 /**
  * ConfigService - Provides application configuration
  * All configuration logic lives in core - single source of truth for all env vars
@@ -8,6 +15,10 @@ export interface AppConfig {
   llmModel: string;
   llmApiKey: string;
   
+  // Graph Store Configuration
+  graphStore: GraphStoreType; // 'neo4j' (server) or 'memory' (embedded, no Docker needed)
+  graphStoreFile?: string; // JSON file the embedded store is loaded from and saved to (optional)
+  
   // Neo4j Configuration
   neo4jUri: string;
   neo4jUser: string;
@@ -15,16 +26,29 @@ export interface AppConfig {
   
   // Agent Configuration
   startingUrl: string;
+  explorationStrategy: ExplorationStrategy; // Order in which states with untried actions are revisited
+  explorationLimits: ExplorationLimits; // Default budgets per exploration (overridable per request)
+  explorationScope: ExplorationScope; // Default URL include/exclude patterns (overridable per request)
+  safetyPolicy: SafetyPolicy; // Default handling of destructive and logout actions (overridable per request)
+  routePatterns?: string[]; // Route templates such as /users/:id that URLs are grouped by (overridable per request)
+  testData: TestDataOptions; // Default seed and mode of the values typed into form fields (overridable per request)
   
   // Browser Configuration
   headless: boolean;
   
+  // Artifact Configuration
+  artifactsDir: string; // Directory screenshots are saved to, one subdirectory per session
+  screenshots: boolean; // Capture screenshots at each observation and around each executed batch
+  recording: RecordingOptions; // Default Playwright trace and video recording of explorations and replays
+  accessibilityAudit: boolean; // Run axe-core on every newly observed state
+  
   // Logging Configuration
   logLevel: 'info' | 'warn' | 'error';
   logFile?: string; // Optional path to log file
   
   // Credentials Configuration (optional, for automatic login)
   credentials?: { username?: string; password?: string };
+  secretPatterns?: string[]; // Regular expressions for typed values to redact like credentials
 }
 
 export class ConfigService {
@@ -54,6 +78,10 @@ export class ConfigService {
       llmModel: process.env.LLM_MODEL || defaultModel,
       llmApiKey,
       
+      // Graph Store Configuration
+      graphStore: this.parseGraphStoreType(process.env.GRAPH_STORE),
+      graphStoreFile: process.env.GRAPH_STORE_FILE,
+      
       // Neo4j Configuration
       neo4jUri: process.env.NEO4J_URI || 'bolt://localhost:7687',
       neo4jUser: process.env.NEO4J_USER || 'neo4j',
@@ -61,10 +89,42 @@ export class ConfigService {
       
       // Agent Configuration
       startingUrl: process.env.STARTING_URL || 'https://example.com',
+      explorationStrategy: this.parseExplorationStrategy(process.env.EXPLORATION_STRATEGY),
+      explorationLimits: this.validateExplorationLimits({
+        maxActions: process.env.MAX_ACTIONS ? Number(process.env.MAX_ACTIONS) : 100, // Default cap so runaway explorations stay cheap
+        maxInputTokens: process.env.MAX_INPUT_TOKENS ? Number(process.env.MAX_INPUT_TOKENS) : undefined,
+        maxOutputTokens: process.env.MAX_OUTPUT_TOKENS ? Number(process.env.MAX_OUTPUT_TOKENS) : undefined,
+        maxStates: process.env.MAX_STATES ? Number(process.env.MAX_STATES) : undefined,
+        maxDurationMs: process.env.MAX_DURATION_MS ? Number(process.env.MAX_DURATION_MS) : undefined,
+      }),
+      explorationScope: {
+        include: this.parsePatternList(process.env.SCOPE_INCLUDE),
+        exclude: this.parsePatternList(process.env.SCOPE_EXCLUDE),
+      },
+      safetyPolicy: this.validateSafetyPolicy({
+        destructiveMode: process.env.SAFETY_DESTRUCTIVE_MODE?.toLowerCase(),
+        logoutMode: process.env.SAFETY_LOGOUT_MODE?.toLowerCase(),
+        denyList: this.parsePatternList(process.env.SAFETY_DENY_LIST),
+        allowList: this.parsePatternList(process.env.SAFETY_ALLOW_LIST),
+      }) ?? {},
+      routePatterns: this.validateRoutePatterns(this.parsePatternList(process.env.ROUTE_PATTERNS)),
+      testData: this.validateTestData({
+        seed: process.env.TEST_DATA_SEED ? Number(process.env.TEST_DATA_SEED) : undefined,
+        mode: process.env.TEST_DATA_MODE?.toLowerCase(),
+      }) ?? {},
       
       // Browser Configuration
       headless: process.env.HEADLESS !== 'false', // Default to true (headless), set HEADLESS=false to show browser
       
+      // Artifact Configuration
+      artifactsDir: process.env.ARTIFACTS_DIR || 'artifacts',
+      screenshots: process.env.SCREENSHOTS !== 'false', // Default to true, set SCREENSHOTS=false to skip them
+      recording: {
+        trace: process.env.RECORD_TRACE === 'true', // Default to false
+        video: process.env.RECORD_VIDEO === 'true', // Default to false
+      },
+      accessibilityAudit: process.env.ACCESSIBILITY_AUDIT === 'true', // Default to false
+      
       // Logging Configuration
       logLevel: (process.env.LOG_LEVEL?.toLowerCase() || 'error') as 'info' | 'warn' | 'error',
       logFile: process.env.LOG_FILE, // Optional log file path
@@ -74,9 +134,445 @@ export class ConfigService {
         username: process.env.CRED_USERNAME,
         password: process.env.CRED_PASSWORD,
       } : undefined,
+      secretPatterns: this.validateSecretPatterns(this.parsePatternList(process.env.SECRET_PATTERNS)),
     };
   }
 
+  /**
+   * Parse an exploration strategy, falling back to depth-first for unknown values
+   */
+  static parseExplorationStrategy(value?: string): ExplorationStrategy {
+    const strategy = (value || '').toLowerCase();
+    if (strategy === 'bfs' || strategy === 'dfs' || strategy === 'llm') {
+      return strategy;
+    }
+    return 'dfs';
+  }
+
+  /**
+   * Parse a graph store type, falling back to Neo4j for unknown values
+   */
+  static parseGraphStoreType(value?: string): GraphStoreType {
+    return (value || '').toLowerCase() === 'memory' ? 'memory' : 'neo4j';
+  }
+
+  /**
+   * Validate exploration limits (from env or a request body)
+   * Throws an error if a limit is not a positive number; unknown keys are dropped
+   */
+  static validateExplorationLimits(limits: unknown): ExplorationLimits {
+    if (limits === undefined || limits === null) {
+      return {};
+    }
+    if (typeof limits !== 'object' || Array.isArray(limits)) {
+      throw new Error('limits must be an object');
+    }
+
+    const keys: Array<keyof ExplorationLimits> = ['maxActions', 'maxInputTokens', 'maxOutputTokens', 'maxStates', 'maxDurationMs'];
+    const validated: ExplorationLimits = {};
+    for (const key of keys) {
+      const value = (limits as Record<string, unknown>)[key];
+      if (value === undefined || value === null) {
+        continue;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        throw new Error(`limits.${key} must be a positive number`);
+      }
+      validated[key] = value;
+    }
+    return validated;
+  }
+
+  /**
+   * Parse a comma-separated list of URL patterns (undefined if empty)
+   */
+  static parsePatternList(value?: string): string[] | undefined {
+    const patterns = (value || '').split(',').map((pattern) => pattern.trim()).filter(Boolean);
+    return patterns.length > 0 ? patterns : undefined;
+  }
+
+  /**
+   * Validate secret patterns
+   * Throws an error if a pattern is not a valid regular expression
+   */
+  static validateSecretPatterns(patterns?: string[]): string[] | undefined {
+    for (const pattern of patterns ?? []) {
+      try {
+        SecretRedactor.parsePattern(pattern);
+      } catch (error) {
+        throw new Error(`Invalid secret pattern: ${pattern}`);
+      }
+    }
+    return patterns;
+  }
+
+  /**
+   * Validate route patterns (from env or a request body)
+   * Throws an error if the patterns are not an array of paths like /users/:id or /docs/*
+   */
+  static validateRoutePatterns(patterns: unknown): string[] | undefined {
+    if (patterns === undefined || patterns === null) {
+      return undefined;
+    }
+    if (!Array.isArray(patterns) || patterns.some((pattern) => typeof pattern !== 'string' || !pattern.trim())) {
+      throw new Error('routePatterns must be an array of non-empty strings');
+    }
+    for (const pattern of patterns as string[]) {
+      UrlNormalizer.validatePattern(pattern);
+    }
+    return patterns as string[];
+  }
+
+  /**
+   * Validate recording options from a request body
+   * Throws an error if trace or video is not a boolean; unset keys are dropped
+   */
+  static validateRecordingOptions(recording: unknown): RecordingOptions | undefined {
+    if (recording === undefined || recording === null) {
+      return undefined;
+    }
+    if (typeof recording !== 'object' || Array.isArray(recording)) {
+      throw new Error('recording must be an object');
+    }
+
+    const validated: RecordingOptions = {};
+    for (const key of ['trace', 'video'] as const) {
+      const value = (recording as Record<string, unknown>)[key];
+      if (value === undefined || value === null) {
+        continue;
+      }
+      if (typeof value !== 'boolean') {
+        throw new Error(`recording.${key} must be a boolean`);
+      }
+      validated[key] = value;
+    }
+    return validated;
+  }
+
+  /**
+   * Validate the personas of an exploration campaign from a request body
+   * Throws an error unless it is a non-empty array of personas with unique names, string credentials,
+   * a Playwright storage state ({ cookies, origins }) and a valid login script
+   */
+  static validatePersonas(personas: unknown): Persona[] {
+    if (!Array.isArray(personas) || personas.length === 0) {
+      throw new Error('personas must be a non-empty array');
+    }
+
+    const names = new Set<string>();
+    return personas.map((persona, index) => {
+      if (typeof persona !== 'object' || persona === null || Array.isArray(persona)) {
+        throw new Error(`personas[${index}] must be an object`);
+      }
+      const { name, credentials, storageState, loginScript } = persona as Record<string, unknown>;
+      if (typeof name !== 'string' || name.trim().length === 0) {
+        throw new Error(`personas[${index}].name must be a non-empty string`);
+      }
+      if (names.has(name.trim())) {
+        throw new Error(`personas[${index}].name must be unique (duplicate: ${name.trim()})`);
+      }
+      names.add(name.trim());
+
+      const validated: Persona = { name: name.trim() };
+      if (credentials !== undefined && credentials !== null) {
+        if (typeof credentials !== 'object' || Array.isArray(credentials)) {
+          throw new Error(`personas[${index}].credentials must be an object`);
+        }
+        const { username, password } = credentials as Record<string, unknown>;
+        if ((username !== undefined && typeof username !== 'string') || (password !== undefined && typeof password !== 'string')) {
+          throw new Error(`personas[${index}].credentials.username and password must be strings`);
+        }
+        validated.credentials = { username, password };
+      }
+      validated.storageState = this.validateStorageState(storageState, `personas[${index}].storageState`);
+      validated.loginScript = this.validateLoginScript(loginScript, `personas[${index}].loginScript`);
+      return validated;
+    });
+  }
+
+  /**
+   * Validate a Playwright storage state ({ cookies, origins }) from a request body, e.g. one exported from a session
+   * Returns undefined if not set
+   */
+  static validateStorageState(storageState: unknown, field: string = 'storageState'): BrowserStorageState | undefined {
+    if (storageState === undefined || storageState === null) {
+      return undefined;
+    }
+    const state = storageState as Record<string, unknown>;
+    if (typeof storageState !== 'object' || Array.isArray(storageState) || !Array.isArray(state.cookies) || !Array.isArray(state.origins)) {
+      throw new Error(`${field} must be a Playwright storage state ({ cookies, origins })`);
+    }
+    return storageState as BrowserStorageState;
+  }
+
+  /**
+   * Validate a recorded login script from a request body: actions run in order before the exploration starts
+   * Typed text may use the {{credentials.username}} and {{credentials.password}} placeholders
+   * Returns undefined if not set
+   */
+  static validateLoginScript(loginScript: unknown, field: string = 'loginScript'): PendingAction[] | undefined {
+    if (loginScript === undefined || loginScript === null) {
+      return undefined;
+    }
+    if (!Array.isArray(loginScript) || loginScript.length === 0) {
+      throw new Error(`${field} must be a non-empty array of actions`);
+    }
+
+    return loginScript.map((step, index) => {
+      if (typeof step !== 'object' || step === null || Array.isArray(step)) {
+        throw new Error(`${field}[${index}] must be an object`);
+      }
+      const { tool, selector, text, value, url } = step as Record<string, unknown>;
+      switch (tool) {
+        case 'navigate':
+          if (!this.isAbsoluteUrl(url)) {
+            throw new Error(`${field}[${index}].url must be an absolute URL`);
+          }
+          return { tool, url };
+        case 'clickElement':
+        case 'typeText':
+        case 'selectOption': {
+          if (typeof selector !== 'string' || selector.trim().length === 0) {
+            throw new Error(`${field}[${index}].selector must be a non-empty string`);
+          }
+          if (tool === 'typeText' && typeof text !== 'string') {
+            throw new Error(`${field}[${index}].text must be a string`);
+          }
+          if (tool === 'selectOption' && typeof value !== 'string') {
+            throw new Error(`${field}[${index}].value must be a string`);
+          }
+          const action: PendingAction = { tool, selector };
+          if (tool === 'typeText') {
+            action.text = text as string;
+          }
+          if (tool === 'selectOption') {
+            action.value = value as string;
+          }
+          return action;
+        }
+        default:
+          throw new Error(`${field}[${index}].tool must be one of: navigate, clickElement, typeText, selectOption`);
+      }
+    });
+  }
+
+  /**
+   * Validate a login recipe from a request body
+   * Throws an error unless it has a URL pattern, steps with a locator (fill and select steps with a value source)
+   * and an optional success condition with a URL pattern and/or a selector
+   */
+  static validateLoginRecipe(recipe: unknown): LoginRecipe {
+    if (typeof recipe !== 'object' || recipe === null || Array.isArray(recipe)) {
+      throw new Error('recipe must be an object');
+    }
+    const { urlPattern, steps, success } = recipe as Record<string, unknown>;
+    if (typeof urlPattern !== 'string' || urlPattern.trim().length === 0) {
+      throw new Error('urlPattern must be a non-empty string');
+    }
+    if (!Array.isArray(steps) || steps.length === 0) {
+      throw new Error('steps must be a non-empty array');
+    }
+
+    const validated: LoginRecipe = {
+      urlPattern: urlPattern.trim(),
+      steps: steps.map((step, index) => this.validateLoginRecipeStep(step, `steps[${index}]`)),
+    };
+    if (success !== undefined && success !== null) {
+      const { urlPattern: successPattern, selector } = success as Record<string, unknown>;
+      if (typeof success !== 'object' || Array.isArray(success) || (successPattern === undefined && selector === undefined)) {
+        throw new Error('success must be an object with a urlPattern and/or a selector');
+      }
+      if ((successPattern !== undefined && typeof successPattern !== 'string') || (selector !== undefined && typeof selector !== 'string')) {
+        throw new Error('success.urlPattern and success.selector must be strings');
+      }
+      validated.success = { urlPattern: successPattern, selector };
+    }
+    return validated;
+  }
+
+  /**
+   * Validate one step of a login recipe
+   */
+  private static validateLoginRecipeStep(step: unknown, field: string): LoginRecipeStep {
+    if (typeof step !== 'object' || step === null || Array.isArray(step)) {
+      throw new Error(`${field} must be an object`);
+    }
+    const { action, locator, value } = step as Record<string, unknown>;
+    if (action !== 'fill' && action !== 'click' && action !== 'select') {
+      throw new Error(`${field}.action must be one of: fill, click, select`);
+    }
+    if (typeof locator !== 'string' || locator.trim().length === 0) {
+      throw new Error(`${field}.locator must be a non-empty string`);
+    }
+    if (action === 'click') {
+      return { action, locator };
+    }
+
+    const source = (value as Record<string, unknown> | undefined)?.source;
+    const { field: credentialField, secret, value: constant } = (value ?? {}) as Record<string, unknown>;
+    if (source === 'credential') {
+      if (credentialField !== 'username' && credentialField !== 'password') {
+        throw new Error(`${field}.value.field must be one of: username, password`);
+      }
+      return { action, locator, value: { source, field: credentialField } };
+    }
+    if (source === 'totp') {
+      if (typeof secret !== 'string' || !TotpGenerator.isValidSecret(secret)) {
+        throw new Error(`${field}.value.secret must be a base32 TOTP secret`);
+      }
+      return { action, locator, value: { source, secret } };
+    }
+    if (source === 'constant') {
+      if (typeof constant !== 'string') {
+        throw new Error(`${field}.value.value must be a string`);
+      }
+      return { action, locator, value: { source, value: constant } };
+    }
+    throw new Error(`${field}.value.source must be one of: credential, totp, constant`);
+  }
+
+  /**
+   * Check whether a value is an absolute URL
+   */
+  private static isAbsoluteUrl(url: unknown): url is string {
+    if (typeof url !== 'string') {
+      return false;
+    }
+    try {
+      new URL(url);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Validate the mode of an exploration campaign from a request body (default: sequential)
+   */
+  static validateCampaignMode(mode: unknown): CampaignMode {
+    if (mode === undefined || mode === null) {
+      return 'sequential';
+    }
+    if (mode !== 'sequential' && mode !== 'parallel') {
+      throw new Error('mode must be one of: sequential, parallel');
+    }
+    return mode;
+  }
+
+  /**
+   * Validate an exploration scope from a request body
+   * Throws an error if include/exclude are not arrays of strings or contain an invalid /regex/
+   */
+  static validateExplorationScope(scope: unknown): ExplorationScope | undefined {
+    if (scope === undefined || scope === null) {
+      return undefined;
+    }
+    if (typeof scope !== 'object' || Array.isArray(scope)) {
+      throw new Error('scope must be an object');
+    }
+
+    const validated: ExplorationScope = {};
+    for (const key of ['include', 'exclude'] as const) {
+      const patterns = (scope as Record<string, unknown>)[key];
+      if (patterns === undefined || patterns === null) {
+        continue;
+      }
+      if (!Array.isArray(patterns) || patterns.some((pattern) => typeof pattern !== 'string' || !pattern.trim())) {
+        throw new Error(`scope.${key} must be an array of non-empty strings`);
+      }
+      for (const pattern of patterns as string[]) {
+        const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+        if (regexMatch) {
+          try {
+            new RegExp(regexMatch[1], regexMatch[2]);
+          } catch (error) {
+            throw new Error(`scope.${key} contains an invalid regular expression: ${pattern}`);
+          }
+        }
+      }
+      validated[key] = patterns as string[];
+    }
+    return validated;
+  }
+
+  /**
+   * Validate test data options (from env or a request body)
+   * Throws an error if the seed is not a non-negative integer or the mode is unknown; unset keys are dropped
+   */
+  static validateTestData(testData: unknown): TestDataOptions | undefined {
+    if (testData === undefined || testData === null) {
+      return undefined;
+    }
+    if (typeof testData !== 'object' || Array.isArray(testData)) {
+      throw new Error('testData must be an object');
+    }
+
+    const { seed, mode } = testData as Record<string, unknown>;
+    const validated: TestDataOptions = {};
+    if (seed !== undefined && seed !== null) {
+      if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0) {
+        throw new Error('testData.seed must be a non-negative integer');
+      }
+      validated.seed = seed;
+    }
+    if (mode !== undefined && mode !== null && mode !== '') {
+      const modes: TestDataMode[] = ['valid', 'probe'];
+      if (!modes.includes(mode as TestDataMode)) {
+        throw new Error(`testData.mode must be one of: ${modes.join(', ')}`);
+      }
+      validated.mode = mode as TestDataMode;
+    }
+    return validated;
+  }
+
+  /**
+   * Validate a safety policy (from env or a request body)
+   * Throws an error if a mode is unknown or a list is not an array of valid patterns; unset keys are dropped
+   */
+  static validateSafetyPolicy(policy: unknown): SafetyPolicy | undefined {
+    if (policy === undefined || policy === null) {
+      return undefined;
+    }
+    if (typeof policy !== 'object' || Array.isArray(policy)) {
+      throw new Error('safetyPolicy must be an object');
+    }
+
+    const modes: SafetyMode[] = ['skip', 'record', 'defer'];
+    const validated: SafetyPolicy = {};
+    for (const key of ['destructiveMode', 'logoutMode'] as const) {
+      const mode = (policy as Record<string, unknown>)[key];
+      if (mode === undefined || mode === null || mode === '') {
+        continue;
+      }
+      if (!modes.includes(mode as SafetyMode)) {
+        throw new Error(`safetyPolicy.${key} must be one of: ${modes.join(', ')}`);
+      }
+      validated[key] = mode as SafetyMode;
+    }
+
+    for (const key of ['denyList', 'allowList'] as const) {
+      const patterns = (policy as Record<string, unknown>)[key];
+      if (patterns === undefined || patterns === null) {
+        continue;
+      }
+      if (!Array.isArray(patterns) || patterns.some((pattern) => typeof pattern !== 'string' || !pattern.trim())) {
+        throw new Error(`safetyPolicy.${key} must be an array of non-empty strings`);
+      }
+      for (const pattern of patterns as string[]) {
+        const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+        if (regexMatch) {
+          try {
+            new RegExp(regexMatch[1], regexMatch[2]);
+          } catch (error) {
+            throw new Error(`safetyPolicy.${key} contains an invalid regular expression: ${pattern}`);
+          }
+        }
+      }
+      validated[key] = patterns as string[];
+    }
+    return validated;
+  }
+
   /**
    * Get the complete application configuration
    * Automatically initializes if not already done
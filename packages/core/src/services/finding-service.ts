@@ -0,0 +1,118 @@
+import { createGraphStore, SESSION_GRAPH_LIMIT } from '../utils/graph-store.js';
+import type { GraphData, GraphEdge } from '../utils/graph-store.js';
+import type { Finding, ReproStep } from '../types/state.js';
+import type { UserStory } from './user-story-service.js';
+import { ConfigService } from './config-service.js';
+import { SessionService } from './session-service.js';
+
+export type { Finding } from '../types/state.js';
+
+/**
+ * FindingService - Serves the problems found during explorations (console errors, uncaught exceptions,
+ * failed responses, broken links and dead actions) with the shortest path to reproduce them
+ */
+export class FindingService {
+  /**
+   * Get the findings of a session, most recently seen first
+   */
+  static async getFindings(sessionId: string): Promise<Finding[]> {
+    const graphStore = createGraphStore(ConfigService.getConfig());
+
+    try {
+      const findings = await graphStore.queryFindings(sessionId);
+      if (findings.length === 0) {
+        return findings;
+      }
+      const graphData = await graphStore.queryGraph(SESSION_GRAPH_LIMIT, sessionId, true, false);
+      const entryUrl = SessionService.getSession(sessionId)?.url ?? (await graphStore.loadSessionMetadata(sessionId))?.url;
+      const entryStateKeys = this.findEntryStateKeys(graphData, entryUrl);
+
+      return findings.map((finding) => ({ ...finding, reproPath: this.buildReproPath(finding, graphData, entryStateKeys) }));
+    } finally {
+      await graphStore.close();
+    }
+  }
+
+  /**
+   * Build a user story replaying a finding's reproduction path, for RetryService
+   */
+  static async buildReproStory(sessionId: string, findingKey: string): Promise<UserStory> {
+    const finding = (await this.getFindings(sessionId)).find((candidate) => candidate.findingKey === findingKey);
+    if (!finding) {
+      throw new Error(`Finding not found: ${findingKey}`);
+    }
+    if (!finding.reproPath) {
+      throw new Error('Finding cannot be reached from the entry state in the exploration graph');
+    }
+    if (finding.reproPath.length === 0) {
+      throw new Error('Finding occurs when the entry page loads - there are no actions to replay');
+    }
+    return {
+      title: `Reproduce: ${finding.message}`,
+      description: `Replays the shortest known path to the ${finding.type} finding on ${finding.stateLabel ?? finding.url}`,
+      steps: finding.reproPath.map((step) => step.action),
+      flow: finding.reproPath,
+    };
+  }
+
+  /**
+   * Find the states the exploration started from: those at the entry URL, or else those no transition leads to
+   */
+  private static findEntryStateKeys(graphData: GraphData, entryUrl?: string): string[] {
+    const states = graphData.nodes.filter((node) => !node.external);
+    const normalize = (url: string) => url.replace(/\/$/, '');
+    if (entryUrl) {
+      const atEntry = states.filter((node) => normalize(node.url) === normalize(entryUrl));
+      if (atEntry.length > 0) {
+        return atEntry.map((node) => node.id);
+      }
+    }
+    const targets = new Set(graphData.edges.filter((edge) => edge.source !== edge.target).map((edge) => edge.target));
+    return states.filter((node) => !targets.has(node.id)).map((node) => node.id);
+  }
+
+  /**
+   * Build the shortest path from an entry state to the finding's state (breadth-first over the transitions),
+   * followed by the action that caused the finding
+   * Returns undefined if the state cannot be reached in the graph
+   */
+  private static buildReproPath(finding: Finding, graphData: GraphData, entryStateKeys: string[]): ReproStep[] | undefined {
+    const transitions = graphData.edges.filter((edge) => !edge.external && !edge.notExecuted);
+    const outgoing = new Map<string, GraphEdge[]>();
+    transitions
+      .filter((edge) => edge.source !== edge.target)
+      .forEach((edge) => outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge]));
+
+    const reachedBy = new Map<string, GraphEdge | null>(entryStateKeys.map((key) => [key, null]));
+    const queue = [...entryStateKeys];
+    while (queue.length > 0 && !reachedBy.has(finding.stateKey)) {
+      const stateKey = queue.shift()!;
+      (outgoing.get(stateKey) ?? []).forEach((edge) => {
+        if (!reachedBy.has(edge.target)) {
+          reachedBy.set(edge.target, edge);
+          queue.push(edge.target);
+        }
+      });
+    }
+    if (!reachedBy.has(finding.stateKey)) {
+      return undefined;
+    }
+
+    const path: ReproStep[] = [];
+    for (let edge = reachedBy.get(finding.stateKey); edge; edge = reachedBy.get(edge.source)) {
+      path.unshift({ from: edge.sourceUrl, to: edge.targetUrl, action: edge.label });
+    }
+
+    if (finding.action) {
+      // Findings of actions that led out of scope or failed have no transition - the page URL is the target
+      const actionEdge = graphData.edges.find((edge) =>
+        edge.source === finding.stateKey && edge.label === finding.action && !edge.notExecuted
+      );
+      const stateUrl = graphData.nodes.find((node) => node.id === finding.stateKey)?.url ?? finding.url;
+      path.push(actionEdge
+        ? { from: actionEdge.sourceUrl, to: actionEdge.targetUrl, action: finding.action }
+        : { from: stateUrl, to: finding.url, action: finding.action });
+    }
+    return path;
+  }
+}
@@ -0,0 +1,86 @@
+import { createGraphStore } from '../utils/graph-store.js';
+import type { LoginRecipe } from '../types/state.js';
+import { findLoginRecipe } from '../agent/helpers/login-helpers.js';
+import { ConfigService } from './config-service.js';
+import { logger } from '../utils/logger.js';
+
+// Returned instead of TOTP secrets - a stored secret is only read by logins
+const MASKED_SECRET = '********';
+
+/**
+ * LoginRecipeService - Stores the login recipes used by explorations and replays, one per URL pattern
+ */
+export class LoginRecipeService {
+  /**
+   * List the stored login recipes (TOTP secrets masked), most recently updated first
+   */
+  static async listRecipes(): Promise<LoginRecipe[]> {
+    const graphStore = createGraphStore(ConfigService.getConfig());
+
+    try {
+      return (await graphStore.loadLoginRecipes()).map((recipe) => this.mask(recipe));
+    } finally {
+      await graphStore.close();
+    }
+  }
+
+  /**
+   * Save a login recipe, replacing the recipe of the same URL pattern
+   */
+  static async saveRecipe(recipe: LoginRecipe): Promise<LoginRecipe> {
+    const graphStore = createGraphStore(ConfigService.getConfig());
+
+    try {
+      const saved = { ...recipe, updatedAt: new Date().toISOString() };
+      await graphStore.saveLoginRecipe(saved);
+      logger.info('LoginRecipeService', `Saved login recipe for ${recipe.urlPattern}`, { steps: recipe.steps.length });
+      return this.mask(saved);
+    } finally {
+      await graphStore.close();
+    }
+  }
+
+  /**
+   * Delete the login recipe of a URL pattern
+   * Returns false if there is no such recipe
+   */
+  static async deleteRecipe(urlPattern: string): Promise<boolean> {
+    const graphStore = createGraphStore(ConfigService.getConfig());
+
+    try {
+      const recipes = await graphStore.loadLoginRecipes();
+      if (!recipes.some((recipe) => recipe.urlPattern === urlPattern)) {
+        return false;
+      }
+      await graphStore.deleteLoginRecipe(urlPattern);
+      return true;
+    } finally {
+      await graphStore.close();
+    }
+  }
+
+  /**
+   * Find the recipe for a login page, matched by the page URL, then by the entry URL (secrets included)
+   */
+  static async findRecipe(url: string, entryUrl?: string): Promise<LoginRecipe | undefined> {
+    const graphStore = createGraphStore(ConfigService.getConfig());
+
+    try {
+      return findLoginRecipe(await graphStore.loadLoginRecipes(), url, entryUrl);
+    } finally {
+      await graphStore.close();
+    }
+  }
+
+  /**
+   * Replace the TOTP secrets of a recipe with a mask
+   */
+  private static mask(recipe: LoginRecipe): LoginRecipe {
+    return {
+      ...recipe,
+      steps: recipe.steps.map((step) =>
+        step.value?.source === 'totp' ? { ...step, value: { ...step.value, secret: MASKED_SECRET } } : step
+      ),
+    };
+  }
+}
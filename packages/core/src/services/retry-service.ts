@@ -1,9 +1,15 @@
-import { BrowserTools } from '../utils/browser-tools.js';
+import { BrowserTools, BrowserStorageState } from '../utils/browser-tools.js';
 import { ConfigService } from './config-service.js';
 import { UserStory } from './user-story-service.js';
 import { GraphService, GraphNode, GraphEdge } from './graph-service.js';
 import { SessionService } from './session-service.js';
 import { logger } from '../utils/logger.js';
+import { SecretRedactor } from '../utils/secret-redactor.js';
+import { ElementLocator, RecordingArtifacts, RecordingOptions } from '../types/state.js';
+import { AgentService } from './agent-service.js';
+import { LoginRecipeService } from './login-recipe-service.js';
+import { buildRecipeActions, detectLoginScreen, isLoginSuccessful } from '../agent/helpers/login-helpers.js';
+import { performAction } from '../agent/helpers/replay-helpers.js';
 
 export interface RetryStep {
   index: number;
@@ -16,11 +22,13 @@ export interface RetryStep {
 export interface RetrySession {
   retryId: string;
   sessionId: string;
-  storyIndex: number;
+  storyIndex: number; // -1 when a finding is reproduced
+  findingKey?: string; // Finding whose reproduction path is replayed
   status: 'pending' | 'running' | 'completed' | 'failed';
   steps: RetryStep[];
   startTime: number;
   endTime?: number;
+  artifacts?: RecordingArtifacts; // Trace and video of the replay, saved in the session's artifacts
 }
 
 /**
@@ -40,12 +48,17 @@ export class RetryService {
 
   /**
    * Start a retry for a user story - uses the story's flow directly
+   * Findings are replayed the same way, with a story built from their reproduction path
+   * A storage state exported from a session starts the replay logged in
    */
   static async startRetry(
     sessionId: string,
     story: UserStory,
     storyIndex: number,
-    credentials?: { username?: string; password?: string }
+    credentials?: { username?: string; password?: string },
+    recording?: RecordingOptions,
+    findingKey?: string,
+    storageState?: BrowserStorageState
   ): Promise<string> {
     const retryId = `retry-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
@@ -65,7 +78,7 @@ export class RetryService {
     logger.info('RetryService', `Entry URL from session/config: ${entryUrl}`);
     
     // Build complete path: from entry to first story flow node, then all story flow steps
-    const completePath: Array<{ from: string; to: string; action: string; selector?: string }> = [];
+    const completePath: Array<{ from: string; to: string; action: string; selector?: string; locators?: Array<ElementLocator | null> }> = [];
     
     if (story.flow.length > 0) {
       const firstFlowFrom = story.flow[0].from;
@@ -93,6 +106,7 @@ export class RetryService {
             to: flowItem.to,
             action: graphEdge.action, // Use graph edge action (e.g., "Batch: typeText on #username...")
             selector: graphEdge.selector,
+            locators: graphEdge.locators,
           });
           logger.info('RetryService', `Found graph edge for flow item: ${flowItem.from} → ${flowItem.to}, using action: "${graphEdge.action}"`);
         } else {
@@ -134,6 +148,7 @@ export class RetryService {
       retryId,
       sessionId,
       storyIndex,
+      findingKey,
       status: 'pending',
       steps,
       startTime: Date.now(),
@@ -142,7 +157,9 @@ export class RetryService {
     this.retrySessions.set(retryId, retrySession);
 
     // Execute retry in background using story flow
-    this.executeRetry(retryId, story, graphData).catch((error) => {
+    // Placeholders such as {{credentials.password}} in the recorded actions are resolved with these credentials
+    const secrets = new SecretRedactor(credentials ?? ConfigService.getCredentials(), ConfigService.getConfig().secretPatterns);
+    this.executeRetry(retryId, story, graphData, secrets, recording, storageState).catch((error) => {
       logger.error('RetryService', 'Error executing retry', {
         retryId,
         error: error instanceof Error ? error.message : String(error),
@@ -154,6 +171,47 @@ export class RetryService {
     return retryId;
   }
   
+  /**
+   * Log in with the stored login recipe when the replay lands on a login page its next step does not start from
+   * (the path was recorded after logging in, or the login expired)
+   * Returns true if a recipe was run; throws an error if its success condition does not hold afterwards
+   */
+  private static async loginWithRecipe(
+    browserTools: BrowserTools,
+    secrets: SecretRedactor,
+    entryUrl: string,
+    nextFrom?: string
+  ): Promise<boolean> {
+    const currentUrl = browserTools.getCurrentUrl();
+    if (nextFrom && this.normalizeUrl(nextFrom) === this.normalizeUrl(currentUrl)) {
+      // The path itself logs in
+      return false;
+    }
+    if (!detectLoginScreen((await browserTools.observe()).domState)) {
+      return false;
+    }
+    const recipe = await LoginRecipeService.findRecipe(currentUrl, entryUrl);
+    if (!recipe) {
+      logger.warn('RetryService', `Replay reached a login page (${currentUrl}) but no login recipe matches it`);
+      return false;
+    }
+
+    logger.info('RetryService', `Replay reached a login page (${currentUrl}) - logging in with the recipe for ${recipe.urlPattern}`);
+    for (const action of buildRecipeActions(recipe, secrets)) {
+      await performAction(browserTools, action);
+    }
+    try {
+      await browserTools.waitForNetworkIdle(30000);
+    } catch (error) {
+      logger.warn('RetryService', 'Network idle timeout after login - proceeding anyway');
+    }
+    const isLoginScreen = detectLoginScreen((await browserTools.observe()).domState);
+    if (!(await isLoginSuccessful(browserTools, recipe, isLoginScreen))) {
+      throw new Error(`Login recipe for ${recipe.urlPattern} did not log in`);
+    }
+    return true;
+  }
+
   /**
    * Find matching graph edge for a flow item by matching URLs (not action label)
    * Returns both the action and selector from the graph edge
@@ -161,23 +219,25 @@ export class RetryService {
   private static findGraphEdgeForFlowItem(
     flowItem: { from: string; to: string; action: string },
     graphData: { nodes: GraphNode[]; edges: GraphEdge[] }
-  ): { action: string; selector?: string } | null {
+  ): { action: string; selector?: string; locators?: Array<ElementLocator | null> } | null {
     // Normalize URLs for comparison
     const normalizedFrom = this.normalizeUrl(flowItem.from);
     const normalizedTo = this.normalizeUrl(flowItem.to);
     
-    // Try to find a matching edge in the graph by URLs only (not action label)
+    // Try to find a matching edge in the graph by URLs, preferring the edge of the same action
     // The graph edge has the technical action format, which we want to use
-    const matchingEdge = graphData.edges.find(edge => {
-      const normalizedEdgeSource = this.normalizeUrl(edge.source);
-      const normalizedEdgeTarget = this.normalizeUrl(edge.target);
+    const urlMatches = graphData.edges.filter(edge => {
+      const normalizedEdgeSource = this.normalizeUrl(edge.sourceUrl);
+      const normalizedEdgeTarget = this.normalizeUrl(edge.targetUrl);
       return normalizedEdgeSource === normalizedFrom && normalizedEdgeTarget === normalizedTo;
     });
+    const matchingEdge = urlMatches.find(edge => edge.label === flowItem.action) ?? urlMatches[0];
     
     if (matchingEdge) {
       return {
         action: matchingEdge.label, // Use the graph edge's action (has technical batch format)
         selector: matchingEdge.selector,
+        locators: matchingEdge.locators,
       };
     }
     
@@ -242,7 +302,7 @@ export class RetryService {
     entryUrl: string,
     targetUrl: string,
     graphData: { nodes: GraphNode[]; edges: GraphEdge[] }
-  ): Array<{ from: string; to: string; action: string; selector?: string }> {
+  ): Array<{ from: string; to: string; action: string; selector?: string; locators?: Array<ElementLocator | null> }> {
     // Normalize URLs
     const normalizedEntry = this.normalizeUrl(entryUrl);
     const normalizedTarget = this.normalizeUrl(targetUrl);
@@ -271,25 +331,26 @@ export class RetryService {
     logger.info('RetryService', `Building path from ${actualEntryUrl} to ${actualTargetUrl}`);
     
     // Create adjacency list
-    const adjacencyList = new Map<string, Array<{ target: string; action: string; selector?: string }>>();
+    const adjacencyList = new Map<string, Array<{ target: string; action: string; selector?: string; locators?: Array<ElementLocator | null> }>>();
     
     for (const edge of graphData.edges) {
-      const source = this.normalizeUrl(edge.source);
-      const target = this.normalizeUrl(edge.target);
+      const source = this.normalizeUrl(edge.sourceUrl);
+      const target = this.normalizeUrl(edge.targetUrl);
       
       if (!adjacencyList.has(source)) {
         adjacencyList.set(source, []);
       }
       adjacencyList.get(source)!.push({
-        target: edge.target, // Keep original URL for path
+        target: edge.targetUrl, // Keep original URL for path
         action: edge.label,
         selector: edge.selector,
+        locators: edge.locators,
       });
     }
 
     // DFS to find path from entry to target
     const visited = new Set<string>();
-    const path: Array<{ from: string; to: string; action: string; selector?: string }> = [];
+    const path: Array<{ from: string; to: string; action: string; selector?: string; locators?: Array<ElementLocator | null> }> = [];
     
     const normalizedEntryForDfs = this.normalizeUrl(actualEntryUrl);
     const normalizedTargetForDfs = this.normalizeUrl(actualTargetUrl);
@@ -314,6 +375,7 @@ export class RetryService {
           to: neighbor.target,
           action: neighbor.action,
           selector: neighbor.selector,
+          locators: neighbor.locators,
         });
         
         if (dfs(neighbor.target)) {
@@ -347,7 +409,10 @@ export class RetryService {
   private static async executeRetry(
     retryId: string,
     story: UserStory,
-    graphData: { nodes: GraphNode[]; edges: GraphEdge[] }
+    graphData: { nodes: GraphNode[]; edges: GraphEdge[] },
+    secrets: SecretRedactor,
+    recording?: RecordingOptions,
+    storageState?: BrowserStorageState
   ): Promise<void> {
     const retrySession = this.retrySessions.get(retryId);
     if (!retrySession) {
@@ -360,16 +425,18 @@ export class RetryService {
     // Initialize browser tools
     const config = ConfigService.getConfig();
     const browserTools = new BrowserTools(config.headless);
+    browserTools.setSecretResolver((text) => secrets.resolve(text));
     
     try {
-      await browserTools.initialize();
+      // Recordings of a replay are saved with the exploration's artifacts, prefixed with the retry id
+      await browserTools.initialize(storageState, AgentService.buildRecording(retrySession.sessionId, retryId, recording));
       logger.info('RetryService', 'Browser initialized for retry');
 
       // Get entry URL and build complete path
       const entryUrl = this.getEntryUrl(retrySession.sessionId);
       
       // Build complete path: from entry to first story flow node, then all story flow steps
-      const completePath: Array<{ from: string; to: string; action: string; selector?: string }> = [];
+      const completePath: Array<{ from: string; to: string; action: string; selector?: string; locators?: Array<ElementLocator | null> }> = [];
       
       if (story.flow.length > 0) {
         const firstFlowFrom = story.flow[0].from;
@@ -397,6 +464,7 @@ export class RetryService {
               to: flowItem.to,
               action: graphEdge.action, // Use graph edge action (e.g., "Batch: typeText on #username...")
               selector: graphEdge.selector,
+              locators: graphEdge.locators,
             });
             logger.info('RetryService', `Found graph edge for flow item: ${flowItem.from} → ${flowItem.to}, using action: "${graphEdge.action}"`);
           } else {
@@ -449,6 +517,7 @@ export class RetryService {
         logger.info('RetryService', `Navigating to entry URL: ${entryUrl}`);
         await browserTools.navigate(entryUrl);
         await this.delay(1500); // Delay for human readability
+        await this.loginWithRecipe(browserTools, secrets, entryUrl, completePath[0]?.from);
       });
 
       let currentUrl = entryUrl;
@@ -470,6 +539,7 @@ export class RetryService {
             logger.info('RetryService', `[NAVIGATION] Navigating from ${currentUrl} to source state: ${pathItem.from}`);
             await browserTools.navigate(pathItem.from);
             await this.delay(1500);
+            await this.loginWithRecipe(browserTools, secrets, entryUrl, pathItem.from);
             currentUrl = pathItem.from;
             logger.info('RetryService', `[NAVIGATION] Successfully navigated to: ${currentUrl}`);
           }
@@ -497,6 +567,8 @@ export class RetryService {
             batchActionIndex++;
             const singleActionLower = singleAction.toLowerCase();
             let singleActionExecuted = false;
+            // Locator recorded for this action of the batch (transitions saved before locators existed have none)
+            const locator = pathItem.locators?.[batchActionIndex - 1] ?? undefined;
             
             logger.info('RetryService', `───────────────────────────────────────────────────────────`);
             logger.info('RetryService', `[ACTION ${batchActionIndex}/${actionsToProcess.length}] Processing: "${singleAction}"`);
@@ -507,7 +579,7 @@ export class RetryService {
             const clickMatch = singleAction.match(/clickElement\s+on\s+(.+?)(?:\s+with\s|$)/i);
             if (clickMatch) {
               const selectorString = clickMatch[1].trim();
-              const selectorList = this.getSelectorList(selectorString);
+              const selectorList = this.getSelectorList(selectorString, locator);
               logger.info('RetryService', `[${batchActionIndex}/${actionsToProcess.length}] Trying clickElement with ${selectorList.length} selector(s): ${selectorList.join(', ')}`);
               
               // Try each selector until one works
@@ -538,7 +610,11 @@ export class RetryService {
               if (typeMatch) {
                 const selectorString = typeMatch[1].trim();
                 const text = typeMatch[2];
-                const selectorList = this.getSelectorList(selectorString);
+                const unresolved = secrets.findUnresolved(text);
+                if (unresolved.length > 0) {
+                  logger.warn('RetryService', `[${batchActionIndex}/${actionsToProcess.length}] No value for secret placeholder(s) ${unresolved.join(', ')} - typing them as-is`);
+                }
+                const selectorList = this.getSelectorList(selectorString, locator);
                 logger.info('RetryService', `[${batchActionIndex}/${actionsToProcess.length}] Trying typeText with ${selectorList.length} selector(s): ${selectorList.join(', ')}, text: "${text}"`);
                 
                 // Try each selector until one works
@@ -564,7 +640,7 @@ export class RetryService {
                 const selector = this.cleanSelector(selectMatch[1]);
                 const value = selectMatch[2];
                 logger.info('RetryService', `[ACTION ${batchActionIndex}/${actionsToProcess.length}] EXECUTING: selectOption("${selector}", "${value}")`);
-                await browserTools.selectOption(selector, value);
+                await browserTools.selectOption(selector, value, locator);
                 logger.info('RetryService', `[ACTION ${batchActionIndex}/${actionsToProcess.length}] ✓ SUCCESS: Selected option in: ${selector}`);
                 singleActionExecuted = true;
               }
@@ -928,6 +1004,9 @@ export class RetryService {
         });
       }
 
+      // Save the recordings before the status changes, so clients that stop polling then can link to them
+      retrySession.artifacts = await browserTools.saveRecording();
+
       // Mark retry as completed
       retrySession.status = 'completed';
       retrySession.endTime = Date.now();
@@ -942,6 +1021,7 @@ export class RetryService {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
       });
+      retrySession.artifacts = await browserTools.saveRecording();
       retrySession.status = 'failed';
       retrySession.endTime = Date.now();
       
@@ -1017,16 +1097,19 @@ export class RetryService {
 
   /**
    * Get all selectors from a comma-separated selector string
+   * Ranked alternates of a recorded locator are tried first, in their recorded order
    * Returns array of individual selectors to try
    */
-  private static getSelectorList(selector: string): string[] {
-    if (!selector) return [];
+  private static getSelectorList(selector: string, locator?: ElementLocator): string[] {
+    const alternates = locator?.alternates ?? [];
+    if (!selector) return alternates;
     
     // Split by comma and clean each selector
-    return selector.split(',')
+    const selectors = selector.split(',')
       .map(s => s.trim())
       .filter(s => s.length > 0)
       .map(s => this.cleanSelector(s));
+    return [...new Set([...alternates, ...selectors])];
   }
 
   /**
@@ -1,5 +1,5 @@
-import { BrowserTools } from '../utils/browser-tools.js';
-import { Neo4jTools } from '../utils/neo4j-tools.js';
+import { BrowserTools, BrowserStorageState } from '../utils/browser-tools.js';
+import { createGraphStore, GraphStore } from '../utils/graph-store.js';
 import { DavAgent } from '../agent/dav-agent.js';
 import type { DavAgentState } from '../types/state.js';
 import { AgentService } from './agent-service.js';
@@ -9,13 +9,16 @@ import { logger } from '../utils/logger.js';
 export interface Session {
   sessionId: string;
   browserTools: BrowserTools;
-  neo4jTools: Neo4jTools;
+  graphStore: GraphStore;
   agent: DavAgent;
   runPromise: Promise<DavAgentState>;
-  status: 'idle' | 'running' | 'completed' | 'error';
+  status: 'idle' | 'running' | 'paused' | 'completed' | 'budget_exhausted' | 'error';
   currentState?: DavAgentState;
   url: string;
   createdAt: Date;
+  budgetReason?: string; // Limit that ended the exploration when status is budget_exhausted
+  campaignId?: string; // Exploration campaign the session belongs to
+  persona?: string; // Persona the session explores as
   logs?: Array<{
     timestamp: string;
     level: 'INFO' | 'WARN' | 'ERROR';
@@ -45,7 +48,7 @@ export interface Session {
  */
 export class SessionService {
   private static sessions = new Map<string, Session>();
-  private static persistenceTools: Neo4jTools | null = null;
+  private static persistenceTools: GraphStore | null = null;
 
   /**
    * Initialize persistence connection (call once at startup)
@@ -56,7 +59,7 @@ export class SessionService {
     }
     
     const config = ConfigService.getConfig();
-    this.persistenceTools = new Neo4jTools(config.neo4jUri, config.neo4jUser, config.neo4jPassword);
+    this.persistenceTools = createGraphStore(config);
     
     // Ensure indexes exist
     this.persistenceTools.ensureIndexes().catch((error) => {
@@ -69,7 +72,7 @@ export class SessionService {
   /**
    * Get or create persistence tools
    */
-  static getPersistenceTools(): Neo4jTools {
+  static getPersistenceTools(): GraphStore {
     if (!this.persistenceTools) {
       this.initializePersistence();
     }
@@ -77,7 +80,7 @@ export class SessionService {
   }
 
   /**
-   * Load all sessions from Neo4j on startup
+   * Load all sessions from the graph store on startup
    * This restores session metadata from previous runs
    */
   static async loadSessionsFromPersistence(): Promise<void> {
@@ -85,13 +88,24 @@ export class SessionService {
       const tools = this.getPersistenceTools();
       const metadataList = await tools.loadAllSessionMetadata();
       
-      logger.info('SessionService', `Loaded ${metadataList.length} sessions from Neo4j`);
+      logger.info('SessionService', `Loaded ${metadataList.length} sessions from the graph store`);
       
       // Note: We only restore metadata, not runtime objects
       // Runtime sessions will be recreated when needed
       for (const metadata of metadataList) {
-        // Mark old running sessions as error (they can't be resumed)
         if (metadata.status === 'running') {
+          // Sessions with a checkpoint can be resumed - mark them as paused
+          const checkpoint = await tools.loadCheckpoint(metadata.sessionId);
+          if (checkpoint) {
+            metadata.status = 'paused';
+            await this.updateSessionMetadata(metadata.sessionId, {
+              status: 'paused',
+            });
+            logger.info('SessionService', `Session ${metadata.sessionId} was running when server restarted - paused at checkpoint from ${checkpoint.savedAt}`);
+            continue;
+          }
+
+          // Mark old running sessions without a checkpoint as error (they can't be resumed)
           metadata.status = 'error';
           metadata.error = 'Session was running when server restarted';
           await this.updateSessionMetadata(metadata.sessionId, {
@@ -101,7 +115,7 @@ export class SessionService {
         }
       }
     } catch (error) {
-      logger.error('SessionService', 'Failed to load sessions from Neo4j', {
+      logger.error('SessionService', 'Failed to load sessions from the graph store', {
         error: error instanceof Error ? error.message : String(error),
       });
       // Don't throw - allow service to continue without persistence
@@ -109,7 +123,7 @@ export class SessionService {
   }
 
   /**
-   * Save session metadata to Neo4j
+   * Save session metadata to the graph store
    */
   private static async saveSessionMetadata(session: Session): Promise<void> {
     try {
@@ -121,7 +135,10 @@ export class SessionService {
         createdAt: session.createdAt,
         updatedAt: new Date(),
         error: (session as any).error,
+        budgetReason: session.budgetReason,
         tokenUsage: session.tokenUsage,
+        campaignId: session.campaignId,
+        persona: session.persona,
       });
     } catch (error) {
       logger.error('SessionService', 'Failed to save session metadata', {
@@ -133,7 +150,7 @@ export class SessionService {
   }
 
   /**
-   * Update session metadata in Neo4j
+   * Update session metadata in the graph store
    */
   static async updateSessionMetadata(
     sessionId: string,
@@ -146,7 +163,7 @@ export class SessionService {
     try {
       const session = this.sessions.get(sessionId);
       if (!session) {
-        // Try to load from Neo4j and update
+        // Try to load from the graph store and update
         const tools = this.getPersistenceTools();
         const allMetadata = await tools.loadAllSessionMetadata();
         const metadata = allMetadata.find(m => m.sessionId === sessionId);
@@ -158,7 +175,10 @@ export class SessionService {
             createdAt: metadata.createdAt,
             updatedAt: new Date(),
             error: updates.error || metadata.error,
+            budgetReason: metadata.budgetReason,
             tokenUsage: updates.tokenUsage || metadata.tokenUsage,
+            campaignId: metadata.campaignId,
+            persona: metadata.persona,
           });
         }
         return;
@@ -182,12 +202,12 @@ export class SessionService {
     const sessionId = `session-${Date.now()}`;
 
     // Use AgentService to initialize and run exploration with sessionId
-    const { browserTools, neo4jTools, agent, runPromise } = await AgentService.runExploration(url, sessionId);
+    const { browserTools, graphStore, agent, runPromise } = await AgentService.runExploration(url, sessionId);
 
     return this.registerSession({
       sessionId,
       browserTools,
-      neo4jTools,
+      graphStore,
       agent,
       runPromise,
       url,
@@ -196,28 +216,35 @@ export class SessionService {
 
   /**
    * Register a session from an exploration result (e.g., from main() function)
+   * createdAt and tokenUsage are passed when re-registering a resumed session, campaignId and persona for campaign sessions
    */
   static registerSession(result: {
     sessionId?: string;
     browserTools: BrowserTools;
-    neo4jTools: Neo4jTools;
+    graphStore: GraphStore;
     agent: DavAgent;
     runPromise: Promise<DavAgentState>;
     url: string;
+    createdAt?: Date;
+    tokenUsage?: Session['tokenUsage'];
+    campaignId?: string;
+    persona?: string;
   }): Session {
     const sessionId = result.sessionId || `session-${Date.now()}`;
 
     const session: Session = {
       sessionId,
       browserTools: result.browserTools,
-      neo4jTools: result.neo4jTools,
+      graphStore: result.graphStore,
       agent: result.agent,
       runPromise: result.runPromise,
       status: 'running',
       url: result.url,
-      createdAt: new Date(),
+      createdAt: result.createdAt ?? new Date(),
+      campaignId: result.campaignId,
+      persona: result.persona,
       logs: [],
-      tokenUsage: {
+      tokenUsage: result.tokenUsage ?? {
         exploration: { inputTokens: 0, outputTokens: 0 },
         userStories: { inputTokens: 0, outputTokens: 0 },
         total: { inputTokens: 0, outputTokens: 0 },
@@ -231,7 +258,7 @@ export class SessionService {
         session.tokenUsage.exploration.outputTokens += outputTokens;
         session.tokenUsage.total.inputTokens += inputTokens;
         session.tokenUsage.total.outputTokens += outputTokens;
-        // Periodically update session metadata in Neo4j (every 10 token updates or so)
+        // Periodically update session metadata in the graph store (every 10 token updates or so)
         // We'll update on every call for now, but could debounce this
         this.updateSessionMetadata(session.sessionId, {
           tokenUsage: session.tokenUsage,
@@ -247,7 +274,14 @@ export class SessionService {
     // Handle completion/error
     result.runPromise
       .then(async (finalState: DavAgentState) => {
-        session.status = 'completed';
+        if (finalState.explorationStatus === 'PAUSED') {
+          session.status = 'paused';
+        } else if (finalState.explorationStatus === 'BUDGET_EXHAUSTED') {
+          session.status = 'budget_exhausted';
+          session.budgetReason = result.agent.getBudgetExhaustedReason() ?? undefined;
+        } else {
+          session.status = 'completed';
+        }
         session.currentState = finalState;
         // Note: Exploration completion and user story compilation decisions
         // are added in server.ts after the promise resolves
@@ -262,7 +296,7 @@ export class SessionService {
 
     this.sessions.set(sessionId, session);
     
-    // Save to Neo4j
+    // Save to the graph store
     this.saveSessionMetadata(session).catch((error) => {
       logger.error('SessionService', 'Failed to persist session on creation', {
         sessionId,
@@ -297,6 +331,9 @@ export class SessionService {
     hasState: boolean;
     createdAt: Date;
     tokenUsage?: Session['tokenUsage'];
+    budgetReason?: string;
+    campaignId?: string;
+    persona?: string;
   } | undefined {
     const session = this.sessions.get(sessionId);
     if (!session) return undefined;
@@ -308,12 +345,15 @@ export class SessionService {
       hasState: !!session.currentState,
       createdAt: session.createdAt,
       tokenUsage: session.tokenUsage,
+      budgetReason: session.budgetReason,
+      campaignId: session.campaignId,
+      persona: session.persona,
     };
   }
 
   /**
    * Get all session summaries
-   * Combines in-memory sessions with persisted sessions from Neo4j
+   * Combines in-memory sessions with persisted sessions from the graph store
    */
   static async getAllSessionSummaries(): Promise<Array<{
     sessionId: string;
@@ -322,6 +362,9 @@ export class SessionService {
     hasState: boolean;
     createdAt: Date;
     tokenUsage?: Session['tokenUsage'];
+    budgetReason?: string;
+    campaignId?: string;
+    persona?: string;
     graphCounts?: { nodes: number; edges: number };
   }>> {
     // Get in-memory sessions
@@ -332,9 +375,12 @@ export class SessionService {
       hasState: !!session.currentState,
       createdAt: session.createdAt,
       tokenUsage: session.tokenUsage,
+      budgetReason: session.budgetReason,
+      campaignId: session.campaignId,
+      persona: session.persona,
     }));
 
-    // Get persisted sessions from Neo4j
+    // Get persisted sessions from the graph store
     try {
       const tools = this.getPersistenceTools();
       const persistedMetadata = await tools.loadAllSessionMetadata();
@@ -350,6 +396,9 @@ export class SessionService {
         hasState: boolean;
         createdAt: Date;
         tokenUsage?: Session['tokenUsage'];
+        budgetReason?: string;
+        campaignId?: string;
+        persona?: string;
         graphCounts?: { nodes: number; edges: number };
       }> = persistedMetadata.map((metadata) => {
         const inMemory = inMemoryMap.get(metadata.sessionId);
@@ -365,6 +414,9 @@ export class SessionService {
           hasState: false, // Can't have state if not in memory
           createdAt: metadata.createdAt,
           tokenUsage: metadata.tokenUsage,
+          budgetReason: metadata.budgetReason,
+          campaignId: metadata.campaignId,
+          persona: metadata.persona,
         };
       });
       
@@ -406,13 +458,114 @@ export class SessionService {
     }
   }
 
+  /**
+   * Get the cookies and local storage of a session, e.g. to start later explorations or replays logged in
+   * Read from the session's browser while it is open, otherwise from its latest checkpoint (null if neither exists)
+   */
+  static async getStorageState(sessionId: string): Promise<BrowserStorageState | null> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      try {
+        return await session.browserTools.getStorageState();
+      } catch (error) {
+        // The browser was closed (paused, or recording saved) - fall back to the checkpoint
+        logger.info('SessionService', `Browser of session ${sessionId} is closed - reading storage state from its checkpoint`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    const checkpoint = await this.getPersistenceTools().loadCheckpoint(sessionId);
+    return checkpoint?.storageState ?? null;
+  }
+
+  /**
+   * Pause a running session
+   * Waits for the agent to finish its current step and checkpoint, then releases the browser
+   */
+  static async pauseSession(sessionId: string): Promise<Session> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (session.status !== 'running') {
+      throw new Error(`Session ${sessionId} is not running (status: ${session.status})`);
+    }
+
+    session.agent.requestPause();
+    const finalState = await session.runPromise;
+    if (finalState.explorationStatus !== 'PAUSED') {
+      // The run ended on its own before the pause took effect
+      return session;
+    }
+
+    // Status and metadata were updated by the run promise handler registered in registerSession
+    try {
+      await session.browserTools.close();
+    } catch (error) {
+      logger.error('SessionService', 'Failed to close browser of paused session', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return session;
+  }
+
+  /**
+   * Resume a paused session from its latest checkpoint
+   * Rebuilds the agent and browser, keeping the session's graph, creation time and token usage
+   */
+  static async resumeSession(
+    sessionId: string,
+    credentials?: { username?: string; password?: string }
+  ): Promise<Session> {
+    const existing = this.sessions.get(sessionId);
+    if (existing && existing.status === 'running') {
+      throw new Error(`Session ${sessionId} is already running`);
+    }
+
+    const tools = this.getPersistenceTools();
+    const metadata = await tools.loadSessionMetadata(sessionId);
+    if (!metadata) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    const status = existing?.status ?? metadata.status;
+    if (status !== 'paused') {
+      throw new Error(`Session ${sessionId} is not paused (status: ${status})`);
+    }
+
+    const checkpoint = await tools.loadCheckpoint(sessionId);
+    if (!checkpoint) {
+      throw new Error(`Session ${sessionId} has no checkpoint to resume from`);
+    }
+
+    if (existing) {
+      // Release the runtime objects of the paused run before replacing them
+      await existing.graphStore.close().catch(() => undefined);
+    }
+
+    const { browserTools, graphStore, agent, runPromise } = await AgentService.resumeExploration(sessionId, checkpoint, credentials);
+
+    return this.registerSession({
+      sessionId,
+      browserTools,
+      graphStore,
+      agent,
+      runPromise,
+      url: metadata.url,
+      createdAt: existing?.createdAt ?? metadata.createdAt,
+      tokenUsage: existing?.tokenUsage ?? metadata.tokenUsage,
+      campaignId: metadata.campaignId,
+      persona: metadata.persona,
+    });
+  }
+
   /**
    * Stop and cleanup a session
    */
   static async stopSession(sessionId: string): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) {
-      // Try to delete from Neo4j even if not in memory
+      // Try to delete from the graph store even if not in memory
       try {
         const tools = this.getPersistenceTools();
         await tools.deleteSessionMetadata(sessionId);
@@ -424,15 +577,15 @@ export class SessionService {
 
     try {
       await session.browserTools.close();
-      await session.neo4jTools.close();
+      await session.graphStore.close();
       this.sessions.delete(sessionId);
       
-      // Delete from Neo4j
+      // Delete from the graph store
       try {
         const tools = this.getPersistenceTools();
         await tools.deleteSessionMetadata(sessionId);
       } catch (error) {
-        logger.error('SessionService', 'Failed to delete session from Neo4j', {
+        logger.error('SessionService', 'Failed to delete session from the graph store', {
           sessionId,
           error: error instanceof Error ? error.message : String(error),
         });
@@ -451,7 +604,7 @@ export class SessionService {
     const cleanupPromises = Array.from(this.sessions.values()).map(async (session) => {
       try {
         await session.browserTools.close();
-        await session.neo4jTools.close();
+        await session.graphStore.close();
       } catch (error) {
         // Log but don't throw - continue cleanup
         logger.error('Session', `Error cleaning up session ${session.sessionId}`, { error: error instanceof Error ? error.message : String(error) });
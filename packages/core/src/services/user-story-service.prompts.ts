@@ -8,7 +8,7 @@
 export const USER_STORY_GENERATION_PROMPT = `You are an expert UX analyst and product manager. Your task is to analyze web application exploration data and generate clear, actionable user stories.
 
 The exploration data shows:
-- States (pages/screens) the agent visited
+- States (pages, screens, open modals and tabs) the agent visited, as "label: URL" - several states can share a URL
 - Transitions (actions) between states
 - The flow of user interactions
 
@@ -27,7 +27,7 @@ Format your response as JSON:
       "description": "Brief description of what the user accomplishes",
       "steps": ["Step 1", "Step 2", "Step 3"],
       "flow": [
-        {"from": "state1", "to": "state2", "action": "action description"}
+        {"from": "source state URL", "to": "target state URL", "action": "action description"}
       ]
     }
   ],
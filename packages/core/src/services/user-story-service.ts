@@ -1,4 +1,4 @@
-import { GraphService } from './graph-service.js';
+import { GraphService, type GraphData } from './graph-service.js';
 import { ConfigService } from './config-service.js';
 import { ChatOpenAI } from '@langchain/openai';
 import { ChatAnthropic } from '@langchain/anthropic';
@@ -125,10 +125,10 @@ Generate comprehensive user stories based on this exploration data.`;
               {
                 title: 'Exploration Flow',
                 description: 'User flow discovered during exploration',
-                steps: graphData.edges.map((e) => `${e.label}: ${e.source} → ${e.target}`),
+                steps: graphData.edges.map((e) => `${e.label}: ${e.sourceUrl} → ${e.targetUrl}`),
                 flow: graphData.edges.map((e) => ({
-                  from: e.source,
-                  to: e.target,
+                  from: e.sourceUrl,
+                  to: e.targetUrl,
                   action: e.label,
                 })),
               },
@@ -159,9 +159,16 @@ Generate comprehensive user stories based on this exploration data.`;
   /**
    * Format graph data into a readable description for LLM
    */
-  private formatGraphForLLM(graphData: { nodes: Array<{ id: string; label: string; url: string }>; edges: Array<{ source: string; target: string; label: string }> }): string {
-    const nodes = graphData.nodes.map((n) => `- ${n.url}`).join('\n');
-    const edges = graphData.edges.map((e) => `- ${e.source} → ${e.target} (via: ${e.label})`).join('\n');
+  private formatGraphForLLM(graphData: GraphData): string {
+    // States on the same URL (e.g. a page with and without an open modal) are told apart by their label
+    const labels = new Map(graphData.nodes.map((n) => [n.id, n.label]));
+    // Records of a route share their states; the route template tells the LLM the URL stands for any record
+    const nodes = graphData.nodes
+      .map((n) => `- ${n.label}: ${n.url}${n.urlTemplate && n.urlTemplate !== n.url ? ` (route: ${n.urlTemplate})` : ''}`)
+      .join('\n');
+    const edges = graphData.edges
+      .map((e) => `- ${e.sourceUrl} [${labels.get(e.source) ?? ''}] → ${e.targetUrl} [${labels.get(e.target) ?? ''}] (via: ${e.label})`)
+      .join('\n');
 
     return `States (${graphData.nodes.length}):
 ${nodes}
@@ -0,0 +1,59 @@
+import { createGraphStore } from '../utils/graph-store.js';
+import type { FormValidation, ValidationRuleKind } from '../types/state.js';
+import { ConfigService } from './config-service.js';
+
+export type { FormValidation } from '../types/state.js';
+
+// Order rules are listed in per field - the ones every field has first
+const RULE_ORDER: ValidationRuleKind[] = ['required', 'format', 'pattern', 'minLength', 'maxLength', 'min', 'max'];
+
+/**
+ * ValidationReport - The forms of a session with what their fields rejected during validation probing
+ */
+export interface ValidationReport {
+  forms: FormValidation[];
+  summary: {
+    forms: number;
+    fields: number;
+    probes: number; // Probed field constraints
+    rejected: number; // Probes the application refused
+    accepted: number; // Invalid values the application let through
+  };
+}
+
+/**
+ * ValidationService - Serves the form fields and validation rules found by probing forms with invalid values
+ */
+export class ValidationService {
+  /**
+   * Get the validation report of a session, rules of each field in a fixed order
+   */
+  static async getReport(sessionId: string): Promise<ValidationReport> {
+    const graphStore = createGraphStore(ConfigService.getConfig());
+
+    try {
+      const forms = (await graphStore.queryValidationRules(sessionId)).map((form) => ({
+        ...form,
+        fields: form.fields.map((field) => ({
+          ...field,
+          rules: [...field.rules].sort((a, b) => RULE_ORDER.indexOf(a.rule) - RULE_ORDER.indexOf(b.rule)),
+        })),
+      }));
+      const rules = forms.flatMap((form) => form.fields.flatMap((field) => field.rules));
+      const rejected = rules.filter((rule) => rule.rejected).length;
+
+      return {
+        forms,
+        summary: {
+          forms: forms.length,
+          fields: forms.reduce((total, form) => total + form.fields.length, 0),
+          probes: rules.length,
+          rejected,
+          accepted: rules.length - rejected,
+        },
+      };
+    } finally {
+      await graphStore.close();
+    }
+  }
+}
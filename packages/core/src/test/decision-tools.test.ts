@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { ToolCall } from '@langchain/core/messages/tool';
+import { parseDecisionToolCalls } from '../agent/helpers/decision-tools.js';
+import { SimplifiedElement } from '../types/state.js';
+
+const ELEMENTS: SimplifiedElement[] = [
+  { index: 0, locator: { xpath: '/html/body/input[1]' }, tag: 'INPUT', type: 'email', text: '', selector: '#email' },
+  { index: 1, locator: { xpath: '/html/body/select[1]' }, tag: 'SELECT', text: 'Role', selector: '#role' },
+  { index: 2, locator: { xpath: '/html/body/button[1]' }, tag: 'BUTTON', text: 'Save', selector: '#save' },
+];
+
+function call(name: string, args: Record<string, unknown>): ToolCall {
+  return { name, args, id: `call_${name}` };
+}
+
+function parse(toolCalls: ToolCall[] | undefined) {
+  return parseDecisionToolCalls(toolCalls, (index) => ELEMENTS.find((element) => element.index === index));
+}
+
+describe('parseDecisionToolCalls', () => {
+  it('converts tool calls to pending actions in order', () => {
+    const decision = parse([
+      call('typeText', { elementIndex: 0, text: 'jane@example.com' }),
+      call('selectOption', { elementIndex: 1, value: 'admin' }),
+      call('clickElement', { elementIndex: 2 }),
+    ]);
+
+    expect(decision).toEqual({
+      kind: 'actions',
+      actions: [
+        { tool: 'typeText', selector: '#email', elementIndex: 0, locator: ELEMENTS[0].locator, text: 'jane@example.com' },
+        { tool: 'selectOption', selector: '#role', elementIndex: 1, locator: ELEMENTS[1].locator, value: 'admin' },
+        { tool: 'clickElement', selector: '#save', elementIndex: 2, locator: ELEMENTS[2].locator },
+      ],
+    });
+  });
+
+  it('returns the finish reason of a lone finishFlow call', () => {
+    expect(parse([call('finishFlow', { reason: 'Confirmation page' })])).toEqual({ kind: 'finish', reason: 'Confirmation page' });
+    expect(parse([call('finishFlow', {})])).toEqual({ kind: 'finish', reason: undefined });
+  });
+
+  it('rejects finishFlow combined with other tools', () => {
+    const decision = parse([call('clickElement', { elementIndex: 2 }), call('finishFlow', { reason: 'Done' })]);
+
+    expect(decision).toEqual({ kind: 'invalid', errors: ['finishFlow must be the only tool call in a response.'] });
+  });
+
+  it('rejects responses without tool calls', () => {
+    expect(parse(undefined).kind).toBe('invalid');
+    expect(parse([]).kind).toBe('invalid');
+  });
+
+  it('reports every invalid call with its position', () => {
+    const decision = parse([
+      call('clickElement', { elementIndex: 7 }),
+      call('typeText', { elementIndex: 0, text: '' }),
+      call('clickElement', { elementIndex: -1 }),
+      call('scrollPage', {}),
+    ]);
+
+    expect(decision.kind).toBe('invalid');
+    const errors = decision.kind === 'invalid' ? decision.errors : [];
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toBe('Tool call 1 (clickElement): element [7] does not exist on this page');
+    expect(errors[1]).toMatch(/^Tool call 2 \(typeText\): text /);
+    expect(errors[2]).toMatch(/^Tool call 3 \(clickElement\): elementIndex /);
+    expect(errors[3]).toBe('Tool call 4 (scrollPage): unknown tool. Available tools: clickElement, typeText, selectOption, finishFlow');
+  });
+
+  it('discards the valid calls of a response with an invalid one', () => {
+    const decision = parse([call('clickElement', { elementIndex: 2 }), call('clickElement', { elementIndex: 9 })]);
+
+    expect(decision).toEqual({ kind: 'invalid', errors: ['Tool call 2 (clickElement): element [9] does not exist on this page'] });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createExecuteStage } from '../agent/stages/execute-stage.js';
+import { createBacktrackStage } from '../agent/stages/backtrack-stage.js';
+import { StageContext } from '../agent/stages/stage-context.js';
+import { ExplorationFrontier } from '../agent/helpers/exploration-frontier.js';
+import { ExplorationBudget } from '../agent/helpers/exploration-budget.js';
+import { DavAgentState, PendingAction, SimplifiedElement } from '../types/state.js';
+
+const ENTRY_URL = 'https://app.example.com/';
+
+function link(index: number, text: string): SimplifiedElement {
+  return { index, locator: { xpath: `/html/body/a[${index}]` }, tag: 'A', text, selector: `#${text.toLowerCase()}` };
+}
+
+function click(target: SimplifiedElement): PendingAction {
+  return { tool: 'clickElement', selector: target.selector, elementIndex: target.index, locator: target.locator };
+}
+
+function createContext(frontier: ExplorationFrontier, clickElement: (selector: string) => Promise<void>) {
+  let currentUrl = `${ENTRY_URL}users`;
+  const browserTools = {
+    captureScreenshots: vi.fn(async () => []),
+    takePageProblems: vi.fn(() => []),
+    startNetworkCapture: vi.fn(),
+    stopNetworkCapture: vi.fn(async () => []),
+    getDomHash: vi.fn(async () => 'dom'),
+    waitForNetworkIdle: vi.fn(async () => {}),
+    clickElement: vi.fn(clickElement),
+    navigate: vi.fn(async (url: string) => {
+      currentUrl = url;
+    }),
+    observe: vi.fn(async () => ({ currentUrl, stateKey: currentUrl === ENTRY_URL ? 'home' : 'users' })),
+    getCurrentUrl: vi.fn(() => currentUrl),
+  };
+  const context = {
+    browserTools,
+    sessionId: 'session-1',
+    entryUrl: ENTRY_URL,
+    frontier,
+    explorationStrategy: 'dfs',
+    budget: new ExplorationBudget(),
+    executedTransitions: new Set<string>(),
+  } as unknown as StageContext;
+  return { context, browserTools };
+}
+
+function stateWith(pendingActions: PendingAction[]): DavAgentState {
+  return {
+    currentUrl: `${ENTRY_URL}users`,
+    currentStateKey: 'users',
+    domState: '',
+    actionHistory: [],
+    graphWrites: [],
+    explorationStatus: 'CONTINUE',
+    pendingAction: null,
+    pendingActions,
+    visitedStateKeys: ['home', 'users'],
+    pendingProbe: null,
+    heldBack: false,
+  };
+}
+
+describe('execute stage', () => {
+  // Regression: one failing action ended the whole exploration with FAILURE, leaving the frontier unexplored
+  it('ends only the branch when an action fails, so exploration continues from the frontier', async () => {
+    const frontier = new ExplorationFrontier();
+    const users = link(1, 'Users');
+    const settings = link(2, 'Settings');
+    const exportLink = link(3, 'Export');
+    frontier.recordState('home', ENTRY_URL, [users, settings]);
+    frontier.recordTransition([click(users)]);
+    frontier.recordState('users', `${ENTRY_URL}users`, [exportLink]);
+
+    const { context, browserTools } = createContext(frontier, async () => {
+      throw new Error('No unique element matches the locator of #export');
+    });
+
+    const update = await createExecuteStage(context)(stateWith([click(exportLink)]));
+    expect(update.explorationStatus).toBe('FLOW_END');
+    expect(update.actionHistory?.[0]).toContain('No unique element matches the locator of #export');
+    expect(browserTools.stopNetworkCapture).toHaveBeenCalled();
+
+    // The failed element is not offered again; the next frontier state is
+    expect(frontier.hasUntried('users')).toBe(false);
+    expect(frontier.hasPendingStates()).toBe(true);
+
+    const backtrack = await createBacktrackStage(context)({ ...stateWith([]), explorationStatus: 'FLOW_END' });
+    expect(backtrack.explorationStatus).toBe('CONTINUE');
+    expect(backtrack.currentUrl).toBe(ENTRY_URL);
+    expect(frontier.getCurrentState()?.stateKey).toBe('home');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExplorationBudget } from '../agent/helpers/exploration-budget.js';
+
+describe('ExplorationBudget', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stays within budget without limits', () => {
+    const budget = new ExplorationBudget();
+    budget.recordAction();
+    budget.recordTokens(100000, 50000);
+    vi.advanceTimersByTime(3600000);
+
+    expect(budget.getExhaustedReason(500)).toBeNull();
+  });
+
+  it('reports the action limit once it is reached', () => {
+    const budget = new ExplorationBudget({ maxActions: 2 });
+    budget.recordAction();
+    expect(budget.getExhaustedReason(0)).toBeNull();
+
+    budget.recordAction();
+    expect(budget.getExhaustedReason(0)).toBe('Max actions reached (2/2)');
+  });
+
+  it('reports the token limits', () => {
+    const input = new ExplorationBudget({ maxInputTokens: 1000 });
+    input.recordTokens(600, 10);
+    input.recordTokens(400, 10);
+    expect(input.getExhaustedReason(0)).toBe('Max LLM input tokens reached (1000/1000)');
+
+    const output = new ExplorationBudget({ maxOutputTokens: 50 });
+    output.recordTokens(10, 60);
+    expect(output.getExhaustedReason(0)).toBe('Max LLM output tokens reached (60/50)');
+  });
+
+  it('reports the state limit from the given state count', () => {
+    const budget = new ExplorationBudget({ maxStates: 10 });
+
+    expect(budget.getExhaustedReason(9)).toBeNull();
+    expect(budget.getExhaustedReason(10)).toBe('Max distinct states reached (10/10)');
+  });
+
+  it('reports the duration limit from the time since the start', () => {
+    const budget = new ExplorationBudget({ maxDurationMs: 60000 });
+    vi.advanceTimersByTime(30000);
+    budget.start();
+    vi.advanceTimersByTime(59000);
+    expect(budget.getExhaustedReason(0)).toBeNull();
+
+    vi.advanceTimersByTime(1000);
+    expect(budget.getExhaustedReason(0)).toBe('Max duration reached (60s/60s)');
+  });
+
+  it('reports the first limit reached in a fixed order', () => {
+    const budget = new ExplorationBudget({ maxActions: 1, maxStates: 1 });
+    budget.recordAction();
+
+    expect(budget.getExhaustedReason(1)).toBe('Max actions reached (1/1)');
+  });
+
+  it('continues from the usage of a previous run, pause time excluded', () => {
+    const previous = new ExplorationBudget({ maxActions: 5, maxDurationMs: 60000 });
+    previous.recordAction();
+    previous.recordAction();
+    previous.recordTokens(300, 20);
+    vi.advanceTimersByTime(40000);
+    const usage = previous.getUsage();
+    expect(usage).toEqual({ actions: 2, inputTokens: 300, outputTokens: 20, elapsedMs: 40000 });
+
+    // Paused for an hour
+    vi.advanceTimersByTime(3600000);
+    const resumed = new ExplorationBudget();
+    resumed.restore(previous.getLimits(), usage);
+    expect(resumed.getExhaustedReason(0)).toBeNull();
+
+    vi.advanceTimersByTime(20000);
+    expect(resumed.getUsage().elapsedMs).toBe(60000);
+    expect(resumed.getExhaustedReason(0)).toBe('Max duration reached (60s/60s)');
+  });
+});
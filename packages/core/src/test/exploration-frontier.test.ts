@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import { ExplorationFrontier, isBranchElement } from '../agent/helpers/exploration-frontier.js';
+import { DeferredBatch, PendingAction, SimplifiedElement } from '../types/state.js';
+
+function element(index: number, text: string, overrides: Partial<SimplifiedElement> = {}): SimplifiedElement {
+  return {
+    index,
+    locator: { xpath: `/html/body/*[${index}]` },
+    tag: 'BUTTON',
+    text,
+    selector: `#${text.toLowerCase().replace(/\s+/g, '-')}`,
+    ...overrides,
+  };
+}
+
+function click(target: SimplifiedElement): PendingAction {
+  return { tool: 'clickElement', selector: target.selector, elementIndex: target.index };
+}
+
+function logoutBatch(): DeferredBatch {
+  const logout = element(9, 'Log out');
+  return { actions: [click(logout)], safety: 'logout', description: 'Click "Log out"' };
+}
+
+describe('isBranchElement', () => {
+  it('accepts links, buttons and submit inputs', () => {
+    expect(isBranchElement(element(0, 'Home', { tag: 'A' }))).toBe(true);
+    expect(isBranchElement(element(1, 'Save'))).toBe(true);
+    expect(isBranchElement(element(2, 'Send', { tag: 'INPUT', type: 'submit' }))).toBe(true);
+    expect(isBranchElement(element(3, 'Settings', { tag: 'DIV', role: 'tab' }))).toBe(true);
+  });
+
+  it('rejects form fields and disabled elements', () => {
+    expect(isBranchElement(element(0, 'Name', { tag: 'INPUT', type: 'text' }))).toBe(false);
+    expect(isBranchElement(element(1, 'Save', { isDisabled: true }))).toBe(false);
+  });
+});
+
+describe('ExplorationFrontier', () => {
+  describe('recordState', () => {
+    it('keeps deduplicated branch candidates with logout controls last', () => {
+      const frontier = new ExplorationFrontier();
+      const { isNew, state } = frontier.recordState('home', '/', [
+        element(0, 'Log out'),
+        element(1, 'Users', { tag: 'A' }),
+        element(2, 'Users', { tag: 'A', selector: '#all-users' }),
+        element(3, 'Users', { tag: 'A', selector: '#all-users' }),
+        element(4, 'Name', { tag: 'INPUT', type: 'text' }),
+      ]);
+
+      expect(isNew).toBe(true);
+      expect(state.untried.map((candidate) => candidate.index)).toEqual([1, 2, 0]);
+    });
+
+    it('returns known states without resetting their candidates', () => {
+      const frontier = new ExplorationFrontier();
+      const users = element(1, 'Users', { tag: 'A' });
+      frontier.recordState('home', '/', [users, element(2, 'Settings', { tag: 'A' })]);
+      frontier.markTried([click(users)]);
+
+      const { isNew, state } = frontier.recordState('home', '/', [users]);
+      expect(isNew).toBe(false);
+      expect(state.untried.map((candidate) => candidate.text)).toEqual(['Settings']);
+    });
+  });
+
+  describe('transitions', () => {
+    it('extends the path of states discovered from the current one', () => {
+      const frontier = new ExplorationFrontier();
+      const users = element(1, 'Users', { tag: 'A' });
+      frontier.recordState('home', '/', [users]);
+      frontier.recordTransition([click(users)]);
+
+      const { state } = frontier.recordState('users', '/users', []);
+      expect(state.depth).toBe(1);
+      expect(state.path).toEqual([{ fromStateKey: 'home', actions: [click(users)] }]);
+      expect(frontier.hasUntried('home')).toBe(false);
+    });
+
+    it('keeps the elements of a batch offered again untried', () => {
+      const frontier = new ExplorationFrontier();
+      const submit = element(1, 'Create');
+      frontier.recordState('form', '/users/new', [submit]);
+      frontier.recordTransition([click(submit)], true);
+
+      expect(frontier.hasUntried('form')).toBe(true);
+    });
+  });
+
+  describe('selectNext', () => {
+    function buildTree(): ExplorationFrontier {
+      // home -> a -> a1, home -> b; every state keeps one untried element
+      const frontier = new ExplorationFrontier();
+      const toA = element(1, 'A', { tag: 'A' });
+      const toA1 = element(2, 'A1', { tag: 'A' });
+      frontier.recordState('home', '/', [toA, element(3, 'B', { tag: 'A' }), element(4, 'Home extra')]);
+      frontier.recordTransition([click(toA)]);
+      frontier.recordState('a', '/a', [toA1, element(5, 'A extra')]);
+      frontier.recordTransition([click(toA1)]);
+      frontier.recordState('a1', '/a/1', [element(6, 'A1 extra')]);
+      return frontier;
+    }
+
+    it('picks the most recently discovered state with DFS', () => {
+      expect(buildTree().selectNext('dfs')?.stateKey).toBe('a1');
+    });
+
+    it('picks the shallowest, earliest discovered state with BFS', () => {
+      expect(buildTree().selectNext('bfs')?.stateKey).toBe('home');
+    });
+
+    it('falls back to DFS for the llm strategy', () => {
+      expect(buildTree().selectNext('llm')?.stateKey).toBe('a1');
+    });
+
+    it('skips exhausted states and returns null once nothing is left', () => {
+      const frontier = buildTree();
+      frontier.markExhausted('a1');
+      expect(frontier.selectNext('dfs')?.stateKey).toBe('a');
+
+      frontier.markExhausted('a');
+      frontier.markExhausted('home');
+      expect(frontier.selectNext('dfs')).toBeNull();
+      expect(frontier.hasPendingStates()).toBe(false);
+    });
+  });
+
+  describe('deferred batches', () => {
+    it('defers a batch only once per state', () => {
+      const frontier = new ExplorationFrontier();
+      frontier.recordState('home', '/', []);
+
+      expect(frontier.deferBatch(logoutBatch())).toBe(true);
+      expect(frontier.deferBatch(logoutBatch())).toBe(false);
+      expect(frontier.getCurrentState()?.deferred).toHaveLength(1);
+    });
+
+    it('keeps a finished state a candidate until its deferred batches ran', () => {
+      const frontier = new ExplorationFrontier();
+      frontier.recordState('home', '/', [element(1, 'Users', { tag: 'A' })]);
+      frontier.deferBatch(logoutBatch());
+      frontier.finishBranch();
+
+      expect(frontier.hasUntried('home')).toBe(false);
+      expect(frontier.selectNext('dfs')?.stateKey).toBe('home');
+
+      expect(frontier.takeDeferred('home')?.description).toBe('Click "Log out"');
+      expect(frontier.hasPendingStates()).toBe(false);
+    });
+
+    it('exhausts a finished state without deferred batches', () => {
+      const frontier = new ExplorationFrontier();
+      frontier.recordState('home', '/', [element(1, 'Users', { tag: 'A' })]);
+      frontier.finishBranch();
+
+      expect(frontier.getCurrentState()?.exhausted).toBe(true);
+      expect(frontier.hasPendingStates()).toBe(false);
+    });
+
+    it('only hands out deferred batches of the state the browser is on', () => {
+      const frontier = new ExplorationFrontier();
+      frontier.recordState('home', '/', []);
+      frontier.deferBatch(logoutBatch());
+
+      expect(frontier.takeDeferred('users')).toBeUndefined();
+      expect(frontier.getCurrentState()?.deferred).toHaveLength(1);
+    });
+
+    it('returns the deferred batches it drops when a state is marked exhausted', () => {
+      const frontier = new ExplorationFrontier();
+      frontier.recordState('home', '/', [element(1, 'Users', { tag: 'A' })]);
+      frontier.deferBatch(logoutBatch());
+
+      const dropped = frontier.markExhausted('home');
+      expect(dropped.map((batch) => batch.description)).toEqual(['Click "Log out"']);
+      expect(frontier.getCurrentState()?.deferred).toEqual([]);
+      expect(frontier.markExhausted('home')).toEqual([]);
+    });
+
+    // Regression: an unreachable state with deferred batches stayed a candidate after being marked exhausted,
+    // so the agent backtracked to it forever
+    it('stops offering an unreachable state that has deferred batches', () => {
+      const frontier = new ExplorationFrontier();
+      frontier.recordState('home', '/', []);
+      frontier.deferBatch(logoutBatch());
+
+      const target = frontier.selectNext('dfs');
+      expect(target?.stateKey).toBe('home');
+      frontier.markExhausted(target!.stateKey);
+
+      expect(frontier.selectNext('dfs')).toBeNull();
+      expect(frontier.hasPendingStates()).toBe(false);
+    });
+  });
+
+  it('counts backtracks per state', () => {
+    const frontier = new ExplorationFrontier();
+    frontier.recordState('home', '/', []);
+
+    expect(frontier.recordBacktrack('home')).toBe(1);
+    expect(frontier.recordBacktrack('home')).toBe(2);
+    expect(frontier.recordBacktrack('unknown')).toBe(0);
+  });
+
+  it('restores the snapshot it serialized', () => {
+    const frontier = new ExplorationFrontier();
+    const users = element(1, 'Users', { tag: 'A' });
+    frontier.recordState('home', '/', [users, element(2, 'Settings', { tag: 'A' })]);
+    frontier.deferBatch(logoutBatch());
+    frontier.recordTransition([click(users)]);
+    frontier.recordState('users', '/users', []);
+
+    const restored = new ExplorationFrontier();
+    restored.restore(JSON.parse(JSON.stringify(frontier.toSnapshot())));
+
+    expect(restored.toSnapshot()).toEqual(frontier.toSnapshot());
+    expect(restored.getCurrentState()?.stateKey).toBe('users');
+    expect(restored.selectNext('dfs')?.stateKey).toBe('home');
+  });
+});
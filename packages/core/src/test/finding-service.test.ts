@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { FindingService } from '../services/finding-service.js';
+import { ConfigService } from '../services/config-service.js';
+import { createGraphStore } from '../utils/graph-store.js';
+import { GraphWrite, UpsertFinding } from '../types/state.js';
+
+// No session is running - the entry URL comes from the stored session metadata
+vi.mock('../services/session-service.js', () => ({ SessionService: { getSession: () => undefined } }));
+
+const ENTRY_URL = 'https://app.example.com/';
+
+function state(sessionId: string, stateKey: string, path: string = stateKey): GraphWrite {
+  const url = `${ENTRY_URL}${path}`;
+  return { kind: 'upsertState', stateKey, url, urlTemplate: url, label: stateKey, fingerprint: `fp-${stateKey}`, sessionId };
+}
+
+function transition(sessionId: string, from: string, to: string): GraphWrite {
+  return { kind: 'upsertTransition', fromStateKey: from, toStateKey: to, action: `clickElement on #${to}`, selector: `#${to}`, sessionId };
+}
+
+function finding(sessionId: string, stateKey: string, action?: string, url: string = `${ENTRY_URL}${stateKey}`): UpsertFinding {
+  return {
+    kind: 'upsertFinding',
+    findingKey: `${stateKey}-${action ?? 'load'}`,
+    type: 'console_error',
+    severity: 'error',
+    message: `Error on ${stateKey}`,
+    stateKey,
+    action,
+    actionPath: [],
+    url,
+    sessionId,
+  };
+}
+
+// Sessions with the entry state "home", a shortcut home → settings and a longer way round through users
+async function createSession(sessionId: string, findings: UpsertFinding[], entryUrl: string | null = ENTRY_URL): Promise<void> {
+  const graphStore = createGraphStore(ConfigService.getConfig());
+  await graphStore.applyWrites([
+    state(sessionId, 'home', ''),
+    state(sessionId, 'users'),
+    state(sessionId, 'user-detail'),
+    state(sessionId, 'settings'),
+    state(sessionId, 'orphan'),
+    transition(sessionId, 'home', 'users'),
+    transition(sessionId, 'users', 'user-detail'),
+    transition(sessionId, 'user-detail', 'settings'),
+    transition(sessionId, 'home', 'settings'),
+    ...findings,
+  ]);
+  if (entryUrl) {
+    await graphStore.saveSessionMetadata({ sessionId, status: 'completed', url: entryUrl, createdAt: new Date() });
+  }
+}
+
+async function getReproPath(sessionId: string, findingKey: string) {
+  const findings = await FindingService.getFindings(sessionId);
+  return findings.find((candidate) => candidate.findingKey === findingKey)?.reproPath;
+}
+
+describe('FindingService', () => {
+  beforeAll(() => {
+    process.env.GRAPH_STORE = 'memory';
+  });
+
+  it('takes the shortest path from the entry state, followed by the action that caused the finding', async () => {
+    await createSession('shortest', [finding('shortest', 'settings', 'clickElement on #save')]);
+
+    expect(await getReproPath('shortest', 'settings-clickElement on #save')).toEqual([
+      { from: ENTRY_URL, to: `${ENTRY_URL}settings`, action: 'clickElement on #settings' },
+      { from: `${ENTRY_URL}settings`, to: `${ENTRY_URL}settings`, action: 'clickElement on #save' },
+    ]);
+  });
+
+  it('ends with the transition of the causing action when the graph has one', async () => {
+    await createSession('transition', [finding('transition', 'users', 'clickElement on #user-detail', `${ENTRY_URL}user-detail`)]);
+
+    expect(await getReproPath('transition', 'users-clickElement on #user-detail')).toEqual([
+      { from: ENTRY_URL, to: `${ENTRY_URL}users`, action: 'clickElement on #users' },
+      { from: `${ENTRY_URL}users`, to: `${ENTRY_URL}user-detail`, action: 'clickElement on #user-detail' },
+    ]);
+  });
+
+  it('ends with the external page for findings of actions that led out of scope', async () => {
+    await createSession('external', [finding('external', 'users', 'clickElement on #docs', 'https://docs.example.org/')]);
+    await createGraphStore(ConfigService.getConfig()).applyWrites([
+      { kind: 'upsertExternal', url: 'https://docs.example.org/', sessionId: 'external' },
+      { kind: 'upsertExternalTransition', fromStateKey: 'users', externalUrl: 'https://docs.example.org/', action: 'clickElement on #docs', sessionId: 'external' },
+    ]);
+
+    expect((await getReproPath('external', 'users-clickElement on #docs'))?.at(-1)).toEqual(
+      { from: `${ENTRY_URL}users`, to: 'https://docs.example.org/', action: 'clickElement on #docs' }
+    );
+  });
+
+  it('returns an empty path for findings raised when the entry page loads', async () => {
+    await createSession('entry', [finding('entry', 'home', undefined, ENTRY_URL)]);
+
+    expect(await getReproPath('entry', 'home-load')).toEqual([]);
+    await expect(FindingService.buildReproStory('entry', 'home-load')).rejects.toThrow('there are no actions to replay');
+  });
+
+  it('returns no path for states the entry state does not reach', async () => {
+    await createSession('unreachable', [finding('unreachable', 'orphan')]);
+
+    expect(await getReproPath('unreachable', 'orphan-load')).toBeUndefined();
+    await expect(FindingService.buildReproStory('unreachable', 'orphan-load')).rejects.toThrow('cannot be reached');
+  });
+
+  it('matches the entry URL with or without a trailing slash', async () => {
+    await createSession('slash', [finding('slash', 'users')], 'https://app.example.com');
+
+    expect(await getReproPath('slash', 'users-load')).toEqual([
+      { from: ENTRY_URL, to: `${ENTRY_URL}users`, action: 'clickElement on #users' },
+    ]);
+  });
+
+  it('starts from the states no transition leads to when the entry URL is unknown', async () => {
+    await createSession('no-entry', [finding('no-entry', 'users'), finding('no-entry', 'orphan')], null);
+
+    expect(await getReproPath('no-entry', 'users-load')).toHaveLength(1);
+    // Without an entry URL the orphan state is an entry state itself
+    expect(await getReproPath('no-entry', 'orphan-load')).toEqual([]);
+  });
+});
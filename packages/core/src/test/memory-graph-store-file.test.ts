@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryGraphStore } from '../utils/memory-graph-store.js';
+import { AgentCheckpoint, GraphWrite } from '../types/state.js';
+
+function state(stateKey: string): GraphWrite {
+  return {
+    kind: 'upsertState',
+    stateKey,
+    url: `https://app.example.com/${stateKey}`,
+    urlTemplate: `https://app.example.com/${stateKey}`,
+    label: stateKey,
+    fingerprint: `fp-${stateKey}`,
+    sessionId: 'session-1',
+  };
+}
+
+describe('MemoryGraphStore file', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'graph-store-'));
+    filePath = join(directory, 'nested', 'graph-store.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reloads what was saved', async () => {
+    const store = new MemoryGraphStore(filePath);
+    await store.applyWrites([state('home'), state('users')]);
+    await store.saveCheckpoint('session-1', { savedAt: '2026-01-01T00:00:00.000Z' } as unknown as AgentCheckpoint);
+
+    const reloaded = new MemoryGraphStore(filePath);
+    const graph = await reloaded.queryGraph(100, 'session-1');
+    expect(graph.nodes.map((node) => node.id)).toEqual(['home', 'users']);
+    expect((await reloaded.loadCheckpoint('session-1'))?.savedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(existsSync(`${filePath}.tmp`)).toBe(false);
+  });
+
+  it('keeps every change of overlapping saves', async () => {
+    const store = new MemoryGraphStore(filePath);
+    await Promise.all([state('a'), state('b'), state('c'), state('d')].map((write) => store.applyWrites([write])));
+
+    const saved = JSON.parse(readFileSync(filePath, 'utf-8'));
+    expect(saved.states.map((saved: { stateKey: string }) => saved.stateKey)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('refuses a corrupt file instead of overwriting it', () => {
+    writeFileSync(join(directory, 'truncated.json'), '{"states":[{"stateKey":"ho');
+
+    expect(() => new MemoryGraphStore(join(directory, 'truncated.json'))).toThrow(/truncated\.json is corrupt/);
+    expect(readFileSync(join(directory, 'truncated.json'), 'utf-8')).toBe('{"states":[{"stateKey":"ho');
+  });
+});
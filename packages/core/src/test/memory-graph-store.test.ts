@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryGraphStore } from '../utils/memory-graph-store.js';
+import { AgentCheckpoint, GraphWrite, UpsertFinding } from '../types/state.js';
+
+// The expectations follow the Cypher Neo4jTools runs for the same writes (MERGE, MATCH and ON CREATE semantics)
+
+const SESSION = 'session-1';
+const OTHER_SESSION = 'session-2';
+
+function state(stateKey: string, overrides: Partial<GraphWrite> = {}, sessionId: string = SESSION): GraphWrite {
+  return {
+    kind: 'upsertState',
+    stateKey,
+    url: `https://app.example.com/${stateKey}`,
+    urlTemplate: `https://app.example.com/${stateKey}`,
+    label: `${stateKey} page`,
+    fingerprint: `fp-${stateKey}`,
+    sessionId,
+    ...overrides,
+  } as GraphWrite;
+}
+
+function transition(from: string, to: string, action: string, selector?: string, sessionId: string = SESSION): GraphWrite {
+  return { kind: 'upsertTransition', fromStateKey: from, toStateKey: to, action, selector, sessionId };
+}
+
+function finding(findingKey: string, stateKey: string, overrides: Partial<UpsertFinding> = {}): UpsertFinding {
+  return {
+    kind: 'upsertFinding',
+    findingKey,
+    type: 'console_error',
+    severity: 'error',
+    message: `Error ${findingKey}`,
+    stateKey,
+    actionPath: [],
+    url: `https://app.example.com/${stateKey}`,
+    sessionId: SESSION,
+    ...overrides,
+  };
+}
+
+describe('MemoryGraphStore', () => {
+  let store: MemoryGraphStore;
+
+  beforeEach(() => {
+    store = new MemoryGraphStore();
+  });
+
+  describe('applyWrites', () => {
+    it('merges states by key and session, keeping the URL of the first visit', async () => {
+      await store.applyWrites([
+        state('users', { url: 'https://app.example.com/users?page=1' }),
+        state('users', { url: 'https://app.example.com/users?page=2', label: 'Users list' }),
+        state('users', {}, OTHER_SESSION),
+      ]);
+
+      const graph = await store.queryGraph(100, SESSION);
+      expect(graph.nodes).toEqual([expect.objectContaining({
+        id: 'users',
+        label: 'Users list',
+        url: 'https://app.example.com/users?page=1',
+        urlTemplate: 'https://app.example.com/users',
+      })]);
+      expect((await store.getGraphCounts([OTHER_SESSION])).get(OTHER_SESSION)).toEqual({ nodes: 1, edges: 0 });
+    });
+
+    it('skips relationships whose states do not exist, like a MATCH without results', async () => {
+      await store.applyWrites([
+        state('home'),
+        transition('home', 'missing', 'clickElement on #users', '#users'),
+        { kind: 'upsertNotExecuted', fromStateKey: 'missing', action: 'clickElement on #delete', safety: 'destructive', sessionId: SESSION },
+        finding('f1', 'missing'),
+      ]);
+
+      const graph = await store.queryGraph(100, SESSION, true, true, true);
+      expect(graph.edges).toEqual([]);
+      expect(await store.queryFindings(SESSION)).toEqual([]);
+    });
+
+    it('merges transitions on action, session and selector - the selector only narrows the match when given', async () => {
+      await store.applyWrites([
+        state('home'),
+        state('users'),
+        transition('home', 'users', 'clickElement on #users', '#users'),
+        transition('home', 'users', 'clickElement on #users', '#users'),
+        transition('home', 'users', 'clickElement on #users', '#nav-users'),
+      ]);
+
+      const graph = await store.queryGraph(100, SESSION);
+      expect(graph.edges.map((edge) => edge.selector)).toEqual(['#users', '#nav-users']);
+      expect(await store.transitionExists('home', 'users', 'clickElement on #users', SESSION)).toBe(true);
+      expect(await store.transitionExists('home', 'users', 'clickElement on #users', SESSION, '#users')).toBe(true);
+      expect(await store.transitionExists('home', 'users', 'clickElement on #users', SESSION, '#other')).toBe(false);
+      expect(await store.transitionExists('home', 'users', 'clickElement on #users', OTHER_SESSION)).toBe(false);
+    });
+  });
+
+  describe('queryGraph', () => {
+    beforeEach(async () => {
+      await store.applyWrites([
+        state('home'),
+        state('users'),
+        state('login'),
+        transition('home', 'users', 'clickElement on #users', '#users'),
+        { kind: 'upsertExternal', url: 'https://docs.example.org/', sessionId: SESSION },
+        { kind: 'upsertExternalTransition', fromStateKey: 'home', externalUrl: 'https://docs.example.org/', action: 'clickElement on #docs', sessionId: SESSION, selector: '#docs' },
+        { kind: 'upsertNotExecuted', fromStateKey: 'users', action: 'clickElement on #delete', safety: 'destructive', sessionId: SESSION, selector: '#delete' },
+        { kind: 'upsertNotExecuted', fromStateKey: 'users', action: 'clickElement on #delete', safety: 'logout', sessionId: SESSION, selector: '#delete' },
+        { kind: 'upsertLogout', fromStateKey: 'users', toStateKey: 'login', action: 'clickElement on #logout', reason: 'logout_action', sessionId: SESSION, selector: '#logout' },
+      ]);
+    });
+
+    it('returns only transitions by default', async () => {
+      const graph = await store.queryGraph(100, SESSION);
+
+      expect(graph.nodes.map((node) => node.id)).toEqual(['home', 'users', 'login']);
+      expect(graph.edges).toEqual([{
+        source: 'home',
+        target: 'users',
+        sourceUrl: 'https://app.example.com/home',
+        targetUrl: 'https://app.example.com/users',
+        label: 'clickElement on #users',
+        selector: '#users',
+      }]);
+    });
+
+    it('adds external pages as prefixed nodes when requested', async () => {
+      const graph = await store.queryGraph(100, SESSION, true);
+
+      expect(graph.nodes).toContainEqual({
+        id: 'external:https://docs.example.org/',
+        label: 'https://docs.example.org/',
+        url: 'https://docs.example.org/',
+        external: true,
+      });
+      expect(graph.edges).toContainEqual({
+        source: 'home',
+        target: 'external:https://docs.example.org/',
+        sourceUrl: 'https://app.example.com/home',
+        targetUrl: 'https://docs.example.org/',
+        label: 'clickElement on #docs',
+        selector: '#docs',
+        external: true,
+      });
+    });
+
+    it('adds actions held back by the safety policy as self-loops, keeping the safety they were created with', async () => {
+      const graph = await store.queryGraph(100, SESSION, false, true);
+      const notExecuted = graph.edges.filter((edge) => edge.notExecuted);
+
+      expect(notExecuted).toEqual([{
+        source: 'users',
+        target: 'users',
+        sourceUrl: 'https://app.example.com/users',
+        targetUrl: 'https://app.example.com/users',
+        label: 'clickElement on #delete',
+        selector: '#delete',
+        notExecuted: true,
+        safety: 'destructive',
+      }]);
+    });
+
+    it('adds logouts with their reason when requested', async () => {
+      const graph = await store.queryGraph(100, SESSION, false, false, true);
+
+      expect(graph.edges).toContainEqual(expect.objectContaining({ source: 'users', target: 'login', loggedOut: 'logout_action' }));
+    });
+
+    it('counts the states and transitions of each session', async () => {
+      const counts = await store.getGraphCounts([SESSION, OTHER_SESSION]);
+
+      expect(counts.get(SESSION)).toEqual({ nodes: 3, edges: 1 });
+      expect(counts.get(OTHER_SESSION)).toEqual({ nodes: 0, edges: 0 });
+    });
+  });
+
+  describe('findings', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('merge repeated findings, counting them, newest first with the label of their state', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      await store.applyWrites([state('home'), state('users'), finding('f1', 'home'), finding('f2', 'users')]);
+      vi.setSystemTime(new Date('2026-01-01T00:05:00Z'));
+      await store.applyWrites([finding('f1', 'home')]);
+
+      const findings = await store.queryFindings(SESSION);
+      expect(findings.map((item) => [item.findingKey, item.count, item.stateLabel])).toEqual([
+        ['f1', 2, 'home page'],
+        ['f2', 1, 'users page'],
+      ]);
+      expect(findings[0].firstSeen).toBe('2026-01-01T00:00:00.000Z');
+      expect(findings[0].lastSeen).toBe('2026-01-01T00:05:00.000Z');
+      expect(await store.queryFindings(OTHER_SESSION)).toEqual([]);
+    });
+  });
+
+  describe('deleteSessionData', () => {
+    it('removes the graph of one session and keeps its metadata and the other sessions', async () => {
+      await store.applyWrites([
+        state('home'),
+        state('users'),
+        transition('home', 'users', 'clickElement on #users', '#users'),
+        finding('f1', 'home'),
+        state('home', {}, OTHER_SESSION),
+      ]);
+      await store.saveSessionMetadata({ sessionId: SESSION, status: 'completed', url: 'https://app.example.com/', createdAt: new Date() });
+
+      await store.deleteSessionData(SESSION);
+
+      expect(await store.queryGraph(100, SESSION, true, true, true)).toEqual({ nodes: [], edges: [] });
+      expect(await store.queryFindings(SESSION)).toEqual([]);
+      expect(await store.transitionExists('home', 'users', 'clickElement on #users', SESSION)).toBe(false);
+      expect((await store.queryGraph(100, OTHER_SESSION)).nodes).toHaveLength(1);
+      expect((await store.loadSessionMetadata(SESSION))?.status).toBe('completed');
+    });
+  });
+
+  describe('checkpoints', () => {
+    const checkpoint = { savedAt: '2026-01-01T00:00:00.000Z', state: { currentUrl: 'https://app.example.com/' } } as unknown as AgentCheckpoint;
+
+    it('create the session node when it does not exist, like MERGE', async () => {
+      await store.saveCheckpoint(SESSION, checkpoint);
+
+      expect(await store.loadCheckpoint(SESSION)).toEqual(checkpoint);
+      expect((await store.loadSessionMetadata(SESSION))?.status).toBe('idle');
+    });
+
+    it('are overwritten and stored as a copy', async () => {
+      const latest = JSON.parse(JSON.stringify(checkpoint));
+      await store.saveCheckpoint(SESSION, checkpoint);
+      await store.saveCheckpoint(SESSION, latest);
+      latest.savedAt = 'changed later';
+
+      expect((await store.loadCheckpoint(SESSION))?.savedAt).toBe('2026-01-01T00:00:00.000Z');
+      expect(await store.loadCheckpoint(OTHER_SESSION)).toBeNull();
+    });
+  });
+});
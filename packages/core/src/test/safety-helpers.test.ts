@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildNotExecutedWrites,
+  classifyAction,
+  classifyBatch,
+  findElementText,
+  getSafetyMode,
+  isLogoutElement,
+  matchesSafetyPattern,
+} from '../agent/helpers/safety-helpers.js';
+import { createSafetyStage } from '../agent/stages/safety-stage.js';
+import { StageContext } from '../agent/stages/stage-context.js';
+import { ExplorationFrontier } from '../agent/helpers/exploration-frontier.js';
+import { DavAgentState, PendingAction, SafetyPolicy, SimplifiedElement } from '../types/state.js';
+
+const DOM_STATE = [
+  'Actionable Elements (5):',
+  '[0] BUTTON | Text: "Save changes" | Selector: #save',
+  '[1] BUTTON | Text: "Delete user" | Selector: button.btn-danger',
+  '[2] A | Text: "Sign out" | Selector: a.nav-link',
+  '[3] BUTTON | Text: "Remove filter" | Selector: #clear-filter',
+  '[4] A | Text: "Close account" | Selector: a[href="/account/close"]',
+].join('\n');
+
+function click(selector: string, elementIndex?: number, name?: string): PendingAction {
+  return {
+    tool: 'clickElement',
+    selector,
+    elementIndex,
+    locator: name ? { xpath: `/html/body/button[${elementIndex ?? 0}]`, name } : undefined,
+  };
+}
+
+function element(text: string, selector: string, name?: string): SimplifiedElement {
+  return { index: 0, locator: { xpath: '/html/body/a[1]', name }, tag: 'A', text, selector };
+}
+
+describe('matchesSafetyPattern', () => {
+  it('matches plain patterns as case-insensitive substrings', () => {
+    expect(matchesSafetyPattern('Archive project', 'archive')).toBe(true);
+    expect(matchesSafetyPattern('#archiveBtn', 'ARCHIVE')).toBe(true);
+    expect(matchesSafetyPattern('Save', 'archive')).toBe(false);
+  });
+
+  it('matches /pattern/flags as regular expressions and rejects invalid ones', () => {
+    expect(matchesSafetyPattern('Archive project', '/^archive/i')).toBe(true);
+    expect(matchesSafetyPattern('Archive project', '/^archive/')).toBe(false);
+    expect(matchesSafetyPattern('Archive project', '/[archive/')).toBe(false);
+  });
+});
+
+describe('findElementText', () => {
+  it('finds the text of an element by its index, or by its selector without one', () => {
+    expect(findElementText(DOM_STATE, 'button.btn-danger', 1)).toBe('Delete user');
+    expect(findElementText(DOM_STATE, 'a.nav-link')).toBe('Sign out');
+    expect(findElementText(DOM_STATE, '#missing')).toBe('');
+  });
+});
+
+describe('classifyAction', () => {
+  const policy: SafetyPolicy = {};
+
+  it('classifies by the text of the element', () => {
+    expect(classifyAction(click('button.btn-danger', 1), DOM_STATE, policy)).toBe('destructive');
+    expect(classifyAction(click('a.nav-link', 2), DOM_STATE, policy)).toBe('logout');
+    expect(classifyAction(click('#save', 0), DOM_STATE, policy)).toBe('safe');
+  });
+
+  it('classifies by the selector, also where the text does not give it away', () => {
+    expect(classifyAction(click('#deleteUser'), DOM_STATE, policy)).toBe('destructive');
+    expect(classifyAction(click('#btn-logout'), DOM_STATE, policy)).toBe('logout');
+  });
+
+  it('classifies by the registered accessible name when the shown text is truncated', () => {
+    expect(classifyAction(click('#icon-button', 9, 'Log out'), DOM_STATE, policy)).toBe('logout');
+  });
+
+  it('matches list patterns against link URLs in selectors', () => {
+    const closeAccount = click('a[href="/account/close"]', 4);
+
+    expect(classifyAction(closeAccount, DOM_STATE, policy)).toBe('safe');
+    expect(classifyAction(closeAccount, DOM_STATE, { denyList: ['account/close'] })).toBe('destructive');
+    expect(classifyAction(closeAccount, DOM_STATE, { denyList: ['/href="\\/account\\/[a-z]+"/'] })).toBe('destructive');
+  });
+
+  it('classifies deny list matches as destructive', () => {
+    expect(classifyAction(click('#save', 0), DOM_STATE, { denyList: ['save changes'] })).toBe('destructive');
+  });
+
+  it('checks the allow list first', () => {
+    expect(classifyAction(click('#clear-filter', 3), DOM_STATE, policy)).toBe('destructive');
+    expect(classifyAction(click('#clear-filter', 3), DOM_STATE, { allowList: ['Remove filter'] })).toBe('safe');
+    expect(classifyAction(click('a.nav-link', 2), DOM_STATE, { allowList: ['/^a\\.nav/'] })).toBe('safe');
+  });
+
+  it('only guards clicks', () => {
+    const typing: PendingAction = { tool: 'typeText', selector: '#delete-reason', text: 'delete everything' };
+
+    expect(classifyAction(typing, DOM_STATE, { denyList: ['delete'] })).toBe('safe');
+  });
+});
+
+describe('classifyBatch', () => {
+  it('uses the most dangerous action of the batch', () => {
+    expect(classifyBatch([click('#save', 0), click('a.nav-link', 2)], DOM_STATE, {})).toBe('logout');
+    expect(classifyBatch([click('a.nav-link', 2), click('button.btn-danger', 1)], DOM_STATE, {})).toBe('destructive');
+    expect(classifyBatch([click('#save', 0)], DOM_STATE, {})).toBe('safe');
+  });
+});
+
+describe('isLogoutElement', () => {
+  it('checks the text, the accessible name and the selector', () => {
+    expect(isLogoutElement(element('Sign out', 'a.nav-link'))).toBe(true);
+    expect(isLogoutElement(element('', 'button.icon', 'Log off'))).toBe(true);
+    expect(isLogoutElement(element('', '#signout'))).toBe(true);
+    expect(isLogoutElement(element('Logbook', 'a.nav-link'))).toBe(false);
+  });
+});
+
+describe('getSafetyMode', () => {
+  it('records destructive actions and defers logouts by default', () => {
+    expect(getSafetyMode('destructive', {})).toBe('record');
+    expect(getSafetyMode('logout', {})).toBe('defer');
+  });
+
+  it('uses the modes of the policy', () => {
+    const policy: SafetyPolicy = { destructiveMode: 'skip', logoutMode: 'record' };
+
+    expect(getSafetyMode('destructive', policy)).toBe('skip');
+    expect(getSafetyMode('logout', policy)).toBe('record');
+  });
+});
+
+describe('buildNotExecutedWrites', () => {
+  it('builds one write per deferred batch', () => {
+    const writes = buildNotExecutedWrites([{ actions: [click('a.nav-link', 2)], safety: 'logout', description: 'clickElement on a.nav-link' }], 'home', 'session-1');
+
+    expect(writes).toEqual([{
+      kind: 'upsertNotExecuted',
+      fromStateKey: 'home',
+      action: 'clickElement on a.nav-link',
+      safety: 'logout',
+      sessionId: 'session-1',
+      selector: 'a.nav-link',
+    }]);
+  });
+});
+
+describe('safety stage', () => {
+  function run(policy: SafetyPolicy, actions: PendingAction[]) {
+    const frontier = new ExplorationFrontier();
+    frontier.recordState('home', 'https://app.example.com/', []);
+    const context = { sessionId: 'session-1', safetyPolicy: policy, guardedTransitions: new Set<string>(), frontier } as unknown as StageContext;
+    const state = {
+      currentStateKey: 'home',
+      domState: DOM_STATE,
+      explorationStatus: 'CONTINUE',
+      pendingActions: actions,
+      pendingAction: null,
+    } as unknown as DavAgentState;
+    return { frontier, update: createSafetyStage(context)(state) };
+  }
+
+  it('lets safe actions through', async () => {
+    const { update } = run({}, [click('#save', 0)]);
+
+    expect((await update).heldBack).toBe(false);
+  });
+
+  it('skips guarded actions without recording them in skip mode', async () => {
+    const { update } = run({ destructiveMode: 'skip' }, [click('button.btn-danger', 1)]);
+    const result = await update;
+
+    expect(result.heldBack).toBe(true);
+    expect(result.pendingActions).toEqual([]);
+    expect(result.graphWrites).toEqual([]);
+  });
+
+  it('records guarded actions as not executed in record mode', async () => {
+    const { update } = run({ destructiveMode: 'record' }, [click('button.btn-danger', 1)]);
+    const result = await update;
+
+    expect(result.heldBack).toBe(true);
+    expect(result.graphWrites).toEqual([expect.objectContaining({ kind: 'upsertNotExecuted', fromStateKey: 'home', safety: 'destructive' })]);
+  });
+
+  it('defers guarded actions until the branch is explored in defer mode', async () => {
+    const logout = click('a.nav-link', 2);
+    const { frontier, update } = run({ logoutMode: 'defer' }, [logout]);
+    const result = await update;
+
+    expect(result.heldBack).toBe(true);
+    expect(result.graphWrites).toEqual([]);
+    expect(frontier.takeDeferred('home')?.actions).toEqual([logout]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { isUrlInScope, matchesUrlPattern } from '../agent/helpers/scope-helpers.js';
+
+const ENTRY_URL = 'https://app.example.com/';
+
+describe('matchesUrlPattern', () => {
+  it('matches host globs label by label', () => {
+    expect(matchesUrlPattern('https://api.example.com/users', '*.example.com')).toBe(true);
+    expect(matchesUrlPattern('https://a.b.example.com/', '*.example.com')).toBe(false);
+    expect(matchesUrlPattern('https://a.b.example.com/', '**.example.com')).toBe(true);
+    expect(matchesUrlPattern('https://example.org/', '*.example.com')).toBe(false);
+  });
+
+  it('matches path globs segment by segment', () => {
+    expect(matchesUrlPattern('https://app.example.com/admin/users', 'app.example.com/admin/*')).toBe(true);
+    expect(matchesUrlPattern('https://app.example.com/admin/users/1', 'app.example.com/admin/*')).toBe(false);
+    expect(matchesUrlPattern('https://app.example.com/admin/users/1', 'app.example.com/admin/**')).toBe(true);
+    expect(matchesUrlPattern('https://app.example.com/v1/users', 'app.example.com/v?/users')).toBe(true);
+  });
+
+  it('ignores the scheme of the pattern and the query of the URL', () => {
+    expect(matchesUrlPattern('http://app.example.com/login?next=/', 'https://app.example.com/login')).toBe(true);
+  });
+
+  it('matches hosts case-insensitively and escapes regex characters in globs', () => {
+    expect(matchesUrlPattern('https://APP.example.com/', 'app.example.com')).toBe(true);
+    expect(matchesUrlPattern('https://appxexample.com/', 'app.example.com')).toBe(false);
+  });
+
+  it('matches regular expressions against the full URL', () => {
+    expect(matchesUrlPattern('https://app.example.com/logout', '/\\/log(out|off)$/')).toBe(true);
+    expect(matchesUrlPattern('https://app.example.com/LOGOUT', '/\\/logout$/i')).toBe(true);
+    expect(matchesUrlPattern('https://app.example.com/', '/[unclosed/')).toBe(false);
+  });
+
+  it('does not match unparsable URLs against globs', () => {
+    expect(matchesUrlPattern('not a url', '*.example.com')).toBe(false);
+  });
+});
+
+describe('isUrlInScope', () => {
+  it('defaults to the host of the entry URL', () => {
+    expect(isUrlInScope('https://app.example.com/users', {}, ENTRY_URL)).toBe(true);
+    expect(isUrlInScope('https://docs.example.com/', {}, ENTRY_URL)).toBe(false);
+  });
+
+  it('uses the include patterns when given', () => {
+    const scope = { include: ['*.example.com'] };
+
+    expect(isUrlInScope('https://docs.example.com/', scope, ENTRY_URL)).toBe(true);
+    expect(isUrlInScope('https://example.org/', scope, ENTRY_URL)).toBe(false);
+  });
+
+  it('lets exclude patterns win over include patterns', () => {
+    const scope = { include: ['app.example.com'], exclude: ['app.example.com/admin/**'] };
+
+    expect(isUrlInScope('https://app.example.com/users', scope, ENTRY_URL)).toBe(true);
+    expect(isUrlInScope('https://app.example.com/admin/settings', scope, ENTRY_URL)).toBe(false);
+  });
+
+  it('keeps browser-internal pages in scope', () => {
+    expect(isUrlInScope('about:blank', { include: ['other.example.com'] }, ENTRY_URL)).toBe(true);
+    expect(isUrlInScope('data:text/html,hello', {}, ENTRY_URL)).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { SecretRedactor } from '../utils/secret-redactor.js';
+import { PendingAction, SimplifiedElement } from '../types/state.js';
+
+const CREDENTIALS = { username: 'jane@example.com', password: 'hunter2-secret' };
+
+function type(text: string): PendingAction {
+  return { tool: 'typeText', selector: '#field', text };
+}
+
+function field(type: string): SimplifiedElement {
+  return { index: 0, locator: { xpath: '/html/body/input[1]' }, tag: 'INPUT', type, text: '', selector: '#field' };
+}
+
+describe('SecretRedactor', () => {
+  describe('protectAction', () => {
+    it('replaces credentials with their placeholders', () => {
+      const redactor = new SecretRedactor(CREDENTIALS);
+
+      expect(redactor.protectAction(type('jane@example.com')).text).toBe('{{credentials.username}}');
+      expect(redactor.protectAction(type('hunter2-secret')).text).toBe('{{credentials.password}}');
+    });
+
+    it('registers values typed into password fields and values matching a secret pattern', () => {
+      const redactor = new SecretRedactor(undefined, ['/^sk_live_/i']);
+
+      expect(redactor.protectAction(type('new-password'), field('password')).text).toBe('{{secrets.1}}');
+      expect(redactor.protectAction(type('SK_LIVE_abc123'), field('text')).text).toBe('{{secrets.2}}');
+      // The same value typed again reuses its placeholder
+      expect(redactor.protectAction(type('new-password'), field('text')).text).toBe('{{secrets.1}}');
+    });
+
+    it('leaves other actions, plain values and placeholders alone', () => {
+      const redactor = new SecretRedactor(CREDENTIALS);
+      const click: PendingAction = { tool: 'clickElement', selector: '#save' };
+
+      expect(redactor.protectAction(click)).toBe(click);
+      expect(redactor.protectAction(type('Jane Doe'), field('text')).text).toBe('Jane Doe');
+      expect(redactor.protectAction(type('{{secrets.4}}'), field('password')).text).toBe('{{secrets.4}}');
+    });
+  });
+
+  it('redacts known values in free text, longest first', () => {
+    const redactor = new SecretRedactor({ username: 'admin', password: 'admin-pass' });
+
+    expect(redactor.redact('Logged in as admin with admin-pass')).toBe('Logged in as {{credentials.username}} with {{credentials.password}}');
+  });
+
+  it('redacts known values in URLs, also percent-encoded', () => {
+    const redactor = new SecretRedactor({ username: 'jane@example.com', password: 'p@ss word/1' });
+
+    expect(redactor.redactUrl('https://app.example.com/api/users/jane@example.com?password=p%40ss%20word%2F1&mode=full'))
+      .toBe('https://app.example.com/api/users/{{credentials.username}}?password={{credentials.password}}&mode=full');
+    expect(redactor.redactUrl('https://app.example.com/login?user=jane%40example.com&password=p%40ss+word%2F1'))
+      .toBe('https://app.example.com/login?user={{credentials.username}}&password={{credentials.password}}');
+  });
+
+  it('does not redact values that are too short', () => {
+    const redactor = new SecretRedactor({ username: 'al', password: 'secret-value' });
+
+    expect(redactor.redact('al typed secret-value')).toBe('al typed {{credentials.password}}');
+  });
+
+  it('resolves placeholders and leaves unknown ones in place', () => {
+    const redactor = new SecretRedactor(CREDENTIALS);
+
+    expect(redactor.resolve('{{credentials.username}}:{{credentials.password}}')).toBe('jane@example.com:hunter2-secret');
+    expect(redactor.resolve('{{secrets.3}}')).toBe('{{secrets.3}}');
+    expect(redactor.findUnresolved('{{credentials.password}} {{secrets.3}}')).toEqual(['secrets.3']);
+  });
+
+  it('resolves TOTP placeholders to a current code', () => {
+    const redactor = new SecretRedactor();
+    const key = redactor.registerTotp('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+
+    expect(key).toBe('totp.1');
+    expect(redactor.registerTotp('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')).toBe('totp.1');
+    expect(redactor.resolve(SecretRedactor.placeholder(key))).toMatch(/^\d{6}$/);
+  });
+
+  it('rejects invalid secret patterns', () => {
+    expect(() => SecretRedactor.parsePattern('/[unclosed/')).toThrow();
+    expect(SecretRedactor.parsePattern('/token/gi').flags).toBe('i');
+  });
+
+  describe('snapshots', () => {
+    it('keep ids but not values', () => {
+      const redactor = new SecretRedactor(CREDENTIALS);
+      redactor.protectAction(type('new-password'), field('password'));
+      redactor.registerTotp('JBSWY3DPEHPK3PXP');
+
+      const snapshot = redactor.toSnapshot();
+      expect(snapshot).toEqual({ ids: ['credentials.username', 'credentials.password', 'secrets.1', 'totp.1'] });
+      expect(JSON.stringify(snapshot)).not.toContain('new-password');
+    });
+
+    it('continue ids after the restored ones and fail to resolve lost values', () => {
+      const redactor = new SecretRedactor(CREDENTIALS);
+      redactor.restore({ ids: ['credentials.username', 'credentials.password', 'secrets.1', 'secrets.2', 'totp.1'] });
+
+      expect(redactor.protectAction(type('another-password'), field('password')).text).toBe('{{secrets.3}}');
+      expect(redactor.registerTotp('JBSWY3DPEHPK3PXP')).toBe('totp.2');
+      expect(redactor.resolve('{{credentials.password}}')).toBe('hunter2-secret');
+      expect(() => redactor.resolve('{{secrets.2}}')).toThrow('typed before the session was resumed');
+      expect(redactor.toSnapshot().ids).toEqual(expect.arrayContaining(['secrets.1', 'secrets.2', 'secrets.3', 'totp.1', 'totp.2']));
+    });
+  });
+});
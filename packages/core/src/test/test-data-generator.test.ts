@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { TestDataGenerator } from '../utils/test-data-generator.js';
+import { FieldConstraints, SimplifiedElement } from '../types/state.js';
+
+function input(type: string, field: FieldConstraints = {}, overrides: Partial<SimplifiedElement> = {}): SimplifiedElement {
+  return {
+    index: 0,
+    locator: { xpath: '/html/body/form/input[1]' },
+    tag: 'INPUT',
+    type,
+    text: '',
+    selector: `#${field.name ?? type}`,
+    field,
+    ...overrides,
+  };
+}
+
+describe('TestDataGenerator', () => {
+  describe('inferFieldKind', () => {
+    it('uses the input type, then the autocomplete hint, then the name and label', () => {
+      expect(TestDataGenerator.inferFieldKind(input('email'))).toBe('email');
+      expect(TestDataGenerator.inferFieldKind(input('text', { autocomplete: 'shipping postal-code' }))).toBe('zip');
+      expect(TestDataGenerator.inferFieldKind(input('text', { name: 'firstName' }))).toBe('firstName');
+      expect(TestDataGenerator.inferFieldKind(input('text', { label: 'Company name' }))).toBe('company');
+      expect(TestDataGenerator.inferFieldKind(input('text', { name: 'notes' }, { tag: 'TEXTAREA' }))).toBe('longText');
+      expect(TestDataGenerator.inferFieldKind(input('text', { name: 'role' }, { tag: 'SELECT' }))).toBe('select');
+    });
+  });
+
+  describe('validValue', () => {
+    const fields = [
+      input('email', { name: 'email' }),
+      input('password', { name: 'password', minLength: 12 }),
+      input('number', { name: 'age', min: '18', max: '30' }),
+      input('date', { name: 'start', min: '2025-03-01', max: '2025-03-31' }),
+      input('text', { name: 'code', pattern: '[A-Z]{3}-\\d{4}' }),
+    ];
+
+    it('generates the same values for the same seed', () => {
+      const first = new TestDataGenerator(42);
+      const second = new TestDataGenerator(42);
+
+      expect(fields.map((field) => first.validValue(field))).toEqual(fields.map((field) => second.validValue(field)));
+    });
+
+    it('generates different values for another seed and for repeated fields', () => {
+      const generator = new TestDataGenerator(42);
+      const email = generator.validValue(fields[0]);
+
+      expect(generator.validValue(fields[0])).not.toBe(email);
+      expect(new TestDataGenerator(7).validValue(fields[1])).not.toBe(new TestDataGenerator(42).validValue(fields[1]));
+    });
+
+    it('satisfies the constraints of the field', () => {
+      const generator = new TestDataGenerator(3);
+
+      expect(generator.validValue(fields[0])).toMatch(/^[a-z]+\.[a-z]+1@example\.test$/);
+      expect(generator.validValue(fields[1])!.length).toBeGreaterThanOrEqual(12);
+      const age = Number(generator.validValue(fields[2]));
+      expect(age).toBeGreaterThanOrEqual(18);
+      expect(age).toBeLessThanOrEqual(30);
+      expect(generator.validValue(fields[3])).toMatch(/^2025-03-\d{2}$/);
+      expect(generator.validValue(input('text', { name: 'bio', maxLength: 5 }))!.length).toBeLessThanOrEqual(5);
+    });
+
+    it('samples values from simple patterns', () => {
+      const generator = new TestDataGenerator(5);
+
+      for (let run = 0; run < 5; run++) {
+        expect(generator.validValue(fields[4])).toMatch(/^[A-Z]{3}-\d{4}$/);
+      }
+    });
+
+    it('picks a non-empty option of selects and leaves clickable fields alone', () => {
+      const generator = new TestDataGenerator(1);
+      const select = input('', { name: 'role', options: [{ value: '', label: 'Choose' }, { value: 'admin', label: 'Admin' }] }, { tag: 'SELECT' });
+
+      expect(generator.validValue(select)).toBe('admin');
+      expect(generator.validValue(input('checkbox', { name: 'terms' }))).toBeUndefined();
+    });
+  });
+
+  describe('invalidValues', () => {
+    const generator = new TestDataGenerator();
+
+    it('returns one value per declared constraint', () => {
+      const values = generator.invalidValues(input('email', { name: 'email', minLength: 8, maxLength: 10 }, { isRequired: true }));
+
+      expect(values).toEqual([
+        { rule: 'required', declared: true },
+        { value: 'not-an-email', rule: 'format', declared: true },
+        { value: 'aaaaaaa', rule: 'minLength', declared: true },
+        { value: 'aaaaaaaaaaa', rule: 'maxLength', declared: true },
+      ]);
+    });
+
+    it('probes rules only the application may enforce', () => {
+      expect(generator.invalidValues(input('password', { name: 'password' }))).toEqual([
+        { rule: 'required', declared: false },
+        { value: 'a', rule: 'minLength', declared: false },
+      ]);
+      expect(generator.invalidValues(input('text', { name: 'contactEmail' }))).toContainEqual(
+        { value: 'not-an-email', rule: 'format', declared: false }
+      );
+    });
+
+    it('steps outside number and date ranges', () => {
+      expect(generator.invalidValues(input('number', { name: 'price', min: '0.5', max: '10', step: '0.5' }))).toEqual([
+        { rule: 'required', declared: false },
+        { value: '0.0', rule: 'min', declared: true },
+        { value: '10.5', rule: 'max', declared: true },
+      ]);
+      expect(generator.invalidValues(input('date', { name: 'start', min: '2025-03-01' }))).toContainEqual(
+        { value: '2025-02-28', rule: 'min', declared: true }
+      );
+    });
+
+    it('adds a value the pattern rejects, and skips invalid patterns', () => {
+      expect(generator.invalidValues(input('text', { name: 'code', pattern: '[a-z]+' }))).toContainEqual(
+        { value: '!!!', rule: 'pattern', declared: true }
+      );
+      const rules = generator.invalidValues(input('text', { name: 'code', pattern: '[a-z' })).map((value) => value.rule);
+      expect(rules).not.toContain('pattern');
+    });
+  });
+
+  describe('compilePattern', () => {
+    it('anchors patterns to the whole value', () => {
+      const pattern = TestDataGenerator.compilePattern('\\d{3}|abc');
+
+      expect(pattern?.test('123')).toBe(true);
+      expect(pattern?.test('abc')).toBe(true);
+      expect(pattern?.test('1234')).toBe(false);
+    });
+
+    it('returns null for patterns browsers ignore', () => {
+      expect(TestDataGenerator.compilePattern('[a-z')).toBeNull();
+      // Valid without the v flag, invalid with it
+      expect(TestDataGenerator.compilePattern('[a-z-]')).toBeNull();
+    });
+  });
+
+  describe('validation probes', () => {
+    it('hands out every constraint of a form once', () => {
+      const generator = new TestDataGenerator();
+      const fields = [input('email', { name: 'email' }, { isRequired: true }), input('number', { name: 'age', max: '120' })];
+      const probes: string[] = [];
+
+      let probe = generator.nextProbe('signup', fields);
+      while (probe) {
+        probes.push(`${TestDataGenerator.fieldKey(probe.element)}:${probe.invalid.rule}`);
+        probe = generator.nextProbe('signup', fields);
+      }
+
+      expect(probes).toEqual(['email:required', 'email:format', 'age:required', 'age:max']);
+      expect(generator.hasProbesLeft('signup', fields)).toBe(false);
+      expect(generator.hasProbesLeft('profile', fields)).toBe(true);
+    });
+
+    it('restores probes and counters from a snapshot', () => {
+      const generator = new TestDataGenerator(9);
+      const email = input('email', { name: 'email' });
+      generator.validValue(email);
+      generator.nextProbe('signup', [email]);
+
+      const restored = new TestDataGenerator(9);
+      restored.restore(JSON.parse(JSON.stringify(generator.toSnapshot())));
+
+      expect(restored.toSnapshot()).toEqual(generator.toSnapshot());
+      expect(restored.validValue(email)).toBe(generator.validValue(email));
+      expect(restored.nextProbe('signup', [email])?.invalid.rule).toBe('format');
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { TotpGenerator } from '../utils/totp-generator.js';
+
+// Base32 of the ASCII secret "12345678901234567890" used by the SHA-1 test vectors of RFC 6238 (appendix B)
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TotpGenerator', () => {
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130'],
+  ])('matches the RFC 6238 code at %i seconds', (seconds, code) => {
+    expect(TotpGenerator.generate(RFC_SECRET, seconds * 1000, 8)).toBe(code);
+  });
+
+  it('generates 6 digit codes by default, stable within a period', () => {
+    expect(TotpGenerator.generate(RFC_SECRET, 59000)).toBe('287082');
+    expect(TotpGenerator.generate(RFC_SECRET, 30000)).toBe(TotpGenerator.generate(RFC_SECRET, 59999));
+    expect(TotpGenerator.generate(RFC_SECRET, 60000)).not.toBe(TotpGenerator.generate(RFC_SECRET, 59999));
+  });
+
+  it('ignores case, spaces, dashes and padding in secrets', () => {
+    expect(TotpGenerator.generate('gezd gnbv-gy3t qojq gezd gnbv gy3t qojq====', 59000)).toBe('287082');
+  });
+
+  it('validates base32 secrets', () => {
+    expect(TotpGenerator.isValidSecret('JBSW Y3DP EHPK 3PXP')).toBe(true);
+    expect(TotpGenerator.isValidSecret('JBSWY3DP1')).toBe(false);
+    expect(TotpGenerator.isValidSecret('  ')).toBe(false);
+    expect(() => TotpGenerator.generate('not-base32!')).toThrow('Invalid base32 character');
+  });
+});
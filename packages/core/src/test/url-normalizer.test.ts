@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { UrlNormalizer } from '../utils/url-normalizer.js';
+
+const ORIGIN = 'https://app.example.com';
+
+describe('UrlNormalizer', () => {
+  describe('normalize', () => {
+    const normalizer = new UrlNormalizer();
+
+    it('templates numeric ids, UUIDs and hashes', () => {
+      expect(normalizer.normalize(`${ORIGIN}/users/42`)).toBe(`${ORIGIN}/users/:id`);
+      expect(normalizer.normalize(`${ORIGIN}/orders/3f2b8c1e-9a4d-4c7b-8e21-5d6f7a8b9c0d`)).toBe(`${ORIGIN}/orders/:id`);
+      expect(normalizer.normalize(`${ORIGIN}/commits/9fceb02d0ae598e95dc970b74767f19372d61af8`)).toBe(`${ORIGIN}/commits/:id`);
+      expect(normalizer.normalize(`${ORIGIN}/invite/Xk9_qL2mZ-7pR4tW8yB1nC5v`)).toBe(`${ORIGIN}/invite/:id`);
+    });
+
+    it('templates slugs of records', () => {
+      expect(normalizer.normalize(`${ORIGIN}/people/john-doe-42`)).toBe(`${ORIGIN}/people/:slug`);
+      expect(normalizer.normalize(`${ORIGIN}/reports/2024-annual-report`)).toBe(`${ORIGIN}/reports/:slug`);
+    });
+
+    // Regression: long hyphenated words were taken for tokens and pagination values for ids
+    it('keeps hyphenated view names and pagination values', () => {
+      expect(normalizer.normalize(`${ORIGIN}/settings/notification-preferences`)).toBe(`${ORIGIN}/settings/notification-preferences`);
+      expect(normalizer.normalize(`${ORIGIN}/admin/organization_membership_requests`)).toBe(`${ORIGIN}/admin/organization_membership_requests`);
+      expect(normalizer.normalize(`${ORIGIN}/users?page=2&per_page=50`)).toBe(`${ORIGIN}/users?page=2&per_page=50`);
+    });
+
+    it('templates id-like query values, sorts parameters and drops tracking ones', () => {
+      expect(normalizer.normalize(`${ORIGIN}/users?tab=groups&userId=7&utm_source=mail&gclid=abc`))
+        .toBe(`${ORIGIN}/users?tab=groups&userId=:id`);
+    });
+
+    it('drops plain anchors and templates hash routes', () => {
+      expect(normalizer.normalize(`${ORIGIN}/docs#installation`)).toBe(`${ORIGIN}/docs`);
+      expect(normalizer.normalize(`${ORIGIN}/#/users/12`)).toBe(`${ORIGIN}/#/users/:id`);
+    });
+
+    it('returns unparsable URLs unchanged', () => {
+      expect(normalizer.normalize('not a url')).toBe('not a url');
+    });
+  });
+
+  describe('route patterns', () => {
+    it('take precedence over inferred parameters', () => {
+      const normalizer = new UrlNormalizer(['/users/:userId', '/docs/*']);
+
+      expect(normalizer.normalize(`${ORIGIN}/users/42`)).toBe(`${ORIGIN}/users/:userId`);
+      expect(normalizer.normalize(`${ORIGIN}/users/me`)).toBe(`${ORIGIN}/users/:userId`);
+      expect(normalizer.normalize(`${ORIGIN}/docs/guides/setup`)).toBe(`${ORIGIN}/docs/*`);
+      expect(normalizer.normalize(`${ORIGIN}/users/42/edit`)).toBe(`${ORIGIN}/users/:id/edit`);
+    });
+
+    it('are validated', () => {
+      expect(() => UrlNormalizer.validatePattern('users/:id')).toThrow('must start with');
+      expect(() => UrlNormalizer.validatePattern('/docs/*/edit')).toThrow('can only end with *');
+      expect(() => UrlNormalizer.validatePattern('/users/:')).toThrow('unnamed parameter');
+      expect(() => UrlNormalizer.validatePattern('#/users/:id')).not.toThrow();
+    });
+  });
+
+  it('detects parameterized templates', () => {
+    expect(UrlNormalizer.isParameterized(`${ORIGIN}/users/:id`)).toBe(true);
+    expect(UrlNormalizer.isParameterized(`${ORIGIN}/users?userId=:id`)).toBe(true);
+    expect(UrlNormalizer.isParameterized(`${ORIGIN}/docs/*`)).toBe(true);
+    expect(UrlNormalizer.isParameterized(`${ORIGIN}/users?page=2`)).toBe(false);
+  });
+});
@@ -1,32 +1,306 @@
+import type { BrowserStorageState } from '../utils/browser-tools.js';
+import type { InvalidValue } from '../utils/test-data-generator.js';
+
 /**
  * DavAgentState - The shared state object passed between all LangGraph nodes
  */
 export interface DavAgentState {
   currentUrl: string;
+  currentStateKey: string; // Structural key of the current page state (see state-abstraction)
   domState: string;
   actionHistory: string[];
-  neo4jQueries: string[];
-  explorationStatus: 'CONTINUE' | 'FLOW_END' | 'FAILURE';
+  graphWrites: GraphWrite[]; // Pending writes to the graph store, applied by persist_data
+  explorationStatus: 'CONTINUE' | 'FLOW_END' | 'FAILURE' | 'PAUSED' | 'BUDGET_EXHAUSTED';
   pendingAction: PendingAction | null; // Deprecated: use pendingActions instead
   pendingActions: PendingAction[]; // Array of actions to execute in batch
-  visitedFingerprints: string[]; // Track visited page fingerprints to detect cycles
+  pendingProbe: ValidationProbe | null; // Validation probe of the pending batch, recorded by execute_tool
+  visitedStateKeys: string[]; // Track visited state keys to detect cycles
+  heldBack: boolean; // Set by safety_check when the safety policy held the decided batch back (execute_tool is skipped)
 }
 
+/**
+ * Graph writes - Backend-neutral upserts produced by the stages and applied by the graph store
+ */
+export interface UpsertState {
+  kind: 'upsertState';
+  stateKey: string; // Node key - modals, tabs and views on the same URL are separate states
+  url: string; // Concrete URL the state was first seen at, used for replays
+  urlTemplate: string; // Route template, e.g. /users/:id
+  label: string;
+  fingerprint: string; // Hash of the full DOM state, kept as a property
+  sessionId: string;
+  screenshots?: ScreenshotSet; // Latest screenshots of the state
+  accessibilityViolations?: number; // Violations found by the accessibility audit (absent if the state was not audited)
+  persona?: string; // Persona the state was reached as (campaign sessions)
+}
+
+export interface UpsertTransition {
+  kind: 'upsertTransition';
+  fromStateKey: string;
+  toStateKey: string;
+  action: string;
+  sessionId: string;
+  selector?: string;
+  locators?: Array<ElementLocator | null>; // One per action of the batch, null where unknown
+  screenshotsBefore?: ScreenshotSet; // Page before the batch was executed
+  screenshotsAfter?: ScreenshotSet; // Page after the batch was executed
+  apiCalls?: ApiCall[]; // XHR/fetch requests the batch triggered
+  persona?: string; // Persona the batch was executed as (campaign sessions)
+}
+
+export interface UpsertExternal {
+  kind: 'upsertExternal';
+  url: string;
+  sessionId: string;
+}
+
+export interface UpsertExternalTransition {
+  kind: 'upsertExternalTransition';
+  fromStateKey: string;
+  externalUrl: string;
+  action: string;
+  sessionId: string;
+  selector?: string;
+}
+
+export interface UpsertNotExecuted {
+  kind: 'upsertNotExecuted';
+  fromStateKey: string;
+  action: string;
+  safety: string;
+  sessionId: string;
+  selector?: string;
+}
+
+/**
+ * LogoutReason - Why the agent was bounced back to the login page after logging in
+ * - logout_action: the batch clicked a logout element
+ * - session_expired: the application ended the session (timeout, 401 redirect)
+ */
+export type LogoutReason = 'logout_action' | 'session_expired';
+
+/**
+ * Logout observed after a batch - recorded instead of a transition, so replays never follow it
+ */
+export interface UpsertLogout {
+  kind: 'upsertLogout';
+  fromStateKey: string;
+  toStateKey: string; // Login page state
+  action: string;
+  reason: LogoutReason;
+  sessionId: string;
+  selector?: string;
+}
+
+/**
+ * API endpoint called by an action on a state - endpoints are keyed by method and URL template
+ */
+export interface UpsertApiEndpoint {
+  kind: 'upsertApiEndpoint';
+  method: string;
+  urlTemplate: string;
+  fromStateKey: string;
+  action: string;
+  sessionId: string;
+  selector?: string;
+  status: number; // Status of the latest call (0 if it failed)
+  durationMs: number;
+}
+
+/**
+ * Problem found on a state, linked to the action that caused it - repeated occurrences are merged by finding key
+ */
+export interface UpsertFinding {
+  kind: 'upsertFinding';
+  findingKey: string; // Hash of the type, message, state and action
+  type: FindingType;
+  severity: FindingSeverity;
+  message: string;
+  stack?: string;
+  stateKey: string; // State the action was executed on
+  action?: string; // Batch that caused the problem (none for problems seen outside an action)
+  actionPath: string[]; // Batches from the entry URL up to and including the action, to reproduce the problem
+  url: string; // Page URL the problem occurred on
+  sessionId: string;
+}
+
+/**
+ * Accessibility violation on a state - states sharing the offending component link to the same violation
+ */
+export interface UpsertAccessibilityViolation extends AccessibilityViolation {
+  kind: 'upsertAccessibilityViolation';
+  violationKey: string; // Hash of the rule id and the component (selector and markup)
+  stateKey: string;
+  sessionId: string;
+}
+
+/**
+ * Form field the agent filled with test data, linked to the state of its form
+ */
+export interface UpsertFormField {
+  kind: 'upsertFormField';
+  fieldKey: string; // Hash of the form's state key and the field (name, test id or selector)
+  stateKey: string; // State the form was filled on (not its validation error states)
+  selector: string;
+  name?: string;
+  label?: string;
+  type?: string; // Input type, or select/textarea
+  required?: boolean; // Declared required in the markup
+  sessionId: string;
+}
+
+/**
+ * Outcome of a validation probe - one rule per field and violated constraint, updated by later probes
+ */
+export interface UpsertValidationRule {
+  kind: 'upsertValidationRule';
+  ruleKey: string; // Hash of the field key and the rule
+  fieldKey: string;
+  rule: ValidationRuleKind;
+  value?: string; // Invalid value submitted (absent: the field was left empty)
+  declared: boolean; // The markup declares the constraint (required, type, pattern, length or range attribute)
+  rejected: boolean; // The application refused the submission
+  messages: string[]; // Messages shown for the field, or on the page when none is tied to the field
+  sessionId: string;
+}
+
+export type GraphWrite =
+  | UpsertState
+  | UpsertTransition
+  | UpsertExternal
+  | UpsertExternalTransition
+  | UpsertNotExecuted
+  | UpsertLogout
+  | UpsertApiEndpoint
+  | UpsertFinding
+  | UpsertAccessibilityViolation
+  | UpsertFormField
+  | UpsertValidationRule;
+
 /**
  * PendingAction - Represents a tool call requested by the LLM
  */
 export interface PendingAction {
   tool: 'clickElement' | 'typeText' | 'selectOption' | 'navigate';
   selector?: string;
+  elementIndex?: number; // Index of the targeted element in the observation it was chosen from
+  locator?: ElementLocator; // Robust locator of the targeted element (preferred over selector)
   text?: string;
   value?: string;
   url?: string;
 }
 
+/**
+ * ScreenshotSet - Artifact ids of the screenshots taken at one point of the exploration
+ */
+export interface ScreenshotSet {
+  fullPage: string;
+  viewport: string;
+}
+
+/**
+ * ApiCall - Metadata of an XHR/fetch request made while an action batch was executed
+ */
+export interface ApiCall {
+  method: string;
+  url: string;
+  urlTemplate: string; // Route template of the URL, e.g. /api/users/:id
+  status: number; // 0 if the request failed without a response
+  durationMs: number;
+  contentType?: string; // Response content type
+  startedAt: string; // ISO timestamp
+  failure?: string; // Error text of a failed request
+}
+
+/**
+ * Findings - Problems the exploration ran into, reported to QA
+ */
+export type FindingType = 'console_error' | 'page_error' | 'http_error' | 'broken_link' | 'dead_action';
+export type FindingSeverity = 'critical' | 'error' | 'warning';
+
+/**
+ * PageProblem - A problem reported by the page (console error or warning, uncaught exception, failed response)
+ */
+export interface PageProblem {
+  type: FindingType;
+  severity: FindingSeverity;
+  message: string;
+  stack?: string;
+  url: string;
+  timestamp: string; // ISO timestamp
+}
+
+/**
+ * Finding - A stored problem with where it occurred and how often
+ */
+export interface Finding {
+  findingKey: string;
+  type: FindingType;
+  severity: FindingSeverity;
+  message: string;
+  stack?: string;
+  stateKey: string;
+  stateLabel?: string;
+  action?: string;
+  actionPath: string[];
+  reproPath?: ReproStep[]; // Shortest path from the entry state through the action, derived from the graph
+  url: string;
+  count: number;
+  firstSeen: string; // ISO timestamp
+  lastSeen: string; // ISO timestamp
+}
+
+/**
+ * ReproStep - A transition to replay, in the shape of a user story flow item
+ */
+export interface ReproStep {
+  from: string; // Source state URL
+  to: string; // Target state URL
+  action: string;
+}
+
+/**
+ * Accessibility - Violations of the axe-core rules found on the observed states
+ */
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+/**
+ * AccessibilityViolation - An element of a page failing an axe-core rule
+ */
+export interface AccessibilityViolation {
+  ruleId: string; // axe-core rule id, e.g. color-contrast
+  impact: AccessibilityImpact;
+  help: string; // What the rule checks
+  helpUrl: string;
+  selector: string; // CSS selector of the offending element
+  html: string; // Markup snippet of the offending element
+}
+
+/**
+ * AccessibilityIssue - A stored violation with the states it was found on
+ */
+export interface AccessibilityIssue extends AccessibilityViolation {
+  violationKey: string;
+  states: Array<{ stateKey: string; stateLabel?: string }>;
+}
+
+/**
+ * ElementLocator - Ways to find an observed element again, tried from most to least robust
+ */
+export interface ElementLocator {
+  testId?: string; // data-testid or data-cy attribute value
+  role?: string; // ARIA role (explicit or implicit)
+  name?: string; // Accessible name used together with the role
+  xpath: string; // Absolute XPath at observation time
+  alternates?: string[]; // Ranked selectors (unique ones first); the first is the element's primary selector
+}
+
 /**
  * Simplified DOM Element - Represents an actionable element for LLM consumption
  */
 export interface SimplifiedElement {
+  index: number; // Position in the observation's element registry, shown to the LLM as [index]
+  locator: ElementLocator;
   tag: string;
   text: string;
   selector: string;
@@ -35,5 +309,312 @@ export interface SimplifiedElement {
   isInModal?: boolean;
   isRequired?: boolean;
   isDisabled?: boolean;
+  field?: FieldConstraints; // Inputs, textareas and selects only
+}
+
+/**
+ * FieldConstraints - Attributes of a form field that tell which values it accepts
+ */
+export interface FieldConstraints {
+  name?: string;
+  label?: string; // Text of the associated label
+  placeholder?: string;
+  autocomplete?: string;
+  inputMode?: string;
+  pattern?: string; // HTML pattern attribute (matched against the whole value)
+  minLength?: number;
+  maxLength?: number;
+  min?: string; // Kept as strings - number, date and time inputs share the attributes
+  max?: string;
+  step?: string;
+  options?: Array<{ value: string; label: string }>; // Enabled options of a select
+}
+
+/**
+ * TestDataMode - How the values the agent types into form fields are chosen
+ * - valid: generated values that satisfy the constraints of each field
+ * - probe: valid values, except one deliberately invalid value per form submission (validation probing)
+ */
+export type TestDataMode = 'valid' | 'probe';
+
+/**
+ * TestDataOptions - Synthetic test data for form fields; the same seed produces the same values
+ */
+export interface TestDataOptions {
+  seed?: number; // Default: 1
+  mode?: TestDataMode; // Default: 'valid'
 }
 
+/**
+ * ValidationRuleKind - Constraint a deliberately invalid value violates
+ */
+export type ValidationRuleKind = 'required' | 'format' | 'pattern' | 'minLength' | 'maxLength' | 'min' | 'max';
+
+/**
+ * ValidationRule - A stored validation probe outcome of a form field
+ */
+export interface ValidationRule {
+  rule: ValidationRuleKind;
+  value?: string;
+  declared: boolean;
+  rejected: boolean;
+  messages: string[];
+  probedAt: string; // ISO timestamp of the latest probe
+}
+
+/**
+ * FormValidation - A form with the validation rules probing found for its fields
+ */
+export interface FormValidation {
+  stateKey: string;
+  stateLabel?: string;
+  url?: string;
+  fields: Array<{
+    fieldKey: string;
+    selector: string;
+    name?: string;
+    label?: string;
+    type?: string;
+    required?: boolean;
+    rules: ValidationRule[];
+  }>;
+}
+
+/**
+ * ValidationProbe - A deliberately invalid value a batch submits, with the form it was submitted on
+ */
+export interface ValidationProbe {
+  formStateKey: string; // State of the form (validation error states map back to it)
+  field: SimplifiedElement; // Field given the invalid value
+  invalid: InvalidValue;
+  fields: SimplifiedElement[]; // Every field the batch fills
+  description: string; // e.g. Username left empty (required)
+}
+
+/**
+ * TestDataSnapshot - Serializable state of the test data generator
+ */
+export interface TestDataSnapshot {
+  counters: Record<string, number>; // Values generated per field
+  probed: string[]; // "form|field|rule" triples already probed
+}
+
+/**
+ * SecretRedactorSnapshot - Placeholder ids handed out by the secret redactor
+ * Secret values are never stored: ids whose values are not known again after a resume cannot be typed
+ */
+export interface SecretRedactorSnapshot {
+  ids: string[]; // Placeholder keys, e.g. credentials.password, secrets.1, totp.1
+}
+
+/**
+ * CredentialSource - Where the credentials of an exploration came from
+ * - config: the configured credentials, read again when the session is resumed
+ * - request: passed when the session was started (e.g. a campaign persona's) - never stored, so they must be
+ *   passed again to resume the session
+ * - none: the exploration runs without credentials
+ */
+export type CredentialSource = 'config' | 'request' | 'none';
+
+/**
+ * ExplorationStrategy - Order in which the frontier returns to states with untried actions
+ * - bfs: shallowest state first (closest to the entry URL)
+ * - dfs: most recently discovered state first (continues the current branch)
+ * - llm: the LLM picks the most promising state from the frontier
+ */
+export type ExplorationStrategy = 'bfs' | 'dfs' | 'llm';
+
+
+/**
+ * Persona - A role the application is explored as (e.g. admin, viewer) in an exploration campaign
+ */
+export interface Persona {
+  name: string;
+  credentials?: { username?: string; password?: string };
+  storageState?: BrowserStorageState; // Cookies and local storage of a browser that is logged in already
+  loginScript?: PendingAction[]; // Recorded login steps, for logins the heuristic auto-login cannot handle
+}
+
+/**
+ * LoginValueSource - Where the value typed or selected by a login recipe step comes from
+ * Credential fields and TOTP codes are typed as placeholders, so they never appear in the graph or logs
+ */
+export type LoginValueSource =
+  | { source: 'credential'; field: 'username' | 'password' }
+  | { source: 'totp'; secret: string } // Base32 secret of an RFC 6238 authenticator (6 digits, 30 seconds, SHA-1)
+  | { source: 'constant'; value: string };
+
+/**
+ * LoginRecipeStep - One step of a login recipe
+ */
+export interface LoginRecipeStep {
+  action: 'fill' | 'click' | 'select';
+  locator: string; // CSS or Playwright selector of the element
+  value?: LoginValueSource; // Required for fill and select
+}
+
+/**
+ * LoginRecipe - Declarative login flow for the applications matching a URL pattern (tenant selectors,
+ * username and password on separate pages, TOTP codes)
+ */
+export interface LoginRecipe {
+  urlPattern: string; // Scope pattern matched against the login page, then the entry URL of the exploration
+  steps: LoginRecipeStep[];
+  success?: { urlPattern?: string; selector?: string }; // Default: the page is no longer a login screen
+  updatedAt?: string;
+}
+
+/**
+ * CampaignMode - Whether the sessions of a campaign run one after the other or at the same time
+ */
+export type CampaignMode = 'sequential' | 'parallel';
+
+/**
+ * ExplorationLimits - Budgets that end an exploration cleanly with the BUDGET_EXHAUSTED status
+ * Limits that are not set are not enforced
+ */
+export interface ExplorationLimits {
+  maxActions?: number; // Executed action batches
+  maxInputTokens?: number; // LLM input tokens
+  maxOutputTokens?: number; // LLM output tokens
+  maxStates?: number; // Distinct observed states
+  maxDurationMs?: number; // Wall-clock time spent exploring (paused time excluded)
+}
+
+/**
+ * ExplorationScope - URL patterns that keep the agent inside the target application
+ * Patterns are globs (host or host + path) or /regex/ strings; see scope-helpers for the syntax
+ * Without include patterns the scope is the host of the entry URL
+ */
+export interface ExplorationScope {
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * ActionSafety - Classification of a pending action batch by the safety policy
+ * - safe: executed normally
+ * - destructive: deletes or resets data (Delete, Remove, Reset, ...)
+ * - logout: ends the authenticated session
+ */
+export type ActionSafety = 'safe' | 'destructive' | 'logout';
+
+/**
+ * SafetyMode - How the safety policy handles a guarded (destructive or logout) action batch
+ * - skip: never executed
+ * - record: never executed, recorded in the graph as a known but not executed action
+ * - defer: executed only once the rest of the branch has been explored
+ */
+export type SafetyMode = 'skip' | 'record' | 'defer';
+
+/**
+ * SafetyPolicy - Guardrails applied between deciding on and executing an action batch
+ * List patterns are case-insensitive substrings or /regex/ strings, matched against element text and selector
+ */
+export interface SafetyPolicy {
+  destructiveMode?: SafetyMode; // Default: 'record'
+  logoutMode?: SafetyMode; // Default: 'defer'
+  denyList?: string[]; // Extra patterns classified as destructive
+  allowList?: string[]; // Patterns always classified as safe (checked first)
+}
+
+/**
+ * RecordingOptions - Playwright recordings of a browser run, saved as session artifacts
+ */
+export interface RecordingOptions {
+  trace?: boolean; // Playwright trace (trace.zip) for the trace viewer
+  video?: boolean; // Video of the page (webm)
+}
+
+/**
+ * RecordingArtifacts - Artifact ids of the recordings of a browser run
+ */
+export interface RecordingArtifacts {
+  trace?: string;
+  video?: string;
+}
+
+/**
+ * DeferredBatch - A guarded action batch held back until its state's branch has been explored
+ */
+export interface DeferredBatch {
+  actions: PendingAction[];
+  safety: ActionSafety;
+  description: string;
+}
+
+/**
+ * BudgetUsage - Budget consumed by an exploration so far
+ */
+export interface BudgetUsage {
+  actions: number;
+  inputTokens: number;
+  outputTokens: number;
+  elapsedMs: number;
+}
+
+/**
+ * PathStep - A single step of the known path from the entry URL to a state
+ */
+export interface PathStep {
+  fromStateKey: string;
+  actions: PendingAction[];
+}
+
+/**
+ * FrontierState - A state known to the exploration frontier
+ */
+export interface FrontierState {
+  stateKey: string;
+  url: string;
+  depth: number;
+  discoveryOrder: number;
+  path: PathStep[]; // Known path from the entry URL to this state
+  untried: SimplifiedElement[]; // Branch candidates that have not been acted on yet
+  exhausted: boolean;
+  stalls: number; // Number of times the agent picked an already executed transition here
+  backtracks: number; // Number of times the agent returned to this state to explore it
+  deferred: DeferredBatch[]; // Guarded batches to execute once the branch has been explored
+}
+
+/**
+ * FrontierSnapshot - Serializable form of the exploration frontier
+ */
+export interface FrontierSnapshot {
+  states: FrontierState[];
+  currentStateKey: string | null;
+  currentPath: PathStep[];
+  discoveryCounter: number;
+}
+
+/**
+ * AgentCheckpoint - Everything needed to rebuild an agent and continue an exploration
+ * Saved after every persist_data step
+ */
+export interface AgentCheckpoint {
+  state: DavAgentState;
+  entryUrl: string;
+  explorationStrategy: ExplorationStrategy;
+  executedTransitions: string[];
+  loginAttempted: string[];
+  loginSuccessful: boolean;
+  loginRecipe?: LoginRecipe; // Recipe of the latest login attempt (none: no login was attempted)
+  loginStateKey?: string; // State of the login page the latest login attempt was made on
+  relogins: number;
+  credentialSource: CredentialSource;
+  secrets: SecretRedactorSnapshot;
+  interactedModalSelectors: string[];
+  frontier: FrontierSnapshot;
+  limits: ExplorationLimits;
+  budgetUsage: BudgetUsage;
+  scope: ExplorationScope;
+  safetyPolicy: SafetyPolicy;
+  routePatterns?: string[]; // State keys depend on them, so a resumed run uses the same ones
+  guardedTransitions: string[];
+  storageState?: BrowserStorageState; // Cookies and local storage, so authenticated sessions survive a restart
+  persona?: string; // Persona the writes are tagged with
+  testData?: TestDataOptions;
+  testDataState?: TestDataSnapshot; // So a resumed run continues the same value sequence
+  formStates?: Record<string, string>; // Validation error state -> state of the form it was reached from
+  savedAt: string;
+}
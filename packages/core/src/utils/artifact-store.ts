@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import { extname, join, resolve } from 'path';
+
+// Session ids and artifact ids become path segments, so they are restricted to safe file names
+const SAFE_NAME = /^[\w-][\w.-]*$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+  '.webm': 'video/webm',
+};
+
+/**
+ * ArtifactStore - Saves files recorded during an exploration (screenshots, traces, videos) to a local directory
+ * Artifacts live in <rootDir>/<sessionId>/<artifactId>; ids are keyed by step, e.g. step-0003-observe-viewport.png
+ */
+export class ArtifactStore {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = resolve(rootDir);
+  }
+
+  /**
+   * Build the id of an artifact recorded at a step
+   */
+  static artifactId(stepIndex: number, name: string, extension: string): string {
+    return `step-${String(stepIndex).padStart(4, '0')}-${name}.${extension}`;
+  }
+
+  /**
+   * Get the content type of an artifact from its extension
+   */
+  static contentType(artifactId: string): string {
+    return CONTENT_TYPES[extname(artifactId).toLowerCase()] ?? 'application/octet-stream';
+  }
+
+  /**
+   * Save an artifact of a session and return its id
+   */
+  async save(sessionId: string, artifactId: string, data: Buffer | string): Promise<string> {
+    const path = await this.prepare(sessionId, artifactId);
+    await fs.writeFile(path, data);
+    return artifactId;
+  }
+
+  /**
+   * Get the file path a new artifact is written to, for files written by other tools (traces, videos)
+   */
+  async prepare(sessionId: string, artifactId: string): Promise<string> {
+    const path = this.getPath(sessionId, artifactId);
+    if (!path) {
+      throw new Error(`Invalid artifact id: ${sessionId}/${artifactId}`);
+    }
+    await fs.mkdir(join(this.rootDir, sessionId), { recursive: true });
+    return path;
+  }
+
+  /**
+   * List the artifact ids of a session
+   */
+  async list(sessionId: string): Promise<string[]> {
+    if (!SAFE_NAME.test(sessionId)) {
+      return [];
+    }
+    try {
+      return (await fs.readdir(join(this.rootDir, sessionId))).sort();
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Get the file path of an existing artifact (null if the ids are invalid or the artifact does not exist)
+   */
+  async resolvePath(sessionId: string, artifactId: string): Promise<string | null> {
+    const path = this.getPath(sessionId, artifactId);
+    if (!path) {
+      return null;
+    }
+    try {
+      await fs.access(path);
+      return path;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Delete all artifacts of a session
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    if (!SAFE_NAME.test(sessionId)) {
+      return;
+    }
+    await fs.rm(join(this.rootDir, sessionId), { recursive: true, force: true });
+  }
+
+  /**
+   * Build the file path of an artifact, or null if an id is not a safe file name
+   */
+  private getPath(sessionId: string, artifactId: string): string | null {
+    if (!SAFE_NAME.test(sessionId) || !SAFE_NAME.test(artifactId)) {
+      return null;
+    }
+    return join(this.rootDir, sessionId, artifactId);
+  }
+}
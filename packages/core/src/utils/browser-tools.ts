@@ -1,7 +1,46 @@
-import { Browser, Page, chromium } from 'playwright';
-import { SimplifiedElement } from '../types/state.js';
+import { Browser, BrowserContext, Locator, Page, Request, chromium } from 'playwright';
+import { AccessibilityViolation, ApiCall, ElementLocator, PageProblem, RecordingArtifacts, RecordingOptions, ScreenshotSet, SimplifiedElement } from '../types/state.js';
 import { createHash } from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { IGNORE_SELECTORS } from '../agent/helpers/ignore-selectors.js';
+import { PAGE_STRUCTURE_SCRIPT, PageStructure, computeStateIdentity } from '../agent/helpers/state-abstraction.js';
+import { UrlNormalizer } from './url-normalizer.js';
+import { ArtifactStore } from './artifact-store.js';
+import { logger } from './logger.js';
+
+/**
+ * Cookies and local storage of a browser context (Playwright storage state)
+ */
+export type BrowserStorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+// Resource types recorded as API calls - documents, scripts, styles and images are page loads, not API traffic
+const API_RESOURCE_TYPES = new Set(['xhr', 'fetch']);
+
+// Resource types whose failed responses are reported - assets and pages outside the main frame are left out
+const CHECKED_RESOURCE_TYPES = new Set(['document', 'xhr', 'fetch']);
+
+// Impacts axe-core reports; violations without one are reported as minor
+const ACCESSIBILITY_IMPACTS = ['minor', 'moderate', 'serious', 'critical'];
+
+// The axe-core source is only loaded once an audit runs - it is injected into the audited pages
+let axeSource: Promise<string> | null = null;
+
+// Console message the browser logs for each 4xx/5xx response
+const FAILED_RESOURCE_MESSAGE = 'Failed to load resource';
+
+// Page problems kept between two reads - a page logging in a loop must not fill the memory
+const MAX_PAGE_PROBLEMS = 200;
+
+/**
+ * Recordings of a browser run and where they are saved: <name>-trace.zip and <name>-video.webm in the session's artifacts
+ */
+export interface BrowserRecording extends RecordingOptions {
+  store: ArtifactStore;
+  sessionId: string;
+  name: string; // Artifact id prefix, e.g. "exploration" or a retry id
+}
 
 /**
  * BrowserTools - Handles all browser automation operations
@@ -10,6 +49,17 @@ export class BrowserTools {
   private browser: Browser | null = null;
   private page: Page | null = null;
   private headless: boolean;
+  private elementRegistry: Map<number, SimplifiedElement> = new Map(); // Elements of the latest observation by index
+  private resolveSecrets: (text: string) => string = (text) => text; // Turns {{secret}} placeholders into values
+  private urlNormalizer: UrlNormalizer = new UrlNormalizer(); // Maps URLs to route templates for state identity
+  private artifactStore: ArtifactStore | null = null; // Where screenshots are saved (none: screenshots are off)
+  private recording: BrowserRecording | null = null; // Trace and video being recorded
+  private videoDir: string | null = null; // Temporary directory Playwright writes the video to
+  private recordingSaved: Promise<RecordingArtifacts> | null = null; // Set once the recordings are being saved
+  private pageProblems: PageProblem[] = []; // Console errors and uncaught exceptions since the last read
+  private networkCapture: { calls: ApiCall[]; pending: Set<Promise<void>>; stop: () => void } | null = null; // API calls of the running action batch
+  private accessibilityAudit: boolean = false; // Run axe-core on every newly observed state
+  private auditedStateKeys: Set<string> = new Set(); // States audited already - each state is audited once
 
   constructor(headless: boolean = true) {
     this.headless = headless;
@@ -17,8 +67,9 @@ export class BrowserTools {
 
   /**
    * Initialize browser and create a new page
+   * Optionally restores cookies and local storage saved from a previous run and starts a trace and/or video recording
    */
-  async initialize(): Promise<void> {
+  async initialize(storageState?: BrowserStorageState, recording?: BrowserRecording): Promise<void> {
     const windowWidth = 1200;
     // Use 16:9 aspect ratio (common modern display ratio)
     const windowHeight = Math.round(windowWidth * 9 / 16); // 675
@@ -30,27 +81,252 @@ export class BrowserTools {
         `--window-position=0,0`,
       ],
     });
-    this.page = await this.browser.newPage();
+    this.recording = recording?.trace || recording?.video ? recording : null;
+    this.videoDir = this.recording?.video ? await mkdtemp(join(tmpdir(), 'dav-video-')) : null;
+    const context = await this.browser.newContext({
+      ...(storageState ? { storageState } : {}),
+      ...(this.videoDir ? { recordVideo: { dir: this.videoDir, size: { width: windowWidth, height: windowHeight } } } : {}),
+    });
+    if (this.recording?.trace) {
+      await context.tracing.start({ screenshots: true, snapshots: true });
+    }
+    this.page = await context.newPage();
+    this.listenForPageProblems(this.page);
     // Set viewport to match window size
     await this.page.setViewportSize({ width: windowWidth, height: windowHeight });
   }
 
+  /**
+   * Collect console errors, uncaught exceptions and 4xx/5xx responses of a page
+   * A main-frame navigation answered with 404 or 410 is reported as a broken link
+   */
+  private listenForPageProblems(page: Page): void {
+    const add = (problem: PageProblem) => {
+      if (this.pageProblems.length < MAX_PAGE_PROBLEMS) {
+        this.pageProblems.push(problem);
+      }
+    };
+
+    page.on('console', (message) => {
+      // The browser logs every failed response as "Failed to load resource"; the response listener reports those
+      if (message.type() !== 'error' || message.text().startsWith(FAILED_RESOURCE_MESSAGE)) {
+        return;
+      }
+      const location = message.location();
+      add({
+        type: 'console_error',
+        severity: 'error',
+        message: message.text(),
+        stack: location.url ? `at ${location.url}:${location.lineNumber + 1}:${location.columnNumber + 1}` : undefined,
+        url: page.url(),
+        timestamp: new Date().toISOString(),
+      });
+    });
+    page.on('pageerror', (error) => {
+      add({
+        type: 'page_error',
+        severity: 'critical',
+        message: error.message || String(error),
+        stack: error.stack,
+        url: page.url(),
+        timestamp: new Date().toISOString(),
+      });
+    });
+    page.on('response', (response) => {
+      const request = response.request();
+      const status = response.status();
+      if (status < 400 || !CHECKED_RESOURCE_TYPES.has(request.resourceType())) {
+        return;
+      }
+      const isNavigation = request.isNavigationRequest() && request.frame() === page.mainFrame();
+      if (request.resourceType() === 'document' && !isNavigation) {
+        return;
+      }
+      const brokenLink = isNavigation && (status === 404 || status === 410);
+      add({
+        type: brokenLink ? 'broken_link' : 'http_error',
+        severity: brokenLink || status >= 500 ? 'error' : 'warning',
+        message: brokenLink
+          ? `Link target ${response.url()} returned ${status} ${response.statusText()}`.trim()
+          : `${request.method()} ${response.url()} returned ${status} ${response.statusText()}`.trim(),
+        url: page.url(),
+        timestamp: new Date().toISOString(),
+      });
+    });
+  }
+
+  /**
+   * Get a hash of the page's full DOM, used to tell whether an action changed anything
+   * Unlike the fingerprint this includes text and attributes of non-interactive elements
+   */
+  async getDomHash(): Promise<string> {
+    if (!this.page) {
+      throw new Error('Browser not initialized.');
+    }
+    const html = await this.page.evaluate(() => document.documentElement.outerHTML);
+    return createHash('sha256').update(html).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Get the validation messages tied to a form field: the browser's own message of an invalid field, the elements
+   * referenced by aria-errormessage (and aria-describedby once the field is aria-invalid) and error elements next to it
+   * Returns an empty list if the field is not on the page anymore
+   */
+  async getFieldValidationMessages(selector: string, locator?: ElementLocator): Promise<string[]> {
+    if (!this.page) {
+      throw new Error('Browser not initialized.');
+    }
+    const target = locator ? await this.resolveLocator(locator, selector) : null;
+    const field = target ?? this.page.locator(this.sanitizeSelector(selector));
+    try {
+      if (await field.count() !== 1) {
+        return [];
+      }
+      return await field.evaluate((element) => {
+        const messages: string[] = [];
+        const add = (text: string | null | undefined) => {
+          const message = (text || '').replace(/\s+/g, ' ').trim();
+          if (message && message.length <= 200 && !messages.includes(message)) {
+            messages.push(message);
+          }
+        };
+        const isVisible = (node: Element) => {
+          const style = window.getComputedStyle(node);
+          return style.display !== 'none' && style.visibility !== 'hidden' && node.getClientRects().length > 0;
+        };
+
+        const input = element as HTMLInputElement;
+        if (input.validity && !input.validity.valid) {
+          add(input.validationMessage);
+        }
+        const references = [element.getAttribute('aria-errormessage')];
+        if (element.getAttribute('aria-invalid') === 'true') {
+          references.push(element.getAttribute('aria-describedby'));
+        }
+        references.join(' ').split(/\s+/).forEach((id) => {
+          const reference = id ? document.getElementById(id) : null;
+          if (reference && isVisible(reference)) {
+            add(reference.textContent);
+          }
+        });
+        // Errors rendered in the field's own container (e.g. its form group), not the whole form
+        const container = element.parentElement;
+        if (container && container.tagName !== 'FORM' && container.querySelectorAll('input, select, textarea').length === 1) {
+          container.querySelectorAll('[role="alert"], .invalid-feedback, .error-message, .field-error, [class*="error"], [class*="invalid"]')
+            .forEach((node) => {
+              if (node !== element && isVisible(node)) {
+                add(node.textContent);
+              }
+            });
+        }
+        return messages;
+      });
+    } catch (error) {
+      // Invalid selector or the page navigated away
+      return [];
+    }
+  }
+
+  /**
+   * Get the console errors and uncaught exceptions reported since the last call, and clear them
+   */
+  takePageProblems(): PageProblem[] {
+    const problems = this.pageProblems;
+    this.pageProblems = [];
+    return problems;
+  }
+
   /**
    * Close browser and cleanup
    */
   async close(): Promise<void> {
+    await this.saveRecording();
     if (this.browser) {
       await this.browser.close();
       this.browser = null;
       this.page = null;
+      this.networkCapture = null;
+    }
+  }
+
+  /**
+   * Stop the trace and video recordings and save them as session artifacts
+   * Finishing a video closes the page, so the browser cannot be used afterwards when a video is recorded.
+   * Can be called several times (the recordings are saved once); a recording that fails to save is logged and left out
+   */
+  saveRecording(): Promise<RecordingArtifacts> {
+    if (!this.recordingSaved) {
+      this.recordingSaved = this.writeRecording();
     }
+    return this.recordingSaved;
+  }
+
+  /**
+   * Write the trace and the video of the current page to the artifact store
+   */
+  private async writeRecording(): Promise<RecordingArtifacts> {
+    const artifacts: RecordingArtifacts = {};
+    const recording = this.recording;
+    const page = this.page;
+    if (!recording || !page) {
+      return artifacts;
+    }
+
+    if (recording.trace) {
+      const artifactId = `${recording.name}-trace.zip`;
+      try {
+        await page.context().tracing.stop({ path: await recording.store.prepare(recording.sessionId, artifactId) });
+        artifacts.trace = artifactId;
+      } catch (error) {
+        logger.warn('BrowserTools', 'Could not save the trace', {
+          error: error instanceof Error ? error.message : String(error),
+        }, recording.sessionId);
+      }
+    }
+
+    if (recording.video) {
+      const artifactId = `${recording.name}-video.webm`;
+      try {
+        const video = page.video();
+        // The video file is only complete once its page is closed
+        await page.context().close();
+        this.page = null;
+        if (video) {
+          await video.saveAs(await recording.store.prepare(recording.sessionId, artifactId));
+          artifacts.video = artifactId;
+        }
+      } catch (error) {
+        logger.warn('BrowserTools', 'Could not save the video', {
+          error: error instanceof Error ? error.message : String(error),
+        }, recording.sessionId);
+      } finally {
+        if (this.videoDir) {
+          await rm(this.videoDir, { recursive: true, force: true });
+          this.videoDir = null;
+        }
+      }
+    }
+
+    return artifacts;
   }
 
   /**
    * Observe state - Navigate to URL and extract Simplified/Structured DOM
    * This is critical for minimizing LLM token cost and focusing attention
+   * The state key identifies the page structurally (see state-abstraction), the fingerprint hashes its full DOM state
    */
-  async observe(url?: string, sessionId?: string, stepIndex?: number): Promise<{ domState: string; currentUrl: string; fingerprint: string }> {
+  async observe(url?: string, sessionId?: string, stepIndex?: number): Promise<{
+    domState: string;
+    currentUrl: string;
+    fingerprint: string;
+    stateKey: string;
+    stateLabel: string;
+    urlTemplate: string;
+    elements: SimplifiedElement[];
+    validationErrors: string[]; // Validation messages shown on the page
+    screenshots?: ScreenshotSet; // Taken when a session and step are given and an artifact store is set
+    accessibilityViolations?: AccessibilityViolation[]; // Found when the audit is on and the state is observed the first time
+  }> {
     if (!this.page) {
       throw new Error('Browser not initialized. Call initialize() first.');
     }
@@ -201,6 +477,209 @@ export class BrowserTools {
           return false;
         }
         
+        function getImplicitRole(element) {
+          const tag = element.tagName;
+          const type = (element.getAttribute('type') || 'text').toLowerCase();
+          if (tag === 'A' && element.hasAttribute('href')) return 'link';
+          if (tag === 'BUTTON') return 'button';
+          if (tag === 'SELECT') return 'combobox';
+          if (tag === 'TEXTAREA') return 'textbox';
+          if (/^H[1-6]$/.test(tag)) return 'heading';
+          if (tag === 'INPUT') {
+            if (type === 'submit' || type === 'button' || type === 'reset' || type === 'image') return 'button';
+            if (type === 'checkbox') return 'checkbox';
+            if (type === 'radio') return 'radio';
+            if (type === 'search') return 'searchbox';
+            if (type === 'number') return 'spinbutton';
+            if (type === 'text' || type === 'email' || type === 'tel' || type === 'url') return 'textbox';
+          }
+          return undefined;
+        }
+        
+        function getAccessibleName(element) {
+          let name = element.getAttribute('aria-label') || '';
+          if (!name && element.getAttribute('aria-labelledby')) {
+            name = element.getAttribute('aria-labelledby').split(' ').map(function(id) {
+              const labelElement = document.getElementById(id);
+              return labelElement ? labelElement.textContent || '' : '';
+            }).join(' ');
+          }
+          if (!name && element.labels && element.labels.length > 0) {
+            name = element.labels[0].textContent || '';
+          }
+          if (!name && ['INPUT', 'TEXTAREA', 'SELECT'].indexOf(element.tagName) === -1) {
+            name = element.textContent || '';
+          }
+          if (!name && element.tagName === 'INPUT' && (element.type === 'submit' || element.type === 'button')) {
+            name = element.value || '';
+          }
+          if (!name) {
+            name = element.getAttribute('title') || element.getAttribute('placeholder') || '';
+          }
+          name = name.replace(/\\s+/g, ' ').trim();
+          // Long names are usually whole containers - they make poor locators
+          return name && name.length <= 100 ? name : undefined;
+        }
+        
+        function getXPath(element) {
+          const segments = [];
+          let current = element;
+          while (current && current.nodeType === 1) {
+            let position = 1;
+            let sibling = current.previousElementSibling;
+            while (sibling) {
+              if (sibling.tagName === current.tagName) {
+                position++;
+              }
+              sibling = sibling.previousElementSibling;
+            }
+            segments.unshift(current.tagName.toLowerCase() + '[' + position + ']');
+            current = current.parentElement;
+          }
+          return '/' + segments.join('/');
+        }
+
+        function quote(value) {
+          return '"' + String(value).replace(/\\\\/g, '\\\\\\\\').replace(/"/g, '\\\\"') + '"';
+        }
+
+        function normalizeText(value) {
+          return (value || '').replace(/\\s+/g, ' ').trim();
+        }
+
+        // Match counts of the page, built on first use so an observation scans the document once per selector,
+        // label map and tag instead of once per element
+        const selectorCounts = new Map();
+        let labelCounts = null;
+        const textCounts = new Map();
+
+        function increment(counts, key) {
+          counts.set(key, (counts.get(key) || 0) + 1);
+        }
+
+        function countMatches(selector) {
+          if (!selectorCounts.has(selector)) {
+            try {
+              selectorCounts.set(selector, document.querySelectorAll(selector).length);
+            } catch (e) {
+              selectorCounts.set(selector, 0);
+            }
+          }
+          return selectorCounts.get(selector);
+        }
+
+        function getLabelText(element) {
+          if (element.getAttribute('aria-label')) {
+            return normalizeText(element.getAttribute('aria-label'));
+          }
+          return element.labels && element.labels.length > 0 ? normalizeText(element.labels[0].textContent) : '';
+        }
+
+        // Approximates getByLabel(label, { exact: true }) - form fields with the same label
+        function countLabelMatches(label) {
+          if (!labelCounts) {
+            labelCounts = new Map();
+            document.querySelectorAll('input, select, textarea').forEach(function(candidate) {
+              increment(labelCounts, getLabelText(candidate));
+            });
+          }
+          return labelCounts.get(label) || 0;
+        }
+
+        // Elements of a tag with the same text, counted per tag the first time the tag is asked for
+        function countTextMatches(tag, text) {
+          if (!textCounts.has(tag)) {
+            const counts = new Map();
+            document.querySelectorAll(tag).forEach(function(candidate) {
+              increment(counts, normalizeText(candidate.textContent));
+            });
+            textCounts.set(tag, counts);
+          }
+          return textCounts.get(tag).get(text) || 0;
+        }
+
+        // CSS path from the closest uniquely identified ancestor, with :nth-of-type where siblings share a tag
+        function getNthOfTypePath(element) {
+          const segments = [];
+          let current = element;
+          while (current && current !== document.body && current.nodeType === 1) {
+            if (current.id && countMatches('#' + CSS.escape(current.id)) === 1) {
+              segments.unshift('#' + CSS.escape(current.id));
+              return segments.join(' > ');
+            }
+            const tag = current.tagName.toLowerCase();
+            let position = 1;
+            let sameTagSiblings = 0;
+            Array.from(current.parentElement ? current.parentElement.children : []).forEach(function(sibling) {
+              if (sibling.tagName === current.tagName) {
+                sameTagSiblings++;
+                if (sibling.compareDocumentPosition(current) & Node.DOCUMENT_POSITION_FOLLOWING) {
+                  position++;
+                }
+              }
+            });
+            segments.unshift(sameTagSiblings > 1 ? tag + ':nth-of-type(' + position + ')' : tag);
+            current = current.parentElement;
+          }
+          segments.unshift('body');
+          return segments.join(' > ');
+        }
+
+        // Candidate selectors in order of robustness; unique ones rank first, the rest stay as last-resort alternates
+        // Role and accessible name are kept on the locator itself and resolved with getByRole
+        function buildSelectors(element) {
+          const tag = element.tagName.toLowerCase();
+          const candidates = [];
+          function add(selector, matches) {
+            if (selector && !candidates.some(function(candidate) { return candidate.selector === selector; })) {
+              candidates.push({ selector: selector, unique: matches === 1 });
+            }
+          }
+
+          if (element.id) {
+            const idSelector = '#' + CSS.escape(element.id);
+            add(idSelector, countMatches(idSelector));
+          }
+          ['data-testid', 'data-cy'].forEach(function(attribute) {
+            const value = element.getAttribute(attribute);
+            if (value) {
+              const attributeSelector = '[' + attribute + '=' + quote(value) + ']';
+              add(attributeSelector, countMatches(attributeSelector));
+            }
+          });
+          if (element.getAttribute('name')) {
+            const nameSelector = tag + '[name=' + quote(element.getAttribute('name')) + ']';
+            add(nameSelector, countMatches(nameSelector));
+          }
+          if (['INPUT', 'SELECT', 'TEXTAREA'].indexOf(element.tagName) !== -1) {
+            const label = getLabelText(element);
+            if (label) {
+              add('internal:label=' + quote(label) + 's', countLabelMatches(label));
+            }
+          }
+          const classes = element.className
+            ? String(element.className)
+                .split(' ')
+                .filter(function(c) { return c && !c.includes('=') && !c.includes(':'); })
+                .map(function(c) { return c.replace(/[^a-zA-Z0-9_-]/g, ''); })
+                .filter(function(c) { return c.length > 0; })
+            : [];
+          if (classes.length > 0) {
+            const classSelector = tag + '.' + classes.join('.');
+            add(classSelector, countMatches(classSelector));
+          }
+          const path = getNthOfTypePath(element);
+          add(path, countMatches(path));
+          const text = normalizeText(element.textContent);
+          if (text && text.length <= 100 && ['INPUT', 'SELECT', 'TEXTAREA'].indexOf(element.tagName) === -1) {
+            add(tag + ':text-is(' + quote(text) + ')', countTextMatches(tag, text));
+          }
+
+          return candidates.filter(function(candidate) { return candidate.unique; })
+            .concat(candidates.filter(function(candidate) { return !candidate.unique; }))
+            .map(function(candidate) { return candidate.selector; });
+        }
+
         const selectors = [
           'a[href]', 'button', 'input', 'textarea',
           '[role="button"]', '[role="link"]', 'select', '[onclick]',
@@ -223,8 +702,7 @@ export class BrowserTools {
             }
             
             let text = '';
-            let selectorStr = '';
-            
+
             if (element.textContent) {
               text = element.textContent.trim().substring(0, 30);
             } else if (element.getAttribute('aria-label')) {
@@ -235,31 +713,6 @@ export class BrowserTools {
               text = element.getAttribute('title').substring(0, 30);
             }
             
-            // Prioritize most specific selectors to avoid matching multiple elements
-            if (element.id) {
-              selectorStr = '#' + element.id;
-            } else if (element.getAttribute('data-cy')) {
-              // data-cy attributes are typically unique and specific for testing
-              selectorStr = '[data-cy="' + element.getAttribute('data-cy') + '"]';
-            } else if (element.getAttribute('data-testid')) {
-              // data-testid is another common unique testing attribute
-              selectorStr = '[data-testid="' + element.getAttribute('data-testid') + '"]';
-            } else if (element.getAttribute('name')) {
-              selectorStr = '[name="' + element.getAttribute('name') + '"]';
-            } else {
-              // Fall back to tag + classes (less specific, may match multiple elements)
-              const tag = element.tagName.toLowerCase();
-              const classes = element.className
-                ? '.' + String(element.className)
-                    .split(' ')
-                    .filter(function(c) { return c && !c.includes('=') && !c.includes(':'); })
-                    .map(function(c) { return c.replace(/[^a-zA-Z0-9_-]/g, ''); })
-                    .filter(function(c) { return c.length > 0; })
-                    .join('.')
-                : '';
-              selectorStr = tag + classes;
-            }
-            
             const inModal = isInModal(element);
             
             // Check if field is required (marked with * or has required attribute)
@@ -316,15 +769,60 @@ export class BrowserTools {
               isDisabled = true;
             }
             
+            // Registry entry: every way to find this exact element again
+            const role = element.getAttribute('role') || getImplicitRole(element);
+            const name = getAccessibleName(element);
+            const alternates = buildSelectors(element);
+            const locator = {
+              testId: element.getAttribute('data-testid') || element.getAttribute('data-cy') || undefined,
+              role: role,
+              name: name,
+              xpath: getXPath(element),
+              alternates: alternates
+            };
+            
+            // Constraints of form fields, so test data can be generated that the field accepts
+            let field;
+            if (['INPUT', 'TEXTAREA', 'SELECT'].indexOf(element.tagName) !== -1) {
+              const attribute = function(name) { return element.getAttribute(name) || undefined; };
+              const length = function(name) {
+                const value = parseInt(element.getAttribute(name) || '', 10);
+                return isNaN(value) || value < 0 ? undefined : value;
+              };
+              const labelElement = (element.id && document.querySelector('label[for="' + element.id + '"]')) || element.closest('label');
+              field = {
+                name: attribute('name'),
+                label: labelElement ? normalizeText(labelElement.textContent).substring(0, 60) || undefined : undefined,
+                placeholder: attribute('placeholder'),
+                autocomplete: attribute('autocomplete'),
+                inputMode: attribute('inputmode'),
+                pattern: attribute('pattern'),
+                minLength: length('minlength'),
+                maxLength: length('maxlength'),
+                min: attribute('min'),
+                max: attribute('max'),
+                step: attribute('step'),
+                options: element.tagName === 'SELECT'
+                  ? Array.from(element.options)
+                    .filter(function(option) { return !option.disabled; })
+                    .slice(0, 50)
+                    .map(function(option) { return { value: option.value, label: normalizeText(option.textContent) }; })
+                  : undefined
+              };
+            }
+
             const simplified = {
+              index: elements.length,
+              locator: locator,
               tag: element.tagName,
               text: text || '(no text)',
-              selector: selectorStr,
+              selector: alternates[0],
               type: element.getAttribute('type') || undefined,
               role: element.getAttribute('role') || undefined,
               isInModal: inModal,
               isRequired: isRequired,
-              isDisabled: isDisabled
+              isDisabled: isDisabled,
+              field: field
             };
             
             elements.push(simplified);
@@ -337,19 +835,107 @@ export class BrowserTools {
     
     const simplifiedElements = await this.page.evaluate(evaluateCode) as SimplifiedElement[];
 
+    // Replace the element registry - indices are only valid for the latest observation
+    this.elementRegistry = new Map(simplifiedElements.map((element) => [element.index, element]));
+
     // Convert to structured string format for LLM consumption
     const domState = this.formatDOMState(simplifiedElements);
 
     // Generate fingerprint (hash of domState for uniqueness)
     const fingerprint = createHash('sha256').update(domState).digest('hex').substring(0, 16);
 
+    // Identify the state by its structure, so modals and tabs are separate states and volatile text is not
+    const structure = await this.page.evaluate(PAGE_STRUCTURE_SCRIPT) as PageStructure;
+    const identity = computeStateIdentity(this.urlNormalizer.normalize(finalUrl), structure);
+
+    const screenshots = sessionId !== undefined && stepIndex !== undefined
+      ? await this.captureScreenshots(sessionId, stepIndex, 'observe')
+      : undefined;
+
+    const accessibilityViolations = this.accessibilityAudit && sessionId !== undefined && !this.auditedStateKeys.has(identity.stateKey)
+      ? await this.auditAccessibility(identity.stateKey, sessionId)
+      : undefined;
+
     return {
       domState,
       currentUrl: finalUrl,
       fingerprint,
+      stateKey: identity.stateKey,
+      stateLabel: identity.label,
+      urlTemplate: identity.urlTemplate,
+      elements: simplifiedElements,
+      validationErrors: structure.validationErrors ?? [],
+      screenshots,
+      accessibilityViolations,
     };
   }
 
+  /**
+   * Run the bundled axe-core on the current page and return one violation per offending element
+   * Returns undefined if the audit fails - like screenshots, the audit never stops the exploration
+   */
+  private async auditAccessibility(stateKey: string, sessionId: string): Promise<AccessibilityViolation[] | undefined> {
+    if (!this.page) {
+      return undefined;
+    }
+    try {
+      axeSource ??= import('axe-core').then((axe) => axe.default.source);
+      if (!(await this.page.evaluate('typeof window.axe !== "undefined"'))) {
+        await this.page.evaluate(await axeSource);
+      }
+      // Only the fields kept are returned from the page - full axe results are large
+      const violations = await this.page.evaluate(`
+        window.axe.run(document, { resultTypes: ['violations'] }).then(function(results) {
+          return results.violations.flatMap(function(rule) {
+            return rule.nodes.map(function(node) {
+              return {
+                ruleId: rule.id,
+                impact: node.impact || rule.impact,
+                help: rule.help,
+                helpUrl: rule.helpUrl,
+                selector: node.target.map(function(target) { return Array.isArray(target) ? target.join(' ') : target; }).join(' '),
+                html: node.html,
+              };
+            });
+          });
+        })
+      `) as AccessibilityViolation[];
+      this.auditedStateKeys.add(stateKey);
+      return violations.map((violation) => ({
+        ...violation,
+        impact: ACCESSIBILITY_IMPACTS.includes(violation.impact) ? violation.impact : 'minor',
+      }));
+    } catch (error) {
+      logger.warn('BrowserTools', 'Could not run the accessibility audit', {
+        error: error instanceof Error ? error.message : String(error),
+      }, sessionId);
+      return undefined;
+    }
+  }
+
+  /**
+   * Take a full page and a viewport screenshot and save them to the artifact store
+   * Returns undefined without an artifact store or if taking them fails - screenshots never stop the exploration
+   */
+  async captureScreenshots(sessionId: string, stepIndex: number, name: string): Promise<ScreenshotSet | undefined> {
+    if (!this.page || !this.artifactStore) {
+      return undefined;
+    }
+    try {
+      const fullPage = await this.page.screenshot({ fullPage: true });
+      const viewport = await this.page.screenshot();
+      return {
+        fullPage: await this.artifactStore.save(sessionId, ArtifactStore.artifactId(stepIndex, `${name}-full`, 'png'), fullPage),
+        viewport: await this.artifactStore.save(sessionId, ArtifactStore.artifactId(stepIndex, `${name}-viewport`, 'png'), viewport),
+      };
+    } catch (error) {
+      logger.warn('BrowserTools', `Could not capture ${name} screenshots`, {
+        error: error instanceof Error ? error.message : String(error),
+      }, sessionId);
+      return undefined;
+    }
+  }
+
   /**
    * Format simplified elements into a concise string for LLM
    */
@@ -375,8 +961,8 @@ export class BrowserTools {
     // Add modal section first if modals are present
     if (modalElements.length > 0) {
       lines.push(`=== MODAL SECTION (${modalElements.length} elements) - PRIORITIZE THESE ===`);
-      modalElements.forEach((el, idx) => {
-        const parts = [`[${idx}] ${el.tag} [MODAL]`];
+      modalElements.forEach((el) => {
+        const parts = [`[${el.index}] ${el.tag} [MODAL]`];
         if (el.text) parts.push(`Text: "${el.text}"`);
         if (el.type) parts.push(`Type: ${el.type}`);
         if (el.role) parts.push(`Role: ${el.role}`);
@@ -396,8 +982,8 @@ export class BrowserTools {
     // Add regular elements section
     if (regularElements.length > 0) {
       lines.push(`Actionable Elements (${regularElements.length}):`);
-      regularElements.forEach((el, idx) => {
-        const parts = [`[${idx}] ${el.tag}`];
+      regularElements.forEach((el) => {
+        const parts = [`[${el.index}] ${el.tag}`];
         if (el.text) parts.push(`Text: "${el.text}"`);
         if (el.type) parts.push(`Type: ${el.type}`);
         if (el.role) parts.push(`Role: ${el.role}`);
@@ -416,6 +1002,9 @@ export class BrowserTools {
    */
   private sanitizeSelector(selector: string): string {
     if (!selector) return selector;
+
+    // Playwright engine selectors (label, xpath) are generated by observe and kept as-is
+    if (/^(internal:|xpath=)/.test(selector)) return selector;
     
     // Remove any parts with = (attribute-like syntax that's not valid CSS)
     // Split by space and filter out invalid parts
@@ -430,39 +1019,142 @@ export class BrowserTools {
     return parts.join(' ').trim();
   }
 
+  /**
+   * Set how secret placeholders in typed text are resolved to their values
+   * Text is only resolved here, right before it is typed, so callers never handle the secret values
+   */
+  setSecretResolver(resolver: (text: string) => string): void {
+    this.resolveSecrets = resolver;
+  }
+
+  /**
+   * Set the normalizer mapping observed URLs to route templates (holds the route patterns of the exploration)
+   */
+  setUrlNormalizer(normalizer: UrlNormalizer): void {
+    this.urlNormalizer = normalizer;
+  }
+
+  /**
+   * Set the artifact store screenshots are saved to (null turns screenshots off)
+   */
+  setArtifactStore(store: ArtifactStore | null): void {
+    this.artifactStore = store;
+  }
+
+  /**
+   * Turn the axe-core accessibility audit of newly observed states on or off
+   */
+  setAccessibilityAudit(enabled: boolean): void {
+    this.accessibilityAudit = enabled;
+  }
+
+  /**
+   * Get an element of the latest observation by its index
+   */
+  getRegisteredElement(index: number): SimplifiedElement | undefined {
+    return this.elementRegistry.get(index);
+  }
+
+  /**
+   * Resolve an element locator to a Playwright locator that matches exactly one element
+   * Strategies are tried from most to least robust; returns null if none is unique
+   */
+  private async resolveLocator(locator: ElementLocator, selector?: string): Promise<Locator | null> {
+    if (!this.page) {
+      throw new Error('Browser not initialized.');
+    }
+
+    const candidates: Locator[] = [];
+    // Ranked alternates were checked for uniqueness at observation time
+    for (const alternate of locator.alternates ?? []) {
+      candidates.push(this.page.locator(alternate));
+    }
+    if (locator.testId) {
+      const testId = locator.testId.replace(/"/g, '\\"');
+      candidates.push(this.page.locator(`[data-testid="${testId}"], [data-cy="${testId}"]`));
+    }
+    // Role and accessible name are not among the alternates: Playwright resolves them with its own accessibility tree
+    if (locator.role && locator.name) {
+      candidates.push(this.page.getByRole(locator.role as Parameters<Page['getByRole']>[0], { name: locator.name, exact: true }));
+    }
+    candidates.push(this.page.locator(`xpath=${locator.xpath}`));
+    if (selector) {
+      candidates.push(this.page.locator(this.sanitizeSelector(selector)));
+    }
+
+    for (const candidate of candidates) {
+      try {
+        if (await candidate.count() === 1) {
+          return candidate;
+        }
+      } catch (error) {
+        // Invalid selector for this strategy - try the next one
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve the registered element of a locator for an action
+   * Throws an error if no strategy of the locator matches exactly one element - acting on a guess could hit another element
+   */
+  private async requireLocator(selector: string, locator: ElementLocator): Promise<Locator> {
+    const target = await this.resolveLocator(locator, selector);
+    if (!target) {
+      throw new Error(`No unique element matches the locator of ${selector} (xpath: ${locator.xpath})`);
+    }
+    return target;
+  }
+
   /**
    * Click an element by selector
+   * When a locator from the element registry is given, the exact registered element is clicked
    */
-  async clickElement(selector: string): Promise<void> {
+  async clickElement(selector: string, locator?: ElementLocator): Promise<void> {
     if (!this.page) {
       throw new Error('Browser not initialized.');
     }
-    // Sanitize selector to remove invalid characters
-    const sanitized = this.sanitizeSelector(selector);
-    await this.page.click(sanitized);
+    if (locator) {
+      await (await this.requireLocator(selector, locator)).click();
+    } else {
+      // Sanitize selector to remove invalid characters
+      const sanitized = this.sanitizeSelector(selector);
+      await this.page.click(sanitized);
+    }
     // Wait for navigation or state change
     await this.page.waitForTimeout(500);
   }
 
   /**
    * Type text into an input element
+   * When a locator from the element registry is given, the exact registered element is filled
    */
-  async typeText(selector: string, text: string): Promise<void> {
+  async typeText(selector: string, text: string, locator?: ElementLocator): Promise<void> {
     if (!this.page) {
       throw new Error('Browser not initialized.');
     }
+    if (locator) {
+      await (await this.requireLocator(selector, locator)).fill(this.resolveSecrets(text));
+      return;
+    }
     // Sanitize selector to remove invalid characters
     const sanitized = this.sanitizeSelector(selector);
-    await this.page.fill(sanitized, text);
+    await this.page.fill(sanitized, this.resolveSecrets(text));
   }
 
   /**
    * Select an option in a dropdown
+   * When a locator from the element registry is given, the exact registered element is used
    */
-  async selectOption(selector: string, value: string): Promise<void> {
+  async selectOption(selector: string, value: string, locator?: ElementLocator): Promise<void> {
     if (!this.page) {
       throw new Error('Browser not initialized.');
     }
+    if (locator) {
+      await (await this.requireLocator(selector, locator)).selectOption(value);
+      return;
+    }
     // Sanitize selector to remove invalid characters
     const sanitized = this.sanitizeSelector(selector);
     await this.page.selectOption(sanitized, value);
@@ -491,6 +1183,31 @@ export class BrowserTools {
     }
   }
 
+  /**
+   * Check if an element matching a selector is visible on the current page
+   */
+  async isVisible(selector: string): Promise<boolean> {
+    if (!this.page) {
+      throw new Error('Browser not initialized.');
+    }
+    try {
+      return await this.page.locator(selector).first().isVisible();
+    } catch (error) {
+      // Invalid selector
+      return false;
+    }
+  }
+
+  /**
+   * Get the cookies and local storage of the current browser context
+   */
+  async getStorageState(): Promise<BrowserStorageState> {
+    if (!this.page) {
+      throw new Error('Browser not initialized.');
+    }
+    return this.page.context().storageState();
+  }
+
   /**
    * Get current page URL
    */
@@ -567,5 +1284,85 @@ export class BrowserTools {
       this.page.off('requestfailed', responseHandler);
     }
   }
+
+  /**
+   * Start recording the XHR/fetch requests of the page (a capture that is still running is discarded)
+   */
+  startNetworkCapture(): void {
+    const page = this.page;
+    if (!page) {
+      throw new Error('Browser not initialized.');
+    }
+    this.networkCapture?.stop();
+
+    const calls: ApiCall[] = [];
+    const pending = new Set<Promise<void>>();
+    const track = (request: Request, failure?: string) => {
+      if (!API_RESOURCE_TYPES.has(request.resourceType())) {
+        return;
+      }
+      const recorded = this.toApiCall(request, failure).then((call) => {
+        calls.push(call);
+      });
+      pending.add(recorded);
+      recorded.finally(() => pending.delete(recorded));
+    };
+    const finishedHandler = (request: Request) => track(request);
+    const failedHandler = (request: Request) => track(request, request.failure()?.errorText ?? 'Request failed');
+
+    page.on('requestfinished', finishedHandler);
+    page.on('requestfailed', failedHandler);
+    this.networkCapture = {
+      calls,
+      pending,
+      stop: () => {
+        page.off('requestfinished', finishedHandler);
+        page.off('requestfailed', failedHandler);
+      },
+    };
+  }
+
+  /**
+   * Stop recording requests and return the API calls made since startNetworkCapture, in order of their start
+   * Requests still in flight are not included
+   */
+  async stopNetworkCapture(): Promise<ApiCall[]> {
+    const capture = this.networkCapture;
+    if (!capture) {
+      return [];
+    }
+    capture.stop();
+    this.networkCapture = null;
+    await Promise.all(Array.from(capture.pending));
+    return capture.calls.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  }
+
+  /**
+   * Build the API call metadata of a finished or failed request
+   * The URL template drops the query string so an endpoint called with different parameters is one endpoint
+   */
+  private async toApiCall(request: Request, failure?: string): Promise<ApiCall> {
+    const response = failure ? null : await request.response().catch(() => null);
+    const timing = request.timing();
+    const startTime = timing.startTime > 0 ? timing.startTime : Date.now();
+    const url = request.url();
+
+    const call: ApiCall = {
+      method: request.method(),
+      url,
+      urlTemplate: this.urlNormalizer.normalize(url).split('?')[0],
+      status: response?.status() ?? 0,
+      durationMs: Math.round(timing.responseEnd >= 0 ? timing.responseEnd : Date.now() - startTime),
+      startedAt: new Date(startTime).toISOString(),
+    };
+    const contentType = response?.headers()['content-type'];
+    if (contentType) {
+      call.contentType = contentType.split(';')[0].trim();
+    }
+    if (failure) {
+      call.failure = failure;
+    }
+    return call;
+  }
 }
 
@@ -0,0 +1,142 @@
+import type {
+  AccessibilityIssue,
+  AgentCheckpoint,
+  ApiCall,
+  ElementLocator,
+  Finding,
+  FormValidation,
+  GraphWrite,
+  LoginRecipe,
+  LogoutReason,
+  ScreenshotSet,
+} from '../types/state.js';
+import type { AppConfig } from '../services/config-service.js';
+import { Neo4jTools } from './neo4j-tools.js';
+import { MemoryGraphStore } from './memory-graph-store.js';
+
+export type GraphStoreType = 'neo4j' | 'memory';
+
+// Limit of graph reads that need every state and transition of a session
+export const SESSION_GRAPH_LIMIT = 10000;
+
+export interface GraphNode {
+  id: string; // State key (the URL for states recorded without one, "external:<url>" for external pages)
+  label: string; // Display name of the state, e.g. "Users list + Create User modal"
+  url: string; // Concrete URL, used to replay paths to the state
+  urlTemplate?: string; // Route template, e.g. /users/:id (absent for external pages)
+  fingerprint?: string;
+  screenshots?: ScreenshotSet; // Artifact ids of the latest screenshots of the state
+  accessibilityViolations?: number; // Violations found by the accessibility audit (absent if the state was not audited)
+  persona?: string; // Persona the state was reached as (campaign sessions)
+  external?: boolean; // Page outside the exploration scope
+}
+
+export interface GraphEdge {
+  source: string; // Node id
+  target: string; // Node id
+  sourceUrl: string;
+  targetUrl: string;
+  label: string;
+  selector?: string;
+  locators?: Array<ElementLocator | null>; // Registered locators of the batch's elements, one per action
+  screenshotsBefore?: ScreenshotSet; // Artifact ids of the page before and after the batch
+  screenshotsAfter?: ScreenshotSet;
+  apiCalls?: ApiCall[]; // XHR/fetch requests of the latest execution
+  persona?: string; // Persona the action was executed as (campaign sessions)
+  external?: boolean; // Action that leads out of the exploration scope
+  notExecuted?: boolean; // Action held back by the safety policy (self-loop on its state)
+  safety?: string; // Safety classification of a held back action
+  loggedOut?: LogoutReason; // Action after which the agent was bounced back to the login page
+}
+
+export interface GraphData {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export type SessionStatus = 'idle' | 'running' | 'paused' | 'completed' | 'budget_exhausted' | 'error';
+
+export interface TokenUsageTotals {
+  exploration: { inputTokens: number; outputTokens: number };
+  userStories: { inputTokens: number; outputTokens: number };
+  total: { inputTokens: number; outputTokens: number };
+}
+
+/**
+ * Session metadata as persisted by a graph store
+ */
+export interface SessionMetadata {
+  sessionId: string;
+  status: SessionStatus;
+  url: string;
+  createdAt: Date;
+  updatedAt: Date;
+  error?: string;
+  budgetReason?: string; // Limit that ended the exploration (BUDGET_EXHAUSTED)
+  tokenUsage?: TokenUsageTotals;
+  campaignId?: string; // Exploration campaign the session belongs to
+  persona?: string; // Persona the session explored as
+}
+
+/**
+ * User stories as persisted by a graph store
+ */
+export interface StoredUserStories {
+  stories: Array<{
+    title: string;
+    description: string;
+    steps: string[];
+    flow: Array<{ from: string; to: string; action: string }>;
+  }>;
+  summary: string;
+}
+
+/**
+ * GraphStore - Persistence for the exploration graph, session metadata, user stories, checkpoints and login recipes
+ * Implemented by Neo4jTools (Neo4j server) and MemoryGraphStore (embedded, optionally backed by a JSON file)
+ */
+export interface GraphStore {
+  verifyConnectivity(): Promise<boolean>;
+  ensureIndexes(): Promise<void>;
+  close(): Promise<void>;
+
+  // Exploration graph
+  applyWrites(writes: GraphWrite[]): Promise<void>;
+  transitionExists(fromStateKey: string, toStateKey: string, action: string, sessionId: string, selector?: string): Promise<boolean>;
+  queryGraph(limit: number, sessionId?: string, includeExternal?: boolean, includeNotExecuted?: boolean, includeLogouts?: boolean): Promise<GraphData>;
+  getGraphCounts(sessionIds: string[]): Promise<Map<string, { nodes: number; edges: number }>>;
+  queryFindings(sessionId: string): Promise<Finding[]>;
+  queryAccessibilityViolations(sessionId: string): Promise<AccessibilityIssue[]>;
+  queryValidationRules(sessionId: string): Promise<FormValidation[]>;
+  deleteSessionData(sessionId: string): Promise<void>;
+  dropAllData(): Promise<void>;
+
+  // Sessions
+  saveSessionMetadata(metadata: Omit<SessionMetadata, 'updatedAt'> & { updatedAt?: Date }): Promise<void>;
+  loadAllSessionMetadata(): Promise<SessionMetadata[]>;
+  loadSessionMetadata(sessionId: string): Promise<SessionMetadata | null>;
+  deleteSessionMetadata(sessionId: string): Promise<void>;
+  saveUserStories(sessionId: string, userStories: StoredUserStories): Promise<void>;
+  loadUserStories(sessionId: string): Promise<StoredUserStories | null>;
+  saveCheckpoint(sessionId: string, checkpoint: AgentCheckpoint): Promise<void>;
+  loadCheckpoint(sessionId: string): Promise<AgentCheckpoint | null>;
+
+  // Login recipes, shared by all sessions (one per URL pattern)
+  saveLoginRecipe(recipe: LoginRecipe): Promise<void>;
+  loadLoginRecipes(): Promise<LoginRecipe[]>;
+  deleteLoginRecipe(urlPattern: string): Promise<void>;
+}
+
+// The embedded store is shared by every caller in the process, like a database server would be
+let memoryStore: MemoryGraphStore | null = null;
+
+/**
+ * Create the graph store selected in the configuration
+ */
+export function createGraphStore(config: AppConfig): GraphStore {
+  if (config.graphStore === 'memory') {
+    memoryStore ??= new MemoryGraphStore(config.graphStoreFile);
+    return memoryStore;
+  }
+  return new Neo4jTools(config.neo4jUri, config.neo4jUser, config.neo4jPassword);
+}
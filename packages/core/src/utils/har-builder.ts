@@ -0,0 +1,102 @@
+import type { ApiCall } from '../types/state.js';
+
+/**
+ * HarEntry - A request of an HTTP Archive (HAR 1.2); headers and bodies are not recorded, so they are left empty
+ */
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: never[];
+    queryString: Array<{ name: string; value: string }>;
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: never[];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _error?: string; // Custom field for failed requests
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  comment?: string;
+}
+
+export interface HarLog {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * HarBuilder - Builds an HTTP Archive from the API calls recorded per transition
+ * Each entry is commented with the action that made the call
+ */
+export class HarBuilder {
+  static build(transitions: Array<{ action: string; apiCalls: ApiCall[] }>): HarLog {
+    const entries = transitions
+      .flatMap(({ action, apiCalls }) => apiCalls.map((call) => HarBuilder.toEntry(call, action)))
+      .sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'dav.ai', version: '1.0.0' },
+        entries,
+      },
+    };
+  }
+
+  private static toEntry(call: ApiCall, action: string): HarEntry {
+    let queryString: Array<{ name: string; value: string }> = [];
+    try {
+      queryString = Array.from(new URL(call.url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+    } catch (error) {
+      // Not an absolute URL - the entry is kept without its query string
+    }
+
+    return {
+      startedDateTime: call.startedAt,
+      time: call.durationMs,
+      request: {
+        method: call.method,
+        url: call.url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: [],
+        queryString,
+        headersSize: -1,
+        bodySize: -1,
+      },
+      response: {
+        status: call.status,
+        statusText: '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: [],
+        content: { size: -1, mimeType: call.contentType ?? '' },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1,
+        ...(call.failure ? { _error: call.failure } : {}),
+      },
+      cache: {},
+      // Only the total duration is known, so it is reported as waiting time
+      timings: { send: 0, wait: call.durationMs, receive: 0 },
+      comment: action,
+    };
+  }
+}
@@ -0,0 +1,759 @@
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { logger } from './logger.js';
+import type {
+  AccessibilityIssue,
+  AgentCheckpoint,
+  ApiCall,
+  ElementLocator,
+  Finding,
+  FormValidation,
+  GraphWrite,
+  LoginRecipe,
+  LogoutReason,
+  ScreenshotSet,
+  UpsertFormField,
+  UpsertValidationRule,
+} from '../types/state.js';
+import type { GraphData, GraphEdge, GraphNode, GraphStore, SessionMetadata, StoredUserStories } from './graph-store.js';
+
+type RelationshipType = 'TRANSITIONED_BY' | 'LEAVES_SCOPE' | 'NOT_EXECUTED' | 'LOGGED_OUT' | 'CALLS';
+
+interface StoredState {
+  stateKey: string;
+  url: string; // Concrete URL of the first visit
+  urlTemplate: string;
+  label: string;
+  sessionId: string;
+  fingerprint: string;
+  screenshots?: ScreenshotSet;
+  accessibilityViolations?: number;
+  persona?: string;
+  createdAt: string;
+  lastVisited?: string;
+}
+
+interface StoredExternal {
+  url: string;
+  sessionId: string;
+  createdAt: string;
+  lastVisited?: string;
+}
+
+interface StoredApiEndpoint {
+  method: string;
+  urlTemplate: string;
+  sessionId: string;
+  createdAt: string;
+}
+
+// Findings keep their state key, so the HAS_FINDING relationship is implied
+interface StoredFinding extends Omit<Finding, 'stateLabel'> {
+  sessionId: string;
+}
+
+// Violations keep the keys of their states, so the HAS_VIOLATION relationships are implied
+interface StoredAccessibilityViolation extends Omit<AccessibilityIssue, 'states'> {
+  stateKeys: string[];
+  sessionId: string;
+  createdAt: string;
+}
+
+// Form fields keep the key of their form's state, so the HAS_FIELD relationship is implied
+interface StoredFormField extends Omit<UpsertFormField, 'kind'> {
+  createdAt: string;
+}
+
+// Validation rules keep the key of their field, so the HAS_RULE relationship is implied
+interface StoredValidationRule extends Omit<UpsertValidationRule, 'kind'> {
+  probedAt: string;
+}
+
+interface StoredRelationship {
+  type: RelationshipType;
+  from: string; // State key
+  to: string; // State key, External URL for LEAVES_SCOPE, the source state key for NOT_EXECUTED, or "METHOD urlTemplate" for CALLS
+  sessionId: string;
+  action: string;
+  selector?: string;
+  locators?: Array<ElementLocator | null>;
+  screenshotsBefore?: ScreenshotSet;
+  screenshotsAfter?: ScreenshotSet;
+  apiCalls?: ApiCall[];
+  safety?: string;
+  reason?: LogoutReason; // Latest logout of a LOGGED_OUT relationship
+  count?: number;
+  status?: number; // Latest call of a CALLS relationship
+  durationMs?: number;
+  persona?: string;
+  timestamp: string;
+}
+
+interface StoredSession {
+  sessionId: string;
+  status?: SessionMetadata['status'];
+  url?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  error?: string;
+  budgetReason?: string;
+  tokenUsage?: SessionMetadata['tokenUsage'];
+  campaignId?: string;
+  persona?: string;
+  userStories?: StoredUserStories;
+  checkpoint?: AgentCheckpoint;
+  checkpointedAt?: string;
+}
+
+/**
+ * Contents of the JSON file backing the store
+ */
+interface MemoryGraphSnapshot {
+  states: StoredState[];
+  externals: StoredExternal[];
+  apiEndpoints: StoredApiEndpoint[];
+  findings: StoredFinding[];
+  accessibilityViolations: StoredAccessibilityViolation[];
+  formFields: StoredFormField[];
+  validationRules: StoredValidationRule[];
+  relationships: StoredRelationship[];
+  sessions: StoredSession[];
+  loginRecipes: LoginRecipe[];
+}
+
+/**
+ * MemoryGraphStore - Embedded graph store for running without a Neo4j server (CI, laptops without Docker)
+ * Mirrors the MERGE semantics of Neo4jTools; when a file path is given, data is loaded from and saved to it as JSON
+ */
+export class MemoryGraphStore implements GraphStore {
+  private states = new Map<string, StoredState>();
+  private externals = new Map<string, StoredExternal>();
+  private apiEndpoints = new Map<string, StoredApiEndpoint>();
+  private findings = new Map<string, StoredFinding>();
+  private accessibilityViolations = new Map<string, StoredAccessibilityViolation>();
+  private formFields = new Map<string, StoredFormField>();
+  private validationRules = new Map<string, StoredValidationRule>();
+  private relationships: StoredRelationship[] = [];
+  private sessions = new Map<string, StoredSession>();
+  private loginRecipes = new Map<string, LoginRecipe>(); // URL pattern -> recipe
+  private filePath?: string;
+  private pendingSave: Promise<void> = Promise.resolve(); // Saves are chained so the file is never written concurrently
+  private queuedSave: Promise<void> | null = null; // Save waiting for the running one, shared by every change made meanwhile
+
+  /**
+   * Throws an error if the file exists but does not hold a store (it is left untouched so it can be recovered)
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    if (filePath && existsSync(filePath)) {
+      let snapshot: MemoryGraphSnapshot;
+      try {
+        snapshot = JSON.parse(readFileSync(filePath, 'utf-8')) as MemoryGraphSnapshot;
+      } catch (error) {
+        throw new Error(
+          `Graph store file ${filePath} is corrupt (${error instanceof Error ? error.message : String(error)}). ` +
+          'Restore it from a backup or move it away to start with an empty store.'
+        );
+      }
+      snapshot.states.forEach((state) => this.states.set(MemoryGraphStore.nodeKey(state.stateKey, state.sessionId), state));
+      snapshot.externals.forEach((external) => this.externals.set(MemoryGraphStore.nodeKey(external.url, external.sessionId), external));
+      snapshot.apiEndpoints.forEach((endpoint) =>
+        this.apiEndpoints.set(MemoryGraphStore.nodeKey(MemoryGraphStore.endpointKey(endpoint), endpoint.sessionId), endpoint)
+      );
+      snapshot.findings.forEach((finding) => this.findings.set(MemoryGraphStore.nodeKey(finding.findingKey, finding.sessionId), finding));
+      snapshot.accessibilityViolations.forEach((violation) =>
+        this.accessibilityViolations.set(MemoryGraphStore.nodeKey(violation.violationKey, violation.sessionId), violation)
+      );
+      snapshot.formFields.forEach((field) => this.formFields.set(MemoryGraphStore.nodeKey(field.fieldKey, field.sessionId), field));
+      snapshot.validationRules.forEach((rule) => this.validationRules.set(MemoryGraphStore.nodeKey(rule.ruleKey, rule.sessionId), rule));
+      this.relationships = snapshot.relationships;
+      snapshot.sessions.forEach((session) => this.sessions.set(session.sessionId, session));
+      snapshot.loginRecipes.forEach((recipe) => this.loginRecipes.set(recipe.urlPattern, recipe));
+      logger.info('MemoryGraphStore', `Loaded ${this.states.size} states and ${this.sessions.size} sessions from ${filePath}`);
+    }
+  }
+
+  private static nodeKey(key: string, sessionId: string): string {
+    return `${sessionId}|||${key}`;
+  }
+
+  private static endpointKey(endpoint: { method: string; urlTemplate: string }): string {
+    return `${endpoint.method} ${endpoint.urlTemplate}`;
+  }
+
+  async verifyConnectivity(): Promise<boolean> {
+    return true;
+  }
+
+  async ensureIndexes(): Promise<void> {
+    // Lookups are keyed by sessionId and URL already
+  }
+
+  /**
+   * Wait for pending saves - the data itself stays available to other callers in the process
+   */
+  async close(): Promise<void> {
+    await this.pendingSave;
+  }
+
+  /**
+   * Apply a batch of graph writes
+   * Transitions whose states don't exist are skipped, like a Cypher MATCH without results
+   */
+  async applyWrites(writes: GraphWrite[]): Promise<void> {
+    if (writes.length === 0) {
+      return;
+    }
+    const now = new Date().toISOString();
+
+    for (const write of writes) {
+      switch (write.kind) {
+        case 'upsertState': {
+          const key = MemoryGraphStore.nodeKey(write.stateKey, write.sessionId);
+          const existing = this.states.get(key);
+          this.states.set(key, {
+            stateKey: write.stateKey,
+            url: existing?.url ?? write.url,
+            urlTemplate: write.urlTemplate,
+            label: write.label,
+            sessionId: write.sessionId,
+            fingerprint: write.fingerprint,
+            screenshots: write.screenshots ?? existing?.screenshots,
+            accessibilityViolations: write.accessibilityViolations ?? existing?.accessibilityViolations,
+            persona: write.persona ?? existing?.persona,
+            createdAt: existing?.createdAt ?? now,
+            lastVisited: existing ? now : undefined,
+          });
+          break;
+        }
+        case 'upsertExternal': {
+          const key = MemoryGraphStore.nodeKey(write.url, write.sessionId);
+          const existing = this.externals.get(key);
+          if (existing) {
+            existing.lastVisited = now;
+          } else {
+            this.externals.set(key, { url: write.url, sessionId: write.sessionId, createdAt: now });
+          }
+          break;
+        }
+        case 'upsertTransition':
+          if (this.hasState(write.fromStateKey, write.sessionId) && this.hasState(write.toStateKey, write.sessionId)) {
+            const relationship = this.mergeRelationship('TRANSITIONED_BY', write.fromStateKey, write.toStateKey, write.sessionId, write.action, write.selector, now);
+            if (write.locators && write.locators.some((locator) => locator)) {
+              relationship.locators = write.locators;
+            }
+            relationship.screenshotsBefore = write.screenshotsBefore ?? relationship.screenshotsBefore;
+            relationship.screenshotsAfter = write.screenshotsAfter ?? relationship.screenshotsAfter;
+            relationship.apiCalls = write.apiCalls ?? relationship.apiCalls;
+            relationship.persona = write.persona ?? relationship.persona;
+          }
+          break;
+        case 'upsertExternalTransition':
+          if (this.hasState(write.fromStateKey, write.sessionId) && this.externals.has(MemoryGraphStore.nodeKey(write.externalUrl, write.sessionId))) {
+            this.mergeRelationship('LEAVES_SCOPE', write.fromStateKey, write.externalUrl, write.sessionId, write.action, write.selector, now);
+          }
+          break;
+        case 'upsertNotExecuted':
+          if (this.hasState(write.fromStateKey, write.sessionId)) {
+            const relationship = this.mergeRelationship('NOT_EXECUTED', write.fromStateKey, write.fromStateKey, write.sessionId, write.action, write.selector, now);
+            relationship.safety ??= write.safety;
+          }
+          break;
+        case 'upsertLogout':
+          if (this.hasState(write.fromStateKey, write.sessionId) && this.hasState(write.toStateKey, write.sessionId)) {
+            const relationship = this.mergeRelationship('LOGGED_OUT', write.fromStateKey, write.toStateKey, write.sessionId, write.action, write.selector, now);
+            relationship.reason = write.reason;
+            relationship.count = (relationship.count ?? 0) + 1;
+          }
+          break;
+        case 'upsertApiEndpoint':
+          if (this.hasState(write.fromStateKey, write.sessionId)) {
+            const endpointKey = MemoryGraphStore.endpointKey(write);
+            const key = MemoryGraphStore.nodeKey(endpointKey, write.sessionId);
+            if (!this.apiEndpoints.has(key)) {
+              this.apiEndpoints.set(key, { method: write.method, urlTemplate: write.urlTemplate, sessionId: write.sessionId, createdAt: now });
+            }
+            const relationship = this.mergeRelationship('CALLS', write.fromStateKey, endpointKey, write.sessionId, write.action, write.selector, now);
+            relationship.status = write.status;
+            relationship.durationMs = write.durationMs;
+          }
+          break;
+        case 'upsertFinding':
+          if (this.hasState(write.stateKey, write.sessionId)) {
+            const key = MemoryGraphStore.nodeKey(write.findingKey, write.sessionId);
+            const existing = this.findings.get(key);
+            if (existing) {
+              existing.count++;
+              existing.lastSeen = now;
+            } else {
+              const { kind, ...finding } = write;
+              this.findings.set(key, { ...finding, count: 1, firstSeen: now, lastSeen: now });
+            }
+          }
+          break;
+        case 'upsertAccessibilityViolation':
+          if (this.hasState(write.stateKey, write.sessionId)) {
+            const key = MemoryGraphStore.nodeKey(write.violationKey, write.sessionId);
+            const existing = this.accessibilityViolations.get(key);
+            if (existing) {
+              if (!existing.stateKeys.includes(write.stateKey)) {
+                existing.stateKeys.push(write.stateKey);
+              }
+            } else {
+              const { kind, stateKey, ...violation } = write;
+              this.accessibilityViolations.set(key, { ...violation, stateKeys: [stateKey], createdAt: now });
+            }
+          }
+          break;
+        case 'upsertFormField':
+          if (this.hasState(write.stateKey, write.sessionId)) {
+            const key = MemoryGraphStore.nodeKey(write.fieldKey, write.sessionId);
+            const { kind, ...field } = write;
+            this.formFields.set(key, { ...field, createdAt: this.formFields.get(key)?.createdAt ?? now });
+          }
+          break;
+        case 'upsertValidationRule':
+          if (this.formFields.has(MemoryGraphStore.nodeKey(write.fieldKey, write.sessionId))) {
+            const { kind, ...rule } = write;
+            this.validationRules.set(MemoryGraphStore.nodeKey(write.ruleKey, write.sessionId), { ...rule, probedAt: now });
+          }
+          break;
+      }
+    }
+    await this.save();
+  }
+
+  async transitionExists(fromStateKey: string, toStateKey: string, action: string, sessionId: string, selector?: string): Promise<boolean> {
+    return !!this.findRelationship('TRANSITIONED_BY', fromStateKey, toStateKey, sessionId, action, selector);
+  }
+
+  /**
+   * Query the exploration graph, optionally filtered by sessionId
+   * External pages and actions held back by the safety policy are only included when requested
+   */
+  async queryGraph(
+    limit: number = 100,
+    sessionId?: string,
+    includeExternal: boolean = false,
+    includeNotExecuted: boolean = false,
+    includeLogouts: boolean = false
+  ): Promise<GraphData> {
+    const limitInt = Math.floor(limit) || 100;
+    const inSession = (item: { sessionId: string }) => !sessionId || item.sessionId === sessionId;
+    const toNode = (state: StoredState): GraphNode => ({
+      id: state.stateKey,
+      label: state.label,
+      url: state.url,
+      urlTemplate: state.urlTemplate ?? state.url,
+      fingerprint: state.fingerprint,
+      screenshots: state.screenshots,
+      accessibilityViolations: state.accessibilityViolations,
+      persona: state.persona,
+    });
+    const findState = (stateKey: string, stateSessionId: string) =>
+      this.states.get(MemoryGraphStore.nodeKey(stateKey, stateSessionId));
+
+    const nodes = new Map<string, GraphNode>();
+    Array.from(this.states.values()).filter(inSession).slice(0, limitInt).forEach((state) => {
+      nodes.set(state.stateKey, toNode(state));
+    });
+
+    const edges: GraphEdge[] = [];
+    const edgeKeys = new Set<string>();
+    const addEdge = (key: string, edge: GraphEdge) => {
+      if (!edgeKeys.has(key)) {
+        edgeKeys.add(key);
+        edges.push(edge);
+      }
+    };
+
+    this.relationships
+      .filter((relationship) => relationship.type === 'TRANSITIONED_BY' && inSession(relationship))
+      .slice(0, limitInt)
+      .forEach((relationship) => {
+        // Ensure both source and target nodes exist in our nodes map
+        const source = findState(relationship.from, relationship.sessionId);
+        const target = findState(relationship.to, relationship.sessionId);
+        if (!source || !target) {
+          return;
+        }
+        [source, target].forEach((state) => {
+          if (!nodes.has(state.stateKey)) {
+            nodes.set(state.stateKey, toNode(state));
+          }
+        });
+        const selector = relationship.selector || '';
+        addEdge(`${relationship.from}|${relationship.to}|${relationship.action}|${selector}`, {
+          source: relationship.from,
+          target: relationship.to,
+          sourceUrl: source.url,
+          targetUrl: target.url,
+          label: relationship.action,
+          selector,
+          locators: relationship.locators,
+          screenshotsBefore: relationship.screenshotsBefore,
+          screenshotsAfter: relationship.screenshotsAfter,
+          apiCalls: relationship.apiCalls,
+          persona: relationship.persona,
+        });
+      });
+
+    if (includeExternal) {
+      this.relationships
+        .filter((relationship) => relationship.type === 'LEAVES_SCOPE' && inSession(relationship))
+        .slice(0, limitInt)
+        .filter((relationship) => nodes.has(relationship.from))
+        .forEach((relationship) => {
+          // Prefix the id so an external page never collides with a state of the same URL
+          const externalId = `external:${relationship.to}`;
+          if (!nodes.has(externalId)) {
+            nodes.set(externalId, { id: externalId, label: relationship.to, url: relationship.to, external: true });
+          }
+          const selector = relationship.selector || '';
+          addEdge(`${relationship.from}|${externalId}|${relationship.action}|${selector}`, {
+            source: relationship.from,
+            target: externalId,
+            sourceUrl: nodes.get(relationship.from)!.url,
+            targetUrl: relationship.to,
+            label: relationship.action,
+            selector,
+            external: true,
+          });
+        });
+    }
+
+    if (includeNotExecuted) {
+      this.relationships
+        .filter((relationship) => relationship.type === 'NOT_EXECUTED' && inSession(relationship))
+        .slice(0, limitInt)
+        .filter((relationship) => nodes.has(relationship.from))
+        .forEach((relationship) => {
+          const selector = relationship.selector || '';
+          const stateUrl = nodes.get(relationship.from)!.url;
+          addEdge(`${relationship.from}|${relationship.from}|${relationship.action}|${selector}|not-executed`, {
+            source: relationship.from,
+            target: relationship.from,
+            sourceUrl: stateUrl,
+            targetUrl: stateUrl,
+            label: relationship.action,
+            selector,
+            notExecuted: true,
+            safety: relationship.safety,
+          });
+        });
+    }
+
+    if (includeLogouts) {
+      this.relationships
+        .filter((relationship) => relationship.type === 'LOGGED_OUT' && inSession(relationship))
+        .slice(0, limitInt)
+        .filter((relationship) => nodes.has(relationship.from))
+        .forEach((relationship) => {
+          const target = findState(relationship.to, relationship.sessionId);
+          if (!target) {
+            return;
+          }
+          if (!nodes.has(target.stateKey)) {
+            nodes.set(target.stateKey, toNode(target));
+          }
+          const selector = relationship.selector || '';
+          addEdge(`${relationship.from}|${relationship.to}|${relationship.action}|${selector}|logged-out`, {
+            source: relationship.from,
+            target: relationship.to,
+            sourceUrl: nodes.get(relationship.from)!.url,
+            targetUrl: target.url,
+            label: relationship.action,
+            selector,
+            loggedOut: relationship.reason,
+          });
+        });
+    }
+
+    return { nodes: Array.from(nodes.values()), edges };
+  }
+
+  async getGraphCounts(sessionIds: string[]): Promise<Map<string, { nodes: number; edges: number }>> {
+    const countsMap = new Map<string, { nodes: number; edges: number }>();
+    sessionIds.forEach((sessionId) => countsMap.set(sessionId, { nodes: 0, edges: 0 }));
+    this.states.forEach((state) => {
+      const counts = countsMap.get(state.sessionId);
+      if (counts) {
+        counts.nodes++;
+      }
+    });
+    this.relationships.forEach((relationship) => {
+      const counts = countsMap.get(relationship.sessionId);
+      if (counts && relationship.type === 'TRANSITIONED_BY') {
+        counts.edges++;
+      }
+    });
+    return countsMap;
+  }
+
+  async queryFindings(sessionId: string): Promise<Finding[]> {
+    return Array.from(this.findings.values())
+      .filter((finding) => finding.sessionId === sessionId)
+      .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))
+      .map(({ sessionId: findingSessionId, ...finding }) => ({
+        ...finding,
+        stateLabel: this.states.get(MemoryGraphStore.nodeKey(finding.stateKey, findingSessionId))?.label,
+      }));
+  }
+
+  async queryAccessibilityViolations(sessionId: string): Promise<AccessibilityIssue[]> {
+    return Array.from(this.accessibilityViolations.values())
+      .filter((violation) => violation.sessionId === sessionId)
+      .map(({ sessionId: violationSessionId, stateKeys, createdAt, ...violation }) => ({
+        ...violation,
+        states: stateKeys.map((stateKey) => ({
+          stateKey,
+          stateLabel: this.states.get(MemoryGraphStore.nodeKey(stateKey, violationSessionId))?.label,
+        })),
+      }));
+  }
+
+  async queryValidationRules(sessionId: string): Promise<FormValidation[]> {
+    const forms = new Map<string, FormValidation>();
+    Array.from(this.formFields.values())
+      .filter((field) => field.sessionId === sessionId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .forEach(({ stateKey, sessionId: fieldSessionId, createdAt, ...field }) => {
+        const state = this.states.get(MemoryGraphStore.nodeKey(stateKey, fieldSessionId));
+        const form = forms.get(stateKey) ?? { stateKey, stateLabel: state?.label, url: state?.url, fields: [] };
+        forms.set(stateKey, form);
+        form.fields.push({
+          ...field,
+          rules: Array.from(this.validationRules.values())
+            .filter((rule) => rule.sessionId === sessionId && rule.fieldKey === field.fieldKey)
+            .map(({ ruleKey, fieldKey, sessionId: ruleSessionId, ...rule }) => rule),
+        });
+      });
+    return Array.from(forms.values());
+  }
+
+  async deleteSessionData(sessionId: string): Promise<void> {
+    this.relationships = this.relationships.filter((relationship) => relationship.sessionId !== sessionId);
+    [this.states, this.externals, this.apiEndpoints, this.findings, this.accessibilityViolations, this.formFields, this.validationRules].forEach((nodes: Map<string, { sessionId: string }>) => {
+      Array.from(nodes.entries())
+        .filter(([, node]) => node.sessionId === sessionId)
+        .forEach(([key]) => nodes.delete(key));
+    });
+    logger.info('MemoryGraphStore', `Deleted all graph data for session: ${sessionId}`);
+    await this.save();
+  }
+
+  async dropAllData(): Promise<void> {
+    this.states.clear();
+    this.externals.clear();
+    this.apiEndpoints.clear();
+    this.findings.clear();
+    this.accessibilityViolations.clear();
+    this.formFields.clear();
+    this.validationRules.clear();
+    this.relationships = [];
+    this.sessions.clear();
+    this.loginRecipes.clear();
+    logger.info('MemoryGraphStore', 'Dropped all data');
+    await this.save();
+  }
+
+  async saveSessionMetadata(metadata: Omit<SessionMetadata, 'updatedAt'> & { updatedAt?: Date }): Promise<void> {
+    const existing = this.sessions.get(metadata.sessionId);
+    this.sessions.set(metadata.sessionId, {
+      ...existing,
+      sessionId: metadata.sessionId,
+      status: metadata.status,
+      url: metadata.url,
+      // Like ON CREATE SET - the creation time of an existing session is kept
+      createdAt: existing?.createdAt ?? metadata.createdAt.toISOString(),
+      updatedAt: (metadata.updatedAt || new Date()).toISOString(),
+      error: metadata.error,
+      budgetReason: metadata.budgetReason,
+      tokenUsage: metadata.tokenUsage,
+      campaignId: metadata.campaignId ?? existing?.campaignId,
+      persona: metadata.persona ?? existing?.persona,
+    });
+    await this.save();
+  }
+
+  async loadAllSessionMetadata(): Promise<SessionMetadata[]> {
+    return Array.from(this.sessions.values())
+      .map((session) => MemoryGraphStore.toMetadata(session))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async loadSessionMetadata(sessionId: string): Promise<SessionMetadata | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? MemoryGraphStore.toMetadata(session) : null;
+  }
+
+  async deleteSessionMetadata(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    await this.save();
+  }
+
+  /**
+   * Save user stories for a session (ignored for unknown sessions, like a Cypher MATCH)
+   */
+  async saveUserStories(sessionId: string, userStories: StoredUserStories): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    session.userStories = userStories;
+    await this.save();
+  }
+
+  async loadUserStories(sessionId: string): Promise<StoredUserStories | null> {
+    return this.sessions.get(sessionId)?.userStories ?? null;
+  }
+
+  /**
+   * Save the agent checkpoint for a session, overwriting the previous one
+   */
+  async saveCheckpoint(sessionId: string, checkpoint: AgentCheckpoint): Promise<void> {
+    const session = this.sessions.get(sessionId) ?? { sessionId };
+    // Stored as a copy so later changes to the agent state don't leak into the checkpoint
+    session.checkpoint = JSON.parse(JSON.stringify(checkpoint));
+    session.checkpointedAt = checkpoint.savedAt;
+    this.sessions.set(sessionId, session);
+    await this.save();
+  }
+
+  async loadCheckpoint(sessionId: string): Promise<AgentCheckpoint | null> {
+    return this.sessions.get(sessionId)?.checkpoint ?? null;
+  }
+
+  async saveLoginRecipe(recipe: LoginRecipe): Promise<void> {
+    this.loginRecipes.set(recipe.urlPattern, {
+      ...JSON.parse(JSON.stringify(recipe)),
+      updatedAt: recipe.updatedAt ?? new Date().toISOString(),
+    });
+    await this.save();
+  }
+
+  /**
+   * Load all login recipes, most recently updated first
+   */
+  async loadLoginRecipes(): Promise<LoginRecipe[]> {
+    return Array.from(this.loginRecipes.values())
+      .sort((a, b) => (b.updatedAt ?? '').localeCompare(a.updatedAt ?? ''));
+  }
+
+  async deleteLoginRecipe(urlPattern: string): Promise<void> {
+    this.loginRecipes.delete(urlPattern);
+    await this.save();
+  }
+
+  /**
+   * Convert a stored session to metadata (sessions created by a checkpoint alone have no status yet)
+   */
+  private static toMetadata(session: StoredSession): SessionMetadata {
+    return {
+      sessionId: session.sessionId,
+      status: session.status ?? 'idle',
+      url: session.url ?? '',
+      createdAt: new Date(session.createdAt ?? session.checkpointedAt ?? 0),
+      updatedAt: new Date(session.updatedAt ?? session.checkpointedAt ?? 0),
+      error: session.error || undefined,
+      budgetReason: session.budgetReason || undefined,
+      tokenUsage: session.tokenUsage,
+      campaignId: session.campaignId,
+      persona: session.persona,
+    };
+  }
+
+  private hasState(stateKey: string, sessionId: string): boolean {
+    return this.states.has(MemoryGraphStore.nodeKey(stateKey, sessionId));
+  }
+
+  /**
+   * Find a relationship the way a Cypher pattern matches it - the selector only narrows the match when given
+   */
+  private findRelationship(
+    type: RelationshipType,
+    from: string,
+    to: string,
+    sessionId: string,
+    action: string,
+    selector?: string
+  ): StoredRelationship | undefined {
+    return this.relationships.find((relationship) =>
+      relationship.type === type &&
+      relationship.from === from &&
+      relationship.to === to &&
+      relationship.sessionId === sessionId &&
+      relationship.action === action &&
+      (!selector || relationship.selector === selector)
+    );
+  }
+
+  /**
+   * Find or create a relationship and update its timestamp
+   */
+  private mergeRelationship(
+    type: RelationshipType,
+    from: string,
+    to: string,
+    sessionId: string,
+    action: string,
+    selector: string | undefined,
+    timestamp: string
+  ): StoredRelationship {
+    const existing = this.findRelationship(type, from, to, sessionId, action, selector);
+    if (existing) {
+      existing.timestamp = timestamp;
+      return existing;
+    }
+    const relationship: StoredRelationship = { type, from, to, sessionId, action, timestamp };
+    if (selector) {
+      relationship.selector = selector;
+    }
+    this.relationships.push(relationship);
+    return relationship;
+  }
+
+  /**
+   * Write the store to its JSON file (no-op without a file)
+   * Changes made while a save is running are written together by one follow-up save. The file is written to a
+   * temporary file first and renamed over the store, so a crash mid-write never leaves a truncated store behind
+   */
+  private save(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+    if (!this.queuedSave) {
+      this.queuedSave = this.pendingSave.then(async () => {
+        // Changes from here on are not in this snapshot and need another save
+        this.queuedSave = null;
+        const snapshot: MemoryGraphSnapshot = {
+          states: Array.from(this.states.values()),
+          externals: Array.from(this.externals.values()),
+          apiEndpoints: Array.from(this.apiEndpoints.values()),
+          findings: Array.from(this.findings.values()),
+          accessibilityViolations: Array.from(this.accessibilityViolations.values()),
+          formFields: Array.from(this.formFields.values()),
+          validationRules: Array.from(this.validationRules.values()),
+          relationships: this.relationships,
+          sessions: Array.from(this.sessions.values()),
+          loginRecipes: Array.from(this.loginRecipes.values()),
+        };
+        const content = JSON.stringify(snapshot);
+        const tempPath = `${filePath}.tmp`;
+        try {
+          await mkdir(dirname(filePath), { recursive: true });
+          await writeFile(tempPath, content);
+          await rename(tempPath, filePath);
+        } catch (error) {
+          logger.error('MemoryGraphStore', `Failed to save graph store to ${filePath}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+      this.pendingSave = this.queuedSave;
+    }
+    return this.queuedSave;
+  }
+}
@@ -1,10 +1,41 @@
-import neo4j, { Driver, Session } from 'neo4j-driver';
+import neo4j, { Driver } from 'neo4j-driver';
 import { logger } from './logger.js';
+import type {
+  AccessibilityIssue,
+  AgentCheckpoint,
+  ApiCall,
+  ElementLocator,
+  Finding,
+  FormValidation,
+  ScreenshotSet,
+  GraphWrite,
+  LoginRecipe,
+  UpsertAccessibilityViolation,
+  UpsertApiEndpoint,
+  UpsertExternal,
+  UpsertExternalTransition,
+  UpsertFinding,
+  UpsertFormField,
+  UpsertLogout,
+  UpsertNotExecuted,
+  UpsertState,
+  UpsertTransition,
+  UpsertValidationRule,
+} from '../types/state.js';
+import type { GraphData, GraphEdge, GraphNode, GraphStore, SessionMetadata, SessionStatus, StoredUserStories } from './graph-store.js';
 
 /**
- * Neo4jTools - Handles all Neo4j database operations
+ * A Cypher query with its bound parameters
  */
-export class Neo4jTools {
+interface CypherStatement {
+  query: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * Neo4jTools - Handles all Neo4j database operations (the Neo4j graph store)
+ */
+export class Neo4jTools implements GraphStore {
   private driver: Driver;
 
   constructor(uri: string, user: string, password: string) {
@@ -12,24 +43,24 @@ export class Neo4jTools {
   }
 
   /**
-   * Execute a batch of Cypher queries
+   * Apply a batch of graph writes with bound parameters in a single transaction
    */
-  async executeQueries(queries: string[]): Promise<void> {
-    if (queries.length === 0) {
+  async applyWrites(writes: GraphWrite[]): Promise<void> {
+    if (writes.length === 0) {
       return;
     }
 
+    const statements = writes.map((write) => Neo4jTools.buildWriteStatement(write));
     const session = this.driver.session();
 
     try {
-      // Execute all queries in a single transaction
       await session.executeWrite(async (tx) => {
-        for (const query of queries) {
-          await tx.run(query);
+        for (const statement of statements) {
+          await tx.run(statement.query, statement.params);
         }
       });
     } catch (error) {
-      logger.error('Neo4j', 'Error executing Neo4j queries', { error: error instanceof Error ? error.message : String(error) });
+      logger.error('Neo4j', 'Error applying graph writes', { error: error instanceof Error ? error.message : String(error) });
       throw error;
     } finally {
       await session.close();
@@ -37,54 +68,323 @@ export class Neo4jTools {
   }
 
   /**
-   * Generate Cypher query to merge a State node with sessionId
+   * Build the Cypher statement for a graph write
+   * Values are always bound as parameters - only the shape of the query depends on the write
    */
-  static generateMergeStateQuery(url: string, fingerprint: string, sessionId: string): string {
-    // Escape single quotes in URL, fingerprint, and sessionId
-    const safeUrl = url.replace(/'/g, "\\'");
-    const safeFingerprint = fingerprint.replace(/'/g, "\\'");
-    const safeSessionId = sessionId.replace(/'/g, "\\'");
-    
-    return `MERGE (s:State {url: '${safeUrl}', sessionId: '${safeSessionId}'})
-            ON CREATE SET s.fingerprint = '${safeFingerprint}',
-                          s.createdAt = datetime(),
-                          s.sessionId = '${safeSessionId}'
-            ON MATCH SET s.lastVisited = datetime(),
-                         s.fingerprint = '${safeFingerprint}'
-            RETURN s`;
+  static buildWriteStatement(write: GraphWrite): CypherStatement {
+    switch (write.kind) {
+      case 'upsertState':
+        return this.buildMergeStateStatement(write);
+      case 'upsertTransition':
+        return this.buildTransitionStatement(write);
+      case 'upsertExternal':
+        return this.buildMergeExternalStatement(write);
+      case 'upsertExternalTransition':
+        return this.buildExternalTransitionStatement(write);
+      case 'upsertNotExecuted':
+        return this.buildNotExecutedStatement(write);
+      case 'upsertLogout':
+        return this.buildLogoutStatement(write);
+      case 'upsertApiEndpoint':
+        return this.buildApiEndpointStatement(write);
+      case 'upsertFinding':
+        return this.buildFindingStatement(write);
+      case 'upsertAccessibilityViolation':
+        return this.buildAccessibilityViolationStatement(write);
+      case 'upsertFormField':
+        return this.buildFormFieldStatement(write);
+      case 'upsertValidationRule':
+        return this.buildValidationRuleStatement(write);
+    }
+  }
+
+  /**
+   * Build the relationship property map used to match a transition
+   * MERGE cannot match on null properties, so the selector is only part of the pattern when given
+   */
+  private static relationshipMatchProps(selector?: string): string {
+    return selector ? '{action: $action, sessionId: $sessionId, selector: $selector}' : '{action: $action, sessionId: $sessionId}';
   }
 
   /**
-   * Generate Cypher query to merge a TRANSITIONED_BY relationship with sessionId
+   * Merge a State node by its state key and sessionId
+   * The URL of the first visit is kept as the concrete example for replays (records of a route share the state);
+   * the URL template, label, fingerprint and screenshots (JSON, kept if none were taken) are updated on every visit,
+   * like the number of accessibility violations (kept if the state was not audited) and the persona
+   */
+  private static buildMergeStateStatement(write: UpsertState): CypherStatement {
+    return {
+      query: `MERGE (s:State {stateKey: $stateKey, sessionId: $sessionId})
+              ON CREATE SET s.createdAt = datetime(), s.url = $url
+              ON MATCH SET s.lastVisited = datetime()
+              SET s.urlTemplate = $urlTemplate,
+                  s.label = $label,
+                  s.fingerprint = $fingerprint,
+                  s.screenshots = coalesce($screenshots, s.screenshots),
+                  s.accessibilityViolations = coalesce($accessibilityViolations, s.accessibilityViolations),
+                  s.persona = coalesce($persona, s.persona)
+              RETURN s`,
+      params: {
+        stateKey: write.stateKey,
+        sessionId: write.sessionId,
+        url: write.url,
+        urlTemplate: write.urlTemplate,
+        label: write.label,
+        fingerprint: write.fingerprint,
+        screenshots: write.screenshots ? JSON.stringify(write.screenshots) : null,
+        accessibilityViolations: write.accessibilityViolations ?? null,
+        persona: write.persona ?? null,
+      },
+    };
+  }
+
+  /**
+   * Merge a TRANSITIONED_BY relationship with sessionId
    * Uses MERGE instead of CREATE to prevent duplicate edges for the same transition
+   * Element locators (one per action, null where unknown) are stored as JSON so replays target the exact elements;
+   * the before/after screenshots and API calls of the latest execution are stored as JSON too
    */
-  static generateTransitionQuery(
-    fromUrl: string,
-    toUrl: string,
-    action: string,
-    sessionId: string,
-    selector?: string
-  ): string {
-    const safeFromUrl = fromUrl.replace(/'/g, "\\'");
-    const safeToUrl = toUrl.replace(/'/g, "\\'");
-    const safeAction = action.replace(/'/g, "\\'");
-    const safeSessionId = sessionId.replace(/'/g, "\\'");
-    const safeSelector = selector ? selector.replace(/'/g, "\\'") : '';
-
-    // Build the relationship properties for matching
-    let matchProps = `action: '${safeAction}', sessionId: '${safeSessionId}'`;
-    if (safeSelector) {
-      matchProps += `, selector: '${safeSelector}'`;
-    }
+  private static buildTransitionStatement(write: UpsertTransition): CypherStatement {
+    const hasLocators = !!write.locators && write.locators.some((locator) => locator);
+    const locatorsSet = hasLocators ? ', r.locators = $locators' : '';
+    const screenshotsSet = [
+      write.screenshotsBefore ? ', r.screenshotsBefore = $screenshotsBefore' : '',
+      write.screenshotsAfter ? ', r.screenshotsAfter = $screenshotsAfter' : '',
+      write.apiCalls ? ', r.apiCalls = $apiCalls' : '',
+      write.persona ? ', r.persona = $persona' : '',
+    ].join('');
 
-    let query = `MATCH (a:State {url: '${safeFromUrl}', sessionId: '${safeSessionId}'})
-                 MATCH (b:State {url: '${safeToUrl}', sessionId: '${safeSessionId}'})
-                 MERGE (a)-[r:TRANSITIONED_BY {${matchProps}}]->(b)
-                 ON CREATE SET r.timestamp = datetime()
-                 ON MATCH SET r.timestamp = datetime()
-                 RETURN r`;
+    return {
+      query: `MATCH (a:State {stateKey: $fromStateKey, sessionId: $sessionId})
+              MATCH (b:State {stateKey: $toStateKey, sessionId: $sessionId})
+              MERGE (a)-[r:TRANSITIONED_BY ${this.relationshipMatchProps(write.selector)}]->(b)
+              ON CREATE SET r.timestamp = datetime()${locatorsSet}${screenshotsSet}
+              ON MATCH SET r.timestamp = datetime()${locatorsSet}${screenshotsSet}
+              RETURN r`,
+      params: {
+        fromStateKey: write.fromStateKey,
+        toStateKey: write.toStateKey,
+        action: write.action,
+        sessionId: write.sessionId,
+        selector: write.selector ?? null,
+        locators: hasLocators ? JSON.stringify(write.locators) : null,
+        screenshotsBefore: write.screenshotsBefore ? JSON.stringify(write.screenshotsBefore) : null,
+        screenshotsAfter: write.screenshotsAfter ? JSON.stringify(write.screenshotsAfter) : null,
+        apiCalls: write.apiCalls ? JSON.stringify(write.apiCalls) : null,
+        persona: write.persona ?? null,
+      },
+    };
+  }
+
+  /**
+   * Merge an External node (a page outside the exploration scope)
+   */
+  private static buildMergeExternalStatement(write: UpsertExternal): CypherStatement {
+    return {
+      query: `MERGE (e:External {url: $url, sessionId: $sessionId})
+              ON CREATE SET e.createdAt = datetime()
+              ON MATCH SET e.lastVisited = datetime()
+              RETURN e`,
+      params: { url: write.url, sessionId: write.sessionId },
+    };
+  }
 
-    return query;
+  /**
+   * Merge a LEAVES_SCOPE relationship from a State to an External node
+   * Recorded instead of TRANSITIONED_BY when an action takes the browser out of scope
+   */
+  private static buildExternalTransitionStatement(write: UpsertExternalTransition): CypherStatement {
+    return {
+      query: `MATCH (a:State {stateKey: $fromStateKey, sessionId: $sessionId})
+              MATCH (e:External {url: $externalUrl, sessionId: $sessionId})
+              MERGE (a)-[r:LEAVES_SCOPE ${this.relationshipMatchProps(write.selector)}]->(e)
+              ON CREATE SET r.timestamp = datetime()
+              ON MATCH SET r.timestamp = datetime()
+              RETURN r`,
+      params: {
+        fromStateKey: write.fromStateKey,
+        externalUrl: write.externalUrl,
+        action: write.action,
+        sessionId: write.sessionId,
+        selector: write.selector ?? null,
+      },
+    };
+  }
+
+  /**
+   * Merge a NOT_EXECUTED self-relationship on a State
+   * Records an action the safety policy held back, so the graph shows it without it being executed
+   */
+  private static buildNotExecutedStatement(write: UpsertNotExecuted): CypherStatement {
+    return {
+      query: `MATCH (a:State {stateKey: $fromStateKey, sessionId: $sessionId})
+              MERGE (a)-[r:NOT_EXECUTED ${this.relationshipMatchProps(write.selector)}]->(a)
+              ON CREATE SET r.safety = $safety, r.timestamp = datetime()
+              ON MATCH SET r.timestamp = datetime()
+              RETURN r`,
+      params: {
+        fromStateKey: write.fromStateKey,
+        action: write.action,
+        safety: write.safety,
+        sessionId: write.sessionId,
+        selector: write.selector ?? null,
+      },
+    };
+  }
+
+  /**
+   * Merge a LOGGED_OUT relationship from a State to the login page State
+   * Recorded instead of TRANSITIONED_BY when a batch ends on the login page, counting how often it happened
+   */
+  private static buildLogoutStatement(write: UpsertLogout): CypherStatement {
+    return {
+      query: `MATCH (a:State {stateKey: $fromStateKey, sessionId: $sessionId})
+              MATCH (b:State {stateKey: $toStateKey, sessionId: $sessionId})
+              MERGE (a)-[r:LOGGED_OUT ${this.relationshipMatchProps(write.selector)}]->(b)
+              ON CREATE SET r.count = 1, r.timestamp = datetime()
+              ON MATCH SET r.count = r.count + 1, r.timestamp = datetime()
+              SET r.reason = $reason
+              RETURN r`,
+      params: {
+        fromStateKey: write.fromStateKey,
+        toStateKey: write.toStateKey,
+        action: write.action,
+        reason: write.reason,
+        sessionId: write.sessionId,
+        selector: write.selector ?? null,
+      },
+    };
+  }
+
+  /**
+   * Merge an ApiEndpoint node (method and URL template) and a CALLS relationship from the State whose action called it
+   * The status and duration of the latest call are kept on the relationship
+   */
+  private static buildApiEndpointStatement(write: UpsertApiEndpoint): CypherStatement {
+    return {
+      query: `MATCH (a:State {stateKey: $fromStateKey, sessionId: $sessionId})
+              MERGE (e:ApiEndpoint {method: $method, urlTemplate: $urlTemplate, sessionId: $sessionId})
+              ON CREATE SET e.createdAt = datetime()
+              MERGE (a)-[r:CALLS ${this.relationshipMatchProps(write.selector)}]->(e)
+              SET r.status = $status, r.durationMs = $durationMs, r.timestamp = datetime()
+              RETURN r`,
+      params: {
+        fromStateKey: write.fromStateKey,
+        method: write.method,
+        urlTemplate: write.urlTemplate,
+        action: write.action,
+        sessionId: write.sessionId,
+        selector: write.selector ?? null,
+        status: write.status,
+        durationMs: write.durationMs,
+      },
+    };
+  }
+
+  /**
+   * Merge a Finding node and a HAS_FINDING relationship from the State the problem occurred on
+   * Repeated occurrences only count up and update the time the finding was last seen
+   */
+  private static buildFindingStatement(write: UpsertFinding): CypherStatement {
+    return {
+      query: `MATCH (s:State {stateKey: $stateKey, sessionId: $sessionId})
+              MERGE (f:Finding {findingKey: $findingKey, sessionId: $sessionId})
+              ON CREATE SET f.type = $type, f.severity = $severity, f.message = $message, f.stack = $stack,
+                            f.stateKey = $stateKey, f.action = $action, f.actionPath = $actionPath, f.url = $url,
+                            f.count = 0, f.firstSeen = $now
+              SET f.count = f.count + 1, f.lastSeen = $now
+              MERGE (s)-[r:HAS_FINDING {sessionId: $sessionId}]->(f)
+              RETURN f`,
+      params: {
+        findingKey: write.findingKey,
+        type: write.type,
+        severity: write.severity,
+        message: write.message,
+        stack: write.stack ?? null,
+        stateKey: write.stateKey,
+        action: write.action ?? null,
+        actionPath: write.actionPath,
+        url: write.url,
+        sessionId: write.sessionId,
+        now: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Merge an AccessibilityViolation node by its rule and component, and a HAS_VIOLATION relationship from the State
+   * it was found on - states sharing the component link to the same node
+   */
+  private static buildAccessibilityViolationStatement(write: UpsertAccessibilityViolation): CypherStatement {
+    return {
+      query: `MATCH (s:State {stateKey: $stateKey, sessionId: $sessionId})
+              MERGE (v:AccessibilityViolation {violationKey: $violationKey, sessionId: $sessionId})
+              ON CREATE SET v.ruleId = $ruleId, v.impact = $impact, v.help = $help, v.helpUrl = $helpUrl,
+                            v.selector = $selector, v.html = $html, v.createdAt = datetime()
+              MERGE (s)-[r:HAS_VIOLATION {sessionId: $sessionId}]->(v)
+              RETURN v`,
+      params: {
+        violationKey: write.violationKey,
+        ruleId: write.ruleId,
+        impact: write.impact,
+        help: write.help,
+        helpUrl: write.helpUrl,
+        selector: write.selector,
+        html: write.html,
+        stateKey: write.stateKey,
+        sessionId: write.sessionId,
+      },
+    };
+  }
+
+  /**
+   * Merge a FormField node and a HAS_FIELD relationship from the State of its form
+   */
+  private static buildFormFieldStatement(write: UpsertFormField): CypherStatement {
+    return {
+      query: `MATCH (s:State {stateKey: $stateKey, sessionId: $sessionId})
+              MERGE (f:FormField {fieldKey: $fieldKey, sessionId: $sessionId})
+              ON CREATE SET f.createdAt = datetime()
+              SET f.selector = $selector, f.name = $name, f.label = $label, f.type = $type, f.required = $required
+              MERGE (s)-[r:HAS_FIELD {sessionId: $sessionId}]->(f)
+              RETURN f`,
+      params: {
+        fieldKey: write.fieldKey,
+        stateKey: write.stateKey,
+        selector: write.selector,
+        name: write.name ?? null,
+        label: write.label ?? null,
+        type: write.type ?? null,
+        required: write.required ?? null,
+        sessionId: write.sessionId,
+      },
+    };
+  }
+
+  /**
+   * Merge a ValidationRule node and a HAS_RULE relationship from its FormField
+   * A later probe of the same field and constraint replaces the outcome
+   */
+  private static buildValidationRuleStatement(write: UpsertValidationRule): CypherStatement {
+    return {
+      query: `MATCH (f:FormField {fieldKey: $fieldKey, sessionId: $sessionId})
+              MERGE (v:ValidationRule {ruleKey: $ruleKey, sessionId: $sessionId})
+              SET v.rule = $rule, v.value = $value, v.declared = $declared, v.rejected = $rejected,
+                  v.messages = $messages, v.probedAt = $now
+              MERGE (f)-[r:HAS_RULE {sessionId: $sessionId}]->(v)
+              RETURN v`,
+      params: {
+        ruleKey: write.ruleKey,
+        fieldKey: write.fieldKey,
+        rule: write.rule,
+        value: write.value ?? null,
+        declared: write.declared,
+        rejected: write.rejected,
+        messages: write.messages,
+        sessionId: write.sessionId,
+        now: new Date().toISOString(),
+      },
+    };
   }
 
   /**
@@ -92,8 +392,8 @@ export class Neo4jTools {
    * Returns true if the transition exists, false otherwise
    */
   async transitionExists(
-    fromUrl: string,
-    toUrl: string,
+    fromStateKey: string,
+    toStateKey: string,
     action: string,
     sessionId: string,
     selector?: string
@@ -101,24 +401,12 @@ export class Neo4jTools {
     const session = this.driver.session();
     
     try {
-      const safeFromUrl = fromUrl.replace(/'/g, "\\'");
-      const safeToUrl = toUrl.replace(/'/g, "\\'");
-      const safeAction = action.replace(/'/g, "\\'");
-      const safeSessionId = sessionId.replace(/'/g, "\\'");
-      const safeSelector = selector ? selector.replace(/'/g, "\\'") : '';
-
-      // Build the relationship properties for matching
-      let matchProps = `action: '${safeAction}', sessionId: '${safeSessionId}'`;
-      if (safeSelector) {
-        matchProps += `, selector: '${safeSelector}'`;
-      }
-
-      const query = `MATCH (a:State {url: '${safeFromUrl}', sessionId: '${safeSessionId}'})
-                     MATCH (b:State {url: '${safeToUrl}', sessionId: '${safeSessionId}'})
-                     MATCH (a)-[r:TRANSITIONED_BY {${matchProps}}]->(b)
+      const query = `MATCH (a:State {stateKey: $fromStateKey, sessionId: $sessionId})
+                     MATCH (b:State {stateKey: $toStateKey, sessionId: $sessionId})
+                     MATCH (a)-[r:TRANSITIONED_BY ${Neo4jTools.relationshipMatchProps(selector)}]->(b)
                      RETURN r LIMIT 1`;
 
-      const result = await session.run(query);
+      const result = await session.run(query, { fromStateKey, toStateKey, action, sessionId, selector: selector ?? null });
       return result.records.length > 0;
     } catch (error) {
       logger.error('Neo4j', 'Error checking if transition exists', {
@@ -131,6 +419,443 @@ export class Neo4jTools {
     }
   }
 
+  /**
+   * Query the exploration graph, optionally filtered by sessionId
+   * External pages (outside the exploration scope), actions held back by the safety policy and logouts are only
+   * included when requested, for visualization
+   */
+  async queryGraph(
+    limit: number = 100,
+    sessionId?: string,
+    includeExternal: boolean = false,
+    includeNotExecuted: boolean = false,
+    includeLogouts: boolean = false
+  ): Promise<GraphData> {
+    const session = this.driver.session();
+
+    try {
+      // Ensure limit is an integer (Neo4j requires integer for LIMIT clause)
+      const limitInt = Math.floor(limit) || 100;
+      // Use neo4j.int() to create a proper Neo4j integer type
+      const limitValue = neo4j.int(limitInt);
+
+      // Build query with optional sessionId filter
+      // Use separate queries to get all nodes and all edges properly
+      let nodeQuery = `MATCH (n:State)`;
+      let edgeQuery = `MATCH (n:State)-[r:TRANSITIONED_BY]->(m:State)`;
+      const params: any = {};
+      
+      if (sessionId) {
+        nodeQuery = `MATCH (n:State {sessionId: $sessionId})`;
+        edgeQuery = `MATCH (n:State {sessionId: $sessionId})-[r:TRANSITIONED_BY {sessionId: $sessionId}]->(m:State {sessionId: $sessionId})`;
+        params.sessionId = sessionId;
+      }
+      
+      // First, get all nodes
+      const nodeResult = await session.run(`${nodeQuery} RETURN n LIMIT $limit`, { 
+        ...params, 
+        limit: limitValue 
+      });
+
+      const nodes = new Map<string, GraphNode>();
+      nodeResult.records.forEach((record: any) => {
+        const node = record.get('n');
+        if (node) {
+          const graphNode = Neo4jTools.toGraphNode(node);
+          nodes.set(graphNode.id, graphNode);
+        }
+      });
+
+      // Then, get all edges (up to limit)
+      const edgeResult = await session.run(`${edgeQuery} RETURN n, r, m LIMIT $limit`, {
+        ...params,
+        limit: limitValue,
+      });
+
+      const edges: GraphEdge[] = [];
+      // Use a Set to track unique edges by composite key (source, target, label, selector)
+      const edgeKeys = new Set<string>();
+      
+      edgeResult.records.forEach((record: any) => {
+        const node = record.get('n');
+        const rel = record.get('r');
+        const target = record.get('m');
+
+        if (rel && node && target) {
+          // Ensure both source and target nodes exist in our nodes map
+          const sourceNode = Neo4jTools.toGraphNode(node);
+          const targetNode = Neo4jTools.toGraphNode(target);
+          if (!nodes.has(sourceNode.id)) {
+            nodes.set(sourceNode.id, sourceNode);
+          }
+          if (!nodes.has(targetNode.id)) {
+            nodes.set(targetNode.id, targetNode);
+          }
+
+          const label = rel.properties.action || 'action';
+          const selector = rel.properties.selector || '';
+          
+          // Create a unique key for this edge
+          const edgeKey = `${sourceNode.id}|${targetNode.id}|${label}|${selector}`;
+          
+          // Only add edge if we haven't seen this exact edge before
+          if (!edgeKeys.has(edgeKey)) {
+            edgeKeys.add(edgeKey);
+            edges.push({
+              source: sourceNode.id,
+              target: targetNode.id,
+              sourceUrl: sourceNode.url,
+              targetUrl: targetNode.url,
+              label,
+              selector,
+              locators: Neo4jTools.parseJsonProperty<Array<ElementLocator | null>>(rel.properties.locators),
+              screenshotsBefore: Neo4jTools.parseJsonProperty<ScreenshotSet>(rel.properties.screenshotsBefore),
+              screenshotsAfter: Neo4jTools.parseJsonProperty<ScreenshotSet>(rel.properties.screenshotsAfter),
+              apiCalls: Neo4jTools.parseJsonProperty<ApiCall[]>(rel.properties.apiCalls),
+              persona: rel.properties.persona || undefined,
+            });
+          }
+        }
+      });
+
+      // Then, get links that lead out of the exploration scope
+      const externalQuery = sessionId
+        ? `MATCH (n:State {sessionId: $sessionId})-[r:LEAVES_SCOPE {sessionId: $sessionId}]->(e:External {sessionId: $sessionId})`
+        : `MATCH (n:State)-[r:LEAVES_SCOPE]->(e:External)`;
+      const externalResult = includeExternal
+        ? await session.run(`${externalQuery} RETURN n, r, e LIMIT $limit`, {
+            ...params,
+            limit: limitValue,
+          })
+        : { records: [] };
+
+      externalResult.records.forEach((record: any) => {
+        const node = record.get('n');
+        const rel = record.get('r');
+        const external = record.get('e');
+
+        // Only show external links from states that are part of the returned graph
+        const sourceNode = node ? Neo4jTools.toGraphNode(node) : null;
+        if (!rel || !sourceNode || !external || !nodes.has(sourceNode.id)) {
+          return;
+        }
+
+        // Prefix the id so an external page never collides with a state of the same URL
+        const externalId = `external:${external.properties.url}`;
+        if (!nodes.has(externalId)) {
+          nodes.set(externalId, {
+            id: externalId,
+            label: external.properties.url,
+            url: external.properties.url,
+            external: true,
+          });
+        }
+
+        const label = rel.properties.action || 'action';
+        const selector = rel.properties.selector || '';
+        const edgeKey = `${sourceNode.id}|${externalId}|${label}|${selector}`;
+        if (!edgeKeys.has(edgeKey)) {
+          edgeKeys.add(edgeKey);
+          edges.push({
+            source: sourceNode.id,
+            target: externalId,
+            sourceUrl: sourceNode.url,
+            targetUrl: external.properties.url,
+            label,
+            selector,
+            external: true,
+          });
+        }
+      });
+
+      // Then, get actions the safety policy recorded without executing them
+      const notExecutedQuery = sessionId
+        ? `MATCH (n:State {sessionId: $sessionId})-[r:NOT_EXECUTED {sessionId: $sessionId}]->(n)`
+        : `MATCH (n:State)-[r:NOT_EXECUTED]->(n)`;
+      const notExecutedResult = includeNotExecuted
+        ? await session.run(`${notExecutedQuery} RETURN n, r LIMIT $limit`, {
+            ...params,
+            limit: limitValue,
+          })
+        : { records: [] };
+
+      notExecutedResult.records.forEach((record: any) => {
+        const node = record.get('n');
+        const rel = record.get('r');
+        const stateNode = node ? Neo4jTools.toGraphNode(node) : null;
+        if (!rel || !stateNode || !nodes.has(stateNode.id)) {
+          return;
+        }
+
+        const label = rel.properties.action || 'action';
+        const selector = rel.properties.selector || '';
+        const edgeKey = `${stateNode.id}|${stateNode.id}|${label}|${selector}|not-executed`;
+        if (!edgeKeys.has(edgeKey)) {
+          edgeKeys.add(edgeKey);
+          edges.push({
+            source: stateNode.id,
+            target: stateNode.id,
+            sourceUrl: stateNode.url,
+            targetUrl: stateNode.url,
+            label,
+            selector,
+            notExecuted: true,
+            safety: rel.properties.safety,
+          });
+        }
+      });
+
+      // Finally, get the actions after which the agent was bounced back to the login page
+      const logoutQuery = sessionId
+        ? `MATCH (n:State {sessionId: $sessionId})-[r:LOGGED_OUT {sessionId: $sessionId}]->(m:State {sessionId: $sessionId})`
+        : `MATCH (n:State)-[r:LOGGED_OUT]->(m:State)`;
+      const logoutResult = includeLogouts
+        ? await session.run(`${logoutQuery} RETURN n, r, m LIMIT $limit`, {
+            ...params,
+            limit: limitValue,
+          })
+        : { records: [] };
+
+      logoutResult.records.forEach((record: any) => {
+        const node = record.get('n');
+        const rel = record.get('r');
+        const target = record.get('m');
+        const sourceNode = node ? Neo4jTools.toGraphNode(node) : null;
+        const targetNode = target ? Neo4jTools.toGraphNode(target) : null;
+        if (!rel || !sourceNode || !targetNode || !nodes.has(sourceNode.id)) {
+          return;
+        }
+        if (!nodes.has(targetNode.id)) {
+          nodes.set(targetNode.id, targetNode);
+        }
+
+        const label = rel.properties.action || 'action';
+        const selector = rel.properties.selector || '';
+        const edgeKey = `${sourceNode.id}|${targetNode.id}|${label}|${selector}|logged-out`;
+        if (!edgeKeys.has(edgeKey)) {
+          edgeKeys.add(edgeKey);
+          edges.push({
+            source: sourceNode.id,
+            target: targetNode.id,
+            sourceUrl: sourceNode.url,
+            targetUrl: targetNode.url,
+            label,
+            selector,
+            loggedOut: rel.properties.reason,
+          });
+        }
+      });
+
+      return {
+        nodes: Array.from(nodes.values()),
+        edges,
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Convert a State node to a graph node
+   * States recorded before state keys existed are identified by their URL
+   */
+  private static toGraphNode(node: any): GraphNode {
+    const { stateKey, url, urlTemplate, label, fingerprint, screenshots, accessibilityViolations, persona } = node.properties;
+    return {
+      id: stateKey ?? url,
+      label: label ?? url,
+      url,
+      urlTemplate: urlTemplate ?? url,
+      fingerprint,
+      screenshots: Neo4jTools.parseJsonProperty<ScreenshotSet>(screenshots),
+      accessibilityViolations: accessibilityViolations == null
+        ? undefined
+        : neo4j.isInt(accessibilityViolations) ? accessibilityViolations.toNumber() : Number(accessibilityViolations),
+      persona: persona || undefined,
+    };
+  }
+
+  /**
+   * Parse a JSON property (locators, screenshots); undefined for elements recorded without it
+   */
+  private static parseJsonProperty<T>(value: unknown): T | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Get graph counts (State nodes and TRANSITIONED_BY edges) for multiple sessions in one round trip
+   */
+  async getGraphCounts(sessionIds: string[]): Promise<Map<string, { nodes: number; edges: number }>> {
+    const countsMap = new Map<string, { nodes: number; edges: number }>();
+    sessionIds.forEach((sessionId) => countsMap.set(sessionId, { nodes: 0, edges: 0 }));
+    if (sessionIds.length === 0) {
+      return countsMap;
+    }
+
+    const dbSession = this.driver.session();
+
+    try {
+      const nodeCountsResult = await dbSession.run(
+        `MATCH (n:State) 
+         WHERE n.sessionId IN $sessionIds 
+         RETURN n.sessionId as sessionId, count(n) as count`,
+        { sessionIds }
+      );
+
+      nodeCountsResult.records.forEach((record: any) => {
+        const counts = countsMap.get(record.get('sessionId'));
+        if (counts) {
+          counts.nodes = record.get('count')?.toNumber() || 0;
+        }
+      });
+
+      // Group by the sessionId from the relationship (edges belong to a session)
+      const edgeCountsResult = await dbSession.run(
+        `MATCH (n:State)-[r:TRANSITIONED_BY]->(m:State) 
+         WHERE r.sessionId IN $sessionIds
+         RETURN r.sessionId as sessionId, count(r) as count`,
+        { sessionIds }
+      );
+
+      edgeCountsResult.records.forEach((record: any) => {
+        const counts = countsMap.get(record.get('sessionId'));
+        if (counts) {
+          counts.edges = record.get('count')?.toNumber() || 0;
+        }
+      });
+
+      return countsMap;
+    } finally {
+      await dbSession.close();
+    }
+  }
+
+  /**
+   * Get the findings of a session with the label of their state, most recently seen first
+   */
+  async queryFindings(sessionId: string): Promise<Finding[]> {
+    const dbSession = this.driver.session();
+
+    try {
+      const result = await dbSession.run(
+        `MATCH (f:Finding {sessionId: $sessionId})
+         OPTIONAL MATCH (s:State {stateKey: f.stateKey, sessionId: $sessionId})
+         RETURN f, s.label as stateLabel
+         ORDER BY f.lastSeen DESC`,
+        { sessionId }
+      );
+
+      return result.records.map((record: any) => {
+        const properties = record.get('f').properties;
+        return {
+          findingKey: properties.findingKey,
+          type: properties.type,
+          severity: properties.severity,
+          message: properties.message,
+          stack: properties.stack || undefined,
+          stateKey: properties.stateKey,
+          stateLabel: record.get('stateLabel') || undefined,
+          action: properties.action || undefined,
+          actionPath: properties.actionPath ?? [],
+          url: properties.url,
+          count: neo4j.isInt(properties.count) ? properties.count.toNumber() : Number(properties.count),
+          firstSeen: properties.firstSeen,
+          lastSeen: properties.lastSeen,
+        };
+      });
+    } finally {
+      await dbSession.close();
+    }
+  }
+
+  /**
+   * Get the accessibility violations of a session with the states they were found on
+   */
+  async queryAccessibilityViolations(sessionId: string): Promise<AccessibilityIssue[]> {
+    const dbSession = this.driver.session();
+
+    try {
+      const result = await dbSession.run(
+        `MATCH (s:State {sessionId: $sessionId})-[:HAS_VIOLATION {sessionId: $sessionId}]->(v:AccessibilityViolation {sessionId: $sessionId})
+         RETURN v, collect({stateKey: s.stateKey, stateLabel: s.label}) as states`,
+        { sessionId }
+      );
+
+      return result.records.map((record: any) => {
+        const properties = record.get('v').properties;
+        return {
+          violationKey: properties.violationKey,
+          ruleId: properties.ruleId,
+          impact: properties.impact,
+          help: properties.help,
+          helpUrl: properties.helpUrl,
+          selector: properties.selector,
+          html: properties.html,
+          states: record.get('states').map((state: any) => ({ stateKey: state.stateKey, stateLabel: state.stateLabel || undefined })),
+        };
+      });
+    } finally {
+      await dbSession.close();
+    }
+  }
+
+  /**
+   * Get the probed forms of a session with the validation rules of their fields, fields in the order they were found
+   */
+  async queryValidationRules(sessionId: string): Promise<FormValidation[]> {
+    const dbSession = this.driver.session();
+
+    try {
+      const result = await dbSession.run(
+        `MATCH (s:State {sessionId: $sessionId})-[:HAS_FIELD {sessionId: $sessionId}]->(f:FormField {sessionId: $sessionId})
+         OPTIONAL MATCH (f)-[:HAS_RULE {sessionId: $sessionId}]->(v:ValidationRule {sessionId: $sessionId})
+         RETURN s.stateKey as stateKey, s.label as stateLabel, s.url as url, f, collect(v) as rules
+         ORDER BY f.createdAt`,
+        { sessionId }
+      );
+
+      const forms = new Map<string, FormValidation>();
+      result.records.forEach((record: any) => {
+        const stateKey = record.get('stateKey');
+        const form: FormValidation = forms.get(stateKey) ?? {
+          stateKey,
+          stateLabel: record.get('stateLabel') || undefined,
+          url: record.get('url') || undefined,
+          fields: [],
+        };
+        forms.set(stateKey, form);
+
+        const properties = record.get('f').properties;
+        form.fields.push({
+          fieldKey: properties.fieldKey,
+          selector: properties.selector,
+          name: properties.name || undefined,
+          label: properties.label || undefined,
+          type: properties.type || undefined,
+          required: properties.required ?? undefined,
+          rules: record.get('rules').map((rule: any) => ({
+            rule: rule.properties.rule,
+            value: rule.properties.value ?? undefined,
+            declared: rule.properties.declared,
+            rejected: rule.properties.rejected,
+            messages: rule.properties.messages ?? [],
+            probedAt: rule.properties.probedAt,
+          })),
+        });
+      });
+      return Array.from(forms.values());
+    } finally {
+      await dbSession.close();
+    }
+  }
+
   /**
    * Close the Neo4j driver connection
    */
@@ -161,24 +886,21 @@ export class Neo4jTools {
     const session = this.driver.session();
     
     try {
-      // Escape single quotes in sessionId
-      const safeSessionId = sessionId.replace(/'/g, "\\'");
-      
       // Delete all relationships for this session first (required before deleting nodes)
       const deleteRelationshipsQuery = `
-        MATCH ()-[r:TRANSITIONED_BY {sessionId: '${safeSessionId}'}]-()
+        MATCH ()-[r:TRANSITIONED_BY|LEAVES_SCOPE|NOT_EXECUTED|LOGGED_OUT|CALLS|HAS_FINDING|HAS_VIOLATION|HAS_FIELD|HAS_RULE {sessionId: $sessionId}]-()
         DELETE r
       `;
       
       // Delete all nodes for this session
       const deleteNodesQuery = `
-        MATCH (n:State {sessionId: '${safeSessionId}'})
+        MATCH (n:State|External|ApiEndpoint|Finding|AccessibilityViolation|FormField|ValidationRule {sessionId: $sessionId})
         DELETE n
       `;
       
       await session.executeWrite(async (tx) => {
-        await tx.run(deleteRelationshipsQuery);
-        await tx.run(deleteNodesQuery);
+        await tx.run(deleteRelationshipsQuery, { sessionId });
+        await tx.run(deleteNodesQuery, { sessionId });
       });
       
       logger.info('Neo4j', `Deleted all graph data for session: ${sessionId}`);
@@ -207,6 +929,12 @@ export class Neo4jTools {
         FOR (n:State) ON (n.sessionId)
       `;
       
+      // Create index on the State node key
+      const createStateKeyIndexQuery = `
+        CREATE INDEX stateKey_index IF NOT EXISTS
+        FOR (n:State) ON (n.stateKey, n.sessionId)
+      `;
+      
       // Create index on Session nodes for sessionId
       const createSessionIndexQuery = `
         CREATE INDEX session_sessionId_index IF NOT EXISTS
@@ -214,8 +942,9 @@ export class Neo4jTools {
       `;
       
       await session.run(createIndexQuery);
+      await session.run(createStateKeyIndexQuery);
       await session.run(createSessionIndexQuery);
-      logger.info('Neo4j', 'Ensured indexes exist for sessionId and Session nodes');
+      logger.info('Neo4j', 'Ensured indexes exist for sessionId, stateKey and Session nodes');
     } catch (error) {
       // Index might already exist, which is fine
       logger.warn('Neo4j', 'Could not create index (might already exist)', {
@@ -229,19 +958,7 @@ export class Neo4jTools {
   /**
    * Save or update session metadata in Neo4j
    */
-  async saveSessionMetadata(metadata: {
-    sessionId: string;
-    status: 'idle' | 'running' | 'completed' | 'error';
-    url: string;
-    createdAt: Date;
-    updatedAt?: Date;
-    error?: string;
-    tokenUsage?: {
-      exploration: { inputTokens: number; outputTokens: number };
-      userStories: { inputTokens: number; outputTokens: number };
-      total: { inputTokens: number; outputTokens: number };
-    };
-  }): Promise<void> {
+  async saveSessionMetadata(metadata: Omit<SessionMetadata, 'updatedAt'> & { updatedAt?: Date }): Promise<void> {
     const dbSession = this.driver.session();
     
     try {
@@ -256,12 +973,18 @@ export class Neo4jTools {
                       s.url = $url,
                       s.updatedAt = $updatedAt,
                       s.error = $error,
-                      s.tokenUsage = $tokenUsage
+                      s.budgetReason = $budgetReason,
+                      s.tokenUsage = $tokenUsage,
+                      s.campaignId = $campaignId,
+                      s.persona = $persona
         ON MATCH SET s.status = $status,
                      s.url = $url,
                      s.updatedAt = $updatedAt,
                      s.error = $error,
-                     s.tokenUsage = $tokenUsage
+                     s.budgetReason = $budgetReason,
+                     s.tokenUsage = $tokenUsage,
+                     s.campaignId = coalesce($campaignId, s.campaignId),
+                     s.persona = coalesce($persona, s.persona)
         RETURN s
       `;
       
@@ -272,7 +995,10 @@ export class Neo4jTools {
         createdAt: createdAt,
         updatedAt: updatedAt,
         error: metadata.error || null,
+        budgetReason: metadata.budgetReason || null,
         tokenUsage: metadata.tokenUsage ? JSON.stringify(metadata.tokenUsage) : null,
+        campaignId: metadata.campaignId ?? null,
+        persona: metadata.persona ?? null,
       };
       
       await dbSession.run(query, params);
@@ -291,19 +1017,7 @@ export class Neo4jTools {
   /**
    * Load all session metadata from Neo4j
    */
-  async loadAllSessionMetadata(): Promise<Array<{
-    sessionId: string;
-    status: 'idle' | 'running' | 'completed' | 'error';
-    url: string;
-    createdAt: Date;
-    updatedAt: Date;
-    error?: string;
-    tokenUsage?: {
-      exploration: { inputTokens: number; outputTokens: number };
-      userStories: { inputTokens: number; outputTokens: number };
-      total: { inputTokens: number; outputTokens: number };
-    };
-  }>> {
+  async loadAllSessionMetadata(): Promise<SessionMetadata[]> {
     const dbSession = this.driver.session();
     
     try {
@@ -340,12 +1054,15 @@ export class Neo4jTools {
         
         return {
           sessionId: properties.sessionId,
-          status: properties.status as 'idle' | 'running' | 'completed' | 'error',
+          status: properties.status as SessionStatus,
           url: properties.url,
           createdAt,
           updatedAt,
           error: properties.error || undefined,
+          budgetReason: properties.budgetReason || undefined,
           tokenUsage,
+          campaignId: properties.campaignId || undefined,
+          persona: properties.persona || undefined,
         };
       });
     } catch (error) {
@@ -361,19 +1078,7 @@ export class Neo4jTools {
   /**
    * Load a single session's metadata from Neo4j
    */
-  async loadSessionMetadata(sessionId: string): Promise<{
-    sessionId: string;
-    status: 'idle' | 'running' | 'completed' | 'error';
-    url: string;
-    createdAt: Date;
-    updatedAt: Date;
-    error?: string;
-    tokenUsage?: {
-      exploration: { inputTokens: number; outputTokens: number };
-      userStories: { inputTokens: number; outputTokens: number };
-      total: { inputTokens: number; outputTokens: number };
-    };
-  } | null> {
+  async loadSessionMetadata(sessionId: string): Promise<SessionMetadata | null> {
     const dbSession = this.driver.session();
     
     try {
@@ -413,12 +1118,15 @@ export class Neo4jTools {
       
       return {
         sessionId: properties.sessionId,
-        status: properties.status as 'idle' | 'running' | 'completed' | 'error',
+        status: properties.status as SessionStatus,
         url: properties.url,
         createdAt,
         updatedAt,
         error: properties.error || undefined,
+        budgetReason: properties.budgetReason || undefined,
         tokenUsage,
+        campaignId: properties.campaignId || undefined,
+        persona: properties.persona || undefined,
       };
     } catch (error) {
       logger.error('Neo4j', 'Error loading session metadata', {
@@ -434,15 +1142,7 @@ export class Neo4jTools {
   /**
    * Save user stories for a session to Neo4j
    */
-  async saveUserStories(sessionId: string, userStories: {
-    stories: Array<{
-      title: string;
-      description: string;
-      steps: string[];
-      flow: Array<{ from: string; to: string; action: string }>;
-    }>;
-    summary: string;
-  }): Promise<void> {
+  async saveUserStories(sessionId: string, userStories: StoredUserStories): Promise<void> {
     const dbSession = this.driver.session();
     
     try {
@@ -472,15 +1172,7 @@ export class Neo4jTools {
   /**
    * Load user stories for a session from Neo4j
    */
-  async loadUserStories(sessionId: string): Promise<{
-    stories: Array<{
-      title: string;
-      description: string;
-      steps: string[];
-      flow: Array<{ from: string; to: string; action: string }>;
-    }>;
-    summary: string;
-  } | null> {
+  async loadUserStories(sessionId: string): Promise<StoredUserStories | null> {
     const dbSession = this.driver.session();
     
     try {
@@ -512,6 +1204,152 @@ export class Neo4jTools {
     }
   }
 
+  /**
+   * Save the agent checkpoint for a session to Neo4j
+   * Overwrites the previous checkpoint - only the latest one is needed to resume
+   */
+  async saveCheckpoint(sessionId: string, checkpoint: AgentCheckpoint): Promise<void> {
+    const dbSession = this.driver.session();
+    
+    try {
+      const query = `
+        MERGE (s:Session {sessionId: $sessionId})
+        SET s.checkpoint = $checkpoint,
+            s.checkpointedAt = $checkpointedAt
+        RETURN s
+      `;
+      
+      await dbSession.run(query, {
+        sessionId,
+        checkpoint: JSON.stringify(checkpoint),
+        checkpointedAt: checkpoint.savedAt,
+      });
+    } catch (error) {
+      logger.error('Neo4j', 'Error saving checkpoint', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      await dbSession.close();
+    }
+  }
+
+  /**
+   * Load the latest agent checkpoint for a session from Neo4j
+   */
+  async loadCheckpoint(sessionId: string): Promise<AgentCheckpoint | null> {
+    const dbSession = this.driver.session();
+    
+    try {
+      const query = `
+        MATCH (s:Session {sessionId: $sessionId})
+        RETURN s.checkpoint as checkpoint
+      `;
+      
+      const result = await dbSession.run(query, { sessionId });
+      
+      if (result.records.length === 0) {
+        return null;
+      }
+      
+      const checkpointStr = result.records[0].get('checkpoint');
+      if (!checkpointStr) {
+        return null;
+      }
+      
+      return JSON.parse(checkpointStr);
+    } catch (error) {
+      logger.error('Neo4j', 'Error loading checkpoint', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    } finally {
+      await dbSession.close();
+    }
+  }
+
+  /**
+   * Save a login recipe to Neo4j, replacing the recipe of the same URL pattern
+   */
+  async saveLoginRecipe(recipe: LoginRecipe): Promise<void> {
+    const dbSession = this.driver.session();
+    const updatedAt = recipe.updatedAt ?? new Date().toISOString();
+
+    try {
+      const query = `
+        MERGE (r:LoginRecipe {urlPattern: $urlPattern})
+        SET r.recipe = $recipe,
+            r.updatedAt = $updatedAt
+      `;
+
+      await dbSession.run(query, {
+        urlPattern: recipe.urlPattern,
+        recipe: JSON.stringify({ ...recipe, updatedAt }),
+        updatedAt,
+      });
+    } catch (error) {
+      logger.error('Neo4j', 'Error saving login recipe', {
+        urlPattern: recipe.urlPattern,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      await dbSession.close();
+    }
+  }
+
+  /**
+   * Load all login recipes from Neo4j, most recently updated first
+   */
+  async loadLoginRecipes(): Promise<LoginRecipe[]> {
+    const dbSession = this.driver.session();
+
+    try {
+      const query = `
+        MATCH (r:LoginRecipe)
+        RETURN r.recipe as recipe
+        ORDER BY r.updatedAt DESC
+      `;
+
+      const result = await dbSession.run(query);
+      return result.records.map((record) => JSON.parse(record.get('recipe')) as LoginRecipe);
+    } catch (error) {
+      logger.error('Neo4j', 'Error loading login recipes', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    } finally {
+      await dbSession.close();
+    }
+  }
+
+  /**
+   * Delete the login recipe of a URL pattern from Neo4j
+   */
+  async deleteLoginRecipe(urlPattern: string): Promise<void> {
+    const dbSession = this.driver.session();
+
+    try {
+      const query = `
+        MATCH (r:LoginRecipe {urlPattern: $urlPattern})
+        DELETE r
+      `;
+
+      await dbSession.run(query, { urlPattern });
+      logger.info('Neo4j', `Deleted login recipe: ${urlPattern}`);
+    } catch (error) {
+      logger.error('Neo4j', 'Error deleting login recipe', {
+        urlPattern,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      await dbSession.close();
+    }
+  }
+
   /**
    * Delete session metadata from Neo4j
    */
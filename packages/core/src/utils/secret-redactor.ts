@@ -0,0 +1,175 @@
+import { PendingAction, SecretRedactorSnapshot, SimplifiedElement } from '../types/state.js';
+import { TotpGenerator } from './totp-generator.js';
+
+// Placeholder syntax stored in place of secret values, e.g. {{credentials.password}}
+const PLACEHOLDER_PATTERN = /\{\{([\w.-]+)\}\}/g;
+
+// Values shorter than this are too likely to occur in unrelated text to be redacted inside it
+const MIN_REDACTED_LENGTH = 3;
+
+/**
+ * SecretRedactor - Keeps secret values out of action labels, history, the graph and logs
+ * Secrets are stored as {{key}} placeholders and only resolved back to their values when typed into the page
+ * TOTP placeholders ({{totp.N}}) resolve to the code that is valid when they are typed
+ * Credentials are known up front; values typed into password fields or matching a secret pattern are
+ * registered while exploring (as {{secrets.N}}) and cannot be resolved outside the session that typed them
+ * Resumed sessions restore the placeholder ids, not the values: ids are not handed out twice, and typing a
+ * placeholder whose value is lost fails instead of typing the placeholder itself
+ */
+export class SecretRedactor {
+  private secrets = new Map<string, string>(); // Placeholder key -> secret value
+  private totpSecrets = new Map<string, string>(); // Placeholder key -> TOTP secret, resolved to the current code
+  private patterns: RegExp[];
+  private registeredCount = 0; // Secrets registered while exploring
+  private totpCount = 0; // TOTP secrets registered
+  private lostIds = new Set<string>(); // Ids restored from a snapshot whose values are not known in this run
+
+  constructor(
+    credentials?: { username?: string; password?: string },
+    secretPatterns: string[] = []
+  ) {
+    if (credentials?.username) {
+      this.secrets.set('credentials.username', credentials.username);
+    }
+    if (credentials?.password) {
+      this.secrets.set('credentials.password', credentials.password);
+    }
+    this.patterns = secretPatterns.map((pattern) => SecretRedactor.parsePattern(pattern));
+  }
+
+  /**
+   * Build the placeholder for a secret key
+   */
+  static placeholder(key: string): string {
+    return `{{${key}}}`;
+  }
+
+  /**
+   * Parse a secret pattern written as a regular expression, optionally as /pattern/flags
+   * Throws an error for an invalid regular expression
+   */
+  static parsePattern(pattern: string): RegExp {
+    const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    // Global matching would make test() stateful
+    return regexMatch ? new RegExp(regexMatch[1], regexMatch[2].replace('g', '')) : new RegExp(pattern);
+  }
+
+  /**
+   * Register the secret of a TOTP authenticator and get its placeholder key (the same key for the same secret)
+   */
+  registerTotp(secret: string): string {
+    const existing = Array.from(this.totpSecrets.entries()).find(([, value]) => value === secret)?.[0];
+    if (existing) {
+      return existing;
+    }
+    const key = `totp.${++this.totpCount}`;
+    this.totpSecrets.set(key, secret);
+    return key;
+  }
+
+  /**
+   * Replace the text of a typeText action with a placeholder if it is a secret
+   * Known secret values, values typed into password fields and values matching a secret pattern are redacted
+   */
+  protectAction(action: PendingAction, element?: SimplifiedElement): PendingAction {
+    if (action.tool !== 'typeText' || !action.text || this.isPlaceholder(action.text)) {
+      return action;
+    }
+
+    const knownKey = this.findKey(action.text);
+    if (knownKey) {
+      return { ...action, text: SecretRedactor.placeholder(knownKey) };
+    }
+
+    const isPasswordField = (element?.type || '').toLowerCase() === 'password';
+    if (isPasswordField || this.patterns.some((pattern) => pattern.test(action.text!))) {
+      const key = `secrets.${++this.registeredCount}`;
+      this.secrets.set(key, action.text);
+      return { ...action, text: SecretRedactor.placeholder(key) };
+    }
+    return action;
+  }
+
+  /**
+   * Replace occurrences of known secret values in free text (log lines, LLM output) with their placeholders
+   */
+  redact(text: string): string {
+    return this.redactableEntries().reduce((redacted, [key, value]) => redacted.split(value).join(SecretRedactor.placeholder(key)), text);
+  }
+
+  /**
+   * Replace known secret values in a URL, also where they appear percent-encoded (paths and query strings)
+   */
+  redactUrl(url: string): string {
+    return this.redactableEntries().reduce((redacted, [key, value]) => {
+      const encodings = new Set([value, encodeURIComponent(value), new URLSearchParams({ value }).toString().substring('value='.length)]);
+      return Array.from(encodings).reduce((result, encoded) => result.split(encoded).join(SecretRedactor.placeholder(key)), redacted);
+    }, url);
+  }
+
+  /**
+   * Resolve placeholders to their secret values - only call this right before typing into the page
+   * Unknown placeholders are left as they are
+   * Throws an error for placeholders whose values were lost when the session was resumed
+   */
+  resolve(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => {
+      if (this.lostIds.has(key)) {
+        throw new Error(`The value of ${placeholder} was typed before the session was resumed and is not stored`);
+      }
+      const totpSecret = this.totpSecrets.get(key);
+      return totpSecret ? TotpGenerator.generate(totpSecret) : this.secrets.get(key) ?? placeholder;
+    });
+  }
+
+  /**
+   * Get the keys of placeholders in a text that cannot be resolved
+   */
+  findUnresolved(text: string): string[] {
+    return Array.from(text.matchAll(PLACEHOLDER_PATTERN))
+      .map((match) => match[1])
+      .filter((key) => !this.secrets.has(key) && !this.totpSecrets.has(key));
+  }
+
+  /**
+   * Serialize the placeholder ids handed out so far (for checkpoints) - values are left out
+   */
+  toSnapshot(): SecretRedactorSnapshot {
+    return { ids: [...this.secrets.keys(), ...this.totpSecrets.keys(), ...this.lostIds] };
+  }
+
+  /**
+   * Restore the placeholder ids of a snapshot: new ids continue after them, ids without a value in this run are lost
+   */
+  restore(snapshot: SecretRedactorSnapshot): void {
+    const index = (prefix: string) => snapshot.ids
+      .filter((id) => id.startsWith(prefix))
+      .reduce((max, id) => Math.max(max, parseInt(id.substring(prefix.length), 10) || 0), 0);
+    this.registeredCount = Math.max(this.registeredCount, index('secrets.'));
+    this.totpCount = Math.max(this.totpCount, index('totp.'));
+    this.lostIds = new Set(snapshot.ids.filter((id) => !this.secrets.has(id) && !this.totpSecrets.has(id)));
+  }
+
+  /**
+   * Secret values long enough to be redacted, longest first so a secret containing another one is replaced as a whole
+   */
+  private redactableEntries(): Array<[string, string]> {
+    return [...this.secrets.entries(), ...this.totpSecrets.entries()]
+      .filter(([, value]) => value.length >= MIN_REDACTED_LENGTH)
+      .sort(([, a], [, b]) => b.length - a.length);
+  }
+
+  /**
+   * Check if a text is exactly one placeholder
+   */
+  private isPlaceholder(text: string): boolean {
+    return new RegExp(`^${PLACEHOLDER_PATTERN.source}$`).test(text);
+  }
+
+  /**
+   * Find the key of a known secret value
+   */
+  private findKey(value: string): string | undefined {
+    return Array.from(this.secrets.entries()).find(([, secret]) => secret === value)?.[0];
+  }
+}
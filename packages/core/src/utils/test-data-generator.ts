@@ -0,0 +1,477 @@
+import { createHash } from 'crypto';
+import { SimplifiedElement, TestDataSnapshot, ValidationRuleKind } from '../types/state.js';
+
+/**
+ * FieldKind - Meaning of a form field, inferred from its type, autocomplete hint, name, label and placeholder
+ */
+export type FieldKind =
+  | 'email' | 'phone' | 'url' | 'password' | 'username'
+  | 'firstName' | 'lastName' | 'fullName' | 'company' | 'address' | 'city' | 'zip'
+  | 'number' | 'date' | 'time' | 'datetime' | 'month' | 'week' | 'color'
+  | 'search' | 'text' | 'longText' | 'select' | 'checkbox' | 'radio' | 'file';
+
+/**
+ * InvalidValue - A value a field should reject, with the constraint it violates
+ */
+export interface InvalidValue {
+  value?: string; // Undefined leaves the field empty
+  rule: ValidationRuleKind;
+  declared: boolean; // The markup declares the constraint - otherwise the probe looks for a rule the app enforces
+}
+
+const FIRST_NAMES = ['Alex', 'Maria', 'James', 'Priya', 'Chen', 'Fatima', 'Lucas', 'Emma', 'Noah', 'Sofia'];
+const LAST_NAMES = ['Morgan', 'Garcia', 'Smith', 'Patel', 'Wang', 'Khan', 'Silva', 'Muller', 'Kim', 'Rossi'];
+const COMPANIES = ['Acme Corp', 'Globex', 'Initech', 'Umbrella Labs', 'Stark Industries'];
+const STREETS = ['Main Street', 'Oak Avenue', 'Maple Road', 'Cedar Lane', 'Elm Street'];
+const CITIES = ['Springfield', 'Riverton', 'Lakeside', 'Fairview', 'Greenville'];
+const WORDS = ['alpha', 'bravo', 'delta', 'orbit', 'harbor', 'meadow', 'summit', 'pixel', 'cobalt', 'nova'];
+
+// Kinds typed as free text - length and pattern constraints apply to them
+const TEXT_KINDS: FieldKind[] = [
+  'email', 'phone', 'url', 'password', 'username', 'firstName', 'lastName', 'fullName',
+  'company', 'address', 'city', 'zip', 'search', 'text', 'longText',
+];
+
+// Kinds left empty by validation probes even when not declared required
+const EMPTY_PROBE_KINDS: FieldKind[] = [...TEXT_KINDS, 'number', 'date', 'time', 'datetime', 'month', 'week'];
+
+// Input types that map directly to a kind
+const INPUT_TYPE_KINDS: Record<string, FieldKind> = {
+  email: 'email', tel: 'phone', url: 'url', password: 'password', number: 'number', range: 'number',
+  date: 'date', time: 'time', 'datetime-local': 'datetime', month: 'month', week: 'week', color: 'color',
+  search: 'search', checkbox: 'checkbox', radio: 'radio', file: 'file',
+};
+
+// Autocomplete tokens that map directly to a kind
+const AUTOCOMPLETE_KINDS: Record<string, FieldKind> = {
+  email: 'email', tel: 'phone', url: 'url', username: 'username', 'new-password': 'password',
+  'current-password': 'password', 'given-name': 'firstName', 'family-name': 'lastName', name: 'fullName',
+  organization: 'company', 'street-address': 'address', 'address-line1': 'address', 'address-level2': 'city',
+  'postal-code': 'zip', bday: 'date',
+};
+
+// Name, label and placeholder keywords, checked in order
+const HINT_KINDS: Array<[RegExp, FieldKind]> = [
+  [/e-?mail/, 'email'],
+  [/phone|mobile|\btel\b/, 'phone'],
+  [/\burl\b|website|homepage/, 'url'],
+  [/password|passwd/, 'password'],
+  [/user ?name|login/, 'username'],
+  [/first ?name|given ?name/, 'firstName'],
+  [/last ?name|surname|family ?name/, 'lastName'],
+  [/full ?name|your name/, 'fullName'],
+  [/company|organi[sz]ation/, 'company'],
+  [/zip|postal/, 'zip'],
+  [/city|town/, 'city'],
+  [/address|street/, 'address'],
+  [/birth|\bdob\b|\bdate\b/, 'date'],
+  [/\bage\b|quantity|amount|price|count/, 'number'],
+];
+
+// Range used for dates without min/max - fixed so values don't depend on the day of the run
+const DEFAULT_DATE_RANGE = ['2024-01-01', '2026-12-31'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * TestDataGenerator - Synthetic, field-aware values for the forms the agent fills
+ * Values satisfy the constraints of the field (type, pattern, length, range, options) and only depend on the
+ * seed, the field and how many values were generated for it, so the same seed replays the same data.
+ * For validation probing it also produces values each field should reject.
+ */
+export class TestDataGenerator {
+  private readonly seed: number;
+  private counters = new Map<string, number>(); // Field key -> values generated
+  private probed = new Set<string>(); // "form|field key|rule" triples already probed
+
+  constructor(seed: number = 1) {
+    this.seed = seed;
+  }
+
+  /**
+   * Infer the meaning of a field
+   */
+  static inferFieldKind(element: SimplifiedElement): FieldKind {
+    const tag = element.tag.toUpperCase();
+    if (tag === 'SELECT') {
+      return 'select';
+    }
+    const typeKind = INPUT_TYPE_KINDS[(element.type || '').toLowerCase()];
+    if (typeKind) {
+      return typeKind;
+    }
+    const autocomplete = (element.field?.autocomplete || '').toLowerCase().split(/\s+/).pop() ?? '';
+    const autocompleteKind = AUTOCOMPLETE_KINDS[autocomplete] ?? (autocomplete.startsWith('bday') ? 'date' : undefined);
+    if (autocompleteKind) {
+      return autocompleteKind;
+    }
+    if ((element.field?.inputMode || '').toLowerCase() === 'email') {
+      return 'email';
+    }
+
+    const hints = [element.field?.name, element.field?.label, element.field?.placeholder, element.locator?.name]
+      .filter((hint): hint is string => !!hint)
+      .join(' ')
+      .replace(/[_-]/g, ' ')
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase();
+    const hintKind = HINT_KINDS.find(([pattern]) => pattern.test(hints));
+    if (hintKind) {
+      return hintKind[1];
+    }
+    return tag === 'TEXTAREA' ? 'longText' : 'text';
+  }
+
+  /**
+   * Generate a valid value for a field
+   * Returns undefined for fields that are clicked instead of filled (checkboxes, radios, file inputs)
+   * and selects without options
+   */
+  validValue(element: SimplifiedElement): string | undefined {
+    const kind = TestDataGenerator.inferFieldKind(element);
+    const key = TestDataGenerator.fieldKey(element);
+    const count = (this.counters.get(key) ?? 0) + 1;
+    this.counters.set(key, count);
+    const random = this.random(`${key}|${count}`);
+    const field = element.field ?? {};
+
+    if (kind === 'select') {
+      const options = (field.options ?? []).filter((option) => option.value !== '');
+      return options.length > 0 ? options[Math.floor(random() * options.length)].value : undefined;
+    }
+    if (kind === 'checkbox' || kind === 'radio' || kind === 'file') {
+      return undefined;
+    }
+
+    let value = TestDataGenerator.generateForKind(kind, random, count, field.min, field.max, field.step);
+    if (!TEXT_KINDS.includes(kind)) {
+      return value;
+    }
+    const pattern = field.pattern ? TestDataGenerator.compilePattern(field.pattern) : null;
+    if (field.pattern && pattern && !pattern.test(value)) {
+      const sample = TestDataGenerator.sampleFromPattern(field.pattern, random);
+      if (sample !== undefined && pattern.test(sample)) {
+        value = sample;
+      }
+    }
+    return TestDataGenerator.fitLength(value, kind, field.minLength, field.maxLength);
+  }
+
+  /**
+   * Get the values a field should reject, one per constraint it declares
+   * Fields are also left empty, and passwords get a single character, when the markup declares no such constraint,
+   * so rules only the application enforces (e.g. "Username is required") are found too
+   */
+  invalidValues(element: SimplifiedElement): InvalidValue[] {
+    const kind = TestDataGenerator.inferFieldKind(element);
+    const field = element.field ?? {};
+    const values: InvalidValue[] = [];
+    const typed = INPUT_TYPE_KINDS[(element.type || '').toLowerCase()] === kind;
+
+    if (element.isRequired || EMPTY_PROBE_KINDS.includes(kind)) {
+      values.push({ rule: 'required', declared: !!element.isRequired });
+    }
+    if (kind === 'email') {
+      values.push({ value: 'not-an-email', rule: 'format', declared: typed });
+    } else if (kind === 'url') {
+      values.push({ value: 'not a url', rule: 'format', declared: typed });
+    } else if (kind === 'phone') {
+      values.push({ value: 'phone', rule: 'format', declared: typed });
+    }
+
+    if (TEXT_KINDS.includes(kind)) {
+      if (field.minLength !== undefined && field.minLength > 1) {
+        values.push({ value: 'a'.repeat(field.minLength - 1), rule: 'minLength', declared: true });
+      } else if (field.minLength === undefined && kind === 'password') {
+        values.push({ value: 'a', rule: 'minLength', declared: false });
+      }
+      if (field.maxLength !== undefined) {
+        values.push({ value: 'a'.repeat(field.maxLength + 1), rule: 'maxLength', declared: true });
+      }
+      const pattern = field.pattern ? TestDataGenerator.compilePattern(field.pattern) : null;
+      if (pattern) {
+        const value = ['!!!', 'a', '0', 'A a'].find((candidate) => !pattern.test(candidate));
+        if (value !== undefined) {
+          values.push({ value, rule: 'pattern', declared: true });
+        }
+      }
+    } else if (kind === 'number') {
+      const step = TestDataGenerator.parseStep(field.step);
+      if (field.min !== undefined && !isNaN(Number(field.min))) {
+        values.push({ value: TestDataGenerator.formatNumber(Number(field.min) - step, step), rule: 'min', declared: true });
+      }
+      if (field.max !== undefined && !isNaN(Number(field.max))) {
+        values.push({ value: TestDataGenerator.formatNumber(Number(field.max) + step, step), rule: 'max', declared: true });
+      }
+    } else if (kind === 'date') {
+      const min = TestDataGenerator.parseDate(field.min);
+      const max = TestDataGenerator.parseDate(field.max);
+      if (min !== undefined) {
+        values.push({ value: TestDataGenerator.formatDate(min - DAY_MS), rule: 'min', declared: true });
+      }
+      if (max !== undefined) {
+        values.push({ value: TestDataGenerator.formatDate(max + DAY_MS), rule: 'max', declared: true });
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Pick the next validation probe among the fields of a form: the first invalid value not probed yet
+   * Probes are tracked per form, so fields sharing a name or selector on different forms are each probed
+   * Returns undefined once every constraint of the fields was probed
+   */
+  nextProbe(form: string, elements: SimplifiedElement[]): { element: SimplifiedElement; invalid: InvalidValue } | undefined {
+    for (const element of elements) {
+      const key = `${form}|${TestDataGenerator.fieldKey(element)}`;
+      const invalid = this.invalidValues(element).find((candidate) => !this.probed.has(`${key}|${candidate.rule}`));
+      if (invalid) {
+        this.probed.add(`${key}|${invalid.rule}`);
+        return { element, invalid };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check if a form still has constraints to probe, without picking one
+   */
+  hasProbesLeft(form: string, elements: SimplifiedElement[]): boolean {
+    return elements.some((element) => {
+      const key = `${form}|${TestDataGenerator.fieldKey(element)}`;
+      return this.invalidValues(element).some((candidate) => !this.probed.has(`${key}|${candidate.rule}`));
+    });
+  }
+
+  /**
+   * Serialize the generator state (for checkpoints)
+   */
+  toSnapshot(): TestDataSnapshot {
+    return { counters: Object.fromEntries(this.counters), probed: Array.from(this.probed) };
+  }
+
+  /**
+   * Restore the generator state from a snapshot
+   */
+  restore(snapshot: TestDataSnapshot): void {
+    this.counters = new Map(Object.entries(snapshot.counters));
+    this.probed = new Set(snapshot.probed);
+  }
+
+  /**
+   * Compile an HTML pattern attribute the way browsers do: anchored to the whole value, with the v flag
+   * Returns null if the pattern is not a valid regular expression - browsers ignore such patterns, so the pattern
+   * rule is skipped
+   */
+  static compilePattern(pattern: string): RegExp | null {
+    try {
+      return new RegExp(`^(?:${pattern})$`, 'v');
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Key values are generated and probed by: the field name, test id or selector
+   */
+  static fieldKey(element: SimplifiedElement): string {
+    return element.field?.name || element.locator?.testId || element.selector;
+  }
+
+  /**
+   * Deterministic random number generator (mulberry32) for a seed and a field
+   */
+  private random(key: string): () => number {
+    let state = createHash('sha256').update(`${this.seed}|${key}`).digest().readUInt32BE(0);
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Generate a value for a kind of field (the count keeps values of the same field unique)
+   */
+  private static generateForKind(kind: FieldKind, random: () => number, count: number, min?: string, max?: string, step?: string): string {
+    const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+    const digits = (length: number) => Array.from({ length }, () => Math.floor(random() * 10)).join('');
+    const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+    const first = pick(FIRST_NAMES);
+    const last = pick(LAST_NAMES);
+
+    switch (kind) {
+      case 'email':
+        return `${first}.${last}${count}@example.test`.toLowerCase();
+      case 'phone':
+        return `+1555${digits(7)}`;
+      case 'url':
+        return `https://example.test/${pick(WORDS)}-${count}`;
+      case 'password':
+        return `${capitalize(pick(WORDS))}-${digits(4)}!`;
+      case 'username':
+        return `${first}${last}${count}`.toLowerCase();
+      case 'firstName':
+        return first;
+      case 'lastName':
+        return last;
+      case 'fullName':
+        return `${first} ${last}`;
+      case 'company':
+        return pick(COMPANIES);
+      case 'address':
+        return `${1 + Math.floor(random() * 999)} ${pick(STREETS)}`;
+      case 'city':
+        return pick(CITIES);
+      case 'zip':
+        return digits(5);
+      case 'search':
+        return pick(WORDS);
+      case 'longText':
+        return `${capitalize(pick(WORDS))} ${pick(WORDS)} ${pick(WORDS)} test note ${count}.`;
+      case 'number': {
+        const stepValue = TestDataGenerator.parseStep(step);
+        const minValue = min !== undefined && !isNaN(Number(min)) ? Number(min) : 1;
+        const maxValue = max !== undefined && !isNaN(Number(max)) ? Number(max) : minValue + 99 * stepValue;
+        const steps = Math.max(0, Math.floor((maxValue - minValue) / stepValue));
+        return TestDataGenerator.formatNumber(minValue + Math.floor(random() * (steps + 1)) * stepValue, stepValue);
+      }
+      case 'date':
+      case 'month':
+      case 'week':
+      case 'datetime': {
+        const start = TestDataGenerator.parseDate(min) ?? Date.parse(DEFAULT_DATE_RANGE[0]);
+        const end = TestDataGenerator.parseDate(max) ?? Math.max(start, Date.parse(DEFAULT_DATE_RANGE[1]));
+        const date = TestDataGenerator.formatDate(start + Math.floor(random() * (Math.floor((end - start) / DAY_MS) + 1)) * DAY_MS);
+        if (kind === 'month') {
+          return date.substring(0, 7);
+        }
+        if (kind === 'week') {
+          return `${date.substring(0, 4)}-W${String(1 + Math.floor(random() * 52)).padStart(2, '0')}`;
+        }
+        return kind === 'datetime' ? `${date}T${String(8 + Math.floor(random() * 10)).padStart(2, '0')}:00` : date;
+      }
+      case 'time':
+        return `${String(8 + Math.floor(random() * 10)).padStart(2, '0')}:${pick(['00', '15', '30', '45'])}`;
+      case 'color':
+        return `#${Math.floor(random() * 0xffffff).toString(16).padStart(6, '0')}`;
+      default:
+        return `${capitalize(pick(WORDS))} ${capitalize(pick(WORDS))} ${count}`;
+    }
+  }
+
+  /**
+   * Pad or truncate a value to the length constraints of its field (emails keep their domain)
+   */
+  private static fitLength(value: string, kind: FieldKind, minLength?: number, maxLength?: number): string {
+    const [local, domain] = kind === 'email' ? value.split('@') : [value, undefined];
+    const suffixLength = domain !== undefined ? domain.length + 1 : 0;
+    let fitted = local;
+    if (minLength !== undefined && fitted.length + suffixLength < minLength) {
+      fitted = fitted + 'x'.repeat(minLength - fitted.length - suffixLength);
+    }
+    if (maxLength !== undefined && fitted.length + suffixLength > maxLength) {
+      fitted = fitted.substring(0, Math.max(1, maxLength - suffixLength));
+    }
+    return domain !== undefined ? `${fitted}@${domain}` : fitted;
+  }
+
+  /**
+   * Build a value from a simple pattern: literals, \d \w \s, character classes and quantifiers
+   * Returns undefined for patterns with groups, alternatives or negated classes
+   */
+  private static sampleFromPattern(pattern: string, random: () => number): string | undefined {
+    const digits = '0123456789';
+    const letters = 'abcdefghijklmnopqrstuvwxyz';
+    const escapes: Record<string, string> = { d: digits, w: letters + letters.toUpperCase() + digits, s: ' ' };
+    let result = '';
+    let position = pattern.startsWith('^') ? 1 : 0;
+    const end = pattern.endsWith('$') && !pattern.endsWith('\\$') ? pattern.length - 1 : pattern.length;
+
+    while (position < end) {
+      let chars: string;
+      const char = pattern[position];
+      if (char === '(' || char === ')' || char === '|') {
+        return undefined;
+      }
+      if (char === '\\') {
+        const escaped = pattern[position + 1];
+        chars = escapes[escaped] ?? escaped;
+        position += 2;
+      } else if (char === '[') {
+        const close = pattern.indexOf(']', position + 1);
+        if (close === -1 || pattern[position + 1] === '^') {
+          return undefined;
+        }
+        const body = pattern.substring(position + 1, close);
+        chars = '';
+        for (let index = 0; index < body.length; index++) {
+          if (body[index] === '\\') {
+            chars += escapes[body[index + 1]] ?? body[index + 1];
+            index++;
+          } else if (body[index + 1] === '-' && index + 2 < body.length) {
+            for (let code = body.charCodeAt(index); code <= body.charCodeAt(index + 2); code++) {
+              chars += String.fromCharCode(code);
+            }
+            index += 2;
+          } else {
+            chars += body[index];
+          }
+        }
+        position = close + 1;
+      } else {
+        chars = char === '.' ? letters : char;
+        position++;
+      }
+
+      let repeat = 1;
+      const quantifier = pattern.substring(position).match(/^(\{(\d+)(,(\d*))?\}|[+*?])/);
+      if (quantifier) {
+        if (quantifier[2] !== undefined) {
+          const min = Number(quantifier[2]);
+          const max = quantifier[3] === undefined ? min : quantifier[4] ? Number(quantifier[4]) : min + 2;
+          repeat = min + Math.floor(random() * (max - min + 1));
+        } else {
+          repeat = quantifier[1] === '+' ? 1 + Math.floor(random() * 3) : 1;
+        }
+        position += quantifier[1].length;
+      }
+      for (let count = 0; count < repeat; count++) {
+        result += chars[Math.floor(random() * chars.length)] ?? '';
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Parse a step attribute ('any' and missing steps count as 1)
+   */
+  private static parseStep(step?: string): number {
+    const value = Number(step);
+    return step && step !== 'any' && value > 0 ? value : 1;
+  }
+
+  /**
+   * Format a number with the decimals of its step
+   */
+  private static formatNumber(value: number, step: number): string {
+    const decimals = (String(step).split('.')[1] ?? '').length;
+    return value.toFixed(decimals);
+  }
+
+  /**
+   * Parse a date attribute (YYYY-MM-DD, times are ignored) to a UTC timestamp
+   */
+  private static parseDate(value?: string): number | undefined {
+    const timestamp = value && /^\d{4}-\d{2}-\d{2}/.test(value) ? Date.parse(`${value.substring(0, 10)}T00:00:00Z`) : NaN;
+    return isNaN(timestamp) ? undefined : timestamp;
+  }
+
+  /**
+   * Format a UTC timestamp as YYYY-MM-DD
+   */
+  private static formatDate(timestamp: number): string {
+    return new Date(timestamp).toISOString().substring(0, 10);
+  }
+}
@@ -0,0 +1,133 @@
+// Path segments and query values that identify a record rather than a view (numeric ids, UUIDs, hashes, tokens)
+// Long tokens only count when they contain a digit, so hyphenated words like "notification-preferences" stay as they are
+const ID_VALUE = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,}|(?=.*\d)[0-9a-z_-]{24,})$/i;
+
+// Slugs of records, e.g. "john-doe-42" or "2024-annual-report": hyphenated words with a number in them
+const SLUG_VALUE = /^(?=.*\d)(?=.*[a-z])[a-z0-9]+(-[a-z0-9]+)+$/i;
+
+// Query parameters that only track where a visit came from
+const TRACKING_PARAM = /^(utm_.+|fbclid|gclid|msclkid|_ga)$/i;
+
+// Query parameters that page through a list - their numbers are positions, not record ids
+const PAGINATION_PARAM = /^(page|per_?page|page_?size|limit|offset|skip|take|size)$/i;
+
+/**
+ * UrlNormalizer - Maps concrete URLs to the route template they are an instance of
+ * /users/1 and /users/2 both become /users/:id, so they are the same state. Route patterns supplied by the user
+ * (e.g. /users/:userId, /docs/*) take precedence; other paths are templated segment by segment, inferring ids,
+ * UUIDs and slugs. Query values that look like ids become :id (except pagination parameters), tracking parameters are dropped.
+ */
+export class UrlNormalizer {
+  private patterns: string[] = [];
+  private compiled: string[][] = [];
+
+  constructor(routePatterns: string[] = []) {
+    this.setPatterns(routePatterns);
+  }
+
+  /**
+   * Validate a route pattern: a path starting with / (or #/ for hash routes), with :param and a trailing * allowed
+   * Throws an error for an invalid pattern
+   */
+  static validatePattern(pattern: string): void {
+    const path = pattern.startsWith('#') ? pattern.substring(1) : pattern;
+    if (!path.startsWith('/')) {
+      throw new Error(`Route pattern must start with / or #/: ${pattern}`);
+    }
+    const segments = path.split('/');
+    if (segments.slice(0, -1).includes('*')) {
+      throw new Error(`Route pattern can only end with *: ${pattern}`);
+    }
+    if (segments.some((segment) => segment === ':')) {
+      throw new Error(`Route pattern has an unnamed parameter: ${pattern}`);
+    }
+  }
+
+  /**
+   * Replace the route patterns (patterns are validated first)
+   */
+  setPatterns(routePatterns: string[]): void {
+    routePatterns.forEach((pattern) => UrlNormalizer.validatePattern(pattern));
+    this.patterns = [...routePatterns];
+    this.compiled = routePatterns.map((pattern) => UrlNormalizer.splitPath(pattern.replace(/^#/, '')));
+  }
+
+  /**
+   * Get the route patterns
+   */
+  getPatterns(): string[] {
+    return [...this.patterns];
+  }
+
+  /**
+   * Build the route template of a URL, e.g. https://app.example.com/users/:id?tab=groups
+   * Plain anchors (#section) are dropped, hash routes (#/users/1) are templated like paths
+   */
+  normalize(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (error) {
+      return url;
+    }
+
+    const query = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAM.test(key))
+      .map(([key, value]) => `${key}=${!PAGINATION_PARAM.test(key) && ID_VALUE.test(value) ? ':id' : value}`)
+      .sort()
+      .join('&');
+
+    const hash = parsed.hash.startsWith('#/') ? `#${this.templatePath(parsed.hash.substring(1))}` : '';
+
+    return `${parsed.origin}${this.templatePath(parsed.pathname)}${query ? `?${query}` : ''}${hash}`;
+  }
+
+  /**
+   * Check if a URL template contains route parameters
+   */
+  static isParameterized(urlTemplate: string): boolean {
+    return /(^|\/|=):[a-z]\w*|\/\*($|[?#])/i.test(urlTemplate);
+  }
+
+  /**
+   * Template a path with the first matching route pattern, or by inferring its parameters
+   */
+  private templatePath(path: string): string {
+    const segments = UrlNormalizer.splitPath(path);
+    for (const patternSegments of this.compiled) {
+      const template = UrlNormalizer.matchPattern(patternSegments, segments);
+      if (template) {
+        return template;
+      }
+    }
+    const templated = segments.map((segment) => {
+      if (ID_VALUE.test(segment)) {
+        return ':id';
+      }
+      return SLUG_VALUE.test(segment) ? ':slug' : segment;
+    });
+    return `/${templated.join('/')}`;
+  }
+
+  /**
+   * Match path segments against a route pattern, returning the template or null
+   */
+  private static matchPattern(patternSegments: string[], segments: string[]): string | null {
+    const hasWildcard = patternSegments[patternSegments.length - 1] === '*';
+    const fixed = hasWildcard ? patternSegments.slice(0, -1) : patternSegments;
+    if (hasWildcard ? segments.length < fixed.length : segments.length !== fixed.length) {
+      return null;
+    }
+    const matches = fixed.every((patternSegment, index) =>
+      patternSegment.startsWith(':') || patternSegment === segments[index]
+    );
+    return matches ? `/${patternSegments.join('/')}` : null;
+  }
+
+  /**
+   * Split a path into its non-empty segments (a trailing slash is not significant)
+   */
+  private static splitPath(path: string): string[] {
+    return path.split('/').filter((segment) => segment.length > 0);
+  }
+}
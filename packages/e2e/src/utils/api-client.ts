@@ -6,6 +6,13 @@ export interface ExplorationRequest {
     username?: string;
     password?: string;
   };
+  limits?: {
+    maxActions?: number;
+    maxInputTokens?: number;
+    maxOutputTokens?: number;
+    maxStates?: number;
+    maxDurationMs?: number;
+  };
 }
 
 export interface ExplorationResponse {
@@ -17,7 +24,7 @@ export interface ExplorationResponse {
 
 export interface SessionData {
   sessionId: string;
-  status: 'idle' | 'running' | 'completed' | 'error';
+  status: 'idle' | 'running' | 'paused' | 'completed' | 'budget_exhausted' | 'error';
   logs?: any[];
   tokenUsage?: {
     exploration: {
@@ -130,7 +137,8 @@ export async function getGraph(sessionId: string): Promise<GraphData> {
 }
 
 /**
- * Wait for session to complete with exponential backoff
+ * Wait for session to end with exponential backoff
+ * Completed sessions and sessions stopped by an exploration limit both end with user stories; paused sessions have none
  */
 export async function waitForCompletion(
   sessionId: string,
@@ -152,7 +160,11 @@ export async function waitForCompletion(
         );
       }
 
-      if (session.status === 'completed') {
+      if (session.status === 'paused') {
+        return session;
+      }
+
+      if (session.status === 'completed' || session.status === 'budget_exhausted') {
         completed = true;
         
         // If we need to wait for user stories, check if they're available
@@ -18,6 +18,13 @@ export interface ServiceProcess {
 
 const services: ServiceProcess[] = [];
 
+/**
+ * Graph store used by the core service - the embedded store unless GRAPH_STORE=neo4j is set
+ */
+export function getGraphStoreType(): 'neo4j' | 'memory' {
+  return process.env.GRAPH_STORE?.toLowerCase() === 'neo4j' ? 'neo4j' : 'memory';
+}
+
 /**
  * Check if Neo4j is running
  */
@@ -94,6 +101,7 @@ export async function startCoreService(): Promise<ServiceProcess> {
   const env = {
     ...process.env,
     HEADLESS: 'true',
+    GRAPH_STORE: getGraphStoreType(),
   };
   const childProcess = spawn('yarn', ['workspace', '@dav-ai/core', 'dev:server'], {
     cwd: ROOT_DIR,
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import './App.css';
 import RetryProgressPanel from './RetryProgressPanel';
-import { Session, GraphData, UserStoriesResult, RetrySession, ActivityLog } from './types';
+import { Session, GraphData, UserStoriesResult, RetrySession, ActivityLog, Finding, AccessibilityReport, ValidationReport } from './types';
 import { useApi } from './hooks/useApi';
 import { useWebSocket } from './hooks/useWebSocket';
 import { useSessionPolling } from './hooks/useSessionPolling';
@@ -11,6 +11,9 @@ import ActivityPanel from './components/ActivityPanel';
 import SessionsList from './components/SessionsList';
 import VisualizationPanel from './components/VisualizationPanel';
 import UserStoriesPanel from './components/UserStoriesPanel';
+import ProblemsPanel from './components/ProblemsPanel';
+import AccessibilityPanel from './components/AccessibilityPanel';
+import ValidationPanel from './components/ValidationPanel';
 
 function App() {
   const [url, setUrl] = useState('http://localhost:5173/');
@@ -22,6 +25,9 @@ function App() {
   const [agentActivity, setAgentActivity] = useState<ActivityLog[]>([]);
   const [userStories, setUserStories] = useState<UserStoriesResult | null>(null);
   const [currentRetry, setCurrentRetry] = useState<RetrySession | null>(null);
+  const [findings, setFindings] = useState<Finding[]>([]);
+  const [accessibility, setAccessibility] = useState<AccessibilityReport | null>(null);
+  const [validationRules, setValidationRules] = useState<ValidationReport | null>(null);
 
   const {
     sessions,
@@ -29,16 +35,22 @@ function App() {
     loadSessions,
     loadGraph,
     loadUserStories,
+    loadFindings,
+    loadAccessibility,
+    loadValidationRules,
     loadConfig,
     loadCredentials,
     startExploration,
     stopSession,
+    pauseSession,
+    resumeSession,
     startRetry,
+    replayFinding,
     pollRetryStatus,
     getSession,
   } = useApi();
 
-  const { flowNodes, flowEdges } = useGraphData(graphData);
+  const { flowNodes, flowEdges } = useGraphData(graphData, currentSession);
 
   const addActivity = useCallback((message: ActivityLog) => {
     setAgentActivity((prev) => {
@@ -97,6 +109,19 @@ function App() {
     addActivity,
   });
 
+  // Findings, accessibility violations and validation rules are stored with the graph, so they are reloaded whenever the graph is
+  useEffect(() => {
+    if (!currentSession) {
+      setFindings([]);
+      setAccessibility(null);
+      setValidationRules(null);
+      return;
+    }
+    loadFindings(currentSession).then(setFindings);
+    loadAccessibility(currentSession).then(setAccessibility);
+    loadValidationRules(currentSession).then(setValidationRules);
+  }, [currentSession, graphData, loadFindings, loadAccessibility, loadValidationRules]);
+
   useEffect(() => {
     // Load configuration from API
     const loadInitialConfig = async () => {
@@ -184,6 +209,56 @@ function App() {
     }
   };
 
+  const handlePauseSession = async (sessionId: string) => {
+    addActivity(`⏸️ Pausing session after the current step: ${sessionId}`);
+    const success = await pauseSession(sessionId);
+    if (success) {
+      addActivity(`⏸️ Session paused: ${sessionId}`);
+      loadSessions();
+      if (currentSession === sessionId) {
+        setLoading(false);
+      }
+    } else {
+      addActivity(`❌ Failed to pause session: ${sessionId}`);
+    }
+  };
+
+  const handleResumeSession = async (sessionId: string) => {
+    const success = await resumeSession(
+      sessionId,
+      appUsername || appPassword ? {
+        username: appUsername,
+        password: appPassword,
+      } : undefined
+    );
+    if (success) {
+      addActivity(`▶️ Session resumed from last checkpoint: ${sessionId}`);
+      loadSessions();
+      setCurrentSession(sessionId);
+    } else {
+      addActivity(`❌ Failed to resume session: ${sessionId}`);
+    }
+  };
+
+  // Poll a retry until it has finished, showing its progress
+  const followRetry = (retryId: string, description: string) => {
+    const pollRetry = async () => {
+      const retrySession = await pollRetryStatus(retryId);
+      if (retrySession) {
+        setCurrentRetry(retrySession);
+        
+        // Continue polling if retry is still running
+        if (retrySession.status === 'running' || retrySession.status === 'pending') {
+          setTimeout(pollRetry, 500);
+        } else {
+          addActivity(`✅ Retry ${retrySession.status} for ${description}`);
+        }
+      }
+    };
+    
+    pollRetry();
+  };
+
   const handleRetryStory = async (storyIndex: number) => {
     if (!currentSession) {
       alert('No session selected');
@@ -201,29 +276,37 @@ function App() {
       );
 
       addActivity(`🔄 Retry started for story ${storyIndex + 1}`);
-      
-      // Poll for retry status
-      const pollRetry = async (retryId: string) => {
-        const retrySession = await pollRetryStatus(retryId);
-        if (retrySession) {
-          setCurrentRetry(retrySession);
-          
-          // Continue polling if retry is still running
-          if (retrySession.status === 'running' || retrySession.status === 'pending') {
-            setTimeout(() => pollRetry(retryId), 500);
-          } else {
-            addActivity(`✅ Retry ${retrySession.status} for story ${retrySession.storyIndex + 1}`);
-          }
-        }
-      };
-      
-      pollRetry(data.retryId);
+      followRetry(data.retryId, `story ${storyIndex + 1}`);
     } catch (error) {
       console.error('Error starting retry:', error);
       alert(`Failed to start retry: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
+  const handleReplayFinding = async (finding: Finding) => {
+    if (!currentSession) {
+      alert('No session selected');
+      return;
+    }
+
+    try {
+      const data = await replayFinding(
+        currentSession,
+        finding.findingKey,
+        appUsername || appPassword ? {
+          username: appUsername,
+          password: appPassword,
+        } : undefined
+      );
+
+      addActivity(`🔄 Replaying the path to: ${finding.message}`);
+      followRetry(data.retryId, `finding "${finding.message}"`);
+    } catch (error) {
+      console.error('Error replaying finding:', error);
+      alert(`Failed to replay finding: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const activeSession = sessions.find((s) => s.sessionId === currentSession);
 
   return (
@@ -267,6 +350,8 @@ function App() {
               sessionGraphCounts={sessionGraphCounts}
               onSessionSelect={setCurrentSession}
               onStopSession={handleStopSession}
+              onPauseSession={handlePauseSession}
+              onResumeSession={handleResumeSession}
             />
 
             <div className="sessions-content-column">
@@ -284,6 +369,12 @@ function App() {
                     currentRetry={currentRetry}
                     onRetryStory={handleRetryStory}
                   />
+
+                  <ProblemsPanel findings={findings} onReplayFinding={handleReplayFinding} />
+
+                  <AccessibilityPanel report={accessibility} />
+
+                  <ValidationPanel report={validationRules} />
                 </div>
               ) : (
                 <div className="session-empty-state">
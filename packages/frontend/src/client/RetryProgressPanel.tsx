@@ -17,6 +17,7 @@ interface RetrySession {
   steps: RetryStep[];
   startTime: number;
   endTime?: number;
+  artifacts?: { trace?: string; video?: string };
 }
 
 interface RetryProgressPanelProps {
@@ -24,6 +25,10 @@ interface RetryProgressPanelProps {
   onClose: () => void;
 }
 
+function artifactUrl(sessionId: string, artifactId: string): string {
+  return `http://localhost:3001/api/session/${encodeURIComponent(sessionId)}/artifacts/${encodeURIComponent(artifactId)}`;
+}
+
 function RetryProgressPanel({ currentRetry, onClose }: RetryProgressPanelProps) {
   const [elapsed, setElapsed] = useState<number>(0);
 
@@ -120,6 +125,22 @@ function RetryProgressPanel({ currentRetry, onClose }: RetryProgressPanelProps)
           ))}
         </div>
 
+        {/* Recordings (open the trace with https://trace.playwright.dev or `npx playwright show-trace`) */}
+        {(currentRetry.artifacts?.trace || currentRetry.artifacts?.video) && (
+          <div className="retry-recordings">
+            {currentRetry.artifacts.trace && (
+              <a href={artifactUrl(currentRetry.sessionId, currentRetry.artifacts.trace)} download>
+                📦 Download trace
+              </a>
+            )}
+            {currentRetry.artifacts.video && (
+              <a href={artifactUrl(currentRetry.sessionId, currentRetry.artifacts.video)} target="_blank" rel="noreferrer">
+                🎬 Watch video
+              </a>
+            )}
+          </div>
+        )}
+
         {/* Action Buttons */}
         {currentRetry.status === 'completed' && (
           <div className="retry-panel-actions">
@@ -0,0 +1,69 @@
+import { AccessibilityIssue, AccessibilityReport } from '../types';
+
+interface AccessibilityPanelProps {
+  report: AccessibilityReport | null;
+}
+
+const IMPACT_STYLES: Record<AccessibilityIssue['impact'], { icon: string; color: string }> = {
+  critical: { icon: '💥', color: '#dc2626' },
+  serious: { icon: '❌', color: '#ea580c' },
+  moderate: { icon: '⚠️', color: '#ca8a04' },
+  minor: { icon: 'ℹ️', color: '#6b7280' },
+};
+
+export default function AccessibilityPanel({ report }: AccessibilityPanelProps) {
+  const violations = report?.violations ?? [];
+
+  return (
+    <section className="accessibility-panel">
+      <h2>♿ Accessibility</h2>
+      <div className="narrative-box">
+        <p><strong>Accessibility:</strong> axe-core violations found on the observed states. A component shared by several states (header, menu) is reported once, with every state it appears on.</p>
+      </div>
+      {report && violations.length > 0 ? (
+        <>
+          <div className="accessibility-summary">
+            <span><strong>{report.summary.total}</strong> violations on <strong>{report.summary.affectedStates}</strong> states</span>
+            {(Object.keys(IMPACT_STYLES) as Array<AccessibilityIssue['impact']>).map((impact) => (
+              <span key={impact} style={{ color: IMPACT_STYLES[impact].color }}>
+                {IMPACT_STYLES[impact].icon} {report.summary.byImpact[impact]} {impact}
+              </span>
+            ))}
+          </div>
+          <div className="problems-list">
+            {violations.map((violation) => {
+              const impact = IMPACT_STYLES[violation.impact];
+              return (
+                <div key={violation.violationKey} className="problem-card" style={{ borderLeftColor: impact.color }}>
+                  <div className="problem-header">
+                    <span className="problem-severity" style={{ color: impact.color }}>
+                      {impact.icon} {violation.impact}
+                    </span>
+                    <span className="problem-type">{violation.ruleId}</span>
+                    {violation.states.length > 1 && <span className="problem-count">{violation.states.length} states</span>}
+                    <a className="accessibility-help" href={violation.helpUrl} target="_blank" rel="noreferrer">
+                      Rule help
+                    </a>
+                  </div>
+                  <div className="problem-message">{violation.help}</div>
+                  <div className="problem-context">
+                    <code>{violation.selector}</code> on{' '}
+                    <strong>{violation.states.map((state) => state.stateLabel || state.stateKey).join(', ')}</strong>
+                  </div>
+                  <details className="problem-details">
+                    <summary>Markup</summary>
+                    <pre>{violation.html}</pre>
+                  </details>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      ) : (
+        <div className="empty-state">
+          <p>No accessibility violations found in this session (audits run when ACCESSIBILITY_AUDIT=true).</p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,82 @@
+import { Finding } from '../types';
+
+interface ProblemsPanelProps {
+  findings: Finding[];
+  onReplayFinding: (finding: Finding) => void;
+}
+
+const SEVERITY_STYLES: Record<Finding['severity'], { icon: string; color: string }> = {
+  critical: { icon: '💥', color: '#dc2626' },
+  error: { icon: '❌', color: '#ea580c' },
+  warning: { icon: '⚠️', color: '#ca8a04' },
+};
+
+const TYPE_LABELS: Record<Finding['type'], string> = {
+  console_error: 'Console',
+  page_error: 'Uncaught exception',
+  http_error: 'HTTP error',
+  broken_link: 'Broken link',
+  dead_action: 'Dead action',
+};
+
+export default function ProblemsPanel({ findings, onReplayFinding }: ProblemsPanelProps) {
+  return (
+    <section className="problems-panel">
+      <h2>🐞 Problems</h2>
+      <div className="narrative-box">
+        <p><strong>Problems:</strong> Console errors, uncaught exceptions, failed requests, broken links and dead buttons the exploration ran into, with the action that caused them and the shortest path to reproduce them.</p>
+      </div>
+      {findings.length > 0 ? (
+        <div className="problems-list">
+          {findings.map((finding) => {
+            const severity = SEVERITY_STYLES[finding.severity];
+            return (
+              <div key={finding.findingKey} className="problem-card" style={{ borderLeftColor: severity.color }}>
+                <div className="problem-header">
+                  <span className="problem-severity" style={{ color: severity.color }}>
+                    {severity.icon} {finding.severity}
+                  </span>
+                  <span className="problem-type">{TYPE_LABELS[finding.type]}</span>
+                  {finding.count > 1 && <span className="problem-count">×{finding.count}</span>}
+                  {finding.reproPath && finding.reproPath.length > 0 && (
+                    <button className="problem-replay" onClick={() => onReplayFinding(finding)}>
+                      ▶️ Replay
+                    </button>
+                  )}
+                </div>
+                <div className="problem-message">{finding.message}</div>
+                <div className="problem-context">
+                  on <strong>{finding.stateLabel || finding.url}</strong>
+                  {finding.action ? <> after <code>{finding.action}</code></> : ' while the page loaded'}
+                </div>
+                <details className="problem-details">
+                  <summary>Reproduce</summary>
+                  {finding.reproPath && finding.reproPath.length > 0 ? (
+                    <ol>
+                      {finding.reproPath.map((step, index) => (
+                        <li key={index}><code>{step.action}</code> on {step.from}</li>
+                      ))}
+                    </ol>
+                  ) : finding.actionPath.length > 0 ? (
+                    <ol>
+                      {finding.actionPath.map((step, index) => (
+                        <li key={index}><code>{step}</code></li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <p>Open {finding.url}</p>
+                  )}
+                  {finding.stack && <pre>{finding.stack}</pre>}
+                </details>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="empty-state">
+          <p>No problems found in this session.</p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -7,6 +7,8 @@ interface SessionsListProps {
   sessionGraphCounts: Map<string, SessionGraphCounts>;
   onSessionSelect: (sessionId: string) => void;
   onStopSession: (sessionId: string) => void;
+  onPauseSession: (sessionId: string) => void;
+  onResumeSession: (sessionId: string) => void;
 }
 
 export default function SessionsList({
@@ -15,6 +17,8 @@ export default function SessionsList({
   sessionGraphCounts,
   onSessionSelect,
   onStopSession,
+  onPauseSession,
+  onResumeSession,
 }: SessionsListProps) {
   return (
     <div className="sessions-list-column">
@@ -49,8 +53,32 @@ export default function SessionsList({
                 <div className="session-list-item-header">
                   <div className="session-list-item-title">
                     <span className="session-list-item-id">Session {sessions.indexOf(session) + 1}</span>
-                    <span className={`session-list-item-status status-${session.status}`}>{session.status}</span>
+                    <span className={`session-list-item-status status-${session.status}`} title={session.budgetReason}>{session.status}</span>
                   </div>
+                  {session.status === 'running' && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onPauseSession(session.sessionId);
+                      }}
+                      className="session-list-item-pause"
+                      title="Pause session"
+                    >
+                      ⏸️
+                    </button>
+                  )}
+                  {session.status === 'paused' && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onResumeSession(session.sessionId);
+                      }}
+                      className="session-list-item-pause"
+                      title="Resume session"
+                    >
+                      ▶️
+                    </button>
+                  )}
                   {session.status === 'running' && (
                     <button
                       onClick={(e) => {
@@ -72,6 +100,11 @@ export default function SessionsList({
                         🌐 {session.url.length > 30 ? `${session.url.substring(0, 30)}...` : session.url}
                       </span>
                     )}
+                    {session.persona && (
+                      <span className="session-list-item-url" title={session.campaignId}>
+                        👤 {session.persona}
+                      </span>
+                    )}
                   </div>
                   <div className="session-list-item-stats">
                     <span className="session-list-item-stat">
@@ -0,0 +1,63 @@
+import { ValidationReport, ValidationRule } from '../types';
+
+interface ValidationPanelProps {
+  report: ValidationReport | null;
+}
+
+function describeValue(rule: ValidationRule): string {
+  return rule.value === undefined ? 'left empty' : `"${rule.value}"`;
+}
+
+export default function ValidationPanel({ report }: ValidationPanelProps) {
+  const forms = report?.forms ?? [];
+
+  return (
+    <section className="validation-panel">
+      <h2>📝 Form Validation</h2>
+      <div className="narrative-box">
+        <p><strong>Form Validation:</strong> what each form answered when one field at a time was submitted with an invalid value (validation probing, TEST_DATA_MODE=probe). Rejected values show the messages the application displayed; accepted ones were let through.</p>
+      </div>
+      {report && forms.length > 0 ? (
+        <>
+          <div className="accessibility-summary">
+            <span><strong>{report.summary.forms}</strong> forms, <strong>{report.summary.fields}</strong> fields</span>
+            <span style={{ color: '#16a34a' }}>🛡️ {report.summary.rejected} rejected</span>
+            <span style={{ color: '#ca8a04' }}>⚠️ {report.summary.accepted} accepted</span>
+          </div>
+          <div className="problems-list">
+            {forms.map((form) => (
+              <div key={form.stateKey} className="problem-card" style={{ borderLeftColor: '#667eea' }}>
+                <div className="problem-header">
+                  <span className="problem-type"><strong>{form.stateLabel || form.stateKey}</strong></span>
+                  {form.url && <span className="problem-count">{form.url}</span>}
+                </div>
+                {form.fields.map((field) => (
+                  <div key={field.fieldKey} className="problem-context">
+                    <strong>{field.label || field.name || field.selector}</strong>{' '}
+                    <code>{field.type}</code>{field.required ? ' (required)' : ''}
+                    {field.rules.length > 0 && (
+                      <ul className="validation-rules">
+                        {field.rules.map((rule) => (
+                          <li key={rule.rule}>
+                            {rule.rejected ? '🛡️' : '⚠️'} <span className="validation-rule-kind">{rule.rule}</span>{' '}
+                            {describeValue(rule)} {rule.rejected ? 'rejected' : 'accepted'}
+                            {!rule.declared && ' (not declared in the markup)'}
+                            {rule.messages.length > 0 && <>: {rule.messages.map((message) => `"${message}"`).join(', ')}</>}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="empty-state">
+          <p>No forms probed in this session (forms are probed when TEST_DATA_MODE=probe).</p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -12,6 +12,17 @@ interface VisualizationPanelProps {
   currentSession: string | null;
 }
 
+/**
+ * Count the distinct API endpoints (method and route template) called by the transitions
+ */
+function countApiEndpoints(graphData: GraphData): number {
+  const endpoints = new Set<string>();
+  graphData.edges.forEach((edge) => {
+    edge.apiCalls?.forEach((call) => endpoints.add(`${call.method} ${call.urlTemplate}`));
+  });
+  return endpoints.size;
+}
+
 export default function VisualizationPanel({
   graphData,
   flowNodes,
@@ -33,6 +44,28 @@ export default function VisualizationPanel({
             <div className="stat-item">
               <strong>{graphData.edges.length}</strong> Transitions
             </div>
+            <div className="stat-item">
+              <strong>{countApiEndpoints(graphData)}</strong> API Endpoints
+            </div>
+            {currentSession && (
+              <a
+                className="har-download"
+                href={`http://localhost:3001/api/session/${encodeURIComponent(currentSession)}/har`}
+                download
+              >
+                ⬇️ Download HAR
+              </a>
+            )}
+            {currentSession && (
+              <a
+                className="har-download storage-state-download"
+                href={`http://localhost:3001/api/session/${encodeURIComponent(currentSession)}/storage-state`}
+                download
+                title="Cookies and local storage of the session, to start later explorations or replays logged in"
+              >
+                🔑 Export login state
+              </a>
+            )}
           </div>
           <div className="edge-legend" style={{
             marginTop: '0.75rem',
@@ -19,6 +19,7 @@ export default function TransitionEdge({
   const [isHovered, setIsHovered] = useState(false);
   const fullLabel = (data as any)?.fullLabel || label;
   const actionConfig = (data as any)?.actionConfig || ACTION_TYPE_CONFIGS.action;
+  const apiCalls: string[] = (data as any)?.apiCalls || []; // Formatted API calls of the transition
   
   const [edgePath, labelX, labelY] = useMemo(() => {
     return getSmoothStepPath({
@@ -32,7 +33,10 @@ export default function TransitionEdge({
   }, [sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition]);
 
   const displayLabel = typeof label === 'string' ? label : '';
-  const shortLabel = displayLabel.length > 15 ? `${displayLabel.substring(0, 12)}...` : displayLabel;
+  const truncatedLabel = displayLabel.length > 15 ? `${displayLabel.substring(0, 12)}...` : displayLabel;
+  // The number of API calls is shown next to the action, the calls themselves in the tooltip
+  const shortLabel = apiCalls.length > 0 ? `${truncatedLabel} ⇄${apiCalls.length}` : truncatedLabel;
+  const tooltipLines = [fullLabel, ...apiCalls];
 
   return (
     <g>
@@ -114,35 +118,44 @@ export default function TransitionEdge({
                 >
                   {shortLabel}
                 </text>
-                {/* Hover tooltip with full label - shows when hovering edge or label */}
-                {isHovered && fullLabel && (
-                  <g style={{ pointerEvents: 'none' }}>
-                    <rect
-                      x={labelX - (fullLabel.length * 3.5)}
-                      y={labelY - 40}
-                      width={fullLabel.length * 7 + 16}
-                      height={22}
-                      rx={4}
-                      fill="rgba(0, 0, 0, 0.9)"
-                      stroke={actionConfig.color}
-                      strokeWidth={1.5}
-                    />
-                    <text
-                      x={labelX}
-                      y={labelY - 27}
-                      textAnchor="middle"
-                      dominantBaseline="middle"
-                      style={{
-                        fill: 'white',
-                        fontSize: '11px',
-                        fontWeight: 500,
-                        pointerEvents: 'none',
-                      }}
-                    >
-                      {fullLabel}
-                    </text>
-                  </g>
-                )}
+                {/* Hover tooltip with full label and API calls - shows when hovering edge or label */}
+                {isHovered && fullLabel && (() => {
+                  const tooltipWidth = Math.max(...tooltipLines.map((line) => line.length)) * 7 + 16;
+                  const tooltipHeight = 22 + (tooltipLines.length - 1) * 16;
+                  const tooltipY = labelY - 18 - tooltipHeight;
+                  return (
+                    <g style={{ pointerEvents: 'none' }}>
+                      <rect
+                        x={labelX - tooltipWidth / 2}
+                        y={tooltipY}
+                        width={tooltipWidth}
+                        height={tooltipHeight}
+                        rx={4}
+                        fill="rgba(0, 0, 0, 0.9)"
+                        stroke={actionConfig.color}
+                        strokeWidth={1.5}
+                      />
+                      {tooltipLines.map((line, lineIndex) => (
+                        <text
+                          key={lineIndex}
+                          x={labelX}
+                          y={tooltipY + 13 + lineIndex * 16}
+                          textAnchor="middle"
+                          dominantBaseline="middle"
+                          style={{
+                            fill: lineIndex === 0 ? 'white' : '#c7d2fe',
+                            fontSize: '11px',
+                            fontWeight: lineIndex === 0 ? 500 : 400,
+                            fontFamily: lineIndex === 0 ? undefined : 'monospace',
+                            pointerEvents: 'none',
+                          }}
+                        >
+                          {line}
+                        </text>
+                      ))}
+                    </g>
+                  );
+                })()}
               </>
             );
           })()}
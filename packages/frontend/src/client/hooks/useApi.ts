@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react';
-import { Session, SessionGraphCounts, GraphData, UserStoriesResult } from '../types';
+import { Session, SessionGraphCounts, GraphData, UserStoriesResult, Finding, AccessibilityReport, ValidationReport } from '../types';
 
 export function useApi() {
   const [sessions, setSessions] = useState<Session[]>([]);
@@ -70,6 +70,43 @@ export function useApi() {
     return null;
   }, []);
 
+  const loadFindings = useCallback(async (sessionId: string): Promise<Finding[]> => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/session/${encodeURIComponent(sessionId)}/findings`);
+      if (response.ok) {
+        const data = await response.json();
+        return data.findings || [];
+      }
+    } catch (error) {
+      console.error('Error loading findings:', error);
+    }
+    return [];
+  }, []);
+
+  const loadAccessibility = useCallback(async (sessionId: string): Promise<AccessibilityReport | null> => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/session/${encodeURIComponent(sessionId)}/accessibility`);
+      if (response.ok) {
+        return await response.json();
+      }
+    } catch (error) {
+      console.error('Error loading accessibility report:', error);
+    }
+    return null;
+  }, []);
+
+  const loadValidationRules = useCallback(async (sessionId: string): Promise<ValidationReport | null> => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/session/${encodeURIComponent(sessionId)}/validation-rules`);
+      if (response.ok) {
+        return await response.json();
+      }
+    } catch (error) {
+      console.error('Error loading validation rules:', error);
+    }
+    return null;
+  }, []);
+
   const loadConfig = useCallback(async () => {
     try {
       const response = await fetch('http://localhost:3001/api/config');
@@ -128,6 +165,39 @@ export function useApi() {
     }
   }, []);
 
+  const pauseSession = useCallback(async (sessionId: string) => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/session/${sessionId}/pause`, {
+        method: 'POST',
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Error pausing session:', error);
+      return false;
+    }
+  }, []);
+
+  const resumeSession = useCallback(async (
+    sessionId: string,
+    credentials?: { username: string; password: string }
+  ) => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/session/${sessionId}/resume`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          credentials: credentials || undefined,
+        }),
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Error resuming session:', error);
+      return false;
+    }
+  }, []);
+
   const startRetry = useCallback(async (
     sessionId: string,
     storyIndex: number,
@@ -157,6 +227,30 @@ export function useApi() {
     }
   }, []);
 
+  const replayFinding = useCallback(async (
+    sessionId: string,
+    findingKey: string,
+    credentials?: { username: string; password: string }
+  ) => {
+    const response = await fetch(
+      `http://localhost:3001/api/session/${encodeURIComponent(sessionId)}/findings/${encodeURIComponent(findingKey)}/retry`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          credentials: credentials || undefined,
+        }),
+      }
+    );
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error);
+    }
+    return await response.json();
+  }, []);
+
   const pollRetryStatus = useCallback(async (retryId: string) => {
     try {
       const response = await fetch(`http://localhost:3001/api/retry/${retryId}`);
@@ -187,11 +281,17 @@ export function useApi() {
     loadSessions,
     loadGraph,
     loadUserStories,
+    loadFindings,
+    loadAccessibility,
+    loadValidationRules,
     loadConfig,
     loadCredentials,
     startExploration,
     stopSession,
+    pauseSession,
+    resumeSession,
     startRetry,
+    replayFinding,
     pollRetryStatus,
     getSession,
   };
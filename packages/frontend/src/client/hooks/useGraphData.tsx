@@ -2,9 +2,16 @@ import React, { useEffect, useState } from 'react';
 import { Node, Edge, MarkerType } from 'reactflow';
 import dagre from 'dagre';
 import { GraphData } from '../types';
-import { getActionTypeConfig } from '../utils';
+import { formatApiCall, getActionTypeConfig } from '../utils';
 
-export function useGraphData(graphData: GraphData | null): { flowNodes: Node[]; flowEdges: Edge[] } {
+// Height added to a node for its screenshot thumbnail
+const THUMBNAIL_HEIGHT = 110;
+
+function artifactUrl(sessionId: string, artifactId: string): string {
+  return `http://localhost:3001/api/session/${encodeURIComponent(sessionId)}/artifacts/${encodeURIComponent(artifactId)}`;
+}
+
+export function useGraphData(graphData: GraphData | null, sessionId: string | null): { flowNodes: Node[]; flowEdges: Edge[] } {
   const [flowNodes, setFlowNodes] = useState<Node[]>([]);
   const [flowEdges, setFlowEdges] = useState<Edge[]>([]);
 
@@ -40,7 +47,7 @@ export function useGraphData(graphData: GraphData | null): { flowNodes: Node[];
       graphData.nodes.forEach(node => {
         g.setNode(node.id, { 
           width: 250, 
-          height: 100 
+          height: node.screenshots && sessionId ? 100 + THUMBNAIL_HEIGHT : 100 
         });
       });
 
@@ -77,20 +84,48 @@ export function useGraphData(graphData: GraphData | null): { flowNodes: Node[];
         const totalConnections = counts.in + counts.out;
         const hasSelfLoops = counts.self > 0;
         
-        // Format URL for display
-        const urlParts = node.url.split('/');
-        const displayUrl = urlParts.length > 1 
-          ? urlParts[urlParts.length - 1] || urlParts[urlParts.length - 2] || node.url
-          : node.url;
+        // Format URL for display (the route template, since records of a route share the state)
+        const nodeUrl = node.urlTemplate ?? node.url;
+        // The last segment alone would only read ":id", so templated routes show their full path
+        const urlParts = nodeUrl.split('/');
+        const lastSegment = urlParts.length > 1 
+          ? urlParts[urlParts.length - 1] || urlParts[urlParts.length - 2] || nodeUrl
+          : nodeUrl;
+        const displayUrl = lastSegment.startsWith(':') ? nodeUrl.replace(/^[a-z]+:\/\/[^/]+/i, '') : lastSegment;
         const shortUrl = displayUrl.length > 40 ? `${displayUrl.substring(0, 40)}...` : displayUrl;
+        // Several states (open modal, selected tab) can share a URL, so states show their label
+        const title = node.external || !node.label || node.label === node.url ? shortUrl : node.label;
+        const screenshots = sessionId ? node.screenshots : undefined;
         
         return {
           id: node.id,
           type: 'default',
-          position: { x: dagreNode.x - 125, y: dagreNode.y - 50 }, // Center the node
+          position: { x: dagreNode.x - 125, y: dagreNode.y - dagreNode.height / 2 }, // Center the node
           data: {
             label: (
               <div style={{ textAlign: 'center', width: '100%' }}>
+                {screenshots && (
+                  <a
+                    href={artifactUrl(sessionId!, screenshots.fullPage)}
+                    target="_blank"
+                    rel="noreferrer"
+                    title="Open full page screenshot"
+                  >
+                    <img
+                      src={artifactUrl(sessionId!, screenshots.viewport)}
+                      alt={title}
+                      style={{
+                        width: '100%',
+                        height: `${THUMBNAIL_HEIGHT - 10}px`,
+                        objectFit: 'cover',
+                        objectPosition: 'top',
+                        borderRadius: '4px',
+                        border: '1px solid #e5e7eb',
+                        marginBottom: '6px',
+                      }}
+                    />
+                  </a>
+                )}
                 <div style={{ 
                   fontWeight: 'bold', 
                   marginBottom: '6px', 
@@ -98,8 +133,13 @@ export function useGraphData(graphData: GraphData | null): { flowNodes: Node[];
                   fontSize: '0.9rem',
                   color: '#333',
                 }}>
-                  {shortUrl}
+                  {node.external ? `🌐 ${title}` : title}
                 </div>
+                {title !== shortUrl && (
+                  <div style={{ fontSize: '0.7rem', color: '#888', marginBottom: '4px', wordBreak: 'break-all' }}>
+                    {shortUrl}
+                  </div>
+                )}
                 <div style={{ 
                   fontSize: '0.7rem', 
                   color: '#666',
@@ -113,13 +153,16 @@ export function useGraphData(graphData: GraphData | null): { flowNodes: Node[];
                   {hasSelfLoops && (
                     <span style={{ color: '#f59e0b' }}>↻ {counts.self}</span>
                   )}
+                  {!!node.accessibilityViolations && (
+                    <span style={{ color: '#7c3aed' }} title="Accessibility violations">♿ {node.accessibilityViolations}</span>
+                  )}
                 </div>
               </div>
             ),
           },
           style: {
-            background: hasSelfLoops ? '#fff8e1' : '#fff',
-            border: hasSelfLoops ? '2px solid #f59e0b' : '2px solid #667eea',
+            background: node.external ? '#f3f4f6' : hasSelfLoops ? '#fff8e1' : '#fff',
+            border: node.external ? '2px dashed #9ca3af' : hasSelfLoops ? '2px solid #f59e0b' : '2px solid #667eea',
             borderRadius: '8px',
             padding: '12px',
             width: 250,
@@ -133,9 +176,11 @@ export function useGraphData(graphData: GraphData | null): { flowNodes: Node[];
       
       // Add regular edges with enhanced styling
       regularEdges.forEach((edge, index) => {
-        // Extract action type from label
-        const fullLabel = edge.label || 'action';
-        const actionConfig = getActionTypeConfig(fullLabel);
+        // Extract action type from label - actions after which the agent was logged out are drawn as dashed purple edges
+        const fullLabel = edge.loggedOut ? `🚪 ${edge.label} (${edge.loggedOut === 'logout_action' ? 'logged out' : 'session expired'})` : edge.label || 'action';
+        const actionConfig = edge.loggedOut
+          ? { ...getActionTypeConfig(fullLabel), color: '#7c3aed', labelColor: '#7c3aed', strokeDasharray: '6,4' }
+          : getActionTypeConfig(fullLabel);
         
         // Create a shorter label for display
         let shortLabel = fullLabel;
@@ -171,6 +216,7 @@ export function useGraphData(graphData: GraphData | null): { flowNodes: Node[];
           data: {
             fullLabel: fullLabel,
             actionConfig: actionConfig,
+            apiCalls: edge.apiCalls?.map(formatApiCall) ?? [],
           },
         });
       });
@@ -178,8 +224,11 @@ export function useGraphData(graphData: GraphData | null): { flowNodes: Node[];
       // Add individual self-loop edges for each action
       selfLoopsByNode.forEach((loops, nodeId) => {
         loops.forEach((loop, loopIndex) => {
-          const fullLabel = loop.label || 'self-loop';
-          const actionConfig = getActionTypeConfig(fullLabel);
+          // Actions held back by the safety policy are drawn as dashed red loops
+          const fullLabel = loop.notExecuted ? `🛡️ ${loop.label} (not executed)` : loop.label || 'self-loop';
+          const actionConfig = loop.notExecuted
+            ? { ...getActionTypeConfig(fullLabel), color: '#dc2626', labelColor: '#dc2626', strokeDasharray: '6,4' }
+            : getActionTypeConfig(fullLabel);
           
           // Create a shorter label for display
           let shortLabel = fullLabel;
@@ -232,7 +281,7 @@ export function useGraphData(graphData: GraphData | null): { flowNodes: Node[];
       setFlowNodes([]);
       setFlowEdges([]);
     }
-  }, [graphData]);
+  }, [graphData, sessionId]);
 
   return { flowNodes, flowEdges };
 }
@@ -86,7 +86,14 @@ export function useSessionPolling({
         
         // Check if session just completed
         const justCompleted = (previousStatus === 'running' || previousStatus === null) && 
-                             (session.status === 'completed' || session.status === 'error');
+                             (session.status === 'completed' || session.status === 'budget_exhausted' || session.status === 'error' || session.status === 'paused');
+        
+        // Switch back to fast polling when a paused session is resumed
+        if (session.status === 'running' && previousStatus !== null && previousStatus !== 'running' && intervalId) {
+          clearInterval(intervalId);
+          isCompleted = false;
+          intervalId = setInterval(pollSession, 500);
+        }
         
         // Update activity feed with new logs (CORE logs)
         if (session.logs && Array.isArray(session.logs)) {
@@ -128,8 +135,8 @@ export function useSessionPolling({
           }
         }
 
-        // Handle completed/error sessions
-        if (session.status === 'completed' || session.status === 'error') {
+        // Handle completed/error/paused sessions
+        if (session.status === 'completed' || session.status === 'budget_exhausted' || session.status === 'error' || session.status === 'paused') {
           setLoadingRef.current(false);
           // Only load graph once when session completes
           if (justCompleted) {
@@ -47,6 +47,9 @@ export interface Session {
     total: { inputTokens: number; outputTokens: number };
   };
   graphCounts?: { nodes: number; edges: number }; // Graph counts from API
+  budgetReason?: string; // Limit that ended the exploration (status budget_exhausted)
+  campaignId?: string; // Exploration campaign the session belongs to
+  persona?: string; // Persona the session explored as
 }
 
 export interface SessionGraphCounts {
@@ -54,9 +57,97 @@ export interface SessionGraphCounts {
   edges: number;
 }
 
+export interface ScreenshotSet {
+  fullPage: string; // Artifact id
+  viewport: string; // Artifact id
+}
+
+export interface ApiCall {
+  method: string;
+  url: string;
+  urlTemplate: string;
+  status: number; // 0 if the request failed
+  durationMs: number;
+  contentType?: string;
+  startedAt: string;
+  failure?: string;
+}
+
 export interface GraphData {
-  nodes: Array<{ id: string; label: string; url: string }>;
-  edges: Array<{ source: string; target: string; label: string }>;
+  nodes: Array<{ id: string; label: string; url: string; urlTemplate?: string; external?: boolean; screenshots?: ScreenshotSet; accessibilityViolations?: number }>;
+  edges: Array<{ source: string; target: string; sourceUrl: string; targetUrl: string; label: string; notExecuted?: boolean; safety?: string; loggedOut?: 'logout_action' | 'session_expired'; apiCalls?: ApiCall[] }>;
+}
+
+export interface Finding {
+  findingKey: string;
+  type: 'console_error' | 'page_error' | 'http_error' | 'broken_link' | 'dead_action';
+  severity: 'critical' | 'error' | 'warning';
+  message: string;
+  stack?: string;
+  stateKey: string;
+  stateLabel?: string;
+  action?: string; // Batch that caused the problem
+  actionPath: string[]; // Batches from the entry URL, to reproduce the problem
+  reproPath?: Array<{ from: string; to: string; action: string }>; // Shortest path through the graph, replayable
+  url: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface AccessibilityIssue {
+  violationKey: string;
+  ruleId: string; // axe-core rule id, e.g. color-contrast
+  impact: 'minor' | 'moderate' | 'serious' | 'critical';
+  help: string;
+  helpUrl: string;
+  selector: string; // Offending element
+  html: string;
+  states: Array<{ stateKey: string; stateLabel?: string }>; // States sharing the offending component
+}
+
+export interface AccessibilityReport {
+  violations: AccessibilityIssue[];
+  summary: {
+    total: number;
+    byImpact: Record<AccessibilityIssue['impact'], number>;
+    affectedStates: number;
+  };
+}
+
+export interface ValidationRule {
+  rule: 'required' | 'format' | 'pattern' | 'minLength' | 'maxLength' | 'min' | 'max';
+  value?: string; // Invalid value submitted (absent: the field was left empty)
+  declared: boolean; // Constraint declared in the markup
+  rejected: boolean;
+  messages: string[];
+  probedAt: string;
+}
+
+export interface FormValidation {
+  stateKey: string;
+  stateLabel?: string;
+  url?: string;
+  fields: Array<{
+    fieldKey: string;
+    selector: string;
+    name?: string;
+    label?: string;
+    type?: string;
+    required?: boolean;
+    rules: ValidationRule[];
+  }>;
+}
+
+export interface ValidationReport {
+  forms: FormValidation[];
+  summary: {
+    forms: number;
+    fields: number;
+    probes: number;
+    rejected: number;
+    accepted: number;
+  };
 }
 
 export interface RetryStep {
@@ -70,11 +161,13 @@ export interface RetryStep {
 export interface RetrySession {
   retryId: string;
   sessionId: string;
-  storyIndex: number;
+  storyIndex: number; // -1 when a finding is replayed
+  findingKey?: string;
   status: 'pending' | 'running' | 'completed' | 'failed';
   steps: RetryStep[];
   startTime: number;
   endTime?: number;
+  artifacts?: { trace?: string; video?: string }; // Artifact ids of the replay's recordings
 }
 
 export type ActivityLog = string | {
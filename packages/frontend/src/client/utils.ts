@@ -1,4 +1,4 @@
-import { ActionTypeConfig } from './types';
+import { ActionTypeConfig, ApiCall } from './types';
 import { ACTION_TYPE_CONFIGS } from './constants';
 
 /**
@@ -19,6 +19,14 @@ export function formatTokens(num: number): string {
   return `${thousands.toFixed(1)}k`;
 }
 
+/**
+ * Describe an API call with its route template, e.g. "GET /api/users/:id 200 (120ms)"
+ */
+export function formatApiCall(call: ApiCall): string {
+  const path = call.urlTemplate.replace(/^[a-z]+:\/\/[^/]+/i, '');
+  return `${call.method} ${path} ${call.status || 'failed'} (${call.durationMs}ms)`;
+}
+
 export function getActionTypeConfig(label: string): ActionTypeConfig {
   const lowerLabel = label.toLowerCase();
   if (lowerLabel.includes('click')) return ACTION_TYPE_CONFIGS.click;
@@ -38,6 +46,14 @@ export function getStageInfo(context: string) {
     return { icon: '🤖', color: '#8b5cf6', name: 'DECIDE' };
   } else if (upperContext.includes('PERSIST')) {
     return { icon: '💾', color: '#f59e0b', name: 'PERSIST' };
+  } else if (upperContext.includes('BACKTRACK')) {
+    return { icon: '↩️', color: '#ec4899', name: 'BACKTRACK' };
+  } else if (upperContext.includes('BUDGET')) {
+    return { icon: '💰', color: '#b45309', name: 'BUDGET' };
+  } else if (upperContext.includes('CHECKPOINT')) {
+    return { icon: '📌', color: '#0ea5e9', name: 'CHECKPOINT' };
+  } else if (upperContext.includes('SAFETY')) {
+    return { icon: '🛡️', color: '#dc2626', name: 'SAFETY' };
   } else if (upperContext.includes('AGENT')) {
     return { icon: '🤖', color: '#667eea', name: 'AGENT' };
   } else if (upperContext.includes('SERVER')) {
@@ -60,7 +60,7 @@ router.get('/credentials', async (req, res) => {
 
 // Start exploration
 router.post('/explore', async (req, res) => {
-  const { url, credentials } = req.body;
+  const { url, credentials, strategy, limits, scope, safetyPolicy, testData, routePatterns, recording, storageState, loginScript } = req.body;
 
   if (!url) {
     logger.error('API', 'Exploration failed: URL is required');
@@ -71,7 +71,7 @@ router.post('/explore', async (req, res) => {
     const response = await fetch(`${CORE_SERVICE_URL}/explore`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ url, credentials }),
+      body: JSON.stringify({ url, credentials, strategy, limits, scope, safetyPolicy, testData, routePatterns, recording, storageState, loginScript }),
     });
 
     if (!response.ok) {
@@ -97,6 +97,162 @@ router.post('/explore', async (req, res) => {
   }
 });
 
+// Start an exploration campaign (one session per persona)
+router.post('/campaigns', async (req, res) => {
+  const { url, personas, mode, strategy, limits, scope, safetyPolicy, testData, routePatterns, recording } = req.body;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/campaigns`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, personas, mode, strategy, limits, scope, safetyPolicy, testData, routePatterns, recording }),
+    });
+
+    const data = await response.json();
+    // Validation errors (400) are passed through so the client sees which persona is invalid
+    res.status(response.status).json(data);
+  } catch (error) {
+    logger.error('API', 'Error starting campaign', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to start campaign',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Get a campaign with the status of each persona's session
+router.get('/campaigns/:campaignId', async (req, res) => {
+  const { campaignId } = req.params;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/campaigns/${encodeURIComponent(campaignId)}`);
+
+    if (response.status === 404) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+    if (!response.ok) {
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    res.json(data);
+  } catch (error) {
+    logger.error('API', 'Error getting campaign', {
+      campaignId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to get campaign',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Compare the personas of a campaign (permission matrix)
+router.get('/campaigns/:campaignId/comparison', async (req, res) => {
+  const { campaignId } = req.params;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/campaigns/${encodeURIComponent(campaignId)}/comparison`);
+
+    if (response.status === 404) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+    if (!response.ok) {
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    res.json(data);
+  } catch (error) {
+    logger.error('API', 'Error comparing campaign personas', {
+      campaignId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to compare campaign personas',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// List the stored login recipes
+router.get('/login-recipes', async (req, res) => {
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/login-recipes`);
+
+    if (!response.ok) {
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    res.json(data);
+  } catch (error) {
+    logger.error('API', 'Error listing login recipes', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to list login recipes',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Save a login recipe
+router.post('/login-recipes', async (req, res) => {
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/login-recipes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(req.body),
+    });
+
+    const data = await response.json();
+    // Validation errors (400) are passed through so the client sees which step is invalid
+    res.status(response.status).json(data);
+  } catch (error) {
+    logger.error('API', 'Error saving login recipe', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to save login recipe',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Delete the login recipe of a URL pattern
+router.delete('/login-recipes/:urlPattern', async (req, res) => {
+  const { urlPattern } = req.params;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/login-recipes/${encodeURIComponent(urlPattern)}`, {
+      method: 'DELETE',
+    });
+
+    if (response.status === 404) {
+      return res.status(404).json({ error: 'Login recipe not found' });
+    }
+    if (!response.ok) {
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    res.json(data);
+  } catch (error) {
+    logger.error('API', 'Error deleting login recipe', {
+      urlPattern,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to delete login recipe',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 // Get session status
 router.get('/session/:sessionId', async (req, res) => {
   const { sessionId } = req.params;
@@ -157,6 +313,73 @@ router.post('/session/:sessionId/stop', async (req, res) => {
   }
 });
 
+// Pause exploration
+router.post('/session/:sessionId/pause', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/session/${sessionId}/pause`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      if (response.status === 404 || response.status === 409) {
+        return res.status(response.status).json(errorData);
+      }
+      throw new Error(errorData.message || `Core service returned ${response.status}`);
+    }
+
+    const result = await response.json();
+    res.json(result);
+  } catch (error) {
+    logger.error('API', 'Error pausing session', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({
+      error: 'Failed to pause session',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Resume a paused exploration
+router.post('/session/:sessionId/resume', async (req, res) => {
+  const { sessionId } = req.params;
+  const { credentials } = req.body ?? {};
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/session/${sessionId}/resume`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ credentials }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      if (response.status === 404 || response.status === 409) {
+        return res.status(response.status).json(errorData);
+      }
+      throw new Error(errorData.message || `Core service returned ${response.status}`);
+    }
+
+    const result = await response.json();
+    res.json(result);
+  } catch (error) {
+    logger.error('API', 'Error resuming session', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    res.status(500).json({
+      error: 'Failed to resume session',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 // List all sessions
 router.get('/sessions', async (req, res) => {
   try {
@@ -211,7 +434,7 @@ router.get('/graph', async (req, res) => {
 
 // Start retry for a user story
 router.post('/retry', async (req, res) => {
-  const { sessionId, storyIndex, credentials } = req.body;
+  const { sessionId, storyIndex, credentials, recording, storageState, reuseStorageState } = req.body;
 
   if (!sessionId || storyIndex === undefined) {
     return res.status(400).json({ error: 'sessionId and storyIndex are required' });
@@ -221,7 +444,7 @@ router.post('/retry', async (req, res) => {
     const response = await fetch(`${CORE_SERVICE_URL}/retry`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ sessionId, storyIndex, credentials }),
+      body: JSON.stringify({ sessionId, storyIndex, credentials, recording, storageState, reuseStorageState }),
     });
 
     if (!response.ok) {
@@ -298,5 +521,230 @@ router.get('/session/:sessionId/retries', async (req, res) => {
   }
 });
 
+// List the artifacts (screenshots, traces, videos) recorded during a session
+router.get('/session/:sessionId/artifacts', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/session/${encodeURIComponent(sessionId)}/artifacts`);
+
+    if (!response.ok) {
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    res.json(data);
+  } catch (error) {
+    logger.error('API', 'Error listing artifacts', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to list artifacts',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Get an artifact (screenshot, trace, video) recorded during a session
+router.get('/session/:sessionId/artifacts/:artifactId', async (req, res) => {
+  const { sessionId, artifactId } = req.params;
+
+  try {
+    const response = await fetch(
+      `${CORE_SERVICE_URL}/session/${encodeURIComponent(sessionId)}/artifacts/${encodeURIComponent(artifactId)}`
+    );
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return res.status(404).json({ error: 'Artifact not found' });
+      }
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    res.type(response.headers.get('content-type') || 'application/octet-stream');
+    res.send(Buffer.from(await response.arrayBuffer()));
+  } catch (error) {
+    logger.error('API', 'Error getting artifact', {
+      sessionId,
+      artifactId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to get artifact',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Get the problems found during a session (console errors, uncaught exceptions)
+router.get('/session/:sessionId/findings', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/session/${encodeURIComponent(sessionId)}/findings`);
+
+    if (!response.ok) {
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    res.json(data);
+  } catch (error) {
+    logger.error('API', 'Error getting findings', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to get findings',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Replay the shortest path to a finding
+router.post('/session/:sessionId/findings/:findingKey/retry', async (req, res) => {
+  const { sessionId, findingKey } = req.params;
+  const { credentials, recording, storageState, reuseStorageState } = req.body;
+
+  try {
+    const response = await fetch(
+      `${CORE_SERVICE_URL}/session/${encodeURIComponent(sessionId)}/findings/${encodeURIComponent(findingKey)}/retry`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ credentials, recording, storageState, reuseStorageState }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.message || errorData.error || `Core service returned ${response.status}`);
+    }
+
+    const result = await response.json();
+    res.json(result);
+  } catch (error) {
+    logger.error('API', 'Error replaying finding', {
+      sessionId,
+      findingKey,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to replay finding',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Get the accessibility violations found during a session
+router.get('/session/:sessionId/accessibility', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/session/${encodeURIComponent(sessionId)}/accessibility`);
+
+    if (!response.ok) {
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    res.json(data);
+  } catch (error) {
+    logger.error('API', 'Error getting accessibility report', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to get accessibility report',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Get the form fields of a session with their validation rules
+router.get('/session/:sessionId/validation-rules', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/session/${encodeURIComponent(sessionId)}/validation-rules`);
+
+    if (!response.ok) {
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    res.json(data);
+  } catch (error) {
+    logger.error('API', 'Error getting validation rules', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to get validation rules',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Export the API calls recorded during a session as an HTTP Archive (HAR)
+router.get('/session/:sessionId/har', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/session/${encodeURIComponent(sessionId)}/har`);
+
+    if (!response.ok) {
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    const contentDisposition = response.headers.get('content-disposition');
+    if (contentDisposition) {
+      res.setHeader('Content-Disposition', contentDisposition);
+    }
+    res.json(await response.json());
+  } catch (error) {
+    logger.error('API', 'Error exporting HAR', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to export HAR',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+// Export the cookies and local storage of a session
+router.get('/session/:sessionId/storage-state', async (req, res) => {
+  const { sessionId } = req.params;
+
+  try {
+    const response = await fetch(`${CORE_SERVICE_URL}/session/${encodeURIComponent(sessionId)}/storage-state`);
+
+    if (response.status === 404) {
+      return res.status(404).json({ error: 'No storage state found for this session' });
+    }
+    if (!response.ok) {
+      throw new Error(`Core service returned ${response.status}`);
+    }
+
+    const contentDisposition = response.headers.get('content-disposition');
+    if (contentDisposition) {
+      res.setHeader('Content-Disposition', contentDisposition);
+    }
+    res.json(await response.json());
+  } catch (error) {
+    logger.error('API', 'Error exporting storage state', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      error: 'Failed to export storage state',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 export default router;
 